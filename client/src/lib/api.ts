@@ -2,6 +2,359 @@ import { captureError } from "./sentry";
 
 const API_BASE = "";
 
+export interface ChatResponse {
+  id: string;
+  conversationId: string;
+  response: string;
+  corpusItemsUsed: number;
+  aiLevel: number;
+  track?: string;
+  sources: Array<{ chunkText: string; score: number; title: string | null; rerankScore?: number }>;
+  isGrounded: boolean;
+  usedCorpus: boolean;
+  grounded: boolean;
+  level: number;
+  policySnapshot: {
+    retrievalEnabled: boolean;
+    preferCorpus: "off" | "weak" | "strong";
+    topK: number;
+    minScore: number;
+    requireCitations: boolean;
+    regenerateUnsupported: boolean;
+    maxAnswerTokens: number;
+    temperature: number;
+    simplicityMode: boolean;
+    maxHistoryTokens: number;
+  } | null;
+  citationReport: {
+    passed: boolean;
+    citedSources: number[];
+    invalidCitations: number[];
+    sentences: Array<{
+      text: string;
+      citations: number[];
+      support: number;
+      lexical: number;
+      semantic: number | null;
+      supported: boolean;
+    }>;
+    supportedRatio: number;
+    regenerated: boolean;
+    reason?: "no_citations" | "unsupported";
+  } | null;
+  cache: {
+    hit: boolean;
+    similarity?: number;
+    cachedAt?: string;
+    entryId?: string;
+  } | null;
+  toolInvocations: ChatToolInvocation[];
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimated: boolean;
+  } | null;
+  outputGuard: {
+    action: "redacted" | "blocked" | "flagged";
+  } | null;
+  isGated: boolean;
+  learningSteps?: string[];
+  complexityEstimate: {
+    complexity: number;
+    confidence: number;
+    score: number | null;
+    confident: boolean;
+    maxAllowed: number;
+    neighbors: Array<{
+      source: "question" | "corpus";
+      id: string;
+      complexity: number;
+      similarity: number;
+    }>;
+  };
+  metadata: {
+    activeModelVersionId: string | null;
+    corpusHash: string;
+  };
+}
+
+export interface TokenUsageStatus {
+  enabled: boolean;
+  cycleNumber: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  requestCount: number;
+  quota: number;
+  remaining: number;
+  exhausted: boolean;
+  level: number;
+  stakeHive: number;
+}
+
+export interface ChatToolInvocation {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string | null;
+  error: string | null;
+}
+
+export interface ChatHistoryMessage {
+  id: string;
+  conversationId: string | null;
+  userMessage: string;
+  aiResponse: string;
+  aiLevel: number;
+  toolInvocations: ChatToolInvocation[] | null;
+  sources?: Array<{ chunkText: string; score: number; title: string | null; rerankScore?: number }> | null;
+  feedbackRating: 1 | -1 | null;
+  feedbackReason: string | null;
+  createdAt: string;
+}
+
+export interface ChatSearchResult {
+  id: string;
+  conversationId: string | null;
+  conversationTitle: string | null;
+  trackId: string | null;
+  createdAt: string;
+  rank: number;
+  userSnippet: string; // Matches wrapped in ** **
+  responseSnippet: string;
+}
+
+export interface ChatDeletionResult {
+  success: boolean;
+  deletedMessages: number;
+  deletedConversations: number;
+  deletedOutputFlags: number;
+  scrubbedCacheEntries: number;
+  resetSummaries: number;
+}
+
+export type ChatFeedbackRating = "up" | "down";
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  attemptId?: string | null; // Set for mistake reviews of a training attempt
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExplainableAttempt {
+  id: string;
+  trackId: string | null;
+  trackName: string | null;
+  difficulty: string;
+  status: string;
+  scorePct: number | null;
+  missedCount: number;
+  totalCount: number;
+  conversationId: string | null; // Existing review, if the attempt was already explained
+  createdAt: string;
+}
+
+export interface ExplainAttemptResponse {
+  conversationId: string;
+  created: boolean;
+  explainedCount?: number;
+  missedCount?: number;
+  usage?: { promptTokens: number; completionTokens: number; totalTokens: number; estimated: boolean };
+}
+
+export type ChunkingStrategy = "fixed" | "markdown" | "sentence" | "code" | "token";
+
+export interface ChunkingConfig {
+  strategy: ChunkingStrategy;
+  chunkSize: number;
+  overlap: number;
+}
+
+export type ChunkingInput = Pick<ChunkingConfig, "strategy"> & Partial<ChunkingConfig>;
+
+export interface ChunkingUpdateResponse {
+  success: boolean;
+  chunking: ChunkingConfig | null;
+  requeued: number; // Re-embedding jobs enqueued because the effective strategy changed
+  jobIds: string[];
+}
+
+export interface EmbeddingSpaceInfo {
+  id: string;
+  provider: string;
+  model: string;
+  dimension: number;
+  status: "building" | "active" | "retired";
+  itemsTotal: number;
+  chunkCount: number;
+  createdAt: string;
+  activatedAt: string | null;
+  retiredAt: string | null;
+}
+
+export interface EmbeddingSpaceStatus {
+  active: { id: string; provider: string; model: string; dimension: number; activatedAt: string | null };
+  migration: {
+    id: string;
+    provider: string;
+    model: string;
+    startedAt: string;
+    itemsQueued: number;
+    itemsTotal: number;
+    itemsEmbedded: number;
+    percent: number;
+  } | null;
+  configured: { provider: string; model: string; matchesActive: boolean };
+}
+
+export interface DuplicateMatch {
+  corpusItemId: string;
+  title: string | null;
+  trackId: string | null;
+  excerpt: string;
+  similarity: number;
+  exact: boolean;
+  minhashSimilarity: number | null;
+  embeddingSimilarity: number | null;
+}
+
+export interface DuplicateCheckResult {
+  verdict: "unique" | "similar" | "duplicate";
+  similarity: number;
+  matches: DuplicateMatch[];
+  thresholds: { warn: number; block: number };
+  checks: { exact: boolean; minhash: boolean; embedding: boolean };
+}
+
+export interface InjectionSignal {
+  heuristic: "imperative" | "role_marker" | "encoded_payload" | "obfuscation";
+  pattern: string;
+  excerpt: string;
+  weight: number;
+}
+
+export interface InjectionScanResult {
+  score: number;
+  signals: InjectionSignal[];
+  verdict: "clean" | "flagged" | "blocked";
+}
+
+export interface PiiReport {
+  policy: "redact" | "reject";
+  action: "none" | "redacted" | "rejected";
+  total: number;
+  entities: Array<{
+    type: "email" | "phone" | "street_address" | "wallet_address" | "credit_card" | "ip_address";
+    count: number;
+    examples: string[]; // Masked
+  }>;
+}
+
+export interface QuarantinedChunk {
+  chunkId: string;
+  corpusItemId: string;
+  chunkIndex: number;
+  chunkText: string;
+  injectionScore: number;
+  signals: InjectionSignal[];
+  item: {
+    title: string | null;
+    trackId: string | null;
+    status: string;
+    submitterWallet: string | null;
+    injectionScore: number | null;
+  };
+  createdAt: string;
+}
+
+export interface CorpusItemMetadata {
+  sourceUrl?: string;
+  license?: string;
+  language?: string;
+  tags?: string[];
+  difficulty?: number;
+  author?: string;
+}
+
+export interface CorpusRetrievalFilter {
+  tags?: string[];
+  languages?: string[];
+  licenses?: string[];
+}
+
+export type CorpusFacetName = "tags" | "language" | "license" | "contributor" | "embedStatus" | "status" | "trackId";
+
+export type CorpusFacets = Record<CorpusFacetName, Array<{ value: string; count: number }>>;
+
+export interface CorpusItemRevision {
+  id: string;
+  corpusItemId: string;
+  revisionNumber: number;
+  normalizedText: string;
+  trackId: string | null;
+  contentHash: string;
+  authorWallet: string | null;
+  reason: string | null;
+  changeRatio: string;
+  returnedToReview: boolean;
+  revertedFromRevisionId: string | null;
+  createdAt: string;
+}
+
+export interface CorpusRevisionDiff {
+  from: CorpusItemRevision;
+  to: CorpusItemRevision;
+  diff: {
+    segments: Array<{ op: "equal" | "insert" | "delete"; text: string }>;
+    wordsAdded: number;
+    wordsRemoved: number;
+    changeRatio: number;
+  };
+}
+
+export interface CorpusEditResponse {
+  id: string;
+  status: "draft" | "approved" | "rejected";
+  normalizedText: string;
+  revision: CorpusItemRevision | null;
+  changeRatio: number;
+  returnedToReview: boolean;
+}
+
+export interface CorpusUploadReport {
+  id: string;
+  filename: string;
+  format: "markdown" | "html" | "text" | "pdf";
+  sizeBytes: number;
+  trackId: string | null;
+  autoApprove: boolean;
+  status: "queued" | "processing" | "completed" | "failed";
+  progress: {
+    sectionsTotal: number;
+    sectionsProcessed: number;
+    itemsCreated: number;
+    duplicatesSkipped: number;
+    percent: number;
+  };
+  results: Array<{
+    index: number;
+    title: string;
+    outcome: "created" | "duplicate" | "empty" | "injection" | "pii";
+    corpusItemId: string | null;
+    duplicateOf?: string;
+    similarity?: number;
+    injectionScore?: number;
+    piiFound?: number;
+  }>;
+  error: string | null;
+  job: { status: string; attempts: number; lastError: string | null } | null;
+  uploadedByWallet: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
 async function fetchApi<T>(
   endpoint: string,
   options: RequestInit = {}
@@ -16,38 +369,99 @@ async function fetchApi<T>(
   });
 
   if (!res.ok) {
-    const errorBody = await res.json().catch(() => ({ error: res.statusText }));
-    const requestId = res.headers.get("x-request-id") || errorBody.requestId;
-    let errorMessage = errorBody.message || errorBody.error || "Request failed";
-    
-    // Improve error messages for common status codes
-    if (res.status === 429) {
-      const retryAfter = res.headers.get("retry-after");
-      if (retryAfter) {
-        errorMessage = `Too many requests. Please wait ${retryAfter} seconds and try again.`;
-      } else {
-        errorMessage = "Too many requests. Please slow down and try again.";
-      }
-    }
-    
-    const error = new Error(errorMessage);
-    // Don't log 401 Unauthorized or 429 Rate Limit as errors - they're expected
-    if (res.status !== 401 && res.status !== 429) {
-      captureError(error, {
-        requestId,
-        extra: { endpoint, status: res.status, errorBody },
-      });
-    }
-    (error as any).status = res.status;
-    (error as any).isUnauthorized = res.status === 401;
-    (error as any).isRateLimit = res.status === 429;
-    
-    throw error;
+    throw await buildApiError(res, endpoint);
   }
 
   return res.json();
 }
 
+async function buildApiError(res: Response, endpoint: string): Promise<Error> {
+  const errorBody = await res.json().catch(() => ({ error: res.statusText }));
+  const requestId = res.headers.get("x-request-id") || errorBody.requestId;
+  let errorMessage = errorBody.message || errorBody.error || "Request failed";
+  
+  // Improve error messages for common status codes (token quota errors carry their own message)
+  if (res.status === 429 && errorBody.error !== "quota_exhausted") {
+    const retryAfter = res.headers.get("retry-after");
+    if (retryAfter) {
+      errorMessage = `Too many requests. Please wait ${retryAfter} seconds and try again.`;
+    } else {
+      errorMessage = "Too many requests. Please slow down and try again.";
+    }
+  }
+  
+  const error = new Error(errorMessage);
+  // Don't log 401 Unauthorized or 429 Rate Limit as errors - they're expected
+  if (res.status !== 401 && res.status !== 429) {
+    captureError(error, {
+      requestId,
+      extra: { endpoint, status: res.status, errorBody },
+    });
+  }
+  (error as any).status = res.status;
+  (error as any).isUnauthorized = res.status === 401;
+  (error as any).isRateLimit = res.status === 429;
+  (error as any).code = typeof errorBody.error === "string" ? errorBody.error : undefined;
+  (error as any).usage = errorBody.usage;
+  (error as any).duplicateCheck = errorBody.duplicateCheck;
+  (error as any).injectionScan = errorBody.injectionScan;
+  (error as any).piiReport = errorBody.piiReport;
+  
+  return error;
+}
+
+/**
+ * POST to a Server-Sent Events endpoint and dispatch each event as it arrives.
+ * Resolves when the server closes the stream; rejects on HTTP errors or abort.
+ */
+async function streamApi(
+  endpoint: string,
+  body: unknown,
+  onEvent: (event: string, data: any) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const res = await fetch(`${API_BASE}${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify(body),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok) {
+    throw await buildApiError(res, endpoint);
+  }
+  if (!res.body) {
+    throw new Error("Streaming not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() ?? "";
+
+    for (const frame of frames) {
+      let event = "message";
+      let data = "";
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
 export const api = {
   auth: {
     getNonce: (wallet: string) =>
@@ -123,12 +537,28 @@ export const api = {
     getAll: (params?: {
       trackId?: string;
       search?: string;
+      status?: string[];
+      embedStatus?: string[];
+      contributor?: string[];
+      tags?: string[];
+      language?: string[];
+      license?: string[];
+      createdFrom?: string;
+      createdTo?: string;
+      approvedFrom?: string;
+      approvedTo?: string;
       page?: number;
       limit?: number;
     }) => {
       const searchParams = new URLSearchParams();
       if (params?.trackId) searchParams.set("trackId", params.trackId);
       if (params?.search) searchParams.set("search", params.search);
+      for (const key of ["status", "embedStatus", "contributor", "tags", "language", "license"] as const) {
+        if (params?.[key]?.length) searchParams.set(key, params[key]!.join(","));
+      }
+      for (const key of ["createdFrom", "createdTo", "approvedFrom", "approvedTo"] as const) {
+        if (params?.[key]) searchParams.set(key, params[key]!);
+      }
       if (params?.page) searchParams.set("page", String(params.page));
       if (params?.limit) searchParams.set("limit", String(params.limit));
       const query = searchParams.toString();
@@ -143,10 +573,14 @@ export const api = {
           embedStatus: "not_embedded" | "queued" | "embedding" | "embedded" | "failed";
           embedError: string | null;
           embedAttempts: number;
+          chunkingConfig: ChunkingConfig | null;
+          metadata: CorpusItemMetadata;
           createdByWallet: string | null;
+          submitterWalletPubkey: string | null;
           approvedAt: string | null;
           createdAt: string;
         }>;
+        facets: CorpusFacets;
         pagination: {
           page: number;
           limit: number;
@@ -164,18 +598,55 @@ export const api = {
         currentCycleNumber: number | null;
       }>("/api/corpus/stats"),
 
-    create: (trackId: string, text: string, sourceAttemptId?: string) =>
-      fetchApi<{ id: string }>("/api/corpus", {
+    create: (trackId: string, text: string, sourceAttemptId?: string, metadata?: CorpusItemMetadata) =>
+      fetchApi<{ id: string; duplicateCheck: DuplicateCheckResult; injectionScan: InjectionScanResult; piiReport: PiiReport }>("/api/corpus", {
         method: "POST",
-        body: JSON.stringify({ trackId, text, sourceAttemptId }),
+        body: JSON.stringify({ trackId, text, sourceAttemptId, metadata }),
       }),
 
-    update: (id: string, data: { text?: string; trackId?: string }) =>
-      fetchApi<{ id: string }>(`/api/corpus/${id}`, {
+    checkDuplicates: (text: string, excludeItemId?: string) =>
+      fetchApi<DuplicateCheckResult>("/api/corpus/duplicates/check", {
+        method: "POST",
+        body: JSON.stringify({ text, excludeItemId }),
+      }),
+
+    update: (id: string, data: { text?: string; trackId?: string; reason?: string; metadata?: CorpusItemMetadata }) =>
+      fetchApi<CorpusEditResponse>(`/api/corpus/${id}`, {
         method: "PUT",
         body: JSON.stringify(data),
       }),
 
+    upload: (file: File, options: { trackId?: string; autoApprove?: boolean } = {}) => {
+      const searchParams = new URLSearchParams({ filename: file.name });
+      if (options.trackId) searchParams.set("trackId", options.trackId);
+      if (options.autoApprove) searchParams.set("autoApprove", "true");
+      return fetchApi<CorpusUploadReport>(`/api/corpus/uploads?${searchParams.toString()}`, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+    },
+
+    getUploads: (limit?: number) =>
+      fetchApi<{ uploads: CorpusUploadReport[] }>(`/api/corpus/uploads${limit ? `?limit=${limit}` : ""}`),
+
+    getUpload: (id: string) =>
+      fetchApi<CorpusUploadReport>(`/api/corpus/uploads/${id}`),
+
+    getRevisions: (id: string) =>
+      fetchApi<{ revisions: CorpusItemRevision[] }>(`/api/corpus/${id}/revisions`),
+
+    diffRevisions: (id: string, fromRevisionId: string, toRevisionId: string) =>
+      fetchApi<CorpusRevisionDiff>(
+        `/api/corpus/${id}/revisions/diff?from=${encodeURIComponent(fromRevisionId)}&to=${encodeURIComponent(toRevisionId)}`
+      ),
+
+    revert: (id: string, revisionId: string, reason?: string) =>
+      fetchApi<CorpusEditResponse>(`/api/corpus/${id}/revisions/${revisionId}/revert`, {
+        method: "POST",
+        body: JSON.stringify({ reason }),
+      }),
+
     delete: (id: string) =>
       fetchApi<{ success: boolean }>(`/api/corpus/${id}`, {
         method: "DELETE",
@@ -200,6 +671,7 @@ export const api = {
           id: string;
           title: string | null;
         }>;
+        spaces: EmbeddingSpaceStatus;
       }>("/api/corpus/embed-status"),
 
     retryEmbed: (id: string) =>
@@ -211,46 +683,192 @@ export const api = {
       fetchApi<{ success: boolean; message: string }>(`/api/corpus/${id}/force-reembed`, {
         method: "POST",
       }),
+
+    // Partial configs get the strategy's default size and overlap; null inherits from the track
+    setChunking: (id: string, chunking: ChunkingInput | null) =>
+      fetchApi<ChunkingUpdateResponse>(`/api/corpus/${id}/chunking`, {
+        method: "PUT",
+        body: JSON.stringify({ chunking }),
+      }),
+
+    setTrackChunking: (trackId: string, chunking: ChunkingInput | null) =>
+      fetchApi<ChunkingUpdateResponse>(`/api/tracks/${trackId}/chunking`, {
+        method: "PUT",
+        body: JSON.stringify({ chunking }),
+      }),
+
+    rechunk: (trackId?: string) =>
+      fetchApi<{ success: boolean; requeued: number; corpusItemIds: string[]; jobIds: string[] }>("/api/corpus/rechunk", {
+        method: "POST",
+        body: JSON.stringify({ trackId }),
+      }),
+
+    getEmbeddingSpaces: () =>
+      fetchApi<EmbeddingSpaceStatus & { spaces: EmbeddingSpaceInfo[] }>("/api/corpus/embedding-spaces"),
+
+    // Defaults to the configured embedding provider and model
+    migrateEmbeddings: (target: { provider?: string; model?: string } = {}) =>
+      fetchApi<{ success: boolean; space: EmbeddingSpaceInfo; queued: number; cutover: boolean }>("/api/corpus/embedding-spaces/migrate", {
+        method: "POST",
+        body: JSON.stringify(target),
+      }),
+
+    cutoverEmbeddings: (spaceId: string) =>
+      fetchApi<{ success: boolean }>(`/api/corpus/embedding-spaces/${spaceId}/cutover`, {
+        method: "POST",
+      }),
+
+    cancelEmbeddingMigration: (spaceId: string) =>
+      fetchApi<{ success: boolean }>(`/api/corpus/embedding-spaces/${spaceId}/cancel`, {
+        method: "POST",
+      }),
+
+    getFeedback: () =>
+      fetchApi<{
+        items: Array<{
+          corpusItemId: string;
+          up: number;
+          down: number;
+          qualityScore: number;
+          flagged: boolean;
+        }>;
+        flaggedCount: number;
+      }>("/api/corpus/feedback"),
+
+    getQuarantine: (limit?: number) =>
+      fetchApi<{ chunks: QuarantinedChunk[] }>(`/api/corpus/quarantine${limit ? `?limit=${limit}` : ""}`),
+
+    clearQuarantined: (chunkId: string) =>
+      fetchApi<{ success: boolean; corpusItemId: string; released: number }>(`/api/corpus/quarantine/${chunkId}/clear`, {
+        method: "POST",
+      }),
+
+    rejectQuarantined: (chunkId: string) =>
+      fetchApi<{ success: boolean; corpusItemId: string; status: string }>(`/api/corpus/quarantine/${chunkId}/reject`, {
+        method: "POST",
+      }),
   },
 
   chat: {
-    send: (message: string, aiLevel: number, track?: string) =>
-      fetchApi<{
-        id: string;
-        response: string;
-        corpusItemsUsed: number;
-        aiLevel: number;
-        track?: string;
-        sources: Array<{ chunkText: string; score: number; title: string | null }>;
-        isGrounded: boolean;
-        usedCorpus: boolean;
-        grounded: boolean;
-        level: number;
-        policySnapshot: {
-          retrievalEnabled: boolean;
-          preferCorpus: "off" | "weak" | "strong";
-          topK: number;
-          minScore: number;
-          requireCitations: boolean;
-          maxAnswerTokens: number;
-          temperature: number;
-          simplicityMode: boolean;
-        };
-      }>("/api/ai/chat", {
+    send: (message: string, aiLevel: number, track?: string, conversationId?: string, corpusFilter?: CorpusRetrievalFilter) =>
+      fetchApi<ChatResponse>("/api/ai/chat", {
         method: "POST",
-        body: JSON.stringify({ message, aiLevel, track }),
+        body: JSON.stringify({ message, aiLevel, track, conversationId, corpusFilter }),
       }),
 
+    stream: async (
+      message: string,
+      aiLevel: number,
+      opts: {
+        track?: string;
+        conversationId?: string;
+        corpusFilter?: CorpusRetrievalFilter;
+        onToken: (token: string) => void;
+        onTool?: (invocation: ChatToolInvocation) => void;
+        signal?: AbortSignal;
+      }
+    ): Promise<ChatResponse & { aborted: boolean }> => {
+      let final = null as (ChatResponse & { aborted: boolean }) | null;
+      let streamError = null as Error | null;
+
+      await streamApi(
+        "/api/ai/chat/stream",
+        { message, aiLevel, track: opts.track, conversationId: opts.conversationId, corpusFilter: opts.corpusFilter },
+        (event, data) => {
+          if (event === "token") {
+            opts.onToken(data.token);
+          } else if (event === "tool") {
+            opts.onTool?.(data);
+          } else if (event === "done") {
+            final = data;
+          } else if (event === "error") {
+            streamError = new Error(data.message || data.error || "Failed to get response");
+            (streamError as any).code = data.error;
+          }
+        },
+        opts.signal
+      );
+
+      if (streamError) throw streamError;
+      if (!final) throw new Error("Response stream ended unexpectedly");
+      return final;
+    },
+
     getHistory: (limit?: number) =>
       fetchApi<
         Array<{
-          id: string;
-          userMessage: string;
-          aiResponse: string;
-          aiLevel: number;
-          createdAt: string;
+          conversationId: string | null;
+          title: string;
+          updatedAt: string;
+          messages: ChatHistoryMessage[];
         }>
       >(`/api/ai/chat/history${limit ? `?limit=${limit}` : ""}`),
+
+    getUsage: () => fetchApi<TokenUsageStatus>("/api/ai/usage"),
+
+    listConversations: (limit?: number) =>
+      fetchApi<ConversationSummary[]>(`/api/ai/conversations${limit ? `?limit=${limit}` : ""}`),
+
+    createConversation: (title?: string) =>
+      fetchApi<ConversationSummary>("/api/ai/conversations", {
+        method: "POST",
+        body: JSON.stringify({ title }),
+      }),
+
+    sendFeedback: (messageId: string, rating: ChatFeedbackRating | null, reason?: string) =>
+      fetchApi<{ id: string; rating: ChatFeedbackRating | null; reason: string | null; feedbackAt: string | null }>(
+        `/api/ai/chat/${messageId}/feedback`,
+        {
+          method: "POST",
+          body: JSON.stringify({ rating, reason }),
+        }
+      ),
+
+    getConversationMessages: (id: string) =>
+      fetchApi<{ conversation: { id: string; title: string }; messages: ChatHistoryMessage[] }>(
+        `/api/ai/conversations/${id}/messages`
+      ),
+
+    renameConversation: (id: string, title: string) =>
+      fetchApi<ConversationSummary>(`/api/ai/conversations/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ title }),
+      }),
+
+    deleteConversation: (id: string) =>
+      fetchApi<ChatDeletionResult>(`/api/ai/conversations/${id}`, {
+        method: "DELETE",
+      }),
+
+    search: (q: string, opts: { conversationId?: string; limit?: number; offset?: number } = {}) => {
+      const params = new URLSearchParams({ q });
+      if (opts.conversationId) params.set("conversationId", opts.conversationId);
+      if (opts.limit) params.set("limit", String(opts.limit));
+      if (opts.offset) params.set("offset", String(opts.offset));
+      return fetchApi<{ query: string; results: ChatSearchResult[] }>(`/api/ai/chat/search?${params}`);
+    },
+
+    // Plain URL so the browser downloads the file (session cookie authenticates it)
+    exportUrl: (format: "json" | "markdown", conversationId?: string) =>
+      `${API_BASE}/api/ai/chat/export?format=${format}${conversationId ? `&conversationId=${encodeURIComponent(conversationId)}` : ""}`,
+
+    deleteMessage: (id: string) =>
+      fetchApi<ChatDeletionResult>(`/api/ai/chat/messages/${id}`, {
+        method: "DELETE",
+      }),
+
+    deleteHistory: (target: { messageIds: string[] } | { all: true }) =>
+      fetchApi<ChatDeletionResult>("/api/ai/chat/history/delete", {
+        method: "POST",
+        body: JSON.stringify(target),
+      }),
+
+    listExplainableAttempts: () => fetchApi<ExplainableAttempt[]>("/api/ai/explain/attempts"),
+
+    explainAttempt: (attemptId: string) =>
+      fetchApi<ExplainAttemptResponse>(`/api/ai/explain/attempts/${attemptId}`, {
+        method: "POST",
+      }),
   },
 
   train: {
@@ -285,6 +903,7 @@ export const api = {
           refundHive: number;
           stakeAfter: number;
         };
+        piiReport?: PiiReport;
       }>("/api/train-attempts/submit", {
         method: "POST",
         body: JSON.stringify(data),
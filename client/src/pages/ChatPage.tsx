@@ -1,6 +1,22 @@
 import { useState, useEffect, useRef } from "react";
-import { api } from "@/lib/api";
-import { Send, Bot, User, AlertCircle, History, ChevronDown, ChevronUp, BookOpen } from "lucide-react";
+import {
+  api,
+  type ChatFeedbackRating,
+  type ChatHistoryMessage,
+  type ChatResponse,
+  type ConversationSummary,
+  type ChatToolInvocation,
+  type ExplainableAttempt,
+  type ChatSearchResult,
+  type TokenUsageStatus,
+  type CorpusFacets,
+  type CorpusRetrievalFilter,
+} from "@/lib/api";
+import {
+  Send, Bot, User, AlertCircle, History, ChevronDown, ChevronUp, BookOpen, Square,
+  Plus, Pencil, Trash2, Check, X, ThumbsUp, ThumbsDown, Zap, Calculator, Gauge, ShieldAlert,
+  GraduationCap, Loader2, Search, Download, Filter,
+} from "lucide-react";
 
 interface ChatPageProps {
   intelligenceLevel: number;
@@ -10,6 +26,7 @@ interface Source {
   chunkText: string;
   score: number;
   title: string | null;
+  rerankScore?: number;
 }
 
 interface Message {
@@ -21,6 +38,52 @@ interface Message {
   isGrounded?: boolean;
   usedCorpus?: boolean;
   grounded?: boolean;
+  citationReport?: ChatResponse["citationReport"];
+  cache?: ChatResponse["cache"];
+  outputGuard?: ChatResponse["outputGuard"];
+  toolInvocations?: ChatToolInvocation[];
+  chatMessageId?: string; // Persisted chat_messages row, set once the answer is saved
+  feedback?: ChatFeedbackRating | null;
+  streaming?: boolean;
+  stopped?: boolean;
+}
+
+const FEEDBACK_REASONS = ["Inaccurate", "Not helpful", "Wrong sources", "Too vague"];
+
+function describeToolInvocation(tool: ChatToolInvocation): string {
+  const input = tool.name === "calculator"
+    ? String(tool.arguments.expression ?? "")
+    : tool.name === "convert_units"
+      ? `${tool.arguments.value ?? ""} ${tool.arguments.from ?? ""} → ${tool.arguments.to ?? ""}`
+      : tool.name;
+  return tool.error ? `${input}: ${tool.error}` : `${input} = ${tool.result}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 100000 ? 0 : 1)}k` : String(tokens);
+}
+
+// Search snippets mark matches with ** **
+function renderSnippet(snippet: string) {
+  return snippet.split("**").map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-purple-700/60 text-white rounded px-0.5">{part}</mark> : part
+  );
+}
+
+function toMessages(history: ChatHistoryMessage[]): Message[] {
+  return history.flatMap((m) => [
+    { id: `${m.id}-user`, role: "user" as const, content: m.userMessage, timestamp: m.createdAt },
+    {
+      id: `${m.id}-ai`,
+      role: "assistant" as const,
+      content: m.aiResponse,
+      timestamp: m.createdAt,
+      chatMessageId: m.id,
+      sources: m.sources ?? undefined,
+      toolInvocations: m.toolInvocations ?? undefined,
+      feedback: m.feedbackRating === 1 ? "up" as const : m.feedbackRating === -1 ? "down" as const : null,
+    },
+  ]);
 }
 
 export function ChatPage({ intelligenceLevel }: ChatPageProps) {
@@ -28,14 +91,28 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [history, setHistory] = useState<Message[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
   const [showHistory, setShowHistory] = useState(false);
   const [expandedSources, setExpandedSources] = useState<Set<string>>(new Set());
+  const [reasonPromptId, setReasonPromptId] = useState<string | null>(null);
+  const [tokenUsage, setTokenUsage] = useState<TokenUsageStatus | null>(null);
+  const [showReviews, setShowReviews] = useState(false);
+  const [explainableAttempts, setExplainableAttempts] = useState<ExplainableAttempt[]>([]);
+  const [explainingId, setExplainingId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[] | null>(null);
+  const [showScope, setShowScope] = useState(false);
+  const [scopeFacets, setScopeFacets] = useState<CorpusFacets | null>(null);
+  const [corpusFilter, setCorpusFilter] = useState<Required<CorpusRetrievalFilter>>({ tags: [], languages: [], licenses: [] });
   const [ollamaStatus, setOllamaStatus] = useState<{
     ok: boolean;
     error?: string;
   } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const toggleSources = (messageId: string) => {
     setExpandedSources(prev => {
@@ -54,19 +131,198 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
       setOllamaStatus({ ok: false, error: "Failed to check AI status" });
     });
 
-    api.chat.getHistory(20).then((data) => {
-      const formatted = data.flatMap((m) => [
-        { id: `${m.id}-user`, role: "user" as const, content: m.userMessage, timestamp: m.createdAt },
-        { id: `${m.id}-ai`, role: "assistant" as const, content: m.aiResponse, timestamp: m.createdAt },
-      ]);
-      setHistory(formatted);
-    }).catch(() => {});
+    loadConversations();
+    loadUsage();
+
+    // Training results link here with ?explain=<attemptId>
+    const attemptId = new URLSearchParams(window.location.search).get("explain");
+    if (attemptId) {
+      window.history.replaceState(null, "", window.location.pathname);
+      explainAttempt(attemptId);
+    }
   }, []);
 
+  const toggleScope = () => {
+    // Facets of approved items are what retrieval can be scoped to
+    if (!showScope && !scopeFacets) {
+      api.corpus.getAll({ status: ["approved"], limit: 1 }).then((data) => setScopeFacets(data.facets)).catch(() => {});
+    }
+    setShowScope(!showScope);
+  };
+
+  const toggleScopeValue = (field: keyof CorpusRetrievalFilter, value: string) => {
+    setCorpusFilter((prev) => ({
+      ...prev,
+      [field]: prev[field].includes(value) ? prev[field].filter((v) => v !== value) : [...prev[field], value],
+    }));
+  };
+
+  const scopeCount = corpusFilter.tags.length + corpusFilter.languages.length + corpusFilter.licenses.length;
+
+  const loadConversations = () => {
+    api.chat.listConversations().then(setConversations).catch(() => {});
+  };
+
+  const loadUsage = () => {
+    api.chat.getUsage().then(setTokenUsage).catch(() => {});
+  };
+
+  const openConversation = async (id: string) => {
+    setError(null);
+    try {
+      const data = await api.chat.getConversationMessages(id);
+      setActiveConversationId(id);
+      setMessages(toMessages(data.messages));
+    } catch (err: any) {
+      setError(err.message || "Failed to load conversation");
+    }
+  };
+
+  const selectConversation = async (id: string) => {
+    if (loading || id === activeConversationId) return;
+    await openConversation(id);
+  };
+
+  const toggleReviews = () => {
+    if (!showReviews) {
+      api.chat.listExplainableAttempts().then(setExplainableAttempts).catch(() => {});
+    }
+    setShowReviews(!showReviews);
+  };
+
+  // Open (or create) the mistake review conversation for a training attempt
+  const explainAttempt = async (attemptId: string) => {
+    setExplainingId(attemptId);
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await api.chat.explainAttempt(attemptId);
+      await openConversation(result.conversationId);
+      setShowReviews(false);
+      loadConversations();
+      loadUsage();
+    } catch (err: any) {
+      if (err.code === "quota_exhausted" && err.usage) {
+        setTokenUsage(err.usage);
+      }
+      setError(err.message || "Failed to explain attempt");
+    } finally {
+      setExplainingId(null);
+      setLoading(false);
+    }
+  };
+
+  const startNewConversation = () => {
+    if (loading) return;
+    setActiveConversationId(null);
+    setMessages([]);
+    setError(null);
+  };
+
+  const startRename = (conversation: ConversationSummary) => {
+    setRenamingId(conversation.id);
+    setRenameValue(conversation.title);
+  };
+
+  const submitRename = async () => {
+    if (!renamingId || !renameValue.trim()) return;
+    try {
+      const updated = await api.chat.renameConversation(renamingId, renameValue.trim());
+      setConversations((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+      setRenamingId(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to rename conversation");
+    }
+  };
+
+  const runSearch = async () => {
+    const q = searchQuery.trim();
+    if (!q) {
+      setSearchResults(null);
+      return;
+    }
+    try {
+      const data = await api.chat.search(q, { limit: 50 });
+      setSearchResults(data.results);
+    } catch (err: any) {
+      setError(err.message || "Search failed");
+    }
+  };
+
+  const clearSearch = () => {
+    setSearchQuery("");
+    setSearchResults(null);
+  };
+
+  // Removes the answer and the question it replied to
+  const deleteMessage = async (message: Message) => {
+    if (!message.chatMessageId || !confirm("Delete this message? This cannot be undone.")) return;
+    try {
+      await api.chat.deleteMessage(message.chatMessageId);
+      setMessages((prev) => {
+        const index = prev.findIndex((m) => m.id === message.id);
+        const questionIndex = index > 0 && prev[index - 1].role === "user" ? index - 1 : index;
+        return prev.filter((_, i) => i !== index && i !== questionIndex);
+      });
+      setSearchResults((prev) => prev?.filter((r) => r.id !== message.chatMessageId) ?? null);
+    } catch (err: any) {
+      setError(err.message || "Failed to delete message");
+    }
+  };
+
+  const deleteAllHistory = async () => {
+    if (!confirm("Delete your entire chat history, including all conversations? This cannot be undone.")) return;
+    try {
+      await api.chat.deleteHistory({ all: true });
+      setConversations([]);
+      clearSearch();
+      startNewConversation();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete chat history");
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    if (!confirm("Delete this conversation? This cannot be undone.")) return;
+    try {
+      await api.chat.deleteConversation(id);
+      setConversations((prev) => prev.filter((c) => c.id !== id));
+      if (id === activeConversationId) {
+        startNewConversation();
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to delete conversation");
+    }
+  };
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Cancel any in-flight stream when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateMessage = (id: string, update: (message: Message) => Message) => {
+    setMessages((prev) => prev.map((m) => (m.id === id ? update(m) : m)));
+  };
+
+  const sendFeedback = async (message: Message, rating: ChatFeedbackRating | null, reason?: string) => {
+    if (!message.chatMessageId) return;
+    const previous = message.feedback ?? null;
+    updateMessage(message.id, (m) => ({ ...m, feedback: rating }));
+    setReasonPromptId(rating === "down" && !reason ? message.id : null);
+    try {
+      await api.chat.sendFeedback(message.chatMessageId, rating, reason);
+    } catch (err: any) {
+      updateMessage(message.id, (m) => ({ ...m, feedback: previous }));
+      setError(err.message || "Failed to save feedback");
+    }
+  };
+
+  const stopStreaming = () => {
+    abortRef.current?.abort();
+  };
+
   const sendMessage = async () => {
     if (!input.trim() || loading) return;
 
@@ -81,25 +337,67 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
     setLoading(true);
     setError(null);
 
+    const pendingId = `ai-${Date.now()}`;
+    setMessages((prev) => [
+      ...prev,
+      { id: pendingId, role: "assistant", content: "", streaming: true },
+    ]);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      const response = await api.chat.send(input.trim(), intelligenceLevel);
-      const aiMessage: Message = {
+      const response = await api.chat.stream(userMessage.content, intelligenceLevel, {
+        conversationId: activeConversationId ?? undefined,
+        corpusFilter: scopeCount > 0 ? corpusFilter : undefined,
+        signal: controller.signal,
+        onToken: (token) => {
+          updateMessage(pendingId, (m) => ({ ...m, content: m.content + token }));
+        },
+        onTool: (invocation) => {
+          updateMessage(pendingId, (m) => ({ ...m, toolInvocations: [...(m.toolInvocations ?? []), invocation] }));
+        },
+      });
+      updateMessage(pendingId, (m) => ({
+        ...m,
         id: response.id,
-        role: "assistant",
         content: response.response,
         sources: response.sources || [],
         isGrounded: response.isGrounded,
         usedCorpus: response.usedCorpus,
         grounded: response.grounded,
-      };
-      setMessages((prev) => [...prev, aiMessage]);
+        citationReport: response.citationReport,
+        cache: response.cache,
+        outputGuard: response.outputGuard,
+        toolInvocations: response.toolInvocations,
+        chatMessageId: response.id,
+        feedback: null,
+        streaming: false,
+      }));
+      setActiveConversationId(response.conversationId);
+      loadConversations();
+      loadUsage();
     } catch (err: any) {
-      setError(err.message || "Failed to get response");
+      // Keep whatever was streamed before the stream stopped; drop an empty placeholder
+      setMessages((prev) =>
+        prev
+          .filter((m) => m.id !== pendingId || m.content.length > 0)
+          .map((m) => (m.id === pendingId ? { ...m, streaming: false, stopped: true } : m))
+      );
+      if (err.code === "quota_exhausted" && err.usage) {
+        setTokenUsage(err.usage);
+      }
+      if (err.name !== "AbortError") {
+        setError(err.message || "Failed to get response");
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const awaitingFirstToken = loading && messages.some((m) => m.streaming && !m.content);
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -111,25 +409,142 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
     <div className="flex h-[calc(100vh-140px)] max-w-6xl mx-auto">
       {showHistory && (
         <div className="w-80 bg-gray-900 border-r border-gray-800 p-4 overflow-y-auto">
-          <h3 className="font-semibold mb-4 flex items-center gap-2">
-            <History className="w-4 h-4" />
-            Chat History
-          </h3>
-          {history.length === 0 ? (
-            <p className="text-sm text-gray-400">No history yet</p>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Conversations
+            </h3>
+            <button
+              onClick={startNewConversation}
+              disabled={loading}
+              title="New conversation"
+              className="p-1.5 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 rounded transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="relative mb-3">
+            <Search className="w-4 h-4 absolute left-2 top-2 text-gray-500" />
+            <input
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                if (!e.target.value.trim()) setSearchResults(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") runSearch();
+                if (e.key === "Escape") clearSearch();
+              }}
+              placeholder="Search messages"
+              maxLength={200}
+              className="w-full bg-gray-800 border border-gray-700 rounded pl-8 pr-7 py-1.5 text-sm focus:outline-none focus:border-purple-500"
+            />
+            {searchQuery && (
+              <button onClick={clearSearch} title="Clear search" className="absolute right-2 top-2 text-gray-500 hover:text-gray-300">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {searchResults !== null ? (
+            searchResults.length === 0 ? (
+              <p className="text-sm text-gray-400">No messages match</p>
+            ) : (
+              <div className="space-y-2">
+                {searchResults.map((r) => (
+                  <div
+                    key={r.id}
+                    onClick={() => r.conversationId && selectConversation(r.conversationId)}
+                    className={`p-2 rounded text-sm bg-gray-800 ${r.conversationId ? "cursor-pointer hover:bg-gray-700" : ""}`}
+                  >
+                    <div className="text-xs text-gray-500 mb-1 truncate">
+                      {r.conversationTitle ?? "Earlier messages"} · {new Date(r.createdAt).toLocaleDateString()}
+                    </div>
+                    <p className="text-gray-200 line-clamp-2">{renderSnippet(r.userSnippet)}</p>
+                    <p className="text-gray-400 line-clamp-2 mt-1">{renderSnippet(r.responseSnippet)}</p>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : conversations.length === 0 ? (
+            <p className="text-sm text-gray-400">No conversations yet</p>
           ) : (
             <div className="space-y-2">
-              {history.filter(m => m.role === "user").slice(0, 10).map((m) => (
+              {conversations.map((c) => (
                 <div
-                  key={m.id}
-                  className="p-2 bg-gray-800 rounded text-sm truncate cursor-pointer hover:bg-gray-700"
-                  title={m.content}
+                  key={c.id}
+                  onClick={() => selectConversation(c.id)}
+                  className={`group p-2 rounded text-sm cursor-pointer flex items-center gap-2 ${
+                    c.id === activeConversationId ? "bg-purple-900/50" : "bg-gray-800 hover:bg-gray-700"
+                  }`}
                 >
-                  {m.content}
+                  {renamingId === c.id ? (
+                    <>
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") submitRename();
+                          if (e.key === "Escape") setRenamingId(null);
+                        }}
+                        maxLength={120}
+                        className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:border-purple-500"
+                      />
+                      <button
+                        onClick={(e) => { e.stopPropagation(); submitRename(); }}
+                        title="Save"
+                        className="text-gray-400 hover:text-green-400"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setRenamingId(null); }}
+                        title="Cancel"
+                        className="text-gray-400 hover:text-gray-200"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 truncate" title={c.title}>{c.title}</span>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); startRename(c); }}
+                        title="Rename"
+                        className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-200"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); deleteConversation(c.id); }}
+                        title="Delete"
+                        className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
                 </div>
               ))}
             </div>
           )}
+          <div className="mt-4 pt-3 border-t border-gray-800 space-y-2 text-sm">
+            <div className="flex items-center gap-2 text-gray-400">
+              <Download className="w-4 h-4" />
+              <span>Download history:</span>
+              <a href={api.chat.exportUrl("markdown")} className="text-purple-400 hover:text-purple-300">Markdown</a>
+              <a href={api.chat.exportUrl("json")} className="text-purple-400 hover:text-purple-300">JSON</a>
+            </div>
+            <button
+              onClick={deleteAllHistory}
+              disabled={loading}
+              className="flex items-center gap-2 text-gray-400 hover:text-red-400 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete all chat history
+            </button>
+          </div>
         </div>
       )}
 
@@ -147,6 +562,36 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {tokenUsage?.enabled && (
+              <div
+                className={`flex items-center gap-1 text-xs ${
+                  tokenUsage.exhausted ? "text-red-400" : "text-gray-400"
+                }`}
+                title={`Chat tokens used this cycle (${tokenUsage.remaining.toLocaleString()} remaining)`}
+              >
+                <Gauge className="w-4 h-4" />
+                {formatTokens(tokenUsage.totalTokens)} / {formatTokens(tokenUsage.quota)}
+              </div>
+            )}
+            <button
+              onClick={toggleScope}
+              title="Limit answers to tagged corpus items"
+              className={`p-2 rounded-lg transition-colors flex items-center gap-1 ${
+                showScope || scopeCount > 0 ? "bg-purple-600" : "bg-gray-800 hover:bg-gray-700"
+              }`}
+            >
+              <Filter className="w-5 h-5" />
+              {scopeCount > 0 && <span className="text-xs">{scopeCount}</span>}
+            </button>
+            <button
+              onClick={toggleReviews}
+              title="Explain my mistakes"
+              className={`p-2 rounded-lg transition-colors ${
+                showReviews ? "bg-purple-600" : "bg-gray-800 hover:bg-gray-700"
+              }`}
+            >
+              <GraduationCap className="w-5 h-5" />
+            </button>
             <button
               onClick={() => setShowHistory(!showHistory)}
               className={`p-2 rounded-lg transition-colors ${
@@ -164,6 +609,92 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
           </div>
         </div>
 
+        {showScope && (
+          <div className="bg-gray-900 border border-gray-800 mx-4 mt-4 p-3 rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold flex items-center gap-2">
+                <Filter className="w-4 h-4" />
+                Answer from
+              </h3>
+              {scopeCount > 0 && (
+                <button
+                  onClick={() => setCorpusFilter({ tags: [], languages: [], licenses: [] })}
+                  className="text-xs text-gray-400 hover:text-white"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {!scopeFacets ? (
+              <p className="text-sm text-gray-400">Loading...</p>
+            ) : (
+              ([
+                ["tags", "Tags", scopeFacets.tags],
+                ["languages", "Language", scopeFacets.language],
+                ["licenses", "License", scopeFacets.license],
+              ] as const).map(([field, label, values]) => values.length > 0 && (
+                <div key={field} className="flex flex-wrap items-center gap-1 mb-1">
+                  <span className="text-xs text-gray-500 w-16">{label}</span>
+                  {values.map(({ value, count }) => (
+                    <button
+                      key={value}
+                      onClick={() => toggleScopeValue(field, value)}
+                      className={`px-2 py-0.5 rounded text-xs ${
+                        corpusFilter[field].includes(value) ? "bg-purple-600" : "bg-gray-800 hover:bg-gray-700"
+                      }`}
+                    >
+                      {value} <span className="text-gray-400">{count}</span>
+                    </button>
+                  ))}
+                </div>
+              ))
+            )}
+            {scopeFacets && scopeFacets.tags.length + scopeFacets.language.length + scopeFacets.license.length === 0 && (
+              <p className="text-sm text-gray-400">No corpus metadata to filter by yet</p>
+            )}
+          </div>
+        )}
+
+        {showReviews && (
+          <div className="bg-gray-900 border border-gray-800 mx-4 mt-4 p-3 rounded-lg">
+            <h3 className="text-sm font-semibold flex items-center gap-2 mb-2">
+              <GraduationCap className="w-4 h-4" />
+              Explain my mistakes
+            </h3>
+            {explainableAttempts.length === 0 ? (
+              <p className="text-sm text-gray-400">No training attempts with missed questions yet</p>
+            ) : (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {explainableAttempts.map((attempt) => (
+                  <button
+                    key={attempt.id}
+                    onClick={() => explainAttempt(attempt.id)}
+                    disabled={loading}
+                    className="w-full flex items-center justify-between gap-2 p-2 rounded text-sm text-left bg-gray-800 hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    <span className="truncate">
+                      {attempt.trackName ?? "Training"} · <span className="capitalize">{attempt.difficulty}</span>
+                      <span className="text-gray-500"> · {new Date(attempt.createdAt).toLocaleDateString()}</span>
+                    </span>
+                    <span className="flex items-center gap-2 shrink-0 text-xs text-gray-400">
+                      {explainingId === attempt.id && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                      {attempt.missedCount} of {attempt.totalCount} missed
+                      {attempt.conversationId && <span className="text-purple-400">Reviewed</span>}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {explainingId && !showReviews && (
+          <div className="mx-4 mt-4 p-3 rounded-lg bg-gray-800 text-sm text-gray-300 flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Reviewing your missed questions...
+          </div>
+        )}
+
         {!ollamaStatus?.ok && (
           <div className="bg-red-900/30 border border-red-800 mx-4 mt-4 p-3 rounded-lg flex items-center gap-2">
             <AlertCircle className="w-5 h-5 text-red-400 shrink-0" />
@@ -184,7 +715,7 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
             </div>
           )}
 
-          {messages.map((message) => (
+          {messages.filter((m) => !(m.streaming && !m.content)).map((message) => (
             <div
               key={message.id}
               className={`flex gap-3 ${
@@ -212,11 +743,47 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
                       : "bg-gray-800"
                   }`}
                 >
+                  {message.toolInvocations && message.toolInvocations.length > 0 && (
+                    <div className="mb-3 space-y-1">
+                      {message.toolInvocations.map((tool, i) => (
+                        <div
+                          key={i}
+                          className={`text-xs font-mono flex items-center gap-2 rounded px-2 py-1 bg-gray-900 ${
+                            tool.error ? "text-yellow-500" : "text-gray-400"
+                          }`}
+                        >
+                          <Calculator className="w-3 h-3 shrink-0" />
+                          {describeToolInvocation(tool)}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <p className="whitespace-pre-wrap">{message.content}</p>
                 </div>
                 
-                {message.role === "assistant" && (
+                {message.role === "assistant" && !message.streaming && (
                   <div className="mt-2">
+                    {message.stopped && (
+                      <div className="text-xs text-gray-500 flex items-center gap-1 mb-2">
+                        <Square className="w-3 h-3" />
+                        Response stopped
+                      </div>
+                    )}
+                    {message.cache?.hit && (
+                      <div
+                        className="text-xs text-gray-500 flex items-center gap-1 mb-2"
+                        title={message.cache.cachedAt ? `Cached ${new Date(message.cache.cachedAt).toLocaleString()}` : undefined}
+                      >
+                        <Zap className="w-3 h-3" />
+                        Cached answer
+                      </div>
+                    )}
+                    {(message.outputGuard?.action === "redacted" || message.outputGuard?.action === "blocked") && (
+                      <div className="text-xs text-yellow-500 flex items-center gap-1 mb-2">
+                        <ShieldAlert className="w-3 h-3" />
+                        {message.outputGuard.action === "blocked" ? "Response withheld" : "Sensitive content removed"}
+                      </div>
+                    )}
                     {/* Show grounding status */}
                     {message.usedCorpus === false && (
                       <div className="text-xs text-yellow-500 flex items-center gap-1 mb-2">
@@ -228,6 +795,26 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
                       <div className="text-xs text-green-500 flex items-center gap-1 mb-2">
                         <BookOpen className="w-3 h-3" />
                         Grounded
+                        {message.citationReport && (
+                          <span className="text-gray-500">
+                            · {Math.round(message.citationReport.supportedRatio * 100)}% of claims supported
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {message.citationReport && !message.citationReport.passed && (
+                      <div
+                        className="text-xs text-yellow-500 flex items-center gap-1 mb-2"
+                        title={message.citationReport.sentences
+                          .filter((s) => !s.supported)
+                          .map((s) => s.text)
+                          .join("\n")}
+                      >
+                        <AlertCircle className="w-3 h-3" />
+                        {message.citationReport.reason === "no_citations"
+                          ? "No sources cited"
+                          : "Citations not supported by sources"}
+                        {message.citationReport.regenerated && " (after retry)"}
                       </div>
                     )}
                     
@@ -260,6 +847,7 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
                                   </span>
                                   <span className="text-xs text-gray-500">
                                     {Math.round(source.score * 100)}% match
+                                    {source.rerankScore !== undefined && ` · ${Math.round(source.rerankScore * 100)}% reranked`}
                                   </span>
                                 </div>
                                 <p className="text-gray-400 text-xs">{source.chunkText}</p>
@@ -269,13 +857,60 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
                         )}
                       </div>
                     )}
+
+                    {message.chatMessageId && (
+                      <div className="mt-2">
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => sendFeedback(message, message.feedback === "up" ? null : "up")}
+                            title="Good answer"
+                            className={`p-1 rounded transition-colors ${
+                              message.feedback === "up" ? "text-green-400" : "text-gray-500 hover:text-gray-300"
+                            }`}
+                          >
+                            <ThumbsUp className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => sendFeedback(message, message.feedback === "down" ? null : "down")}
+                            title="Bad answer"
+                            className={`p-1 rounded transition-colors ${
+                              message.feedback === "down" ? "text-red-400" : "text-gray-500 hover:text-gray-300"
+                            }`}
+                          >
+                            <ThumbsDown className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => deleteMessage(message)}
+                            disabled={loading}
+                            title="Delete message"
+                            className="p-1 rounded text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                        {reasonPromptId === message.id && (
+                          <div className="flex flex-wrap items-center gap-1 mt-1">
+                            <span className="text-xs text-gray-500 mr-1">What was wrong?</span>
+                            {FEEDBACK_REASONS.map((reason) => (
+                              <button
+                                key={reason}
+                                onClick={() => sendFeedback(message, "down", reason)}
+                                className="text-xs px-2 py-0.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-full"
+                              >
+                                {reason}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
             </div>
           ))}
 
-          {loading && (
+          {awaitingFirstToken && (
             <div className="flex gap-3">
               <div className="w-8 h-8 rounded-full bg-purple-600 flex items-center justify-center">
                 <Bot className="w-4 h-4" />
@@ -306,17 +941,27 @@ export function ChatPage({ intelligenceLevel }: ChatPageProps) {
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Type your message..."
-              disabled={loading || !ollamaStatus?.ok}
+              placeholder={tokenUsage?.exhausted ? "Chat allowance used up for this cycle" : "Type your message..."}
+              disabled={loading || !ollamaStatus?.ok || !!tokenUsage?.exhausted}
               className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 focus:outline-none focus:border-purple-500 disabled:opacity-50"
             />
-            <button
-              onClick={sendMessage}
-              disabled={loading || !input.trim() || !ollamaStatus?.ok}
-              className="px-4 py-3 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
-            >
-              <Send className="w-5 h-5" />
-            </button>
+            {loading ? (
+              <button
+                onClick={stopStreaming}
+                title="Stop generating"
+                className="px-4 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                <Square className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                onClick={sendMessage}
+                disabled={!input.trim() || !ollamaStatus?.ok || !!tokenUsage?.exhausted}
+                className="px-4 py-3 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+              >
+                <Send className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </div>
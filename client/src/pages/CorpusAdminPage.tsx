@@ -1,6 +1,16 @@
 import { useState, useEffect } from "react";
-import { api } from "@/lib/api";
-import { Plus, Trash2, Edit2, Save, X, Shield, RotateCw, AlertCircle, CheckCircle2, Loader2, Clock, Zap } from "lucide-react";
+import {
+  api,
+  type ChunkingConfig,
+  type ChunkingStrategy,
+  type CorpusFacets,
+  type CorpusItemMetadata,
+  type CorpusUploadReport,
+  type DuplicateCheckResult,
+  type PiiReport,
+  type QuarantinedChunk,
+} from "@/lib/api";
+import { Plus, Trash2, Edit2, Save, X, Shield, RotateCw, AlertCircle, CheckCircle2, Loader2, Clock, Zap, ThumbsUp, ThumbsDown, Flag, Upload, ShieldAlert } from "lucide-react";
 
 type EmbedStatus = "not_embedded" | "queued" | "embedding" | "embedded" | "failed";
 
@@ -13,14 +23,47 @@ interface CorpusItem {
   embedStatus: EmbedStatus;
   embedError: string | null;
   embedAttempts: number;
+  chunkingConfig: ChunkingConfig | null;
+  metadata: CorpusItemMetadata;
   createdAt: string;
 }
 
+// Facets the listing can be narrowed by, keyed by their query parameter
+type ListFacet = "status" | "tags" | "language" | "license";
+
+const LIST_FACETS: Array<{ key: ListFacet; facet: keyof CorpusFacets; label: string }> = [
+  { key: "status", facet: "status", label: "Status" },
+  { key: "tags", facet: "tags", label: "Tags" },
+  { key: "language", facet: "language", label: "Language" },
+  { key: "license", facet: "license", label: "License" },
+];
+
+const CHUNKING_OPTIONS: Array<{ value: ChunkingStrategy | ""; label: string }> = [
+  { value: "", label: "Track default" },
+  { value: "fixed", label: "Fixed window" },
+  { value: "sentence", label: "Sentences" },
+  { value: "markdown", label: "Markdown sections" },
+  { value: "code", label: "Keep code & tables" },
+  { value: "token", label: "Token count" },
+];
+
+// "2 email, 1 phone"
+function describePii(report: PiiReport): string {
+  return report.entities.map((e) => `${e.count} ${e.type.replace("_", " ")}`).join(", ");
+}
+
 interface Track {
   id: string;
   name: string;
 }
 
+interface ItemFeedback {
+  up: number;
+  down: number;
+  qualityScore: number;
+  flagged: boolean;
+}
+
 interface CorpusAdminPageProps {
   isCreator: boolean;
 }
@@ -34,11 +77,28 @@ export function CorpusAdminPage({ isCreator }: CorpusAdminPageProps) {
   const [newText, setNewText] = useState("");
   const [newTrackId, setNewTrackId] = useState("");
   const [adding, setAdding] = useState(false);
+  const [duplicateCheck, setDuplicateCheck] = useState<DuplicateCheckResult | null>(null);
+  const [newTags, setNewTags] = useState("");
+  const [newLanguage, setNewLanguage] = useState("");
+  const [newLicense, setNewLicense] = useState("");
+
+  const [facets, setFacets] = useState<CorpusFacets | null>(null);
+  const [listFilter, setListFilter] = useState<Record<ListFacet, string[]>>({ status: [], tags: [], language: [], license: [] });
+
+  const [uploads, setUploads] = useState<CorpusUploadReport[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [publishUpload, setPublishUpload] = useState(false);
 
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editText, setEditText] = useState("");
   const [retryingId, setRetryingId] = useState<string | null>(null);
 
+  const [quarantine, setQuarantine] = useState<QuarantinedChunk[]>([]);
+  const [reviewingChunkId, setReviewingChunkId] = useState<string | null>(null);
+
+  const [feedback, setFeedback] = useState<Map<string, ItemFeedback>>(new Map());
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+
   const getEmbedStatusBadge = (item: CorpusItem) => {
     const { embedStatus, embedError, embedAttempts } = item;
     
@@ -109,23 +169,63 @@ export function CorpusAdminPage({ isCreator }: CorpusAdminPageProps) {
     setRetryingId(null);
   };
 
+  // Changing an embedded item's strategy re-chunks it through the job queue
+  const handleChunkingChange = async (id: string, strategy: ChunkingStrategy | "") => {
+    setRetryingId(id);
+    setError(null);
+    try {
+      await api.corpus.setChunking(id, strategy ? { strategy } : null);
+      await loadData();
+    } catch (err: any) {
+      setError(err.message || "Failed to update chunking");
+    }
+    setRetryingId(null);
+  };
+
   useEffect(() => {
     if (!isCreator) {
       setLoading(false);
       return;
     }
     loadData();
-  }, [isCreator]);
+  }, [isCreator, listFilter]);
+
+  // Poll uploads until the job queue has processed them
+  useEffect(() => {
+    const active = uploads.filter((u) => u.status === "queued" || u.status === "processing");
+    if (active.length === 0) return;
+    const timer = setTimeout(async () => {
+      try {
+        const updated = await Promise.all(active.map((u) => api.corpus.getUpload(u.id)));
+        setUploads((prev) => prev.map((u) => updated.find((n) => n.id === u.id) ?? u));
+        if (updated.some((u) => u.status === "completed")) {
+          const corpusResult = await api.corpus.getAll({ ...listFilter, limit: 100 });
+          setItems(corpusResult.items);
+          setFacets(corpusResult.facets);
+        }
+      } catch (err: any) {
+        setError(err.message || "Failed to refresh uploads");
+      }
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [uploads]);
 
   const loadData = async () => {
     setLoading(true);
     try {
-      const [corpusResult, tracksResult] = await Promise.all([
-        api.corpus.getAll({ limit: 100 }),
+      const [corpusResult, tracksResult, feedbackResult, uploadsResult, quarantineResult] = await Promise.all([
+        api.corpus.getAll({ ...listFilter, limit: 100 }),
         api.tracks.getAll(),
+        api.corpus.getFeedback().catch(() => ({ items: [], flaggedCount: 0 })),
+        api.corpus.getUploads(5).catch(() => ({ uploads: [] as CorpusUploadReport[] })),
+        api.corpus.getQuarantine().catch(() => ({ chunks: [] as QuarantinedChunk[] })),
       ]);
       setItems(corpusResult.items);
+      setFacets(corpusResult.facets);
+      setUploads(uploadsResult.uploads);
+      setQuarantine(quarantineResult.chunks);
       setTracks(tracksResult);
+      setFeedback(new Map(feedbackResult.items.map(({ corpusItemId, ...rest }) => [corpusItemId, rest])));
       if (tracksResult.length > 0 && !newTrackId) {
         setNewTrackId(tracksResult[0].id);
       }
@@ -139,16 +239,76 @@ export function CorpusAdminPage({ isCreator }: CorpusAdminPageProps) {
     if (!newText.trim() || !newTrackId) return;
     setAdding(true);
     setError(null);
+    setDuplicateCheck(null);
     try {
-      await api.corpus.create(newTrackId, newText.trim());
+      const metadata: CorpusItemMetadata = {};
+      const tags = newTags.split(",").map((t) => t.trim()).filter(Boolean);
+      if (tags.length > 0) metadata.tags = tags;
+      if (newLanguage.trim()) metadata.language = newLanguage.trim();
+      if (newLicense.trim()) metadata.license = newLicense.trim();
+      const result = await api.corpus.create(newTrackId, newText.trim(), undefined, metadata);
+      setDuplicateCheck(result.duplicateCheck?.verdict === "similar" ? result.duplicateCheck : null);
       setNewText("");
+      setNewTags("");
+      if (result.injectionScan?.verdict === "flagged") {
+        setError(`Added, but the text scored ${result.injectionScan.score.toFixed(2)} as a possible prompt injection; flagged chunks will be quarantined`);
+      } else if (result.piiReport?.action === "redacted") {
+        setError(`Added with personal information removed: ${describePii(result.piiReport)}`);
+      }
       await loadData();
     } catch (err: any) {
-      setError(err.message || "Failed to add item");
+      if (err.duplicateCheck) {
+        setDuplicateCheck(err.duplicateCheck);
+      } else if (err.piiReport) {
+        setError(`Not added: the text contains personal information (${describePii(err.piiReport)})`);
+      } else if (err.injectionScan) {
+        setError(`Not added: the text scored ${err.injectionScan.score.toFixed(2)} as a prompt injection (${err.injectionScan.signals.map((s: { pattern: string }) => s.pattern).join(", ")})`);
+      } else {
+        setError(err.message || "Failed to add item");
+      }
     }
     setAdding(false);
   };
 
+  const handleQuarantineReview = async (chunk: QuarantinedChunk, action: "clear" | "reject") => {
+    if (action === "reject" && !confirm("Reject the corpus item this chunk came from?")) return;
+    setReviewingChunkId(chunk.chunkId);
+    setError(null);
+    try {
+      if (action === "clear") {
+        await api.corpus.clearQuarantined(chunk.chunkId);
+        setQuarantine((prev) => prev.filter((c) => c.chunkId !== chunk.chunkId));
+      } else {
+        await api.corpus.rejectQuarantined(chunk.chunkId);
+        setQuarantine((prev) => prev.filter((c) => c.corpusItemId !== chunk.corpusItemId));
+        setItems((prev) => prev.map((i) => (i.id === chunk.corpusItemId ? { ...i, status: "rejected" } : i)));
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to review chunk");
+    }
+    setReviewingChunkId(null);
+  };
+
+  const toggleListFilter = (key: ListFacet, value: string) => {
+    setListFilter((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter((v) => v !== value) : [...prev[key], value],
+    }));
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file || !newTrackId) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const upload = await api.corpus.upload(file, { trackId: newTrackId, autoApprove: publishUpload });
+      setUploads((prev) => [upload, ...prev]);
+    } catch (err: any) {
+      setError(err.message || "Failed to upload document");
+    }
+    setUploading(false);
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm("Delete this corpus item?")) return;
     try {
@@ -167,14 +327,17 @@ export function CorpusAdminPage({ isCreator }: CorpusAdminPageProps) {
   const handleSaveEdit = async () => {
     if (!editingId || !editText.trim()) return;
     try {
-      await api.corpus.update(editingId, { text: editText.trim() });
+      const result = await api.corpus.update(editingId, { text: editText.trim() });
       setItems((prev) =>
         prev.map((i) =>
-          i.id === editingId ? { ...i, normalizedText: editText.trim() } : i
+          i.id === editingId ? { ...i, normalizedText: result.normalizedText, status: result.status } : i
         )
       );
       setEditingId(null);
       setEditText("");
+      if (result.returnedToReview) {
+        setError(`Edit changed ${Math.round(result.changeRatio * 100)}% of the text, so the item was returned to review`);
+      }
     } catch (err: any) {
       setError(err.message || "Failed to update item");
     }
@@ -194,6 +357,9 @@ export function CorpusAdminPage({ isCreator }: CorpusAdminPageProps) {
     );
   }
 
+  const flaggedCount = items.filter((i) => feedback.get(i.id)?.flagged).length;
+  const visibleItems = showFlaggedOnly ? items.filter((i) => feedback.get(i.id)?.flagged) : items;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -236,6 +402,26 @@ export function CorpusAdminPage({ isCreator }: CorpusAdminPageProps) {
             rows={3}
             className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 resize-none"
           />
+          <div className="flex gap-2">
+            <input
+              value={newTags}
+              onChange={(e) => setNewTags(e.target.value)}
+              placeholder="Tags (comma separated)"
+              className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm"
+            />
+            <input
+              value={newLanguage}
+              onChange={(e) => setNewLanguage(e.target.value)}
+              placeholder="Language (en)"
+              className="w-32 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm"
+            />
+            <input
+              value={newLicense}
+              onChange={(e) => setNewLicense(e.target.value)}
+              placeholder="License (CC-BY-4.0)"
+              className="w-40 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm"
+            />
+          </div>
           <button
             onClick={handleAdd}
             disabled={adding || !newText.trim()}
@@ -244,16 +430,178 @@ export function CorpusAdminPage({ isCreator }: CorpusAdminPageProps) {
             <Plus className="w-4 h-4" />
             {adding ? "Adding..." : "Add Item"}
           </button>
+          <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-gray-700">
+            <label className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg cursor-pointer text-sm">
+              <Upload className="w-4 h-4" />
+              {uploading ? "Uploading..." : "Upload document"}
+              <input
+                type="file"
+                accept=".md,.markdown,.html,.htm,.txt,.pdf"
+                disabled={uploading}
+                onChange={(e) => {
+                  handleUpload(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+                className="hidden"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={publishUpload} onChange={(e) => setPublishUpload(e.target.checked)} />
+              Approve sections immediately
+            </label>
+            <span className="text-xs text-gray-500">Markdown, HTML, text or PDF; split into one item per section</span>
+          </div>
+          {uploads.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {uploads.map((upload) => (
+                <li key={upload.id} className="flex items-center justify-between gap-3 bg-gray-900 rounded px-3 py-2">
+                  <span className="truncate">{upload.filename}</span>
+                  <span className="shrink-0 text-xs text-gray-400">
+                    {upload.status === "failed" ? (
+                      <span className="text-red-400">{upload.error || "Failed"}</span>
+                    ) : upload.status === "completed" ? (
+                      `${upload.progress.itemsCreated} items created, ${upload.progress.duplicatesSkipped} duplicates skipped` +
+                      (upload.results.some((r) => r.outcome === "injection")
+                        ? `, ${upload.results.filter((r) => r.outcome === "injection").length} blocked as prompt injection`
+                        : "") +
+                      (upload.results.some((r) => r.outcome === "pii")
+                        ? `, ${upload.results.filter((r) => r.outcome === "pii").length} rejected for personal information`
+                        : "")
+                    ) : (
+                      <span className="inline-flex items-center gap-1">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        {upload.progress.sectionsTotal > 0
+                          ? `${upload.progress.sectionsProcessed}/${upload.progress.sectionsTotal} sections`
+                          : "Queued"}
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {duplicateCheck && (
+            <div
+              className={`p-3 rounded-lg border text-sm ${
+                duplicateCheck.verdict === "duplicate"
+                  ? "bg-red-900/30 border-red-800 text-red-300"
+                  : "bg-yellow-900/20 border-yellow-800 text-yellow-300"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="flex items-center gap-2 font-medium">
+                  <AlertCircle className="w-4 h-4" />
+                  {duplicateCheck.verdict === "duplicate"
+                    ? `Not added: ${Math.round(duplicateCheck.similarity * 100)}% similar to an approved item`
+                    : `Added, but ${Math.round(duplicateCheck.similarity * 100)}% similar to approved items`}
+                </span>
+                <button onClick={() => setDuplicateCheck(null)} className="text-gray-400 hover:text-gray-200">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <ul className="space-y-1">
+                {duplicateCheck.matches.map((match) => (
+                  <li key={match.corpusItemId} className="flex gap-2 text-xs text-gray-300">
+                    <span className="shrink-0 font-mono">
+                      {match.exact ? "exact" : `${Math.round(match.similarity * 100)}%`}
+                    </span>
+                    <span className="truncate">{match.excerpt}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
+      {quarantine.length > 0 && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-3 mb-4">
+          <h3 className="flex items-center gap-2 text-sm font-medium text-red-300 mb-2">
+            <ShieldAlert className="w-4 h-4" />
+            {quarantine.length} chunk{quarantine.length > 1 ? "s" : ""} quarantined as possible prompt injection
+          </h3>
+          <ul className="space-y-2">
+            {quarantine.map((chunk) => (
+              <li key={chunk.chunkId} className="bg-gray-900 rounded p-3 text-sm">
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <span className="truncate text-gray-300">
+                    {chunk.item.title ?? "Untitled"} · chunk {chunk.chunkIndex + 1}
+                    <span className="text-gray-500"> · {chunk.item.status}</span>
+                  </span>
+                  <span className="shrink-0 font-mono text-xs text-red-400">risk {chunk.injectionScore.toFixed(2)}</span>
+                </div>
+                <ul className="text-xs text-gray-400 mb-2 space-y-0.5">
+                  {chunk.signals.map((signal) => (
+                    <li key={signal.pattern} className="truncate">
+                      <span className="text-red-300">{signal.pattern}</span> {signal.excerpt}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleQuarantineReview(chunk, "clear")}
+                    disabled={reviewingChunkId === chunk.chunkId}
+                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+                  >
+                    Clear chunk
+                  </button>
+                  <button
+                    onClick={() => handleQuarantineReview(chunk, "reject")}
+                    disabled={reviewingChunkId === chunk.chunkId}
+                    className="px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-xs disabled:opacity-50"
+                  >
+                    Reject item
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {flaggedCount > 0 && (
+        <div className="flex items-center justify-between bg-yellow-900/20 border border-yellow-800 rounded-lg p-3 mb-4">
+          <span className="flex items-center gap-2 text-sm text-yellow-300">
+            <Flag className="w-4 h-4" />
+            {flaggedCount} item{flaggedCount > 1 ? "s" : ""} flagged by poorly rated chat answers
+          </span>
+          <button
+            onClick={() => setShowFlaggedOnly(!showFlaggedOnly)}
+            className="text-xs px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+          >
+            {showFlaggedOnly ? "Show all" : "Review flagged"}
+          </button>
+        </div>
+      )}
+
+      {facets && (
+        <div className="bg-gray-800 rounded-lg p-3 mb-4 border border-gray-700 space-y-1">
+          {LIST_FACETS.map(({ key, facet, label }) => facets[facet].length > 0 && (
+            <div key={key} className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-gray-500 w-16">{label}</span>
+              {facets[facet].map(({ value, count }) => (
+                <button
+                  key={value}
+                  onClick={() => toggleListFilter(key, value)}
+                  className={`px-2 py-0.5 rounded text-xs ${
+                    listFilter[key].includes(value) ? "bg-purple-600" : "bg-gray-900 hover:bg-gray-700"
+                  }`}
+                >
+                  {value} <span className="text-gray-400">{count}</span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="space-y-3">
-        {items.length === 0 ? (
+        {visibleItems.length === 0 ? (
           <div className="text-center py-12 text-gray-400">
             No corpus items yet. Add some above!
           </div>
         ) : (
-          items.map((item) => (
+          visibleItems.map((item) => (
             <div
               key={item.id}
               className="bg-gray-800 rounded-lg p-4 border border-gray-700"
@@ -299,8 +647,47 @@ export function CorpusAdminPage({ isCreator }: CorpusAdminPageProps) {
                           Approved
                         </span>
                       )}
+                      {[...(item.metadata?.tags ?? []), item.metadata?.language, item.metadata?.license]
+                        .filter(Boolean)
+                        .map((value) => (
+                          <span key={value} className="text-xs px-2 py-0.5 bg-gray-700 text-gray-300 rounded">
+                            {value}
+                          </span>
+                        ))}
+                      {feedback.has(item.id) && (
+                        <span
+                          className="inline-flex items-center gap-2 text-xs text-gray-400"
+                          title={`Quality score ${feedback.get(item.id)!.qualityScore.toFixed(2)} from chat answer ratings`}
+                        >
+                          <span className="inline-flex items-center gap-1">
+                            <ThumbsUp className="w-3 h-3" />
+                            {feedback.get(item.id)!.up}
+                          </span>
+                          <span className="inline-flex items-center gap-1">
+                            <ThumbsDown className="w-3 h-3" />
+                            {feedback.get(item.id)!.down}
+                          </span>
+                        </span>
+                      )}
+                      {feedback.get(item.id)?.flagged && (
+                        <span className="inline-flex items-center gap-1 text-xs px-2 py-0.5 bg-yellow-900/30 text-yellow-400 rounded border border-yellow-800">
+                          <Flag className="w-3 h-3" />
+                          Needs review
+                        </span>
+                      )}
                     </div>
-                    <div className="flex gap-1">
+                    <div className="flex items-center gap-1">
+                      <select
+                        value={item.chunkingConfig?.strategy ?? ""}
+                        onChange={(e) => handleChunkingChange(item.id, e.target.value as ChunkingStrategy | "")}
+                        disabled={retryingId === item.id}
+                        className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 disabled:opacity-50"
+                        title="Chunking strategy"
+                      >
+                        {CHUNKING_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
                       {item.embedStatus === "failed" && (
                         <button
                           onClick={() => handleRetryEmbed(item.id)}
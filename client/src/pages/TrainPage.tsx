@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { api } from "@/lib/api";
-import { CheckCircle, XCircle, Brain, Zap, Clock, Award, AlertTriangle, Coins, TrendingDown, TrendingUp, Plus, ArrowUp } from "lucide-react";
+import { CheckCircle, XCircle, Brain, Zap, Clock, Award, AlertTriangle, Coins, TrendingDown, TrendingUp, Plus, ArrowUp, GraduationCap } from "lucide-react";
 import { StakeModal } from "@/components/StakeModal";
 import { RankupConfirmModal } from "@/components/RankupConfirmModal";
 import { useLocation } from "wouter";
@@ -97,6 +97,7 @@ export function TrainPage({
   const [userAnswers, setUserAnswers] = useState<(number | string)[]>([]);
   const [questionIds, setQuestionIds] = useState<string[]>([]);
   const [autoReviewResult, setAutoReviewResult] = useState<AutoReviewResult | null>(null);
+  const [submittedAttemptId, setSubmittedAttemptId] = useState<string | null>(null);
   const [economyResult, setEconomyResult] = useState<EconomyResult | null>(null);
   const [questionsError, setQuestionsError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
@@ -219,6 +220,7 @@ export function TrainPage({
     setLoading(true);
     setSelectedTrack(trackId);
     setAutoReviewResult(null);
+    setSubmittedAttemptId(null);
     setEconomyResult(null);
     setSessionComplete(false);
     setQuestionsError(null);
@@ -367,6 +369,7 @@ export function TrainPage({
       }
       
       setAutoReviewResult(result.autoReview);
+      setSubmittedAttemptId(result.id);
       if (result.economy) {
         setEconomyResult(result.economy);
         setStakeHive(result.economy.stakeAfter);
@@ -848,6 +851,16 @@ export function TrainPage({
                 </div>
               )}
 
+              {trialMode === "normal" && submittedAttemptId && score.correct < score.total && (
+                <button
+                  onClick={() => setLocation(`/chat?explain=${submittedAttemptId}`)}
+                  className="px-6 py-3 mr-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors inline-flex items-center gap-2"
+                >
+                  <GraduationCap className="w-5 h-5" />
+                  Explain my mistakes
+                </button>
+              )}
+
               <button
                 onClick={resetToTracks}
                 className="px-6 py-3 bg-purple-600 hover:bg-purple-700 rounded-lg font-semibold transition-colors"
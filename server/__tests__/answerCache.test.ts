@@ -0,0 +1,43 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { normalizeQuery, getAnswerCacheConfig } from "../services/answerCache";
+
+describe("Answer Cache", () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  describe("normalizeQuery()", () => {
+    it("should ignore case, spacing and trailing punctuation", () => {
+      expect(normalizeQuery("  What is   a Validator?? ")).toBe("what is a validator");
+      expect(normalizeQuery("What is a validator")).toBe(normalizeQuery("what is a VALIDATOR?"));
+    });
+
+    it("should keep punctuation inside the question", () => {
+      expect(normalizeQuery("Is 1.5 SOL enough?")).toBe("is 1.5 sol enough");
+    });
+  });
+
+  describe("getAnswerCacheConfig()", () => {
+    it("should default to enabled with a strict similarity threshold", () => {
+      delete process.env.CHAT_CACHE_ENABLED;
+      delete process.env.CHAT_CACHE_SIMILARITY;
+      delete process.env.CHAT_CACHE_TTL_SEC;
+      const config = getAnswerCacheConfig();
+      expect(config.enabled).toBe(true);
+      expect(config.similarityThreshold).toBe(0.95);
+      expect(config.ttlSec).toBe(3600);
+    });
+
+    it("should read overrides from the environment", () => {
+      process.env.CHAT_CACHE_ENABLED = "false";
+      process.env.CHAT_CACHE_SIMILARITY = "0.9";
+      process.env.CHAT_CACHE_TTL_SEC = "60";
+      const config = getAnswerCacheConfig();
+      expect(config.enabled).toBe(false);
+      expect(config.similarityThreshold).toBe(0.9);
+      expect(config.ttlSec).toBe(60);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import type { ChatMessage } from "@shared/schema";
+import { groupChatExport, formatChatExportMarkdown } from "../services/chatHistory";
+
+function message(overrides: Partial<ChatMessage>): ChatMessage {
+  return {
+    id: "m1",
+    walletAddress: "wallet1",
+    conversationId: "c1",
+    trackId: null,
+    aiLevel: 42,
+    userMessage: "What is staking?",
+    aiResponse: "Staking locks HIVE for a cycle [Source 1].",
+    corpusItemsUsed: ["item1"],
+    toolInvocations: null,
+    sources: [{ chunkText: "Staking locks HIVE\nfor one cycle.", score: 0.812, title: "Staking guide" }],
+    policySnapshot: { topK: 5, minScore: 0.55 },
+    feedbackRating: null,
+    feedbackReason: null,
+    feedbackAt: null,
+    createdAt: new Date("2026-01-02T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+const threads = [{ id: "c1", title: "Staking questions", createdAt: new Date("2026-01-02T09:59:00Z") }];
+const exportedAt = new Date("2026-02-01T00:00:00Z");
+
+describe("Chat History", () => {
+  describe("groupChatExport()", () => {
+    it("should group messages by conversation in order of first message", () => {
+      const data = groupChatExport("wallet1", threads, [
+        message({ id: "m0", conversationId: null, createdAt: new Date("2026-01-01T00:00:00Z") }),
+        message({ id: "m1" }),
+        message({ id: "m2", feedbackRating: -1, feedbackReason: "Too vague" }),
+      ], exportedAt);
+
+      expect(data.messageCount).toBe(3);
+      expect(data.conversations.map(c => [c.id, c.title, c.messages.length])).toEqual([
+        [null, "Earlier messages", 1],
+        ["c1", "Staking questions", 2],
+      ]);
+      expect(data.conversations[1].messages[1]).toMatchObject({
+        question: "What is staking?",
+        sources: [{ title: "Staking guide" }],
+        policySnapshot: { topK: 5 },
+        feedback: { rating: "down", reason: "Too vague" },
+      });
+    });
+  });
+
+  describe("formatChatExportMarkdown()", () => {
+    it("should include answers, sources and the policy snapshot", () => {
+      const markdown = formatChatExportMarkdown(groupChatExport("wallet1", threads, [message({})], exportedAt));
+
+      expect(markdown).toContain("## Staking questions");
+      expect(markdown).toContain("### 2026-01-02T10:00:00.000Z (level 42)");
+      expect(markdown).toContain("**You:**\n\nWhat is staking?");
+      expect(markdown).toContain("  1. Staking guide (score 0.81): Staking locks HIVE for one cycle.");
+      expect(markdown).toContain('Policy: `{"topK":5,"minScore":0.55}`');
+    });
+
+    it("should note truncated exports", () => {
+      const markdown = formatChatExportMarkdown(groupChatExport("wallet1", [], [], exportedAt, true));
+      expect(markdown).toContain("- Messages: 0 (first 10000 only)");
+    });
+  });
+});
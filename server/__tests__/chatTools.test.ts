@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { executeToolCall, runToolLoop, shouldOfferTools, type ChatToolsConfig } from "../services/chatTools";
+import type { ChatMessage, ToolChatResult } from "../services/llmProvider";
+
+const config: ChatToolsConfig = { enabled: true, maxRounds: 3, maxCallsPerRound: 5 };
+
+function call(name: string, args: Record<string, unknown>, id = "call_1") {
+  return { id, name, arguments: JSON.stringify(args) };
+}
+
+describe("Chat Tools", () => {
+  describe("shouldOfferTools()", () => {
+    it("should only offer tools for questions with numbers", () => {
+      expect(shouldOfferTools("What is 15% of 240?")).toBe(true);
+      expect(shouldOfferTools("What is a validator?")).toBe(false);
+    });
+
+    it("should want an operator or unit next to the number", () => {
+      expect(shouldOfferTools("What is 12 * 7?")).toBe(true);
+      expect(shouldOfferTools("Convert 5 miles to km")).toBe(true);
+      expect(shouldOfferTools("How far is 26.2mi in kilometers?")).toBe(true);
+      expect(shouldOfferTools("What changed in the 2024 halving?")).toBe(false);
+      expect(shouldOfferTools("How do I reach level 3 in the game?")).toBe(false);
+      expect(shouldOfferTools("What happened on 2024-01-15?")).toBe(false);
+    });
+  });
+
+  describe("executeToolCall()", () => {
+    it("should run the calculator and unit converter", () => {
+      expect(executeToolCall(call("calculator", { expression: "240 * 0.15" }))).toMatchObject({ result: "36", error: null });
+      expect(executeToolCall(call("convert_units", { value: "10", from: "km", to: "mi" })).result).toMatch(/^6\.21371192\d* mi$/);
+    });
+
+    it("should report errors to the model instead of throwing", () => {
+      expect(executeToolCall(call("calculator", { expression: "2 +" })).error).toBeTruthy();
+      expect(executeToolCall({ id: "x", name: "calculator", arguments: "{not json" }).error).toBe("Arguments are not valid JSON");
+      expect(executeToolCall(call("shell", { cmd: "ls" })).error).toBe('Unknown tool "shell"');
+    });
+  });
+
+  describe("runToolLoop()", () => {
+    const prompt: ChatMessage[] = [{ role: "user", content: "What is 240 * 0.15?" }];
+
+    it("should feed tool results back until the model answers", async () => {
+      const turns: ToolChatResult[] = [
+        { content: "", toolCalls: [call("calculator", { expression: "240 * 0.15" })] },
+        { content: "15% of 240 is 36.", toolCalls: [] },
+      ];
+      const seen: ChatMessage[][] = [];
+      const invoked: string[] = [];
+
+      const result = await runToolLoop(
+        prompt,
+        async (messages) => {
+          seen.push(messages.slice());
+          return turns.shift()!;
+        },
+        {},
+        config,
+        (invocation) => invoked.push(invocation.result!)
+      );
+
+      expect(result.answer).toBe("15% of 240 is 36.");
+      expect(result.invocations).toHaveLength(1);
+      expect(invoked).toEqual(["36"]);
+      expect(seen[1].map(m => m.role)).toEqual(["user", "assistant", "tool"]);
+      expect(seen[1][2]).toMatchObject({ toolCallId: "call_1", content: JSON.stringify({ result: "36" }) });
+    });
+
+    it("should stop after the round limit without an answer", async () => {
+      const result = await runToolLoop(
+        prompt,
+        async () => ({ content: "", toolCalls: [call("calculator", { expression: "1 + 1" })] }),
+        {},
+        { ...config, maxRounds: 2 }
+      );
+
+      expect(result.answer).toBeNull();
+      expect(result.invocations).toHaveLength(2);
+      expect(result.messages).toHaveLength(5);
+    });
+  });
+});
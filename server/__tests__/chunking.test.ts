@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  chunkDocument,
+  chunkingConfigSchema,
+  resolveChunkingConfig,
+  splitBlocks,
+  LEGACY_CHUNKING,
+} from "../services/chunking";
+import { chunkText } from "../services/embedding";
+
+const code = "```ts\nconst stake = amount * rate;\n\nreturn stake;\n```";
+
+describe("Chunking", () => {
+  it("should keep the fixed strategy identical to the original chunker", () => {
+    const text = "Staking locks HIVE. ".repeat(120);
+    expect(chunkDocument(text, LEGACY_CHUNKING)).toEqual(chunkText(text.trim(), 1000, 200));
+  });
+
+  it("should parse fenced code and tables as single blocks", () => {
+    const blocks = splitBlocks(`# Rewards\n\nIntro text.\n\n${code}\n\n| a | b |\n| - | - |\n| 1 | 2 |`);
+    expect(blocks.map(b => b.kind)).toEqual(["heading", "paragraph", "code", "table"]);
+    expect(blocks[2].text).toBe(code);
+  });
+
+  it("should never cut a code block with the code strategy", () => {
+    const text = `${"Setup notes. ".repeat(8)}\n\n${code}\n\n${"More notes. ".repeat(8)}`;
+    const chunks = chunkDocument(text, { strategy: "code", chunkSize: 120, overlap: 0 });
+    expect(chunks).toContain(code);
+    expect(chunks.every(c => !c.includes("```") || c.includes(code))).toBe(true);
+  });
+
+  it("should split markdown at headings and repeat the heading on continuations", () => {
+    const long = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} about validator uptime rules.`).join("\n\n");
+    const chunks = chunkDocument(`# Intro\n\nShort intro.\n\n## Slashing\n\n${long}`, { strategy: "markdown", chunkSize: 120, overlap: 0 });
+
+    expect(chunks[0]).toContain("# Intro");
+    const slashing = chunks.filter(c => c.includes("Paragraph"));
+    expect(slashing.length).toBeGreaterThan(1);
+    expect(slashing.every(c => c.startsWith("## Slashing"))).toBe(true);
+  });
+
+  it("should pack whole sentences with sentence overlap", () => {
+    const chunks = chunkDocument("One is first. Two is second. Three is third. Four is fourth.", {
+      strategy: "sentence", chunkSize: 30, overlap: 15,
+    });
+    expect(chunks).toEqual(["One is first. Two is second.", "Two is second. Three is third.", "Three is third. Four is fourth."]);
+  });
+
+  it("should size token chunks by estimated tokens", () => {
+    const chunks = chunkDocument(Array.from({ length: 40 }, (_, i) => `word${i}`).join(" "), { strategy: "token", chunkSize: 20, overlap: 4 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[1].startsWith(chunks[0].split(" ").slice(-2).join(" "))).toBe(true);
+  });
+
+  describe("config", () => {
+    it("should fill strategy defaults and reject overlap >= size", () => {
+      expect(chunkingConfigSchema.parse({ strategy: "token" })).toEqual({ strategy: "token", chunkSize: 256, overlap: 32 });
+      expect(() => chunkingConfigSchema.parse({ strategy: "fixed", chunkSize: 100, overlap: 100 })).toThrow();
+      expect(() => chunkingConfigSchema.parse({ strategy: "fixed", chunkSize: 100, overlap: 60 })).toThrow();
+    });
+
+    it("should always advance the fixed chunker when the overlap exceeds half the size", () => {
+      const text = "Validators vote. Rewards settle per cycle. ".repeat(20);
+      const chunks = chunkText(text, 100, 60);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.length).toBeLessThan(text.length);
+    });
+
+    it("should prefer the item, then the track, then the default", () => {
+      const item = { strategy: "code" as const, chunkSize: 800, overlap: 0 };
+      const track = { strategy: "markdown" as const, chunkSize: 1200, overlap: 0 };
+      expect(resolveChunkingConfig(item, track, LEGACY_CHUNKING)).toBe(item);
+      expect(resolveChunkingConfig(null, track, LEGACY_CHUNKING)).toBe(track);
+      expect(resolveChunkingConfig(null, null, LEGACY_CHUNKING)).toBe(LEGACY_CHUNKING);
+    });
+  });
+});
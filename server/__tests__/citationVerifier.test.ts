@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  parseCitations,
+  stripInvalidCitations,
+  splitSentences,
+  lexicalSupport,
+  verifyCitations,
+} from "../services/citationVerifier";
+import { resetLLMProviders } from "../services/llmProvider";
+import type { ChunkResult } from "../services/rag";
+
+function chunk(id: string, chunkText: string): ChunkResult {
+  return { id, corpusItemId: `item-${id}`, chunkText, score: 0.8, trackId: null, title: null };
+}
+
+const sources = [
+  chunk("1", "Validators on Solana earn staking rewards at the end of every epoch, which lasts about two days."),
+  chunk("2", "The HIVE token is used to pay training fees and to stake in the vault for higher intelligence levels."),
+];
+
+describe("Citation Verification", () => {
+  const savedProvider = process.env.EMBEDDING_PROVIDER;
+
+  beforeAll(() => {
+    // Deterministic local embeddings so semantic support is computed without a model server
+    process.env.EMBEDDING_PROVIDER = "mock";
+    resetLLMProviders();
+  });
+
+  afterAll(() => {
+    if (savedProvider === undefined) delete process.env.EMBEDDING_PROVIDER;
+    else process.env.EMBEDDING_PROVIDER = savedProvider;
+    resetLLMProviders();
+  });
+
+  describe("parseCitations()", () => {
+    it("should parse single and multi-source citations", () => {
+      expect(parseCitations("Rewards are paid each epoch [Source 1]. HIVE is staked [Source 2, 3].")).toEqual([1, 2, 3]);
+      expect(parseCitations("See [Sources 1 and 2].")).toEqual([1, 2]);
+      expect(parseCitations("No citations here.")).toEqual([]);
+    });
+  });
+
+  describe("stripInvalidCitations()", () => {
+    it("should drop references to sources that were not provided", () => {
+      expect(stripInvalidCitations("Rewards are paid each epoch [Source 7].", 2)).toBe("Rewards are paid each epoch.");
+      expect(stripInvalidCitations("HIVE is staked [Source 2, 5].", 2)).toBe("HIVE is staked [Source 2].");
+    });
+  });
+
+  describe("splitSentences()", () => {
+    it("should skip fragments without enough content words", () => {
+      const sentences = splitSentences("Sure! Validators earn staking rewards every epoch [Source 1]. Hope that helps.");
+      expect(sentences).toEqual(["Validators earn staking rewards every epoch [Source 1]."]);
+    });
+  });
+
+  describe("lexicalSupport()", () => {
+    it("should score content-word overlap with the chunk", () => {
+      expect(lexicalSupport("Validators earn staking rewards every epoch", sources[0].chunkText)).toBeGreaterThan(0.6);
+      expect(lexicalSupport("Bananas grow best in tropical climates", sources[0].chunkText)).toBe(0);
+    });
+  });
+
+  describe("verifyCitations()", () => {
+    it("should pass an answer whose cited sentences are supported", async () => {
+      const { report } = await verifyCitations(
+        "Validators earn staking rewards at the end of every epoch [Source 1]. The HIVE token pays training fees [Source 2].",
+        sources
+      );
+      expect(report.passed).toBe(true);
+      expect(report.citedSources).toEqual([1, 2]);
+      expect(report.invalidCitations).toEqual([]);
+      expect(report.sentences.every(s => s.semantic !== null)).toBe(true);
+    });
+
+    it("should flag invalid citations and unsupported claims", async () => {
+      const { answer, report } = await verifyCitations(
+        "Bananas grow best in tropical climates with heavy rainfall [Source 4]. Penguins live mostly in Antarctica [Source 1].",
+        sources
+      );
+      expect(answer).not.toContain("[Source 4]");
+      expect(report.invalidCitations).toEqual([4]);
+      expect(report.passed).toBe(false);
+      expect(report.reason).toBe("unsupported");
+    });
+
+    it("should fail answers without any citations", async () => {
+      const { report } = await verifyCitations("Validators earn staking rewards at the end of every epoch.", sources);
+      expect(report.passed).toBe(false);
+      expect(report.reason).toBe("no_citations");
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { scoreComplexity, type ComplexityNeighbor, type ComplexityClassifierConfig } from "../services/complexityClassifier";
+
+const config: ComplexityClassifierConfig = {
+  topK: 8,
+  minSimilarity: 0.55,
+  minNeighbors: 3,
+  minConfidence: 0.6,
+  indexTtlSec: 600,
+  retryBackoffSec: 60,
+};
+
+function neighbor(complexity: number, similarity: number, source: ComplexityNeighbor["source"] = "question"): ComplexityNeighbor {
+  return { source, id: `${source}-${complexity}-${similarity}`, complexity, similarity };
+}
+
+describe("Complexity Classifier", () => {
+  describe("scoreComplexity()", () => {
+    it("should be confident when close neighbors agree", () => {
+      const estimate = scoreComplexity([neighbor(5, 0.92), neighbor(5, 0.88), neighbor(4, 0.85, "corpus")], config);
+      expect(estimate.complexity).toBe(5);
+      expect(estimate.confident).toBe(true);
+      expect(estimate.confidence).toBeGreaterThan(0.6);
+    });
+
+    it("should not be confident when neighbors disagree", () => {
+      const estimate = scoreComplexity([neighbor(1, 0.9), neighbor(5, 0.9), neighbor(1, 0.88), neighbor(5, 0.87)], config);
+      expect(estimate.complexity).toBe(3);
+      expect(estimate.confident).toBe(false);
+    });
+
+    it("should not be confident with too few neighbors", () => {
+      const estimate = scoreComplexity([neighbor(5, 0.95)], config);
+      expect(estimate.complexity).toBe(5);
+      expect(estimate.confident).toBe(false);
+    });
+
+    it("should ignore neighbors below the similarity floor", () => {
+      const estimate = scoreComplexity([neighbor(5, 0.3), neighbor(4, 0.2)], config);
+      expect(estimate.score).toBeNull();
+      expect(estimate.confidence).toBe(0);
+      expect(estimate.neighbors).toEqual([]);
+    });
+
+    it("should weight votes by similarity", () => {
+      const estimate = scoreComplexity([neighbor(2, 0.95), neighbor(2, 0.9), neighbor(4, 0.56)], config);
+      // Unweighted mean would be 2.67 and round up to 3
+      expect(estimate.complexity).toBe(2);
+      expect(estimate.score!).toBeLessThan(2.5);
+    });
+  });
+});
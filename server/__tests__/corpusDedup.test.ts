@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyDuplicate,
+  fingerprintSimilarity,
+  fingerprintText,
+  minhashSignature,
+  minhashSimilarity,
+  shingles,
+} from "../services/corpusDedup";
+
+const fact = "Staking rewards are paid every cycle in proportion to the amount each wallet has locked in the pool, after the protocol fee is deducted";
+
+describe("Corpus Duplicate Detection", () => {
+  it("should shingle words case- and punctuation-insensitively", () => {
+    expect(Array.from(shingles("The quick, brown FOX jumps"))).toEqual(["the quick brown", "quick brown fox", "brown fox jumps"]);
+    expect(Array.from(shingles("Too short"))).toEqual(["too short"]);
+    expect(shingles("  ...  ").size).toBe(0);
+  });
+
+  it("should estimate similarity close to the shingle Jaccard index", () => {
+    const same = minhashSimilarity(minhashSignature(fact), minhashSignature(fact.toUpperCase()));
+    const edited = minhashSimilarity(minhashSignature(fact), minhashSignature(fact.replace("every cycle", "each cycle")));
+    const unrelated = minhashSimilarity(
+      minhashSignature(fact),
+      minhashSignature("Reviewers vote on train attempts and a two thirds majority decides whether the attempt is approved")
+    );
+
+    expect(same).toBe(1);
+    expect(edited).toBeGreaterThan(0.6);
+    expect(edited).toBeLessThan(1);
+    expect(unrelated).toBeLessThan(0.1);
+  });
+
+  it("should compare non-Latin text instead of matching empty signatures", () => {
+    const russian = "Награды за стейкинг выплачиваются каждый цикл пропорционально заблокированной сумме";
+    const otherRussian = "Рецензенты голосуют за попытки обучения и большинство решает судьбу попытки";
+    const chinese = "质押奖励在每个周期按锁定金额的比例发放";
+    const otherChinese = "审核者对训练尝试进行投票并由多数决定结果";
+
+    expect(Array.from(shingles("Награды за стейкинг"))).toEqual(["награды за стейкинг"]);
+    expect(Array.from(shingles("质押奖励"))).toEqual(["质 押 奖", "押 奖 励"]);
+    expect(minhashSimilarity(minhashSignature(russian), minhashSignature(russian))).toBe(1);
+    expect(minhashSimilarity(minhashSignature(russian), minhashSignature(otherRussian))).toBeLessThan(0.1);
+    expect(minhashSimilarity(minhashSignature(`API ${russian}`), minhashSignature(`API ${otherRussian}`))).toBeLessThan(0.1);
+    expect(minhashSimilarity(minhashSignature(chinese), minhashSignature(otherChinese))).toBeLessThan(0.1);
+    expect(minhashSimilarity(minhashSignature(chinese), minhashSignature(chinese.replace("每个", "各个")))).toBeGreaterThan(0.5);
+  });
+
+  it("should compare unapproved texts by fingerprint", () => {
+    expect(fingerprintSimilarity(fingerprintText(fact), fingerprintText(`  ${fact.toUpperCase()} `))).toBe(1);
+    expect(fingerprintSimilarity(fingerprintText(fact), fingerprintText("Reviewers vote on train attempts"))).toBeLessThan(0.1);
+    expect(fingerprintSimilarity(fingerprintText("..."), fingerprintText("!!!"))).toBe(0);
+  });
+
+  it("should never match texts without words", () => {
+    expect(minhashSignature("  ...  ")).toEqual([]);
+    expect(minhashSimilarity(minhashSignature("..."), minhashSignature("!!!"))).toBe(0);
+  });
+
+  it("should block at the hard threshold and warn at the soft one", () => {
+    const config = { warnThreshold: 0.85, blockThreshold: 0.95 };
+    expect(classifyDuplicate(1, config)).toBe("duplicate");
+    expect(classifyDuplicate(0.95, config)).toBe("duplicate");
+    expect(classifyDuplicate(0.9, config)).toBe("similar");
+    expect(classifyDuplicate(0.5, config)).toBe("unique");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { calculateQualityScore, isFeedbackFlagged } from "../services/rewardsDistributionV2";
+
+describe("Corpus Feedback Quality", () => {
+  describe("calculateQualityScore() with answer ratings", () => {
+    it("should keep the 1.0 baseline when an item has no ratings", () => {
+      expect(calculateQualityScore({})).toBe(1.0);
+      expect(calculateQualityScore({ feedbackUpCount: 0, feedbackDownCount: 0 })).toBe(1.0);
+    });
+
+    it("should raise quality for well-rated items and lower it for poorly rated ones", () => {
+      const liked = calculateQualityScore({ feedbackUpCount: 20, feedbackDownCount: 1 });
+      const disliked = calculateQualityScore({ feedbackUpCount: 1, feedbackDownCount: 20 });
+      expect(liked).toBeGreaterThan(1.2);
+      expect(disliked).toBeLessThan(0.8);
+    });
+
+    it("should move less on a single vote than on many consistent votes", () => {
+      const oneVote = calculateQualityScore({ feedbackUpCount: 1, feedbackDownCount: 0 });
+      const manyVotes = calculateQualityScore({ feedbackUpCount: 30, feedbackDownCount: 0 });
+      expect(oneVote).toBeGreaterThan(1.0);
+      expect(oneVote).toBeLessThan(1.1);
+      expect(manyVotes).toBeGreaterThan(oneVote);
+    });
+
+    it("should stay within [0.5, 1.5]", () => {
+      expect(calculateQualityScore({ feedbackUpCount: 10000, feedbackDownCount: 0, autoReviewScore: 1 })).toBe(1.5);
+      expect(calculateQualityScore({ feedbackUpCount: 0, feedbackDownCount: 10000, autoReviewScore: 0 })).toBe(0.5);
+    });
+  });
+
+  describe("isFeedbackFlagged()", () => {
+    it("should flag items with enough mostly-negative ratings", () => {
+      expect(isFeedbackFlagged({ up: 1, down: 4 })).toBe(true);
+      expect(isFeedbackFlagged({ up: 3, down: 3 })).toBe(true);
+    });
+
+    it("should not flag items with few or mostly-positive ratings", () => {
+      expect(isFeedbackFlagged({ up: 0, down: 2 })).toBe(false);
+      expect(isFeedbackFlagged({ up: 10, down: 3 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import type { TrainingCorpusItem } from "@shared/schema";
+import {
+  corpusMetadataSchema,
+  filterCorpusItems,
+  normalizeCorpusMetadata,
+  normalizeRetrievalFilter,
+} from "../services/corpusMetadata";
+
+function item(id: string, overrides: Partial<TrainingCorpusItem> = {}): TrainingCorpusItem {
+  return {
+    id,
+    trackId: "track-1",
+    cycleId: "cycle-1",
+    status: "approved",
+    embedStatus: "embedded",
+    normalizedText: `text of ${id}`,
+    metadata: {},
+    submitterWalletPubkey: null,
+    createdByWallet: null,
+    createdAt: new Date("2026-01-10T00:00:00Z"),
+    approvedAt: new Date("2026-01-11T00:00:00Z"),
+    ...overrides,
+  } as TrainingCorpusItem;
+}
+
+describe("Corpus Metadata", () => {
+  it("should normalize metadata case and drop duplicate tags", () => {
+    const input = corpusMetadataSchema.parse({
+      license: "cc-by-4.0",
+      language: "pt-BR",
+      tags: ["Staking", "staking ", "Beginner"],
+    });
+
+    expect(normalizeCorpusMetadata(input)).toEqual({
+      license: "CC-BY-4.0",
+      language: "pt-br",
+      tags: ["staking", "beginner"],
+    });
+    expect(corpusMetadataSchema.safeParse({ language: "english" }).success).toBe(false);
+    expect(corpusMetadataSchema.safeParse({ rating: 5 }).success).toBe(false);
+  });
+
+  it("should treat an empty retrieval filter as no filter", () => {
+    expect(normalizeRetrievalFilter({ tags: [], languages: [] })).toBeNull();
+    expect(normalizeRetrievalFilter({ tags: ["Beginner"], licenses: ["mit"] })).toEqual({
+      tags: ["beginner"],
+      licenses: ["MIT"],
+    });
+  });
+
+  it("should count each facet over the items matching the other filters", () => {
+    const items = [
+      item("a", { metadata: { tags: ["staking", "beginner"], language: "en" } }),
+      item("b", { metadata: { tags: ["staking"], language: "de" } }),
+      item("c", { metadata: { tags: ["governance"], language: "en" }, status: "draft" }),
+    ];
+
+    const { items: matched, facets } = filterCorpusItems(items, { tags: ["staking"], languages: ["en"] });
+
+    expect(matched.map(i => i.id)).toEqual(["a"]);
+    // Tags are counted among English items, languages among staking items
+    expect(facets.tags).toEqual([
+      { value: "beginner", count: 1 },
+      { value: "governance", count: 1 },
+      { value: "staking", count: 1 },
+    ]);
+    expect(facets.language).toEqual([
+      { value: "de", count: 1 },
+      { value: "en", count: 1 },
+    ]);
+    expect(facets.status).toEqual([{ value: "approved", count: 1 }]);
+  });
+
+  it("should filter by date range", () => {
+    const items = [
+      item("old", { createdAt: new Date("2025-06-01T00:00:00Z") }),
+      item("new", { createdAt: new Date("2026-02-01T00:00:00Z"), approvedAt: null }),
+    ];
+
+    expect(filterCorpusItems(items, { createdFrom: new Date("2026-01-01") }).items.map(i => i.id)).toEqual(["new"]);
+    expect(filterCorpusItems(items, { approvedTo: new Date("2026-12-31") }).items.map(i => i.id)).toEqual(["old"]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { diffText, editChangeRatio, requiresReview } from "../services/corpusRevisions";
+
+describe("Corpus Revisions", () => {
+  it("should diff word by word, merging runs of the same operation", () => {
+    const diff = diffText("rewards are paid every cycle to stakers", "rewards are paid each cycle to all stakers");
+
+    expect(diff.segments).toEqual([
+      { op: "equal", text: "rewards are paid" },
+      { op: "delete", text: "every" },
+      { op: "insert", text: "each" },
+      { op: "equal", text: "cycle to" },
+      { op: "insert", text: "all" },
+      { op: "equal", text: "stakers" },
+    ]);
+    expect(diff.wordsAdded).toBe(2);
+    expect(diff.wordsRemoved).toBe(1);
+    expect(diff.changeRatio).toBeCloseTo(2 / 8);
+  });
+
+  it("should report identical texts as unchanged and unrelated ones as fully changed", () => {
+    expect(diffText("same text here", "same text here")).toEqual({
+      segments: [{ op: "equal", text: "same text here" }],
+      wordsAdded: 0,
+      wordsRemoved: 0,
+      changeRatio: 0,
+    });
+    expect(diffText("alpha beta", "gamma delta epsilon").changeRatio).toBe(1);
+    expect(diffText("", "").changeRatio).toBe(0);
+  });
+
+  it("should only return approved items to review above the threshold", () => {
+    expect(requiresReview("approved", 0.3, 0.2)).toBe(true);
+    expect(requiresReview("approved", 0.2, 0.2)).toBe(false);
+    expect(requiresReview("draft", 0.9, 0.2)).toBe(false);
+  });
+
+  it("should add up repeated small edits to an approved item", () => {
+    const approvedText = "one two three four five six seven eight nine ten";
+    const item = { status: "approved", normalizedText: approvedText, approvedText };
+    const replacements = ["uno", "dos", "tres", "cuatro"];
+
+    const ratios = replacements.map((word, i) => {
+      const next = item.normalizedText.split(" ").map((w, j) => (j === i ? word : w)).join(" ");
+      const ratio = editChangeRatio(item, next);
+      item.normalizedText = next;
+      return ratio;
+    });
+
+    // Each edit changes one word (0.1) but the drift from the approved text keeps growing
+    expect(ratios.map(r => Math.round(r * 10) / 10)).toEqual([0.1, 0.2, 0.3, 0.4]);
+    expect(ratios.map(r => requiresReview("approved", r, 0.2))).toEqual([false, false, true, true]);
+  });
+
+  it("should measure drafts and legacy approved items against their current text", () => {
+    expect(editChangeRatio({ status: "draft", normalizedText: "a b c d", approvedText: "w x y z" }, "a b c e")).toBe(0.25);
+    expect(editChangeRatio({ status: "approved", normalizedText: "a b c d", approvedText: null }, "a b c e")).toBe(0.25);
+  });
+});
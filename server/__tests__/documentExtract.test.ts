@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "zlib";
+import {
+  detectFormat,
+  extractPdfText,
+  htmlToMarkdown,
+  splitIntoSections,
+} from "../services/documentExtract";
+
+function buildPdf(content: string): Buffer {
+  const stream = deflateSync(Buffer.from(content, "latin1"));
+  return Buffer.concat([
+    Buffer.from("%PDF-1.4\n1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n", "latin1"),
+    Buffer.from(`4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+    stream,
+    Buffer.from("\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n", "latin1"),
+  ]);
+}
+
+describe("Document Extraction", () => {
+  it("should detect the format from the extension before the content type", () => {
+    expect(detectFormat("guide.MD", "text/plain")).toBe("markdown");
+    expect(detectFormat("upload", "application/pdf")).toBe("pdf");
+    expect(detectFormat("notes.docx", "application/octet-stream")).toBeNull();
+  });
+
+  it("should keep HTML headings and drop scripts, styles and navigation", () => {
+    const html = `<html><head><title>Guide</title><style>p { color: red }</style></head><body>
+      <nav><a href="/">Home</a></nav>
+      <h1>Staking &amp; Rewards</h1><p>Rewards are paid<br>every cycle.</p>
+      <script>alert(1)</script><ul><li>One</li><li>Two</li></ul></body></html>`;
+
+    expect(htmlToMarkdown(html)).toBe("# Staking & Rewards\n\nRewards are paid\nevery cycle.\n\n- One\n- Two");
+  });
+
+  it("should split at headings with titles from the heading path", () => {
+    const markdown = [
+      "Intro text that explains what this guide covers before any heading appears in the file.",
+      "# Staking",
+      "## Rewards",
+      "Rewards are paid every cycle in proportion to the locked amount, minus the protocol fee.",
+      "## Slashing",
+      "Short.",
+      "```",
+      "# not a heading inside a code fence",
+      "```",
+    ].join("\n");
+
+    const sections = splitIntoSections(markdown, { fallbackTitle: "guide", minChars: 20 });
+
+    expect(sections.map(s => s.title)).toEqual(["guide", "Staking - Rewards", "Staking - Slashing"]);
+    expect(sections[2].text).toContain("# not a heading inside a code fence");
+  });
+
+  it("should fold short sections into the previous one and split long ones into parts", () => {
+    const merged = splitIntoSections("# A\nlong enough section text here\n# B\ntiny", { fallbackTitle: "doc", minChars: 10 });
+    expect(merged).toEqual([{ title: "A", text: "long enough section text here\n\nB\ntiny" }]);
+
+    const long = splitIntoSections("# Long\nfirst paragraph\n\nsecond paragraph", { fallbackTitle: "doc", maxChars: 20, minChars: 1 });
+    expect(long.map(s => s.title)).toEqual(["Long (part 1)", "Long (part 2)"]);
+  });
+
+  it("should extract text from a compressed PDF content stream", () => {
+    const pdf = buildPdf("BT /F1 12 Tf 72 720 Td (Staking rewards) Tj 0 -14 Td [(are paid) -300 (every cycle.)] TJ ET");
+    expect(extractPdfText(pdf)).toBe("Staking rewards\nare paid every cycle.");
+  });
+
+  it("should reject PDFs without extractable text", () => {
+    expect(() => extractPdfText(Buffer.from("not a pdf"))).toThrow(/Not a PDF/);
+    expect(() => extractPdfText(buildPdf("q 100 0 0 100 0 0 cm /Im1 Do Q"))).toThrow(/no extractable text/);
+  });
+
+  it("should fail when streams decompress past the limit", () => {
+    const pdf = buildPdf(`BT (Staking rewards) Tj ET ${" ".repeat(10000)}`);
+    expect(() => extractPdfText(pdf, 1000)).toThrow(/decompresses to more than 1000 bytes/);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { generateEmbeddings, assertEmbeddingDimension } from "../services/embedding";
+import { getLLMProvider, mockEmbedding, resetLLMProviders } from "../services/llmProvider";
+
+const savedEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+  resetLLMProviders();
+  vi.restoreAllMocks();
+});
+
+function useMockEmbeddings() {
+  process.env.EMBEDDING_PROVIDER = "mock";
+  resetLLMProviders();
+  return vi.spyOn(getLLMProvider("mock"), "embed");
+}
+
+describe("Embedding Service", () => {
+  it("should embed in batches of EMBEDDING_BATCH_SIZE, keeping input order", async () => {
+    process.env.EMBEDDING_BATCH_SIZE = "2";
+    const embed = useMockEmbeddings();
+    const texts = ["alpha", "beta", "gamma", "delta", "epsilon"];
+
+    const results = await generateEmbeddings(texts);
+
+    expect(embed.mock.calls.map(([batch]) => batch)).toEqual([["alpha", "beta"], ["gamma", "delta"], ["epsilon"]]);
+    expect(results.map(r => r.embedding)).toEqual(texts.map(t => mockEmbedding(t)));
+    expect(results[0].model).toBe("mock-embed");
+  });
+
+  it("should fail the whole call when the model's dimension doesn't match", async () => {
+    process.env.EMBEDDING_DIMENSION = "768";
+    useMockEmbeddings().mockResolvedValueOnce({ embeddings: [mockEmbedding("alpha", 1024)], model: "mock-embed" });
+    await expect(generateEmbeddings(["alpha"])).rejects.toThrow(/returned 1024-dimensional vectors, but corpus_chunks.embedding expects 768/);
+  });
+
+  it("should size mock embeddings to EMBEDDING_DIMENSION", async () => {
+    process.env.EMBEDDING_DIMENSION = "768";
+    useMockEmbeddings();
+    const [result] = await generateEmbeddings(["alpha"]);
+    expect(result.embedding).toHaveLength(768);
+  });
+
+  it("should fail when the provider returns fewer vectors than texts", async () => {
+    useMockEmbeddings().mockResolvedValueOnce({ embeddings: [mockEmbedding("alpha")], model: "mock-embed" });
+    await expect(generateEmbeddings(["alpha", "beta"])).rejects.toThrow(/1 vectors for 2 texts/);
+  });
+
+  it("should embed with the target's model and dimension instead of the configured ones", async () => {
+    process.env.EMBEDDING_DIMENSION = "768";
+    const embed = useMockEmbeddings().mockResolvedValueOnce({ embeddings: [mockEmbedding("alpha", 1024)], model: "mock-embed-v2" });
+
+    const [result] = await generateEmbeddings(["alpha"], { provider: "mock", model: "mock-embed-v2", dimension: 1024 });
+
+    expect(embed).toHaveBeenCalledWith(["alpha"], "mock-embed-v2");
+    expect(result.model).toBe("mock-embed-v2");
+  });
+
+  it("should accept vectors of the configured size", () => {
+    expect(() => assertEmbeddingDimension(new Array(4).fill(0), "m", 4)).not.toThrow();
+    expect(() => assertEmbeddingDimension(new Array(3).fill(0), "m", 4)).toThrow(/"m" returned 3-dimensional/);
+  });
+});
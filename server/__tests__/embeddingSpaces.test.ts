@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeCoveragePercent,
+  isReadyForCutover,
+  toEmbeddingTarget,
+} from "../services/embeddingSpaces";
+import type { EmbeddingSpace } from "@shared/schema";
+
+function space(overrides: Partial<EmbeddingSpace> = {}): EmbeddingSpace {
+  return {
+    id: "space-1",
+    provider: "ollama",
+    model: "mxbai-embed-large",
+    dimension: 1024,
+    status: "building",
+    itemsTotal: 10,
+    createdAt: new Date(),
+    activatedAt: null,
+    retiredAt: null,
+    ...overrides,
+  };
+}
+
+describe("Embedding Spaces", () => {
+  it("should report coverage in whole percent, treating an empty corpus as covered", () => {
+    expect(computeCoveragePercent(0, 0)).toBe(100);
+    expect(computeCoveragePercent(2, 3)).toBe(66);
+    expect(computeCoveragePercent(3, 3)).toBe(100);
+  });
+
+  it("should only cut over once every approved item is embedded", () => {
+    expect(isReadyForCutover({ itemsTotal: 200, itemsEmbedded: 199, percent: 99 })).toBe(false);
+    expect(isReadyForCutover({ itemsTotal: 200, itemsEmbedded: 200, percent: 100 })).toBe(true);
+    expect(isReadyForCutover({ itemsTotal: 0, itemsEmbedded: 0, percent: 100 })).toBe(true);
+  });
+
+  it("should embed with the space's provider, model and dimension", () => {
+    expect(toEmbeddingTarget(space())).toEqual({ provider: "ollama", model: "mxbai-embed-large", dimension: 1024 });
+  });
+});
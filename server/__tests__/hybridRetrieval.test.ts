@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  fuseRankings,
+  meetsRetrievalThreshold,
+  resolveRetrievalMode,
+  getRAGConfig,
+  type ChunkResult,
+} from "../services/rag";
+import { getLevelPolicy } from "../services/levelPolicy";
+
+function chunk(id: string, score: number): ChunkResult {
+  return { id, corpusItemId: `item-${id}`, chunkText: `chunk ${id}`, score, trackId: null, title: null };
+}
+
+describe("Hybrid Retrieval", () => {
+  describe("fuseRankings()", () => {
+    it("should promote chunks found by both paths", () => {
+      const fused = fuseRankings([
+        { source: "vector", weight: 1, results: [chunk("a", 0.9), chunk("b", 0.8), chunk("c", 0.7)] },
+        { source: "lexical", weight: 1, results: [chunk("c", 0.7), chunk("d", 0.2)] },
+      ], 60);
+
+      expect(fused.map(r => r.id)).toEqual(["c", "a", "b", "d"]);
+      expect(fused[0].matchedBy).toBe("both");
+      expect(fused[0].fusedScore).toBeCloseTo(1 / 63 + 1 / 61);
+      expect(fused.find(r => r.id === "d")?.matchedBy).toBe("lexical");
+    });
+
+    it("should respect path weights", () => {
+      const rankings = (lexicalWeight: number) => fuseRankings([
+        { source: "vector", weight: 1, results: [chunk("a", 0.9)] },
+        { source: "lexical", weight: lexicalWeight, results: [chunk("b", 0.3)] },
+      ], 60).map(r => r.id);
+
+      expect(rankings(2)).toEqual(["b", "a"]);
+      expect(rankings(0.5)).toEqual(["a", "b"]);
+    });
+
+    it("should break fused ties by similarity", () => {
+      const fused = fuseRankings([
+        { source: "vector", weight: 1, results: [chunk("a", 0.6)] },
+        { source: "lexical", weight: 1, results: [chunk("b", 0.4)] },
+      ], 60);
+      expect(fused.map(r => r.id)).toEqual(["a", "b"]);
+    });
+  });
+
+  it("should let lexical matches through the similarity threshold", () => {
+    expect(meetsRetrievalThreshold({ ...chunk("a", 0.3), matchedBy: "lexical" }, 0.6)).toBe(true);
+    expect(meetsRetrievalThreshold({ ...chunk("a", 0.3), matchedBy: "vector" }, 0.6)).toBe(false);
+    expect(meetsRetrievalThreshold(chunk("a", 0.7), 0.6)).toBe(true);
+  });
+
+  describe("resolveRetrievalMode()", () => {
+    it("should switch to hybrid at the configured level in auto mode", () => {
+      const config = { ...getRAGConfig(), retrievalMode: "auto" as const, hybridMinLevel: 31 };
+      expect(resolveRetrievalMode(30, config)).toBe("vector");
+      expect(resolveRetrievalMode(31, config)).toBe("hybrid");
+      expect(resolveRetrievalMode(undefined, config)).toBe("vector");
+    });
+
+    it("should use a forced mode at every level", () => {
+      const config = { ...getRAGConfig(), retrievalMode: "lexical" as const };
+      expect(resolveRetrievalMode(5, config)).toBe("lexical");
+      expect(resolveRetrievalMode(90, config)).toBe("lexical");
+    });
+  });
+
+  it("should give higher level policies hybrid retrieval by default", () => {
+    expect(getLevelPolicy(20).retrievalMode).toBe("vector");
+    expect(getLevelPolicy(50).retrievalMode).toBe("hybrid");
+  });
+});
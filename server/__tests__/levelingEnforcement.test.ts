@@ -10,7 +10,7 @@
 
 import { describe, it, expect } from "vitest";
 import { allowedComplexity } from "../utils/complexityMapping";
-import { getLevelPolicy } from "../services/levelPolicy";
+import { getLevelPolicy, getLevelPolicyBand } from "../services/levelPolicy";
 
 // Unit tests that don't require database
 describe("Leveling Enforcement - Unit Tests", () => {
@@ -65,6 +65,7 @@ describe("Leveling Enforcement - Unit Tests", () => {
       expect(policy.retrievalEnabled).toBe(true);
       expect(policy.preferCorpus).toBe("strong");
       expect(policy.requireCitations).toBe(true); // Level 50 >= 40
+      expect(policy.regenerateUnsupported).toBe(false); // Marked ungrounded, not retried
     });
 
     it("should apply correct policy for level 100", () => {
@@ -72,8 +73,31 @@ describe("Leveling Enforcement - Unit Tests", () => {
       expect(policy.retrievalEnabled).toBe(true);
       expect(policy.preferCorpus).toBe("strong");
       expect(policy.requireCitations).toBe(true);
+      expect(policy.regenerateUnsupported).toBe(true);
       expect(policy.maxAnswerTokens).toBe(1200);
     });
+
+    it("should grow the conversation history budget with level", () => {
+      expect(getLevelPolicy(1).maxHistoryTokens).toBe(300);
+      expect(getLevelPolicy(100).maxHistoryTokens).toBe(2400);
+      expect(getLevelPolicy(50).maxHistoryTokens).toBeGreaterThan(getLevelPolicy(20).maxHistoryTokens);
+    });
+  });
+
+  describe("getLevelPolicyBand()", () => {
+    it("should group levels that share a policy shape", () => {
+      expect(getLevelPolicyBand(1)).toBe("1-10");
+      expect(getLevelPolicyBand(10)).toBe("1-10");
+      expect(getLevelPolicyBand(11)).toBe("11-30");
+      expect(getLevelPolicyBand(35)).toBe("31-39");
+      expect(getLevelPolicyBand(40)).toBe("40-70");
+      expect(getLevelPolicyBand(100)).toBe("71-100");
+    });
+
+    it("should clamp out-of-range levels", () => {
+      expect(getLevelPolicyBand(0)).toBe("1-10");
+      expect(getLevelPolicyBand(250)).toBe("71-100");
+    });
   });
 });
 
@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  getChatProviderName,
+  getEmbeddingProviderName,
+  getLLMProvider,
+  mockEmbedding,
+  resetLLMProviders,
+  MOCK_CHAT_RESPONSE,
+} from "../services/llmProvider";
+
+// Mock embeddings are unit-length, so cosine similarity is the dot product
+const cosineSimilarity = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+const savedEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+  resetLLMProviders();
+});
+
+describe("LLM Provider Registry", () => {
+  describe("provider selection", () => {
+    it("should always use the mock chat provider in TEST_MODE", () => {
+      process.env.LLM_PROVIDER = "ollama";
+      expect(getChatProviderName()).toBe("mock");
+    });
+
+    it("should default to LM Studio for chat and Ollama for embeddings", () => {
+      delete process.env.TEST_MODE;
+      delete process.env.LLM_PROVIDER;
+      delete process.env.EMBEDDING_PROVIDER;
+      expect(getChatProviderName()).toBe("lmstudio");
+      expect(getEmbeddingProviderName()).toBe("ollama");
+    });
+
+    it("should follow LLM_PROVIDER=mock for embeddings unless overridden", () => {
+      process.env.LLM_PROVIDER = "mock";
+      delete process.env.EMBEDDING_PROVIDER;
+      expect(getEmbeddingProviderName()).toBe("mock");
+
+      process.env.EMBEDDING_PROVIDER = "openai";
+      expect(getEmbeddingProviderName()).toBe("openai");
+    });
+
+    it("should reject unknown provider names", () => {
+      process.env.EMBEDDING_PROVIDER = "bogus";
+      expect(() => getEmbeddingProviderName()).toThrow(/Unknown LLM provider/);
+    });
+
+    it("should report unconfigured providers without making requests", async () => {
+      delete process.env.LMSTUDIO_BASE_URL;
+      delete process.env.LMSTUDIO_MODEL;
+      const provider = getLLMProvider("lmstudio");
+      expect(provider.isConfigured()).toBe(false);
+
+      const health = await provider.health();
+      expect(health.ok).toBe(false);
+      expect(health.provider).toBe("lmstudio");
+    });
+  });
+
+  describe("mock provider", () => {
+    const mock = getLLMProvider("mock");
+
+    it("should return the deterministic chat response", async () => {
+      expect(await mock.chat([{ role: "user", content: "hello" }])).toBe(MOCK_CHAT_RESPONSE);
+
+      const tokens: string[] = [];
+      for await (const token of mock.chatStream([{ role: "user", content: "hello" }])) {
+        tokens.push(token);
+      }
+      expect(tokens.join("")).toBe(MOCK_CHAT_RESPONSE);
+    });
+
+    it("should produce stable, normalized 1024-dim embeddings", async () => {
+      const { embeddings } = await mock.embed(["solana staking rewards", "solana staking rewards"]);
+      expect(embeddings).toHaveLength(2);
+      expect(embeddings[0]).toHaveLength(1024);
+      expect(embeddings[0]).toEqual(embeddings[1]);
+      expect(cosineSimilarity(embeddings[0], embeddings[0])).toBeCloseTo(1, 6);
+    });
+
+    it("should score texts with shared words as more similar", () => {
+      const query = mockEmbedding("how do staking rewards work");
+      const related = mockEmbedding("staking rewards are paid every epoch");
+      const unrelated = mockEmbedding("the recipe needs flour and eggs");
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+  });
+});
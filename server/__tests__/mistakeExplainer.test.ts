@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import type { Question } from "@shared/schema";
+import {
+  getMissedAnswers,
+  isAttemptReviewed,
+  describeAnswer,
+  describeCorrectAnswer,
+  buildMistakePrompt,
+} from "../services/mistakeExplainer";
+
+function question(overrides: Partial<Question> = {}): Question {
+  return {
+    id: "q1",
+    trackId: "t1",
+    text: "What does staking lock?",
+    options: ["Nothing", "HIVE for a cycle", "SOL forever"],
+    correctIndex: 1,
+    complexity: 2,
+    isBenchmark: false,
+    questionType: "mcq",
+    numericAnswer: null,
+    numericTolerance: null,
+    numericUnit: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("Mistake Explainer", () => {
+  it("should only explain attempts that finished review", () => {
+    expect(isAttemptReviewed({ status: "approved" })).toBe(true);
+    expect(isAttemptReviewed({ status: "rejected" })).toBe(true);
+    expect(isAttemptReviewed({ status: "pending" })).toBe(false);
+  });
+
+  describe("getMissedAnswers()", () => {
+    it("should pair missed questions with the submitted answers", () => {
+      const missed = getMissedAnswers({
+        answersGiven: [1, 0, "3.5"],
+        questionResults: [
+          { questionId: "a", correct: true },
+          { questionId: "b", correct: false },
+          { questionId: "c", correct: false },
+        ],
+      });
+      expect(missed).toEqual([
+        { questionId: "b", answer: 0 },
+        { questionId: "c", answer: "3.5" },
+      ]);
+    });
+
+    it("should handle attempts without graded results", () => {
+      expect(getMissedAnswers(null)).toEqual([]);
+      expect(getMissedAnswers({ answersGiven: [0] })).toEqual([]);
+    });
+  });
+
+  describe("describeAnswer()", () => {
+    it("should label MCQ options and reject out-of-range indexes", () => {
+      expect(describeAnswer(question(), 0)).toBe("A) Nothing");
+      expect(describeAnswer(question(), "2")).toBe("C) SOL forever");
+      expect(describeAnswer(question(), 7)).toBe("(no answer)");
+      expect(describeAnswer(question(), null)).toBe("(no answer)");
+    });
+
+    it("should add units to numeric answers", () => {
+      const numeric = question({ questionType: "numeric", numericAnswer: "90", numericUnit: "degrees" });
+      expect(describeAnswer(numeric, "45")).toBe("45 degrees");
+      expect(describeCorrectAnswer(numeric)).toBe("90 degrees");
+    });
+  });
+
+  it("should build a prompt with options, the learner's answer and the correct one", () => {
+    const q = question();
+    const prompt = buildMistakePrompt(q, describeAnswer(q, 0), describeCorrectAnswer(q));
+    expect(prompt).toContain("Question: What does staking lock?");
+    expect(prompt).toContain("B) HIVE for a cycle\nC) SOL forever");
+    expect(prompt).toContain("Learner's answer: A) Nothing");
+    expect(prompt).toContain("Correct answer: B) HIVE for a cycle");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { applyPiiPolicy, detectPii, type PiiConfig } from "../services/piiScanner";
+
+const config: PiiConfig = {
+  enabled: true,
+  entityTypes: ["email", "phone", "street_address", "wallet_address", "credit_card"],
+  policy: "redact",
+  walletAllowlist: [],
+};
+
+const WALLET = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+
+describe("PII Scanner", () => {
+  it("should detect emails, phone numbers, street addresses and wallets", () => {
+    const text = `Contact jane.doe@example.com or +1 415-555-0132, or visit 221 Baker Street. Tips go to ${WALLET}.`;
+
+    expect(detectPii(text, config).map(m => m.type)).toEqual(["email", "phone", "street_address", "wallet_address"]);
+  });
+
+  it("should not flag dates, version numbers, plain long words or the submitter's own wallet", () => {
+    const text = `Released 2024-01-15 as v1.2.3 with internationalizationcompatibilities. My wallet is ${WALLET}.`;
+
+    expect(detectPii(text, config, WALLET)).toEqual([]);
+    expect(detectPii(text, { ...config, walletAllowlist: [WALLET] })).toEqual([]);
+  });
+
+  it("should only report card numbers that pass the Luhn check", () => {
+    expect(detectPii("Card 4111 1111 1111 1111 on file", config).map(m => m.type)).toEqual(["credit_card"]);
+    expect(detectPii("Order 4111 1111 1111 1112 shipped", config)).toEqual([]);
+  });
+
+  it("should redact with placeholders and report masked examples", () => {
+    const { text, report } = applyPiiPolicy("Email jane.doe@example.com twice: jane.doe@example.com", { config });
+
+    expect(text).toBe("Email [EMAIL_REMOVED] twice: [EMAIL_REMOVED]");
+    expect(report).toEqual({
+      policy: "redact",
+      action: "redacted",
+      total: 2,
+      entities: [{ type: "email", count: 2, examples: ["ja***om", "ja***om"] }],
+    });
+  });
+
+  it("should leave text unchanged under the reject policy and skip types that aren't configured", () => {
+    const rejected = applyPiiPolicy("Call 415-555-0132", { config: { ...config, policy: "reject" } });
+    expect(rejected.text).toBe("Call 415-555-0132");
+    expect(rejected.report.action).toBe("rejected");
+
+    const emailsOnly = applyPiiPolicy("Call 415-555-0132", { config: { ...config, entityTypes: ["email"] } });
+    expect(emailsOnly.report.action).toBe("none");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderTemplate,
+  validatePromptTemplate,
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_KEYS,
+} from "../services/promptTemplates";
+
+describe("Prompt Templates", () => {
+  describe("renderTemplate()", () => {
+    it("should fill known variables", () => {
+      expect(renderTemplate("Level {level} on {track}", { level: 42, track: "Science" })).toBe("Level 42 on Science");
+    });
+
+    it("should leave unknown placeholders untouched", () => {
+      expect(renderTemplate("Use {format} output at level {level}", { level: 3 })).toBe("Use {format} output at level 3");
+    });
+  });
+
+  describe("validatePromptTemplate()", () => {
+    it("should accept templates using allowed variables", () => {
+      expect(validatePromptTemplate("system_expert", "You are HiveMind AI at level {level} for {track}.")).toEqual([]);
+      expect(validatePromptTemplate("rag_context", "Sources:\n{sources}")).toEqual([]);
+    });
+
+    it("should reject unknown keys, variables and empty content", () => {
+      expect(validatePromptTemplate("system_unknown", "Hi")).toHaveLength(1);
+      expect(validatePromptTemplate("system_basic", "Answer using {sources}")[0]).toContain("{sources}");
+      expect(validatePromptTemplate("citations_required", "   ")).toHaveLength(1);
+    });
+
+    it("should require {sources} in rag_context", () => {
+      expect(validatePromptTemplate("rag_context", "Reference excerpts follow.")).toEqual(["rag_context must include {sources}"]);
+    });
+  });
+
+  it("should ship a valid default for every slot", () => {
+    for (const key of PROMPT_TEMPLATE_KEYS) {
+      expect(validatePromptTemplate(key, DEFAULT_PROMPT_TEMPLATES[key])).toEqual([]);
+    }
+  });
+});
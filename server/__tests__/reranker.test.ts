@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  rerankChunks,
+  scoreLexicalRelevance,
+  normalizeRerankScores,
+  selectByMMR,
+  getRerankConfig,
+  type RerankConfig,
+} from "../services/reranker";
+import { getLLMProvider, type LLMProvider } from "../services/llmProvider";
+import type { ChunkResult } from "../services/rag";
+
+function chunk(id: string, corpusItemId: string, chunkText: string, score = 0.6): ChunkResult {
+  return { id, corpusItemId, chunkText, score, trackId: null, title: null };
+}
+
+const config: RerankConfig = { ...getRerankConfig(), enabled: true, mode: "provider", mmrLambda: 0.7, sameItemSimilarity: 0.3, minScore: 0 };
+
+describe("Reranker", () => {
+  it("should score chunks containing the rarer query terms higher", () => {
+    const scores = scoreLexicalRelevance("How is the staking reward calculated?", [
+      chunk("a", "i1", "Staking rewards are calculated from the locked amount and the cycle length.", 0.5),
+      chunk("b", "i2", "Staking is popular. Many wallets stake.", 0.5),
+      chunk("c", "i3", "The weather was calculated to be nice.", 0.5),
+    ]);
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[0]).toBeGreaterThan(scores[2]);
+    expect(scores.every(s => s >= 0 && s <= 1)).toBe(true);
+  });
+
+  it("should map logit scores into [0, 1] and keep probabilities", () => {
+    expect(normalizeRerankScores([0.2, 0.9])).toEqual([0.2, 0.9]);
+    const mapped = normalizeRerankScores([-4, 0, 3]);
+    expect(mapped[1]).toBeCloseTo(0.5);
+    expect(mapped[0]).toBeLessThan(mapped[1]);
+    expect(mapped[2]).toBeLessThan(1);
+  });
+
+  describe("selectByMMR()", () => {
+    const chunks = [
+      chunk("a1", "item-a", "validator uptime slashing penalty rules"),
+      chunk("a2", "item-a", "validator uptime slashing penalty rules explained"),
+      chunk("b1", "item-b", "delegators choose validators by commission"),
+    ];
+
+    it("should skip near-duplicates of chunks already selected", () => {
+      expect(selectByMMR(chunks, [0.9, 0.88, 0.7], 2, 0.7, 0.3)).toEqual([0, 2]);
+    });
+
+    it("should rank by relevance alone when lambda is 1", () => {
+      expect(selectByMMR(chunks, [0.9, 0.88, 0.7], 2, 1, 0.3)).toEqual([0, 1]);
+    });
+  });
+
+  it("should record rerank scores next to the retrieval scores", async () => {
+    const result = await rerankChunks("staking cycle rewards", [
+      chunk("a", "i1", "Unrelated text about the weather", 0.8),
+      chunk("b", "i2", "Staking rewards are paid every cycle", 0.6),
+    ], 2, config, getLLMProvider("mock"));
+
+    expect(result.method).toBe("provider");
+    expect(result.chunks.map(c => c.id)).toEqual(["b", "a"]);
+    expect(result.chunks[0].score).toBe(0.6);
+    expect(result.chunks[0].rerankScore).toBeGreaterThan(result.chunks[1].rerankScore!);
+  });
+
+  it("should fall back to local scoring when the provider cannot rerank", async () => {
+    const failing = { ...getLLMProvider("mock"), rerank: async () => { throw new Error("down"); } } as LLMProvider;
+    const result = await rerankChunks("staking rewards", [chunk("a", "i1", "Staking rewards")], 3, config, failing);
+    expect(result.method).toBe("local");
+    expect(result.chunks).toHaveLength(1);
+  });
+
+  it("should drop chunks below the rerank minimum", async () => {
+    const result = await rerankChunks("staking rewards", [
+      chunk("a", "i1", "Staking rewards", 0.9),
+      chunk("b", "i2", "Completely different topic", 0.1),
+    ], 5, { ...config, mode: "local", minScore: 0.4 });
+    expect(result.chunks.map(c => c.id)).toEqual(["a"]);
+  });
+});
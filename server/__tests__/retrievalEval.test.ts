@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseGoldenJsonl,
+  scoreRetrieval,
+  scoreDistribution,
+  summarizeEvalResults,
+  type QuestionEvalResult,
+} from "../services/retrievalEval";
+import type { ChunkResult } from "../services/rag";
+
+function chunk(corpusItemId: string, score: number, chunkText = "text"): ChunkResult {
+  return { id: `${corpusItemId}-${score}`, corpusItemId, chunkText, score, trackId: null, title: null };
+}
+
+describe("Retrieval Eval", () => {
+  it("should parse valid lines and report invalid ones by line number", () => {
+    const { questions, errors } = parseGoldenJsonl([
+      `{"query": "How are rewards paid?", "expectedCorpusItemIds": ["item-1"]}`,
+      "",
+      "# comment",
+      `{"query": "", "expectedCorpusItemIds": ["item-2"]}`,
+      "not json",
+    ].join("\n"));
+
+    expect(questions).toEqual([{ query: "How are rewards paid?", expectedCorpusItemIds: ["item-1"] }]);
+    expect(errors.map(e => e.line)).toEqual([4, 5]);
+  });
+
+  it("should rank distinct items, counting an item once at its best chunk", () => {
+    const result = scoreRetrieval(
+      { expectedCorpusItemIds: ["b", "c"] },
+      [chunk("a", 0.9), chunk("a", 0.85), chunk("b", 0.8), chunk("d", 0.7)],
+      5
+    );
+
+    expect(result.retrievedCorpusItemIds).toEqual(["a", "b", "d"]);
+    expect(result.firstRelevantRank).toBe(2);
+    expect(result.recallAtK).toBe(0.5);
+    expect(result.reciprocalRank).toBe(0.5);
+    // DCG 1/log2(3) over ideal 1 + 1/log2(3)
+    expect(result.ndcg).toBeCloseTo((1 / Math.log2(3)) / (1 + 1 / Math.log2(3)));
+  });
+
+  it("should score a miss as zero and measure expected-answer coverage", () => {
+    const result = scoreRetrieval(
+      { expectedCorpusItemIds: ["z"], expectedAnswer: "Rewards are paid every cycle" },
+      [chunk("a", 0.6, "Staking rewards are paid out weekly")],
+      5
+    );
+
+    expect(result.firstRelevantRank).toBeNull();
+    expect(result.recallAtK).toBe(0);
+    expect(result.ndcg).toBe(0);
+    // "rewards" and "paid" found, "every" and "cycle" not
+    expect(result.answerRecall).toBe(0.5);
+  });
+
+  it("should summarize score distributions", () => {
+    expect(scoreDistribution([])).toBeNull();
+    expect(scoreDistribution([0.2, 0.8, 0.4, 0.6])).toMatchObject({ count: 4, min: 0.2, median: 0.5, max: 0.8, mean: 0.5 });
+  });
+
+  it("should break metrics down by track", () => {
+    const base = { retrievedCorpusItemIds: [], firstRelevantRank: null, ndcg: 0, answerRecall: null, scores: [] };
+    const results: QuestionEvalResult[] = [
+      { ...base, questionId: "1", trackId: "t1", recallAtK: 1, reciprocalRank: 1 },
+      { ...base, questionId: "2", trackId: "t1", recallAtK: 0, reciprocalRank: 0 },
+      { ...base, questionId: "3", trackId: null, recallAtK: 1, reciprocalRank: 0.5 },
+    ];
+
+    const summary = summarizeEvalResults(results);
+    expect(summary.overall.questionCount).toBe(3);
+    expect(summary.overall.mrr).toBeCloseTo(0.5);
+    expect(summary.byTrack.t1.recallAtK).toBe(0.5);
+    expect(summary.byTrack.none.questionCount).toBe(1);
+    expect(summary.overall.answerRecall).toBeNull();
+  });
+});
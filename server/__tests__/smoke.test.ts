@@ -161,6 +161,57 @@ describe("API Smoke Tests", () => {
     });
   });
 
+  describe("Chat Streaming", () => {
+    it("POST /api/ai/chat/stream without auth should return 401/403", async () => {
+      const res = await request(app)
+        .post("/api/ai/chat/stream")
+        .send({ message: "test message", aiLevel: 50 });
+      expect([401, 403]).toContain(res.status);
+    });
+
+    it.skipIf(!hasDatabase)("should stream tokens and finish with a done event carrying metadata", async () => {
+      const res = await request(app)
+        .post("/api/ai/chat/stream")
+        .set("Cookie", "sid=test-session-token")
+        .send({
+          message: "test message",
+          aiLevel: 50,
+        });
+
+      if (res.status === 200) {
+        expect(res.headers["content-type"]).toContain("text/event-stream");
+        expect(res.text).toContain("event: token");
+        expect(res.text).toMatch(/event: (done|error)/);
+        if (res.text.includes("event: done")) {
+          expect(res.text).toContain("\"corpusHash\"");
+        }
+      } else {
+        expect([401, 403]).toContain(res.status);
+      }
+    });
+  });
+
+  describe("Chat Conversations", () => {
+    it("GET /api/ai/conversations without auth should return 401/403", async () => {
+      const res = await request(app).get("/api/ai/conversations");
+      expect([401, 403]).toContain(res.status);
+    });
+
+    it("DELETE /api/ai/conversations/:id without auth should return 401/403", async () => {
+      const res = await request(app).delete("/api/ai/conversations/some-id");
+      expect([401, 403]).toContain(res.status);
+    });
+
+    it.skipIf(!hasDatabase)("should return 404 when chatting in a conversation the wallet does not own", async () => {
+      const res = await request(app)
+        .post("/api/ai/chat")
+        .set("Cookie", "sid=test-session-token")
+        .send({ message: "test message", aiLevel: 50, conversationId: "not-a-real-conversation" });
+
+      expect([401, 403, 404]).toContain(res.status);
+    });
+  });
+
   describe("Job Queue", () => {
     it.skipIf(!hasDatabase)("should enqueue a job when embedding is requested", async () => {
       // This test requires a valid corpus item ID
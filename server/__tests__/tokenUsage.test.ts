@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeTokenQuota,
+  createTokenMeter,
+  estimatePromptTokens,
+  type TokenQuotaConfig,
+} from "../services/tokenUsage";
+
+const config: TokenQuotaConfig = {
+  enabled: true,
+  baseTokens: 50000,
+  tokensPerLevel: 5000,
+  tokensPerStakedHive: 50,
+  maxStakeBonus: 200000,
+  creatorMultiplier: 5,
+};
+
+describe("Chat Token Usage", () => {
+  describe("computeTokenQuota()", () => {
+    it("should scale the quota with level", () => {
+      expect(computeTokenQuota(1, 0, config)).toBe(50000);
+      expect(computeTokenQuota(100, 0, config)).toBe(545000);
+    });
+
+    it("should add a capped stake bonus", () => {
+      expect(computeTokenQuota(1, 100, config)).toBe(55000);
+      expect(computeTokenQuota(1, 1_000_000, config)).toBe(250000);
+      expect(computeTokenQuota(1, -5, config)).toBe(50000);
+    });
+
+    it("should give creators the rate limiter multiplier", () => {
+      expect(computeTokenQuota(1, 0, config, true)).toBe(250000);
+    });
+  });
+
+  describe("createTokenMeter()", () => {
+    const messages = [{ role: "user" as const, content: "a".repeat(40) }];
+
+    it("should prefer provider-reported usage", () => {
+      const meter = createTokenMeter();
+      meter.onUsage({ promptTokens: 120, completionTokens: 30 });
+      meter.settle(messages, "ignored");
+      expect(meter.totals()).toEqual({ promptTokens: 120, completionTokens: 30, totalTokens: 150, estimated: false });
+    });
+
+    it("should estimate completions without a usage report and sum across calls", () => {
+      const meter = createTokenMeter();
+      meter.onUsage({ promptTokens: 100, completionTokens: 10 });
+      meter.settle(messages, "tool request");
+      meter.settle(messages, "b".repeat(80));
+      expect(meter.totals()).toEqual({
+        promptTokens: 100 + estimatePromptTokens(messages),
+        completionTokens: 10 + 20,
+        totalTokens: 130 + estimatePromptTokens(messages),
+        estimated: true,
+      });
+    });
+  });
+
+  describe("estimatePromptTokens()", () => {
+    it("should count content, tool calls and per-message framing", () => {
+      expect(estimatePromptTokens([{ role: "user", content: "a".repeat(40) }])).toBe(14);
+      expect(estimatePromptTokens([
+        { role: "assistant", content: "", toolCalls: [{ id: "1", name: "calc", arguments: "{\"x\":1234}" }] },
+      ])).toBe(4 + 4);
+    });
+  });
+});
@@ -1,185 +1,146 @@
-import { lmstudioChat } from "./services/lmstudio";
+import { lmstudioChat, lmstudioChatStream, type ChatMessage as LLMMessage } from "./services/lmstudio";
+import { getChatProvider, type LLMProviderName } from "./services/llmProvider";
 import { storage } from "./storage";
-import type { TrainingCorpusItem } from "@shared/schema";
-import { searchCorpus, type ChunkResult } from "./services/rag";
+import { searchCorpus, meetsRetrievalThreshold, type ChunkResult } from "./services/rag";
+import { getRerankConfig, rerankChunks } from "./services/reranker";
+import { normalizeRetrievalFilter, type CorpusRetrievalFilter } from "./services/corpusMetadata";
 import {
   sanitizeChunks,
   filterValidChunks,
-  formatSanitizedSourcesForPrompt,
-  getRAGGuardSystemInstruction,
+  formatSanitizedSourceList,
   sanitizeCitations,
   getRAGGuardConfig,
 } from "./services/ragGuard";
 import { getLevelPolicy, type LevelPolicy } from "./services/levelPolicy";
-
-const LMSTUDIO_BASE_URL = process.env.LMSTUDIO_BASE_URL || "";
-const LMSTUDIO_MODEL = process.env.LMSTUDIO_MODEL || "";
-
-interface IntelligenceStyle {
-  maxTokens: number;
-  systemPrompt: string;
-  temperature: number;
-}
+import type { ConversationHistory } from "./services/conversationContext";
+import { getPromptRenderer } from "./services/promptTemplates";
+import {
+  verifyCitations,
+  getCitationVerifierConfig,
+  getCitationRetryInstruction,
+  type CitationReport,
+} from "./services/citationVerifier";
+import {
+  getAnswerCacheConfig,
+  resolveAnswerCacheScope,
+  lookupCachedAnswer,
+  storeCachedAnswer,
+  type AnswerCacheScope,
+} from "./services/answerCache";
+import {
+  getChatToolsConfig,
+  shouldOfferTools,
+  runToolLoop,
+  type ChatToolInvocation,
+  type ToolLoopResult,
+} from "./services/chatTools";
+import { createTokenMeter, type ChatTokenUsage, type TokenMeter } from "./services/tokenUsage";
+import { createStreamGuard, guardOutput, type OutputGuardReport } from "./services/outputGuard";
 
 export interface OllamaHealthStatus {
   ok: boolean;
+  provider: LLMProviderName;
   baseUrl: string;
   model?: string;
   error?: string;
 }
 
-function getIntelligenceStyle(aiLevel: number): IntelligenceStyle {
-  if (aiLevel <= 5) {
-    return {
-      maxTokens: 150,
-      temperature: 0.9,
-      systemPrompt: `You are HiveMind AI at early training level ${aiLevel}. 
-You're still learning and should give SHORT, SIMPLE responses.
-- Use basic vocabulary only
-- Keep responses to 1-2 sentences
-- Avoid technical jargon
-- Be friendly but a bit unsure
-- Sometimes say "I'm still learning about this"`,
-    };
-  } else if (aiLevel <= 15) {
-    return {
-      maxTokens: 300,
-      temperature: 0.7,
-      systemPrompt: `You are HiveMind AI at intermediate training level ${aiLevel}.
-You're becoming more capable and should give MODERATE responses.
-- Use clear explanations with examples
-- Can handle some complexity
-- Be helpful and conversational
-- Show growing confidence`,
-    };
-  } else if (aiLevel <= 30) {
-    return {
-      maxTokens: 500,
-      temperature: 0.5,
-      systemPrompt: `You are HiveMind AI at advanced training level ${aiLevel}.
-You're well-trained and should give DETAILED responses.
-- Provide thorough explanations
-- Use technical terms when appropriate
-- Structure answers with clear steps
-- Be confident and precise`,
-    };
+export async function checkOllamaHealth(): Promise<OllamaHealthStatus> {
+  const provider = getChatProvider();
+  const health = await provider.health();
+  
+  if (health.ok) {
+    console.log(`[${provider.label}] Health check passed for ${health.baseUrl}`);
   } else {
-    return {
-      maxTokens: 800,
-      temperature: 0.3,
-      systemPrompt: `You are HiveMind AI at elite training level ${aiLevel}.
-You're highly trained and should give EXPERT responses.
-- Provide comprehensive, structured answers
-- Use precise technical language
-- Include nuances and edge cases
-- Demonstrate deep understanding
-- Reference specific knowledge from training`,
-    };
-  }
-}
-
-function buildContextFromCorpus(items: TrainingCorpusItem[]): string {
-  if (items.length === 0) {
-    return "";
+    console.error(`[${provider.label}] Health check failed for ${health.baseUrl}:`, health.error);
   }
   
-  const context = items.map((item, i) => `[${i + 1}] ${item.normalizedText}`).join("\n");
-  return `\n\nRelevant knowledge from official HiveMind training corpus:\n${context}\n\nUse this knowledge to inform your response.`;
-}
-
-
-export async function checkOllamaHealth(): Promise<OllamaHealthStatus> {
-  if (!LMSTUDIO_BASE_URL || !LMSTUDIO_MODEL) {
-    return {
-      ok: false,
-      baseUrl: LMSTUDIO_BASE_URL || "(not configured)",
-      model: LMSTUDIO_MODEL || "(not configured)",
-      error: "LM Studio not configured",
-    };
-  }
-
-  try {
-    // Use AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-    const response = await fetch(`${LMSTUDIO_BASE_URL}/models`, {
-      signal: controller.signal,
-      headers: { "Content-Type": "application/json" },
-    });
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      return {
-        ok: false,
-        baseUrl: LMSTUDIO_BASE_URL,
-        model: LMSTUDIO_MODEL,
-        error: `HTTP ${response.status}: ${response.statusText}`,
-      };
-    }
-
-    console.log(`[LM Studio] Health check passed for ${LMSTUDIO_BASE_URL}`);
-    
-    return {
-      ok: true,
-      baseUrl: LMSTUDIO_BASE_URL,
-      model: LMSTUDIO_MODEL,
-    };
-  } catch (error: any) {
-    const errorMessage = error.name === "AbortError" 
-      ? "Connection timeout (5s)" 
-      : error.message || "Unknown error";
-    
-    console.error(`[LM Studio] Health check failed for ${LMSTUDIO_BASE_URL}:`, errorMessage);
-    
-    return {
-      ok: false,
-      baseUrl: LMSTUDIO_BASE_URL,
-      model: LMSTUDIO_MODEL,
-      error: errorMessage,
-    };
-  }
+  return health;
 }
 
 export interface ChatResponseResult {
   response: string;
   corpusItemsUsed: string[];
-  sources: Array<{ chunkText: string; score: number; title: string | null }>;
+  sources: Array<{ chunkText: string; score: number; title: string | null; rerankScore?: number }>;
   isGrounded: boolean;
   usedCorpus: boolean;
   grounded: boolean;
   level: number;
   policySnapshot: LevelPolicy;
+  citationReport: CitationReport | null;
+  cache: ChatCacheInfo | null;
+  toolInvocations: ChatToolInvocation[];
+  usage: ChatTokenUsage;
+  outputGuard: OutputGuardReport | null; // Set when the output guard redacted, blocked or flagged the answer
 }
 
-export async function generateChatResponse(
+export interface ChatCacheInfo {
+  hit: boolean;
+  similarity?: number;
+  cachedAt?: string;
+  entryId?: string;
+}
+
+export interface ChatStreamResult extends ChatResponseResult {
+  aborted: boolean;
+}
+
+export interface ChatGenerationOptions {
+  history?: ConversationHistory;
+  corpusFilter?: CorpusRetrievalFilter | null; // Limit retrieval to items with these tags / languages / licenses
+  meter?: TokenMeter; // Request meter that already holds preparation tokens (history summary)
+}
+
+interface AnswerCacheLookup {
+  scope: AnswerCacheScope;
+  embedding: number[];
+  hit: ChatResponseResult | null;
+}
+
+// Cache hits don't call the model
+const NO_TOKEN_USAGE: ChatTokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+
+interface PreparedChat {
+  messages: LLMMessage[];
+  instructions: string; // System prompt without sources or history, for the output guard's echo check
+  policy: LevelPolicy;
+  ragSources: ChunkResult[];
+  corpusItemIds: string[];
+  usedCorpus: boolean;
+  grounded: boolean;
+}
+
+/**
+ * Build the level-appropriate prompt (with guarded RAG context) for a chat message
+ */
+async function prepareChat(
   userMessage: string,
   aiLevel: number,
-  trackId?: string
-): Promise<ChatResponseResult> {
+  trackId?: string,
+  history?: ConversationHistory,
+  corpusFilter?: CorpusRetrievalFilter | null
+): Promise<PreparedChat> {
   // Get level-based policy
   const policy = getLevelPolicy(aiLevel);
   
+  // Prompt text comes from the template revision pinned by the active model version
+  const prompts = await getPromptRenderer(trackId);
+  const track = trackId ? await storage.getTrack(trackId) : undefined;
+  const promptVars = { level: aiLevel, track: track?.name ?? "general" };
+  
   // Build system prompt based on level and simplicity mode
-  let systemPrompt = "";
+  let systemPrompt: string;
   if (policy.simplicityMode) {
-    systemPrompt = `You are HiveMind AI at early training level ${aiLevel}. 
-You're still learning and should give SHORT, SIMPLE responses.
-- Use basic vocabulary only
-- Keep responses concise
-- Avoid technical jargon
-- Be friendly but a bit unsure`;
+    systemPrompt = prompts.render("system_simple", promptVars);
+  } else if (aiLevel <= 30) {
+    systemPrompt = prompts.render("system_basic", promptVars);
+  } else if (aiLevel <= 70) {
+    systemPrompt = prompts.render("system_detailed", promptVars);
   } else {
-    systemPrompt = `You are HiveMind AI at training level ${aiLevel}.`;
-    if (aiLevel <= 30) {
-      systemPrompt += " Provide clear, helpful responses with examples when appropriate.";
-    } else if (aiLevel <= 70) {
-      systemPrompt += " Provide detailed, structured responses with technical accuracy.";
-    } else {
-      systemPrompt += " Provide comprehensive, expert-level responses with deep understanding and precision.";
-    }
+    systemPrompt = prompts.render("system_expert", promptVars);
   }
   
+  let instructions = systemPrompt;
   let ragSources: ChunkResult[] = [];
   let corpusItemIds: string[] = [];
   let usedCorpus = false;
@@ -193,43 +154,52 @@ You're still learning and should give SHORT, SIMPLE responses.
         ? Math.max(0, policy.minScore - 0.05)
         : policy.minScore;
       
-      const searchResults = await searchCorpus(userMessage, policy.topK, trackId, searchMinScore);
+      // The rerank stage rescores a wider candidate set and keeps the best topK
+      const rerankConfig = getRerankConfig();
+      const candidateCount = rerankConfig.enabled ? Math.max(policy.topK, rerankConfig.candidates) : policy.topK;
+      const searchResults = await searchCorpus(userMessage, candidateCount, trackId, searchMinScore, policy.retrievalMode, corpusFilter);
       
-      // Determine if we should use corpus based on policy
-      const bestScore = searchResults.length > 0 ? searchResults[0].score : 0;
+      // Determine if we should use corpus based on policy (hybrid results are ordered by fused rank, not score)
       const shouldUseCorpus = 
-        bestScore >= policy.minScore || 
+        searchResults.some(r => meetsRetrievalThreshold(r, policy.minScore)) || 
         (policy.preferCorpus === "strong" && searchResults.some(r => r.score >= (policy.minScore - 0.05)));
       
       if (shouldUseCorpus && searchResults.length > 0) {
         usedCorpus = true;
         
         // Filter results by actual minScore (even if we searched with lower threshold for "strong" preference)
-        const filteredResults = searchResults.filter(r => r.score >= policy.minScore);
-        const resultsToUse = filteredResults.length > 0 ? filteredResults : searchResults;
+        const filteredResults = searchResults.filter(r => meetsRetrievalThreshold(r, policy.minScore));
+        let resultsToUse = filteredResults.length > 0 ? filteredResults : searchResults;
+        if (rerankConfig.enabled) {
+          resultsToUse = (await rerankChunks(userMessage, resultsToUse, policy.topK, rerankConfig)).chunks;
+        }
         
         // Apply RAG guard: sanitize chunks for prompt injection protection
         const guardConfig = getRAGGuardConfig();
         const sanitizedChunks = sanitizeChunks(resultsToUse, guardConfig);
         const validChunks = filterValidChunks(sanitizedChunks);
+        if (sanitizedChunks.some(s => s.injectionScan)) {
+          // Chunks stored before scoring are quarantined when retrieval first flags them
+          const { quarantineDetectedChunks } = await import("./services/corpusQuarantine");
+          void quarantineDetectedChunks(sanitizedChunks);
+        }
         
         // Update corpus items used to only include valid chunks
         corpusItemIds = Array.from(new Set(validChunks.map(s => s.originalChunk?.corpusItemId).filter(Boolean) as string[]));
         grounded = validChunks.length > 0;
         
         // Format sanitized sources for prompt
-        const ragContext = formatSanitizedSourcesForPrompt(sanitizedChunks);
+        const sourceList = formatSanitizedSourceList(sanitizedChunks);
         
-        if (ragContext) {
-          systemPrompt += ragContext;
+        if (sourceList) {
+          systemPrompt += "\n\n" + prompts.render("rag_context", { ...promptVars, sources: sourceList });
           // Add RAG guard system instruction
-          systemPrompt += getRAGGuardSystemInstruction();
-          
-          if (policy.requireCitations) {
-            systemPrompt += "\n\nIMPORTANT: You MUST cite specific information from the provided sources. Include citations like [Source 1], [Source 2], etc. in your response.";
-          } else {
-            systemPrompt += "\n\nIMPORTANT: Base your response on the provided sources. Cite specific information from them when relevant.";
-          }
+          const guardInstructions = prompts.render("rag_guard", promptVars) + "\n\n" + prompts.render(
+            policy.requireCitations ? "citations_required" : "citations_preferred",
+            promptVars
+          );
+          systemPrompt += "\n\n" + guardInstructions;
+          instructions += "\n\n" + guardInstructions;
         }
         
         // Update ragSources to only include valid chunks for citation
@@ -243,46 +213,346 @@ You're still learning and should give SHORT, SIMPLE responses.
   }
   
   if (!usedCorpus && policy.simplicityMode) {
-    systemPrompt += "\n\nNote: You don't have specific training data for this topic yet. Be honest about this limitation.";
+    const notice = prompts.render("no_corpus_notice", promptVars);
+    systemPrompt += "\n\n" + notice;
+    instructions += "\n\n" + notice;
+  }
+  
+  if (history?.summary) {
+    systemPrompt += `\n\nSummary of the earlier conversation:\n${history.summary}`;
+  }
+  
+  // Convert system prompt to user message format (LM Studio models may not support system role)
+  // Prepend system instructions to the user message
+  const prompt = systemPrompt 
+    ? `${systemPrompt}\n\nUser question: ${userMessage}`
+    : userMessage;
+  
+  // Prior turns go before the current question as regular user/assistant messages
+  const messages: LLMMessage[] = [
+    ...(history?.turns ?? []),
+    { role: "user", content: prompt },
+  ];
+  
+  return { messages, instructions, policy, ragSources, corpusItemIds, usedCorpus, grounded };
+}
+
+function buildChatResult(
+  prepared: PreparedChat,
+  answer: string,
+  aiLevel: number,
+  extras: {
+    citationReport?: CitationReport | null;
+    toolInvocations?: ChatToolInvocation[];
+    usage?: ChatTokenUsage;
+  } = {}
+): ChatResponseResult {
+  const { citationReport = null, toolInvocations = [], usage = NO_TOKEN_USAGE } = extras;
+  // Sanitize citations before returning to client (remove secrets, safe truncation)
+  const sanitizedSources = sanitizeCitations(prepared.ragSources, 240);
+  // An answer whose citations fail verification is not considered grounded
+  const grounded = prepared.grounded && (citationReport?.passed ?? true);
+  // The model's own text is screened last, after citation checks have seen the original
+  const guarded = guardOutput(answer, prepared.instructions);
+  
+  return {
+    response: guarded.response,
+    corpusItemsUsed: prepared.corpusItemIds,
+    sources: sanitizedSources,
+    isGrounded: grounded, // Keep for backwards compatibility
+    usedCorpus: prepared.usedCorpus,
+    grounded,
+    level: aiLevel,
+    policySnapshot: prepared.policy,
+    citationReport,
+    cache: null,
+    toolInvocations,
+    usage,
+    outputGuard: guarded.report.triggered ? guarded.report : null,
+  };
+}
+
+/**
+ * Give the model the calculator / unit converter for questions with numbers.
+ * Providers or models without tool support fall back to a plain completion.
+ */
+async function runChatTools(
+  prepared: PreparedChat,
+  userMessage: string,
+  chatOptions: { temperature: number; max_tokens: number; signal?: AbortSignal },
+  meter: TokenMeter,
+  onTool?: (invocation: ChatToolInvocation) => void
+): Promise<ToolLoopResult> {
+  const noTools: ToolLoopResult = { answer: null, messages: prepared.messages, invocations: [] };
+  const config = getChatToolsConfig();
+  if (!config.enabled || !shouldOfferTools(userMessage)) {
+    return noTools;
   }
   
-  if (!LMSTUDIO_BASE_URL || !LMSTUDIO_MODEL) {
-    throw new Error("LM Studio not configured");
+  const provider = getChatProvider();
+  try {
+    return await runToolLoop(
+      prepared.messages,
+      async (messages, tools, opts) => {
+        const turn = await provider.chatWithTools(messages, tools, { ...opts, onUsage: meter.onUsage });
+        meter.settle(messages, turn.content + turn.toolCalls.map(call => call.name + call.arguments).join(""));
+        return turn;
+      },
+      chatOptions,
+      config,
+      onTool
+    );
+  } catch (error: any) {
+    console.warn(`[Tools] Tool calling failed on ${provider.label}, answering without tools:`, error.message);
+    return noTools;
+  }
+}
+
+/**
+ * Look up a cached answer for an equivalent standalone question.
+ * Follow-up turns depend on the conversation, so they always go to the model.
+ * Cache problems never fail the chat.
+ */
+async function lookupAnswerCache(
+  userMessage: string,
+  aiLevel: number,
+  trackId?: string,
+  history?: ConversationHistory,
+  corpusFilter?: CorpusRetrievalFilter | null
+): Promise<AnswerCacheLookup | null> {
+  const config = getAnswerCacheConfig();
+  // Cache scopes don't include metadata filters, so scoped questions always get a fresh answer
+  if (!config.enabled || history?.summary || (history?.turns.length ?? 0) > 0 || normalizeRetrievalFilter(corpusFilter)) {
+    return null;
   }
   
   try {
-    // Convert system prompt to user message format (LM Studio models may not support system role)
-    // Prepend system instructions to the user message
-    const userMessageWithContext = systemPrompt 
-      ? `${systemPrompt}\n\nUser question: ${userMessage}`
-      : userMessage;
+    const scope = await resolveAnswerCacheScope(aiLevel, trackId);
+    const { hit, embedding } = await lookupCachedAnswer(userMessage, scope, config);
+    if (!hit) {
+      return { scope, embedding, hit: null };
+    }
     
-    const aiResponse = await lmstudioChat(
-      [
-        { role: "user", content: userMessageWithContext },
-      ],
-      {
-        temperature: policy.temperature,
-        max_tokens: policy.maxAnswerTokens,
+    const cached = hit.result as Omit<ChatResponseResult, "level" | "policySnapshot" | "cache" | "usage" | "outputGuard">;
+    return {
+      scope,
+      embedding,
+      hit: {
+        ...cached,
+        level: aiLevel,
+        policySnapshot: getLevelPolicy(aiLevel),
+        usage: NO_TOKEN_USAGE,
+        outputGuard: null,
+        cache: {
+          hit: true,
+          similarity: hit.similarity,
+          cachedAt: hit.cachedAt.toISOString(),
+          entryId: hit.entryId,
+        },
+      },
+    };
+  } catch (error: any) {
+    console.warn("[AnswerCache] Lookup failed, generating a fresh answer:", error.message);
+    return null;
+  }
+}
+
+/**
+ * Cache a freshly generated answer and mark the result as a cache miss
+ */
+async function saveToAnswerCache(
+  lookup: AnswerCacheLookup | null,
+  userMessage: string,
+  result: ChatResponseResult
+): Promise<ChatResponseResult> {
+  if (!lookup) {
+    return result;
+  }
+  
+  // Answers that failed citation verification or tripped the output guard are not worth repeating
+  if ((!result.citationReport || result.citationReport.passed) && !result.outputGuard) {
+    try {
+      const { level, policySnapshot, cache, usage, outputGuard, ...cached } = result;
+      await storeCachedAnswer(userMessage, lookup.embedding, lookup.scope, cached);
+    } catch (error: any) {
+      console.warn("[AnswerCache] Failed to store answer:", error.message);
+    }
+  }
+  
+  return { ...result, cache: { hit: false } };
+}
+
+function shouldVerifyCitations(prepared: PreparedChat): boolean {
+  return prepared.policy.requireCitations &&
+    prepared.ragSources.length > 0 &&
+    getCitationVerifierConfig().enabled;
+}
+
+/**
+ * Check an answer's [Source N] citations against the retrieved chunks.
+ * Verification problems never fail the chat; the answer is returned unverified.
+ */
+async function checkCitations(
+  prepared: PreparedChat,
+  response: string
+): Promise<{ answer: string; report: CitationReport | null }> {
+  if (!shouldVerifyCitations(prepared)) {
+    return { answer: response, report: null };
+  }
+  try {
+    return await verifyCitations(response, prepared.ragSources);
+  } catch (error: any) {
+    console.warn("[Citations] Verification failed, returning unverified answer:", error.message);
+    return { answer: response, report: null };
+  }
+}
+
+export async function generateChatResponse(
+  userMessage: string,
+  aiLevel: number,
+  trackId?: string,
+  options?: ChatGenerationOptions
+): Promise<ChatResponseResult> {
+  const cacheLookup = await lookupAnswerCache(userMessage, aiLevel, trackId, options?.history, options?.corpusFilter);
+  if (cacheLookup?.hit) {
+    return { ...cacheLookup.hit, usage: options?.meter?.totals() ?? NO_TOKEN_USAGE };
+  }
+  
+  const prepared = await prepareChat(userMessage, aiLevel, trackId, options?.history, options?.corpusFilter);
+  
+  const provider = getChatProvider();
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.label} not configured`);
+  }
+  
+  try {
+    const meter = options?.meter ?? createTokenMeter();
+    const chatOptions = {
+      temperature: prepared.policy.temperature,
+      max_tokens: prepared.policy.maxAnswerTokens,
+    };
+    const tools = await runChatTools(prepared, userMessage, chatOptions, meter);
+    // Without a final answer from the tool loop, answer with the tool results in context
+    let aiResponse = tools.answer;
+    if (aiResponse === null) {
+      aiResponse = await lmstudioChat(tools.messages, { ...chatOptions, onUsage: meter.onUsage });
+      meter.settle(tools.messages, aiResponse);
+    }
+    let verified = await checkCitations(prepared, aiResponse);
+    
+    // High levels get one retry with a corrective instruction before being marked ungrounded
+    if (verified.report && !verified.report.passed && prepared.policy.regenerateUnsupported) {
+      // The question prompt keeps its position; tool requests/results follow it
+      const retryMessages = tools.messages.map((m, i) =>
+        i === prepared.messages.length - 1
+          ? { ...m, content: m.content + getCitationRetryInstruction(verified.report!) }
+          : m
+      );
+      const retryResponse = await lmstudioChat(retryMessages, { ...chatOptions, onUsage: meter.onUsage });
+      meter.settle(retryMessages, retryResponse);
+      const retried = await checkCitations(prepared, retryResponse);
+      if (retried.report) {
+        verified = { answer: retried.answer, report: { ...retried.report, regenerated: true } };
       }
-    );
+    }
+    
+    const result = buildChatResult(prepared, verified.answer, aiLevel, {
+      citationReport: verified.report,
+      toolInvocations: tools.invocations,
+      usage: meter.totals(),
+    });
+    return await saveToAnswerCache(cacheLookup, userMessage, result);
+  } catch (error: any) {
+    console.error(`[${provider.label}] Chat error for ${provider.baseUrl}:`, error.message || error);
+    throw new Error(`${provider.label} not configured or offline`);
+  }
+}
+
+/**
+ * Streaming variant of generateChatResponse.
+ * Calls onToken for each content delta and resolves with the full response once
+ * generation finishes. If the signal is aborted mid-stream, resolves with the
+ * partial response and `aborted: true` instead of throwing.
+ * Tool rounds run before streaming starts; onTool reports each executed call.
+ * Tokens pass through the output guard's stream gate before reaching onToken.
+ */
+export async function streamChatResponse(
+  userMessage: string,
+  aiLevel: number,
+  trackId: string | undefined,
+  opts: ChatGenerationOptions & {
+    onToken: (token: string) => void;
+    onTool?: (invocation: ChatToolInvocation) => void;
+    signal?: AbortSignal;
+  }
+): Promise<ChatStreamResult> {
+  const cacheLookup = await lookupAnswerCache(userMessage, aiLevel, trackId, opts.history, opts.corpusFilter);
+  if (cacheLookup?.hit) {
+    // Cached answers are sent as a single token
+    opts.onToken(cacheLookup.hit.response);
+    return { ...cacheLookup.hit, usage: opts.meter?.totals() ?? NO_TOKEN_USAGE, aborted: false };
+  }
+  
+  const prepared = await prepareChat(userMessage, aiLevel, trackId, opts.history, opts.corpusFilter);
+  
+  const provider = getChatProvider();
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.label} not configured`);
+  }
+  
+  const chatOptions = {
+    temperature: prepared.policy.temperature,
+    max_tokens: prepared.policy.maxAnswerTokens,
+    signal: opts.signal,
+  };
+  
+  const meter = opts.meter ?? createTokenMeter();
+  const streamGuard = createStreamGuard(prepared.instructions, opts.onToken);
+  let aiResponse = "";
+  let invocations: ChatToolInvocation[] = [];
+  let streamMessages: LLMMessage[] | null = null;
+  try {
+    const tools = await runChatTools(prepared, userMessage, chatOptions, meter, opts.onTool);
+    invocations = tools.invocations;
     
-    // Sanitize citations before returning to client (remove secrets, safe truncation)
-    const sanitizedSources = sanitizeCitations(ragSources, 240);
+    if (tools.answer !== null && tools.invocations.length > 0) {
+      // The tool loop already produced the full answer (non-streamed)
+      aiResponse = tools.answer;
+      streamGuard.push(tools.answer);
+    } else {
+      // No tool was called (or the round limit was hit): stream the answer turn instead
+      streamMessages = tools.messages;
+      for await (const token of lmstudioChatStream(tools.messages, { ...chatOptions, onUsage: meter.onUsage })) {
+        aiResponse += token;
+        streamGuard.push(token);
+      }
+      meter.settle(tools.messages, aiResponse);
+      streamMessages = null;
+    }
+    streamGuard.end();
     
-    return {
-      response: aiResponse,
-      corpusItemsUsed: corpusItemIds,
-      sources: sanitizedSources,
-      isGrounded: grounded, // Keep for backwards compatibility
-      usedCorpus,
-      grounded,
-      level: aiLevel,
-      policySnapshot: policy,
-    };
+    // Tokens are already on the wire, so streamed answers are verified but never regenerated
+    const verified = await checkCitations(prepared, aiResponse);
+    // Text the stream gate withheld (and citation fixes) arrive with the final response, which replaces the streamed text
+    const result = buildChatResult(prepared, verified.answer, aiLevel, {
+      citationReport: verified.report,
+      toolInvocations: invocations,
+      usage: meter.totals(),
+    });
+    return { ...(await saveToAnswerCache(cacheLookup, userMessage, result)), aborted: false };
   } catch (error: any) {
-    console.error(`[LM Studio] Chat error for ${LMSTUDIO_BASE_URL}:`, error.message || error);
-    throw new Error("LM Studio not configured or offline");
+    if (opts.signal?.aborted) {
+      // Count the partial answer; the backend already spent the tokens
+      if (streamMessages) {
+        meter.settle(streamMessages, aiResponse);
+      }
+      return {
+        ...buildChatResult(prepared, aiResponse, aiLevel, { toolInvocations: invocations, usage: meter.totals() }),
+        aborted: true,
+      };
+    }
+    console.error(`[${provider.label}] Chat stream error for ${provider.baseUrl}:`, error.message || error);
+    throw new Error(`${provider.label} not configured or offline`);
   }
 }
 
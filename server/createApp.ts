@@ -94,6 +94,30 @@ export async function createApp(): Promise<{ app: express.Application; httpServe
     startTelemetryJobs();
     startEmbedWorker(); // Legacy embed worker (kept for backward compatibility)
     startJobWorker(); // New job queue worker
+    
+    // A model/column size mismatch would otherwise only surface when embedding jobs fail
+    const { checkEmbeddingDimension } = await import("./services/embedding");
+    checkEmbeddingDimension().then((check) => {
+      if (check.ok) {
+        logger.info({ model: check.model, dimension: check.expected, message: "Embedding dimension check passed" });
+      } else {
+        logger.error({ ...check, message: "Embedding dimension check failed" });
+      }
+    });
+
+    // Changing the embedding model in config doesn't re-embed anything by itself
+    const { getEmbeddingSpaceStatus } = await import("./services/embeddingSpaces");
+    getEmbeddingSpaceStatus().then(({ active, migration, configured }) => {
+      if (!configured.matchesActive && migration?.model !== configured.model) {
+        logger.warn({
+          active: `${active.provider}:${active.model}`,
+          configured: `${configured.provider}:${configured.model}`,
+          message: "Configured embedding model differs from the active embedding space; retrieval keeps using the active space until a migration (POST /api/corpus/embedding-spaces/migrate) cuts over",
+        });
+      }
+    }).catch((error: any) => {
+      logger.warn({ error: error.message, message: "Could not read embedding spaces" });
+    });
   }
 
   app.use(sentryErrorHandler());
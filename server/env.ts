@@ -42,11 +42,23 @@ const envSchema = z.object({
   CREATOR_PUBLIC_KEY: z.string().optional(),
   
   // AI Services
+  LLM_PROVIDER: z.enum(["lmstudio", "ollama", "openai", "mock"]).optional(), // Chat backend (default: lmstudio)
+  EMBEDDING_PROVIDER: z.enum(["lmstudio", "ollama", "openai", "mock"]).optional(), // Embedding backend (default: ollama)
   LMSTUDIO_BASE_URL: z.string().url().optional(),
   LMSTUDIO_MODEL: z.string().optional(),
+  LMSTUDIO_EMBED_MODEL: z.string().optional(),
+  LMSTUDIO_RERANK_MODEL: z.string().optional(),
   OLLAMA_BASE_URL: z.string().url().optional(),
+  OLLAMA_MODEL: z.string().optional(), // Chat model when LLM_PROVIDER=ollama
   OLLAMA_EMBED_MODEL: z.string().optional(),
   OLLAMA_API_KEY: z.string().optional(),
+  OPENAI_BASE_URL: z.string().url().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_MODEL: z.string().optional(),
+  OPENAI_EMBED_MODEL: z.string().optional(),
+  OPENAI_RERANK_MODEL: z.string().optional(),
+  EMBEDDING_DIMENSION: z.string().default("1024").transform(Number), // Must match corpus_chunks.embedding vector(N)
+  EMBEDDING_BATCH_SIZE: z.string().default("32").transform(Number), // Texts per embedding request
   ALLOW_AI_FALLBACK: z
     .string()
     .default("false")
@@ -81,12 +93,132 @@ const envSchema = z.object({
     .default("false")
     .transform((v) => v.toLowerCase() === "true"),
   
+  // Corpus retrieval (vector, lexical or hybrid with reciprocal rank fusion)
+  RAG_RETRIEVAL_MODE: z.enum(["auto", "vector", "lexical", "hybrid"]).default("auto"),
+  RAG_HYBRID_MIN_LEVEL: z.string().default("31").transform(Number),
+  RAG_RRF_K: z.string().default("60").transform(Number),
+  RAG_VECTOR_WEIGHT: z.string().default("1").transform(Number),
+  RAG_LEXICAL_WEIGHT: z.string().default("1").transform(Number),
+  RAG_CANDIDATE_MULTIPLIER: z.string().default("3").transform(Number),
+  
+  // Corpus chunking defaults (items and tracks can override the strategy)
+  CHUNK_STRATEGY: z.enum(["fixed", "markdown", "sentence", "code", "token"]).default("fixed"),
+  CHUNK_SIZE: z.string().optional().transform((v) => (v ? Number(v) : undefined)),
+  CHUNK_OVERLAP: z.string().optional().transform((v) => (v ? Number(v) : undefined)),
+  
+  // Answer-rating review flags for corpus items
+  FEEDBACK_FLAG_MIN_VOTES: z.string().default("3").transform(Number),
+  FEEDBACK_FLAG_DOWN_RATIO: z.string().default("0.5").transform(Number),
+  
+  // Near-duplicate detection for corpus submissions and approvals
+  CORPUS_DEDUP_ENABLED: z
+    .string()
+    .default("true")
+    .transform((v) => v.toLowerCase() === "true"),
+  CORPUS_DEDUP_WARN_THRESHOLD: z.string().default("0.85").transform(Number),
+  CORPUS_DEDUP_BLOCK_THRESHOLD: z.string().default("0.95").transform(Number),
+  CORPUS_DEDUP_MAX_MATCHES: z.string().default("5").transform(Number),
+  CORPUS_DEDUP_EMBEDDING: z
+    .string()
+    .default("true")
+    .transform((v) => v.toLowerCase() === "true"),
+  
+  // Corpus revisions: share of changed words that returns an approved item to review
+  CORPUS_REVISION_REVIEW_THRESHOLD: z.string().default("0.2").transform(Number),
+  
+  // Document uploads split into corpus items
+  CORPUS_UPLOAD_MAX_BYTES: z.string().default("10485760").transform(Number),
+  CORPUS_UPLOAD_MAX_INFLATED_BYTES: z.string().default("52428800").transform(Number),
+  CORPUS_UPLOAD_MAX_SECTIONS: z.string().default("200").transform(Number),
+  CORPUS_UPLOAD_SECTION_MAX_CHARS: z.string().default("8000").transform(Number),
+  
+  // Second-stage reranking of retrieved chunks (cross-encoder or local lexical scoring, then MMR)
+  RERANK_ENABLED: z
+    .string()
+    .default("false")
+    .transform((v) => v.toLowerCase() === "true"),
+  RERANK_MODE: z.enum(["provider", "local"]).default("provider"),
+  RERANK_CANDIDATES: z.string().default("20").transform(Number),
+  RERANK_MMR_LAMBDA: z.string().default("0.7").transform(Number),
+  RERANK_SAME_ITEM_SIMILARITY: z.string().default("0.3").transform(Number),
+  RERANK_MIN_SCORE: z.string().default("0").transform(Number),
+  
   // RAG Guard
   RAG_GUARD_ENABLED: z
     .string()
     .default("true")
     .transform((v) => v.toLowerCase() === "true"),
   RAG_GUARD_MODE: z.enum(["drop", "wrap"]).default("drop"),
+  RAG_GUARD_QUARANTINE_THRESHOLD: z.string().default("0.5").transform(Number),
+  RAG_GUARD_BLOCK_THRESHOLD: z.string().default("0.9").transform(Number),
+  
+  // Output guard (screens AI answers for secrets, prompt echoes and policy violations)
+  OUTPUT_GUARD_ENABLED: z
+    .string()
+    .default("true")
+    .transform((v) => v.toLowerCase() === "true"),
+  OUTPUT_GUARD_MODE: z.enum(["redact", "block", "flag"]).default("redact"),
+  OUTPUT_GUARD_ECHO_SHINGLE_SIZE: z.string().default("8").transform(Number),
+  OUTPUT_GUARD_ECHO_THRESHOLD: z.string().default("0.25").transform(Number),
+  OUTPUT_GUARD_BLOCKED_TERMS: z.string().optional(),
+  
+  // PII detection on corpus and training submissions
+  PII_SCAN_ENABLED: z
+    .string()
+    .default("true")
+    .transform((v) => v.toLowerCase() === "true"),
+  PII_POLICY: z.enum(["redact", "reject"]).default("redact"),
+  PII_ENTITY_TYPES: z
+    .string()
+    .optional()
+    .refine(
+      (v) => !v || v.split(",").every((t) => ["email", "phone", "street_address", "wallet_address", "credit_card", "ip_address"].includes(t.trim())),
+      "must be a comma-separated list of email, phone, street_address, wallet_address, credit_card, ip_address"
+    ),
+  PII_WALLET_ALLOWLIST: z.string().optional(), // Comma-separated public addresses
+  
+  // Citation verification (levels with requireCitations)
+  CITATION_VERIFY_ENABLED: z
+    .string()
+    .default("true")
+    .transform((v) => v.toLowerCase() === "true"),
+  CITATION_SUPPORT_THRESHOLD: z.string().default("0.45").transform(Number),
+  CITATION_MIN_SUPPORTED_RATIO: z.string().default("0.6").transform(Number),
+  
+  // Semantic answer cache for standalone chat questions
+  CHAT_CACHE_ENABLED: z
+    .string()
+    .default("true")
+    .transform((v) => v.toLowerCase() === "true"),
+  CHAT_CACHE_SIMILARITY: z.string().default("0.95").transform(Number),
+  CHAT_CACHE_TTL_SEC: z.string().default("3600").transform(Number),
+  CHAT_CACHE_MAX_CANDIDATES: z.string().default("200").transform(Number),
+  
+  // Chat question complexity classifier (level gating)
+  COMPLEXITY_CLASSIFIER_TOP_K: z.string().default("8").transform(Number),
+  COMPLEXITY_CLASSIFIER_MIN_SIMILARITY: z.string().default("0.55").transform(Number),
+  COMPLEXITY_CLASSIFIER_MIN_NEIGHBORS: z.string().default("3").transform(Number),
+  COMPLEXITY_CLASSIFIER_MIN_CONFIDENCE: z.string().default("0.6").transform(Number),
+  COMPLEXITY_CLASSIFIER_INDEX_TTL_SEC: z.string().default("600").transform(Number),
+  COMPLEXITY_CLASSIFIER_RETRY_BACKOFF_SEC: z.string().default("60").transform(Number),
+  
+  // Chat tool calling (calculator, unit converter)
+  CHAT_TOOLS_ENABLED: z
+    .string()
+    .default("true")
+    .transform((v) => v.toLowerCase() === "true"),
+  CHAT_TOOLS_MAX_ROUNDS: z.string().default("3").transform(Number),
+  CHAT_TOOLS_MAX_CALLS_PER_ROUND: z.string().default("5").transform(Number),
+  
+  // Per-wallet chat token quotas (per cycle, scaled by level and training stake)
+  CHAT_TOKEN_QUOTA_ENABLED: z
+    .string()
+    .default("true")
+    .transform((v) => v.toLowerCase() === "true"),
+  CHAT_TOKEN_QUOTA_BASE: z.string().default("50000").transform(Number),
+  CHAT_TOKEN_QUOTA_PER_LEVEL: z.string().default("5000").transform(Number),
+  CHAT_TOKEN_QUOTA_PER_STAKED_HIVE: z.string().default("50").transform(Number),
+  CHAT_TOKEN_QUOTA_MAX_STAKE_BONUS: z.string().default("200000").transform(Number),
   
   // Sentry (optional)
   SENTRY_DSN: z.string().url().optional(),
@@ -1,4 +1,4 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
@@ -33,9 +33,17 @@ import {
   authLimiter,
 } from "./middleware/rateLimit";
 import { createAuditHelper } from "./services/audit";
+import { normalizeCorpusText } from "./utils/corpusText";
+import { getCorpusUploadConfig } from "./services/corpusIngest";
+import { corpusMetadataSchema, corpusRetrievalFilterSchema, normalizeCorpusMetadata } from "./services/corpusMetadata";
 import { logger } from "./middleware/logger";
 import { getFullHealth, isReady, isLive, isAiFallbackAllowed } from "./services/health";
 import { captureError } from "./sentry";
+import type { CitationReport } from "./services/citationVerifier";
+import type { ChatCacheInfo } from "./aiChat";
+import type { ChatToolInvocation } from "./services/chatTools";
+import type { ChatTokenUsage, TokenUsageStatus } from "./services/tokenUsage";
+import type { OutputGuardReport } from "./services/outputGuard";
 import { seedDefaultTracks } from "./seed";
 import { getAutoReviewConfig, computeAutoReview, calculateStyleCredits, calculateIntelligenceGain } from "./services/autoReview";
 import { getDb, isDbConfigured } from "./db";
@@ -92,65 +100,6 @@ function getCostByDifficulty(difficulty: string): string {
   return costs[difficulty] || "10";
 }
 
-/**
- * Estimate question complexity (1-5) based on message content
- * Simple heuristic: check for advanced keywords and concepts
- */
-function estimateQuestionComplexity(message: string): number {
-  const lowerMessage = message.toLowerCase();
-  
-  // Complexity 5 indicators (advanced/elite topics)
-  const complexity5Keywords = [
-    "quantum", "relativity", "calculus", "derivative", "integral", "theorem", "proof",
-    "algorithm", "complexity", "optimization", "distributed", "concurrency", "race condition",
-    "heisenberg", "entropy", "thermodynamics", "wave function", "eigenvalue",
-  ];
-  
-  // Complexity 4 indicators (advanced topics)
-  const complexity4Keywords = [
-    "algebra", "quadratic", "polynomial", "logarithm", "exponential", "trigonometry",
-    "chemistry", "molecular", "atomic", "bond", "reaction", "oxidation",
-    "physics", "electromagnetic", "frequency", "wavelength", "energy",
-    "database", "index", "query", "transaction", "acid",
-  ];
-  
-  // Complexity 3 indicators (intermediate topics)
-  const complexity3Keywords = [
-    "equation", "solve", "variable", "function", "graph", "slope",
-    "biology", "cell", "organism", "evolution", "genetics",
-    "programming", "code", "function", "variable", "loop", "array",
-  ];
-  
-  // Complexity 2 indicators (basic intermediate)
-  const complexity2Keywords = [
-    "calculate", "percent", "fraction", "decimal", "multiply", "divide",
-    "science", "experiment", "hypothesis", "theory",
-  ];
-  
-  // Check for complexity 5
-  if (complexity5Keywords.some(keyword => lowerMessage.includes(keyword))) {
-    return 5;
-  }
-  
-  // Check for complexity 4
-  if (complexity4Keywords.some(keyword => lowerMessage.includes(keyword))) {
-    return 4;
-  }
-  
-  // Check for complexity 3
-  if (complexity3Keywords.some(keyword => lowerMessage.includes(keyword))) {
-    return 3;
-  }
-  
-  // Check for complexity 2
-  if (complexity2Keywords.some(keyword => lowerMessage.includes(keyword))) {
-    return 2;
-  }
-  
-  // Default to complexity 1 (basic)
-  return 1;
-}
-
 /**
  * Generate learning steps to reach the required complexity level
  */
@@ -360,6 +309,98 @@ export async function registerRoutes(
     }
   });
 
+  // Configured LLM providers and the models they report (admin only)
+  app.get("/api/ai/providers", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { getChatProvider, getEmbeddingProvider } = await import("./services/llmProvider");
+
+      const describe = async (provider: ReturnType<typeof getChatProvider>) => {
+        const health = await provider.health();
+        let models: string[] = [];
+        let modelsError: string | undefined;
+        if (health.ok) {
+          try {
+            models = await provider.listModels();
+          } catch (error: any) {
+            modelsError = error.message;
+          }
+        }
+        return {
+          provider: provider.name,
+          label: provider.label,
+          baseUrl: provider.baseUrl,
+          chatModel: provider.chatModel || null,
+          embedModel: provider.embedModel || null,
+          health,
+          models,
+          modelsError,
+        };
+      };
+
+      const { checkEmbeddingDimension } = await import("./services/embedding");
+      const [chat, embedding, embeddingDimension] = await Promise.all([
+        describe(getChatProvider()),
+        describe(getEmbeddingProvider()),
+        checkEmbeddingDimension(),
+      ]);
+      res.json({ chat, embedding, embeddingDimension });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "LLM provider status error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch provider status" });
+    }
+  });
+
+  app.get("/api/ai/cache", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { getAnswerCacheConfig, getAnswerCacheStats } = await import("./services/answerCache");
+      const stats = await getAnswerCacheStats();
+      res.json({ config: getAnswerCacheConfig(), ...stats });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Answer cache stats error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch answer cache stats" });
+    }
+  });
+
+  // Answers the output guard redacted, blocked or flagged (newest first)
+  app.get("/api/ai/output-flags", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const type = req.query.type as string | undefined;
+      if (type && !["secret", "prompt_echo", "policy"].includes(type)) {
+        return res.status(400).json({ error: "type must be one of secret, prompt_echo, policy" });
+      }
+      const { listOutputFlags, getOutputGuardConfig } = await import("./services/outputGuard");
+      const flags = await listOutputFlags({
+        type: type as "secret" | "prompt_echo" | "policy" | undefined,
+        walletAddress: (req.query.wallet as string) || undefined,
+        limit: Math.min(parseInt(req.query.limit as string) || 50, 200),
+      });
+      const { blockedTerms, ...config } = getOutputGuardConfig();
+      res.json({ config: { ...config, blockedTermCount: blockedTerms.length }, flags });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Output flags fetch error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch output flags" });
+    }
+  });
+
+  app.delete("/api/ai/cache", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { clearAnswerCache } = await import("./services/answerCache");
+      const deleted = await clearAnswerCache();
+
+      await audit.log("admin_action", {
+        targetType: "answer_cache",
+        metadata: { action: "clear", deleted },
+      });
+
+      logger.info({ requestId: req.requestId, deleted, message: "Answer cache cleared by admin" });
+      res.json({ success: true, deleted });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Answer cache clear error", details: error.message });
+      res.status(500).json({ error: "Failed to clear answer cache" });
+    }
+  });
+
   // ===== AUTHENTICATION =====
   // Apply auth rate limiter (15 min window) + legacy 1 min limiter for extra protection
   app.get("/api/auth/nonce", authLimiter, authNonceLimiter, async (req: Request, res: Response) => {
@@ -804,41 +845,52 @@ export async function registerRoutes(
   });
 
   // ===== TRAINING CORPUS =====
-  // Text normalization helper
-  function normalizeText(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
   // Get corpus items with pagination, filtering, search (requires HIVE access)
+  // Multi-valued filters accept repeated parameters or comma-separated lists
+  const queryList = z.union([z.string(), z.array(z.string())])
+    .transform(value => (Array.isArray(value) ? value : [value]).flatMap(v => v.split(",")).map(v => v.trim()).filter(Boolean))
+    .optional();
+  const queryDate = z.string().refine(value => !isNaN(Date.parse(value)), "Invalid date").transform(value => new Date(value)).optional();
+  const corpusListQuerySchema = z.object({
+    trackId: z.string().optional(),
+    cycleId: z.string().optional(),
+    search: z.string().optional(),
+    status: queryList,
+    embedStatus: queryList,
+    contributor: queryList,
+    tags: queryList,
+    language: queryList,
+    license: queryList,
+    createdFrom: queryDate,
+    createdTo: queryDate,
+    approvedFrom: queryDate,
+    approvedTo: queryDate,
+    page: z.string().optional(),
+    limit: z.string().optional(),
+  });
+
   app.get("/api/corpus", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
     try {
-      const { trackId, cycleId, search, page = "1", limit = "50" } = req.query;
-      const pageNum = parseInt(page as string, 10);
-      const limitNum = Math.min(parseInt(limit as string, 10), 100);
-      
-      let items = await storage.getAllCorpusItems();
-      
-      // Filter by track
-      if (trackId && typeof trackId === 'string') {
-        items = items.filter(item => item.trackId === trackId);
-      }
-      
-      // Filter by cycle
-      if (cycleId && typeof cycleId === 'string') {
-        items = items.filter(item => item.cycleId === cycleId);
-      }
-      
-      // Search by keyword
-      if (search && typeof search === 'string') {
-        const searchLower = search.toLowerCase();
-        items = items.filter(item => 
-          item.normalizedText.toLowerCase().includes(searchLower)
-        );
-      }
+      const query = corpusListQuerySchema.parse(req.query);
+      const pageNum = Math.max(parseInt(query.page || "1", 10) || 1, 1);
+      const limitNum = Math.min(parseInt(query.limit || "50", 10) || 50, 100);
+      
+      const { filterCorpusItems } = await import("./services/corpusMetadata");
+      const { items, facets } = filterCorpusItems(await storage.getAllCorpusItems(), {
+        trackId: query.trackId,
+        cycleId: query.cycleId,
+        search: query.search,
+        status: query.status,
+        embedStatus: query.embedStatus,
+        contributor: query.contributor,
+        tags: query.tags,
+        languages: query.language,
+        licenses: query.license,
+        createdFrom: query.createdFrom,
+        createdTo: query.createdTo,
+        approvedFrom: query.approvedFrom,
+        approvedTo: query.approvedTo,
+      });
       
       // Pagination
       const total = items.length;
@@ -848,6 +900,7 @@ export async function registerRoutes(
       
       res.json({
         items: paginatedItems,
+        facets,
         pagination: {
           page: pageNum,
           limit: limitNum,
@@ -856,6 +909,9 @@ export async function registerRoutes(
         },
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch corpus items" });
     }
   });
@@ -894,6 +950,7 @@ export async function registerRoutes(
     trackId: z.string(),
     text: z.string().min(1),
     sourceAttemptId: z.string().optional(),
+    metadata: corpusMetadataSchema.optional(),
   });
 
   app.post("/api/corpus", requireAuthMiddleware, requireCreator, writeLimiter, corpusLimiter, async (req: Request, res: Response) => {
@@ -905,27 +962,67 @@ export async function registerRoutes(
         return res.status(400).json({ error: "No active cycle" });
       }
       
-      // Normalize the text
-      const normalizedText = normalizeText(body.text);
-      
       // Get submitter wallet from authenticated session (never from client body)
       const submitterWalletPubkey = (req as any).walletAddress;
       
+      // Strip or refuse personal information before anything else sees the text
+      const { applyPiiPolicy, piiAuditMetadata } = await import("./services/piiScanner");
+      const pii = applyPiiPolicy(normalizeCorpusText(body.text), { ownWallet: submitterWalletPubkey });
+      if (pii.report.action === "rejected") {
+        await audit.log("pii_rejected", {
+          targetType: "corpus_item",
+          metadata: { ...piiAuditMetadata(pii.report), surface: "corpus_create", trackId: body.trackId },
+        });
+        return res.status(422).json({ error: "Text contains personal information", piiReport: pii.report });
+      }
+      const normalizedText = pii.text;
+      
+      // Scan the full text for prompt injection before it can reach retrieval
+      const { scanSubmission } = await import("./services/ragGuard");
+      const injectionScan = scanSubmission(normalizedText);
+      if (injectionScan.verdict === "blocked") {
+        await audit.log("corpus_injection_blocked", {
+          targetType: "corpus_item",
+          metadata: { trackId: body.trackId, stage: "create", injectionScore: injectionScan.score, signals: injectionScan.signals.map(s => s.pattern) },
+        });
+        return res.status(422).json({ error: "Text looks like a prompt injection", injectionScan });
+      }
+      
+      // Reject copies of approved items; near matches go through with a warning
+      const { checkCorpusDuplicates } = await import("./services/corpusDedup");
+      const duplicateCheck = await checkCorpusDuplicates(normalizedText);
+      if (duplicateCheck.verdict === "duplicate") {
+        await audit.log("corpus_duplicate_blocked", {
+          targetType: "corpus_item",
+          metadata: { trackId: body.trackId, stage: "create", similarity: duplicateCheck.similarity, matchId: duplicateCheck.matches[0]?.corpusItemId },
+        });
+        return res.status(409).json({ error: "Duplicate of an existing corpus item", duplicateCheck });
+      }
+      
       const item = await storage.addCorpusItem({
         trackId: body.trackId,
         cycleId: currentCycle.id,
         normalizedText,
         sourceAttemptId: body.sourceAttemptId,
         submitterWalletPubkey, // Store session wallet (server source of truth)
+        metadata: body.metadata ? normalizeCorpusMetadata(body.metadata) : undefined,
+        injectionScore: injectionScan.score.toFixed(3),
       });
       
       await audit.log("corpus_item_added", {
         targetType: "corpus_item",
         targetId: item.id,
-        metadata: { trackId: body.trackId, cycleId: currentCycle.id },
+        metadata: { trackId: body.trackId, cycleId: currentCycle.id, duplicateVerdict: duplicateCheck.verdict, injectionVerdict: injectionScan.verdict },
       });
+      if (pii.report.action === "redacted") {
+        await audit.log("pii_redacted", {
+          targetType: "corpus_item",
+          targetId: item.id,
+          metadata: { ...piiAuditMetadata(pii.report), surface: "corpus_create" },
+        });
+      }
       
-      res.json(item);
+      res.json({ ...item, duplicateCheck, injectionScan, piiReport: pii.report });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
@@ -939,6 +1036,8 @@ export async function registerRoutes(
   const updateCorpusItemSchema = z.object({
     text: z.string().optional(),
     trackId: z.string().optional(),
+    reason: z.string().max(500).optional(),
+    metadata: corpusMetadataSchema.optional(), // Replaces the item's metadata
   });
 
   app.put("/api/corpus/:id", requireAuthMiddleware, requireCreator, writeLimiter, corpusLimiter, async (req: Request, res: Response) => {
@@ -946,44 +1045,69 @@ export async function registerRoutes(
     try {
       const body = updateCorpusItemSchema.parse(req.body);
       
-      if (!body.text && !body.trackId) {
-        return res.status(400).json({ error: "text or trackId required" });
+      if (!body.text && !body.trackId && !body.metadata) {
+        return res.status(400).json({ error: "text, trackId or metadata required" });
       }
       
       // Normalize text if provided and validate it's not empty after normalization
       let normalizedText: string | undefined;
       if (body.text) {
-        normalizedText = normalizeText(body.text);
+        normalizedText = normalizeCorpusText(body.text);
         if (!normalizedText || normalizedText.length === 0) {
           return res.status(400).json({ error: "Text cannot be empty after normalization" });
         }
       }
       
       // Ensure we have at least one valid update
-      if (!normalizedText && !body.trackId) {
+      if (!normalizedText && !body.trackId && !body.metadata) {
         return res.status(400).json({ error: "No valid updates provided" });
       }
       
-      const item = await storage.updateCorpusItem(req.params.id, normalizedText, body.trackId);
-      if (!item) {
+      // Stores a revision, re-embeds approved items and returns heavily edited ones to review.
+      // New text is redacted or refused under the PII policy
+      const { editCorpusItem } = await import("./services/corpusRevisions");
+      const { piiAuditMetadata } = await import("./services/piiScanner");
+      const edit = await editCorpusItem(
+        req.params.id,
+        { normalizedText, trackId: body.trackId },
+        { wallet: (req as any).walletAddress, reason: body.reason }
+      );
+      if (!edit) {
         return res.status(404).json({ error: "Corpus item not found" });
       }
-      
-      if (normalizedText && item.status === "approved") {
-        const { checkAndQueueOnEdit } = await import("./services/embedWorker");
-        const requeued = await checkAndQueueOnEdit(req.params.id, item.title, normalizedText);
-        if (requeued) {
-          logger.info({ requestId: req.requestId, corpusItemId: req.params.id, message: "Content changed, re-queued for embedding" });
-        }
+      if (edit.piiReport?.action === "rejected") {
+        await audit.log("pii_rejected", {
+          targetType: "corpus_item",
+          targetId: req.params.id,
+          metadata: { ...piiAuditMetadata(edit.piiReport), surface: "corpus_update" },
+        });
+        return res.status(422).json({ error: "Text contains personal information", piiReport: edit.piiReport });
+      }
+      if (edit.piiReport?.action === "redacted") {
+        await audit.log("pii_redacted", {
+          targetType: "corpus_item",
+          targetId: req.params.id,
+          metadata: { ...piiAuditMetadata(edit.piiReport), surface: "corpus_update", revisionId: edit.revision?.id },
+        });
       }
       
+      const withMetadata = body.metadata
+        ? await storage.updateCorpusItemMetadata(req.params.id, normalizeCorpusMetadata(body.metadata))
+        : undefined;
+      
       await audit.log("corpus_item_updated", {
         targetType: "corpus_item",
         targetId: req.params.id,
-        metadata: { trackId: body.trackId },
+        metadata: {
+          trackId: body.trackId,
+          metadataUpdated: !!body.metadata,
+          revisionNumber: edit.revision?.revisionNumber,
+          changeRatio: edit.changeRatio,
+          returnedToReview: edit.returnedToReview,
+        },
       });
       
-      res.json(item);
+      res.json({ ...(withMetadata ?? edit.item), revision: edit.revision, changeRatio: edit.changeRatio, returnedToReview: edit.returnedToReview, piiReport: edit.piiReport });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
@@ -1020,26 +1144,30 @@ export async function registerRoutes(
     query: z.string().min(1).max(2000),
     k: z.number().int().min(1).max(20).optional(),
     trackId: z.string().optional(),
+    mode: z.enum(["vector", "lexical", "hybrid"]).optional(),
+    filter: corpusRetrievalFilterSchema.optional(),
   });
 
   app.post("/api/rag/search", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
     try {
       const body = ragSearchSchema.parse(req.body);
-      const { searchCorpus, getRAGConfig } = await import("./services/rag");
+      const { searchCorpus, getRAGConfig, resolveRetrievalMode } = await import("./services/rag");
       const config = getRAGConfig();
       
       const k = body.k || config.defaultK;
-      const results = await searchCorpus(body.query, k, body.trackId);
+      const results = await searchCorpus(body.query, k, body.trackId, undefined, body.mode, body.filter);
       
       res.json({
         query: body.query,
         k,
         trackId: body.trackId || null,
+        mode: body.mode ?? resolveRetrievalMode(undefined, config),
         results: results.map(r => ({
           corpusItemId: r.corpusItemId,
           chunkText: r.chunkText,
           score: r.score,
           title: r.title,
+          matchedBy: r.matchedBy,
         })),
         totalResults: results.length,
       });
@@ -1064,10 +1192,257 @@ export async function registerRoutes(
     }
   });
 
+  // ===== CORPUS DOCUMENT UPLOADS =====
+  // The file is the raw request body; it is split into corpus items by the ingest_corpus_upload job
+  const corpusUploadQuerySchema = z.object({
+    filename: z.string().min(1).max(255),
+    trackId: z.string().optional(),
+    autoApprove: z.enum(["true", "false"]).optional(),
+  });
+
+  app.post(
+    "/api/corpus/uploads",
+    requireAuthMiddleware,
+    requireHiveAccess,
+    writeLimiter,
+    corpusLimiter,
+    express.raw({ type: () => true, limit: getCorpusUploadConfig().maxBytes }),
+    async (req: Request, res: Response) => {
+      const audit = createAuditHelper(req);
+      try {
+        const query = corpusUploadQuerySchema.parse(req.query);
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: "Send the file as the request body" });
+        }
+        
+        const { detectFormat } = await import("./services/documentExtract");
+        const { createCorpusUpload, getCorpusUploadReport } = await import("./services/corpusIngest");
+        const format = detectFormat(query.filename, req.headers["content-type"]);
+        if (!format) {
+          return res.status(400).json({ error: "Unsupported file type; upload Markdown, HTML, plain text or PDF" });
+        }
+        
+        // Contributors' sections land as drafts; only creators can publish directly
+        const walletAddress = (req as any).walletAddress;
+        const autoApprove = query.autoApprove === "true";
+        if (autoApprove && !isCreator(walletAddress)) {
+          return res.status(403).json({ error: "Only creators can auto-approve uploads" });
+        }
+        
+        const currentCycle = await storage.getCurrentCycle();
+        if (!currentCycle) {
+          return res.status(400).json({ error: "No active cycle" });
+        }
+        
+        const upload = await createCorpusUpload({
+          filename: query.filename,
+          format,
+          content: req.body,
+          trackId: query.trackId,
+          cycleId: currentCycle.id,
+          autoApprove,
+          uploadedByWallet: walletAddress,
+        });
+        
+        await audit.log("corpus_upload_queued", {
+          targetType: "corpus_upload",
+          targetId: upload.id,
+          metadata: { filename: query.filename, format, sizeBytes: upload.sizeBytes, trackId: query.trackId, autoApprove },
+        });
+        
+        res.status(202).json(await getCorpusUploadReport(upload.id));
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: error.errors });
+        }
+        logger.error({ requestId: req.requestId, error: "Corpus upload error", details: error.message });
+        res.status(500).json({ error: "Failed to upload document" });
+      }
+    }
+  );
+
+  // Upload progress: creators see every upload, contributors their own
+  app.get("/api/corpus/uploads", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+    try {
+      const walletAddress = (req as any).walletAddress;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const { listCorpusUploads } = await import("./services/corpusIngest");
+      const uploads = await listCorpusUploads({ wallet: isCreator(walletAddress) ? undefined : walletAddress, limit });
+      res.json({ uploads });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "List corpus uploads error", details: error.message });
+      res.status(500).json({ error: "Failed to list uploads" });
+    }
+  });
+
+  app.get("/api/corpus/uploads/:id", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+    try {
+      const walletAddress = (req as any).walletAddress;
+      const { getCorpusUploadReport } = await import("./services/corpusIngest");
+      const upload = await getCorpusUploadReport(req.params.id);
+      if (!upload || (upload.uploadedByWallet !== walletAddress && !isCreator(walletAddress))) {
+        return res.status(404).json({ error: "Upload not found" });
+      }
+      res.json(upload);
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Corpus upload status error", details: error.message });
+      res.status(500).json({ error: "Failed to get upload" });
+    }
+  });
+
+  // Revision history of a corpus item (Creator only)
+  app.get("/api/corpus/:id/revisions", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { listCorpusItemRevisions } = await import("./services/corpusRevisions");
+      const revisions = await listCorpusItemRevisions(req.params.id);
+      res.json({ revisions });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "List corpus revisions error", details: error.message });
+      res.status(500).json({ error: "Failed to list revisions" });
+    }
+  });
+
+  // Word diff between two revisions (Creator only)
+  const revisionDiffSchema = z.object({
+    from: z.string().min(1),
+    to: z.string().min(1),
+  });
+
+  app.get("/api/corpus/:id/revisions/diff", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const query = revisionDiffSchema.parse(req.query);
+      const { diffCorpusItemRevisions } = await import("./services/corpusRevisions");
+      const result = await diffCorpusItemRevisions(req.params.id, query.from, query.to);
+      if (!result) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Corpus revision diff error", details: error.message });
+      res.status(500).json({ error: "Failed to diff revisions" });
+    }
+  });
+
+  // Restore an earlier revision as a new revision (Creator only)
+  const revertRevisionSchema = z.object({
+    reason: z.string().max(500).optional(),
+  });
+
+  app.post("/api/corpus/:id/revisions/:revisionId/revert", requireAuthMiddleware, requireCreator, writeLimiter, corpusLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const body = revertRevisionSchema.parse(req.body ?? {});
+      const { revertCorpusItem } = await import("./services/corpusRevisions");
+      const edit = await revertCorpusItem(req.params.id, req.params.revisionId, {
+        wallet: (req as any).walletAddress,
+        reason: body.reason,
+      });
+      if (!edit) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      const { piiAuditMetadata } = await import("./services/piiScanner");
+      if (edit.piiReport?.action === "rejected") {
+        await audit.log("pii_rejected", {
+          targetType: "corpus_item",
+          targetId: req.params.id,
+          metadata: { ...piiAuditMetadata(edit.piiReport), surface: "corpus_revert", revertedFromRevisionId: req.params.revisionId },
+        });
+        return res.status(422).json({ error: "Revision contains personal information", piiReport: edit.piiReport });
+      }
+      if (edit.piiReport?.action === "redacted") {
+        await audit.log("pii_redacted", {
+          targetType: "corpus_item",
+          targetId: req.params.id,
+          metadata: { ...piiAuditMetadata(edit.piiReport), surface: "corpus_revert", revisionId: edit.revision?.id },
+        });
+      }
+      
+      await audit.log("corpus_item_reverted", {
+        targetType: "corpus_item",
+        targetId: req.params.id,
+        metadata: {
+          revertedFromRevisionId: req.params.revisionId,
+          revisionNumber: edit.revision?.revisionNumber,
+          changeRatio: edit.changeRatio,
+          returnedToReview: edit.returnedToReview,
+        },
+      });
+      
+      res.json({ ...edit.item, revision: edit.revision, changeRatio: edit.changeRatio, returnedToReview: edit.returnedToReview, piiReport: edit.piiReport });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Revert corpus item error", details: error.message });
+      res.status(500).json({ error: "Failed to revert corpus item" });
+    }
+  });
+
+  // Check text against approved corpus items without saving it (Creator only)
+  const duplicateCheckSchema = z.object({
+    text: z.string().min(1),
+    excludeItemId: z.string().optional(),
+  });
+
+  app.post("/api/corpus/duplicates/check", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const body = duplicateCheckSchema.parse(req.body);
+      const { checkCorpusDuplicates } = await import("./services/corpusDedup");
+      const duplicateCheck = await checkCorpusDuplicates(normalizeCorpusText(body.text), { excludeItemId: body.excludeItemId });
+      res.json(duplicateCheck);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Duplicate check error", details: error.message });
+      res.status(500).json({ error: "Failed to check for duplicates" });
+    }
+  });
+
   // Approve corpus item and auto-embed (admin only)
   app.post("/api/corpus/:id/approve", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
     const audit = createAuditHelper(req);
     try {
+      // Redact personal information before the text is embedded and served in citations
+      const { redactCorpusItemPii } = await import("./services/corpusRevisions");
+      const { piiAuditMetadata } = await import("./services/piiScanner");
+      const pii = await redactCorpusItemPii(req.params.id, (req as any).walletAddress);
+      if (!pii) {
+        return res.status(404).json({ error: "Corpus item not found" });
+      }
+      if (pii.report.action === "rejected") {
+        await audit.log("pii_rejected", {
+          targetType: "corpus_item",
+          targetId: req.params.id,
+          metadata: { ...piiAuditMetadata(pii.report), surface: "corpus_approve" },
+        });
+        return res.status(422).json({ error: "Text contains personal information", piiReport: pii.report });
+      }
+      if (pii.report.action === "redacted" || pii.revisionsScrubbed > 0) {
+        await audit.log("pii_redacted", {
+          targetType: "corpus_item",
+          targetId: req.params.id,
+          metadata: { ...piiAuditMetadata(pii.report), surface: "corpus_approve", revisionId: pii.edit?.revision?.id, revisionsScrubbed: pii.revisionsScrubbed },
+        });
+      }
+      
+      const { checkCorpusItemDuplicates } = await import("./services/corpusDedup");
+      const duplicateCheck = await checkCorpusItemDuplicates(req.params.id);
+      if (!duplicateCheck) {
+        return res.status(404).json({ error: "Corpus item not found" });
+      }
+      if (duplicateCheck.verdict === "duplicate") {
+        await audit.log("corpus_duplicate_blocked", {
+          targetType: "corpus_item",
+          targetId: req.params.id,
+          metadata: { stage: "approve", similarity: duplicateCheck.similarity, matchId: duplicateCheck.matches[0]?.corpusItemId },
+        });
+        return res.status(409).json({ error: "Duplicate of an approved corpus item", duplicateCheck });
+      }
+      
       const { approveCorpusItem } = await import("./services/rag");
       const success = await approveCorpusItem(req.params.id);
       
@@ -1078,21 +1453,125 @@ export async function registerRoutes(
       await audit.log("corpus_item_approved", {
         targetType: "corpus_item",
         targetId: req.params.id,
+        metadata: { duplicateVerdict: duplicateCheck.verdict },
       });
       
-      res.json({ success: true, message: "Corpus item approved and queued for embedding" });
+      res.json({ success: true, message: "Corpus item approved and queued for embedding", duplicateCheck, piiReport: pii.report });
     } catch (error: any) {
       logger.error({ requestId: req.requestId, error: "Approval error", details: error.message });
       res.status(500).json({ error: "Failed to approve corpus item" });
     }
   });
 
+  // ===== PROMPT-INJECTION QUARANTINE =====
+
+  // Chunks scored as prompt injection, held out of retrieval until reviewed (admin only)
+  app.get("/api/corpus/quarantine", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt((req.query.limit as string) || "50", 10) || 50, 200);
+      const { listQuarantinedChunks } = await import("./services/corpusQuarantine");
+      const chunks = await listQuarantinedChunks(limit);
+      res.json({ chunks });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Quarantine list error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch quarantined chunks" });
+    }
+  });
+
+  // Trust a quarantined chunk and return it to retrieval (admin only)
+  app.post("/api/corpus/quarantine/:chunkId/clear", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { clearQuarantinedChunk } = await import("./services/corpusQuarantine");
+      const result = await clearQuarantinedChunk(req.params.chunkId, (req as any).walletAddress);
+      if (!result) {
+        return res.status(404).json({ error: "Quarantined chunk not found" });
+      }
+      
+      await audit.log("corpus_chunk_cleared", {
+        targetType: "corpus_chunk",
+        targetId: req.params.chunkId,
+        metadata: { corpusItemId: result.corpusItemId, released: result.released },
+      });
+      
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Quarantine clear error", details: error.message });
+      res.status(500).json({ error: "Failed to clear chunk" });
+    }
+  });
+
+  // Reject the corpus item a quarantined chunk came from (admin only)
+  app.post("/api/corpus/quarantine/:chunkId/reject", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { rejectQuarantinedItem } = await import("./services/corpusQuarantine");
+      const item = await rejectQuarantinedItem(req.params.chunkId, (req as any).walletAddress);
+      if (!item) {
+        return res.status(404).json({ error: "Quarantined chunk not found" });
+      }
+      
+      await audit.log("corpus_item_rejected", {
+        targetType: "corpus_item",
+        targetId: item.id,
+        metadata: { reason: "prompt_injection", chunkId: req.params.chunkId },
+      });
+      
+      res.json({ success: true, corpusItemId: item.id, status: item.status });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Quarantine reject error", details: error.message });
+      res.status(500).json({ error: "Failed to reject corpus item" });
+    }
+  });
+
+  // Re-score all stored chunks, e.g. after changing the threshold (admin only)
+  app.post("/api/corpus/quarantine/rescan", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { rescanCorpusChunks } = await import("./services/corpusQuarantine");
+      const result = await rescanCorpusChunks();
+      
+      await audit.log("corpus_quarantine_rescan", {
+        targetType: "corpus_chunk",
+        metadata: result,
+      });
+      
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Quarantine rescan error", details: error.message });
+      res.status(500).json({ error: "Failed to rescan corpus chunks" });
+    }
+  });
+
+  // Chat answer ratings aggregated per corpus item (admin only)
+  // Items whose grounded answers are repeatedly rated down are flagged for review
+  app.get("/api/corpus/feedback", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { getCorpusItemFeedback, isFeedbackFlagged, calculateQualityScore } = await import("./services/rewardsDistributionV2");
+      const feedback = await getCorpusItemFeedback();
+      
+      const items = Array.from(feedback.entries()).map(([corpusItemId, { up, down }]) => ({
+        corpusItemId,
+        up,
+        down,
+        qualityScore: calculateQualityScore({ feedbackUpCount: up, feedbackDownCount: down }),
+        flagged: isFeedbackFlagged({ up, down }),
+      }));
+      
+      res.json({ items, flaggedCount: items.filter(i => i.flagged).length });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Corpus feedback error", details: error.message });
+      res.status(500).json({ error: "Failed to get corpus feedback" });
+    }
+  });
+
   // ===== EMBED STATUS ADMIN ENDPOINTS =====
 
   app.get("/api/corpus/embed-status", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
     try {
       const { getEmbedStatusSummary, getItemsByEmbedStatus } = await import("./services/embedWorker");
-      const summary = await getEmbedStatusSummary();
+      const { getEmbeddingSpaceStatus } = await import("./services/embeddingSpaces");
+      const [summary, spaces] = await Promise.all([getEmbedStatusSummary(), getEmbeddingSpaceStatus()]);
       
       const status = req.query.status as string | undefined;
       let items: any[] = [];
@@ -1101,7 +1580,7 @@ export async function registerRoutes(
         items = await getItemsByEmbedStatus(status as any);
       }
       
-      res.json({ summary, items });
+      res.json({ summary, spaces, items });
     } catch (error: any) {
       logger.error({ requestId: req.requestId, error: "Embed status error", details: error.message });
       res.status(500).json({ error: "Failed to get embed status" });
@@ -1154,6 +1633,320 @@ export async function registerRoutes(
     }
   });
 
+  // ===== CHUNKING STRATEGY (Admin/Creator Only) =====
+  // Items inherit their track's chunking unless they set their own; null clears the setting.
+  // Changing the effective strategy of embedded items enqueues re-embedding jobs.
+
+  app.put("/api/corpus/:id/chunking", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { chunkingConfigSchema, setCorpusItemChunking, requeueStaleChunking } = await import("./services/chunking");
+      const { chunking } = z.object({ chunking: chunkingConfigSchema.nullable() }).parse(req.body);
+
+      if (!(await setCorpusItemChunking(req.params.id, chunking))) {
+        return res.status(404).json({ error: "Corpus item not found" });
+      }
+      const { jobIds } = await requeueStaleChunking({ corpusItemId: req.params.id });
+
+      await audit.log("corpus_chunking_updated", {
+        targetType: "corpus_item",
+        targetId: req.params.id,
+        metadata: { chunking, jobIds },
+      });
+
+      res.json({ success: true, chunking, requeued: jobIds.length, jobIds });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Set corpus chunking error", details: error });
+      res.status(500).json({ error: "Failed to update chunking" });
+    }
+  });
+
+  app.put("/api/tracks/:id/chunking", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { chunkingConfigSchema, setTrackChunking, requeueStaleChunking } = await import("./services/chunking");
+      const { chunking } = z.object({ chunking: chunkingConfigSchema.nullable() }).parse(req.body);
+
+      if (!(await setTrackChunking(req.params.id, chunking))) {
+        return res.status(404).json({ error: "Track not found" });
+      }
+      const { jobIds } = await requeueStaleChunking({ trackId: req.params.id });
+
+      await audit.log("corpus_chunking_updated", {
+        targetType: "track",
+        targetId: req.params.id,
+        metadata: { chunking, requeued: jobIds.length },
+      });
+
+      res.json({ success: true, chunking, requeued: jobIds.length, jobIds });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Set track chunking error", details: error });
+      res.status(500).json({ error: "Failed to update chunking" });
+    }
+  });
+
+  // Re-chunk every embedded item whose chunks no longer match its effective strategy
+  // (e.g. after changing CHUNK_STRATEGY), optionally limited to one track
+  app.post("/api/corpus/rechunk", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { trackId } = z.object({ trackId: z.string().optional() }).parse(req.body ?? {});
+      const { requeueStaleChunking } = await import("./services/chunking");
+      const { corpusItemIds, jobIds } = await requeueStaleChunking(trackId ? { trackId } : {});
+
+      await audit.log("corpus_rechunk", {
+        targetType: trackId ? "track" : "corpus_item",
+        targetId: trackId,
+        metadata: { requeued: jobIds.length },
+      });
+
+      res.json({ success: true, requeued: jobIds.length, corpusItemIds, jobIds });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Re-chunk error", details: error });
+      res.status(500).json({ error: "Failed to enqueue re-chunk jobs" });
+    }
+  });
+
+  // ===== EMBEDDING SPACES (Admin/Creator Only) =====
+
+  app.get("/api/corpus/embedding-spaces", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { listEmbeddingSpaces, getEmbeddingSpaceStatus } = await import("./services/embeddingSpaces");
+      const [spaces, status] = await Promise.all([listEmbeddingSpaces(), getEmbeddingSpaceStatus()]);
+      res.json({ ...status, spaces });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "List embedding spaces error", details: error.message });
+      res.status(500).json({ error: "Failed to list embedding spaces" });
+    }
+  });
+
+  // Re-embed every approved item with another model in the background; cuts over at 100% coverage
+  app.post("/api/corpus/embedding-spaces/migrate", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const target = z.object({
+        provider: z.enum(["lmstudio", "ollama", "openai", "mock"]).optional(),
+        model: z.string().min(1).max(200).optional(),
+      }).parse(req.body ?? {});
+      const { startEmbeddingMigration } = await import("./services/embeddingSpaces");
+      const result = await startEmbeddingMigration(target);
+
+      if (!result.ok) {
+        const status = result.error === "provider_unavailable" ? 503 : result.error === "migration_in_progress" ? 409 : 400;
+        return res.status(status).json({ error: result.message, code: result.error });
+      }
+
+      await audit.log("embedding_migration_started", {
+        targetType: "embedding_space",
+        targetId: result.space.id,
+        metadata: { provider: result.space.provider, model: result.space.model, queued: result.queued, cutover: result.cutover },
+      });
+
+      res.json({ success: true, space: result.space, queued: result.queued, cutover: result.cutover });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Start embedding migration error", details: error });
+      res.status(500).json({ error: "Failed to start embedding migration" });
+    }
+  });
+
+  // Manual cutover (the job worker cuts over on its own once coverage reaches 100%)
+  app.post("/api/corpus/embedding-spaces/:id/cutover", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { getEmbeddingSpace, getEmbeddingMigrationCoverage, isReadyForCutover, cutoverEmbeddingSpace } = await import("./services/embeddingSpaces");
+      const space = await getEmbeddingSpace(req.params.id);
+      if (!space) {
+        return res.status(404).json({ error: "Embedding space not found" });
+      }
+      if (space.status !== "building") {
+        return res.status(409).json({ error: `Embedding space is ${space.status}, not building` });
+      }
+
+      const coverage = await getEmbeddingMigrationCoverage(space.id);
+      if (!isReadyForCutover(coverage)) {
+        return res.status(409).json({ error: "Embedding space does not cover every approved item yet", coverage });
+      }
+      if (!(await cutoverEmbeddingSpace(space.id))) {
+        return res.status(409).json({ error: "Embedding space is no longer building" });
+      }
+
+      await audit.log("embedding_cutover", {
+        targetType: "embedding_space",
+        targetId: space.id,
+        metadata: { provider: space.provider, model: space.model, itemsEmbedded: coverage.itemsEmbedded },
+      });
+
+      res.json({ success: true, coverage });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Embedding cutover error", details: error.message });
+      res.status(500).json({ error: "Failed to cut over embedding space" });
+    }
+  });
+
+  app.post("/api/corpus/embedding-spaces/:id/cancel", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { cancelEmbeddingMigration } = await import("./services/embeddingSpaces");
+      if (!(await cancelEmbeddingMigration(req.params.id))) {
+        return res.status(404).json({ error: "No embedding migration in progress with this id" });
+      }
+
+      await audit.log("embedding_migration_cancelled", {
+        targetType: "embedding_space",
+        targetId: req.params.id,
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Cancel embedding migration error", details: error.message });
+      res.status(500).json({ error: "Failed to cancel embedding migration" });
+    }
+  });
+
+  // ===== RETRIEVAL EVALUATION (Admin/Creator Only) =====
+  // Golden question sets scored against searchCorpus; see services/retrievalEval.ts
+
+  const evalRunOptionsSchema = z.object({
+    k: z.number().int().min(1).max(50).optional(),
+    minScore: z.number().min(0).max(1).optional(),
+    mode: z.enum(["vector", "lexical", "hybrid"]).optional(),
+  });
+
+  app.get("/api/corpus/eval/sets", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { listEvalSets } = await import("./services/retrievalEval");
+      res.json({ sets: await listEvalSets() });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "List eval sets error", details: error.message });
+      res.status(500).json({ error: "Failed to list golden sets" });
+    }
+  });
+
+  // Create a set, or replace the questions of the set with this name; accepts questions or JSONL text
+  app.post("/api/corpus/eval/sets", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { goldenQuestionSchema, parseGoldenJsonl, saveEvalSet } = await import("./services/retrievalEval");
+      const body = z.object({
+        name: z.string().trim().min(1).max(100),
+        description: z.string().max(1000).optional(),
+        questions: z.array(goldenQuestionSchema).max(2000).optional(),
+        jsonl: z.string().max(2_000_000).optional(),
+      }).refine(b => (b.questions === undefined) !== (b.jsonl === undefined), {
+        message: "Provide either questions or jsonl",
+      }).parse(req.body);
+
+      let questions = body.questions ?? [];
+      if (body.jsonl !== undefined) {
+        const parsed = parseGoldenJsonl(body.jsonl);
+        if (parsed.errors.length > 0) {
+          return res.status(400).json({ error: "Invalid golden set", errors: parsed.errors });
+        }
+        questions = parsed.questions;
+      }
+      if (questions.length === 0) {
+        return res.status(400).json({ error: "Golden set has no questions" });
+      }
+
+      const result = await saveEvalSet({
+        name: body.name,
+        description: body.description,
+        questions,
+        createdByWallet: (req as any).publicKey,
+      });
+
+      await audit.log("retrieval_eval_set_saved", {
+        targetType: "retrieval_eval_set",
+        targetId: result.set.id,
+        metadata: { name: body.name, questionCount: result.questionCount },
+      });
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Save eval set error", details: error });
+      res.status(500).json({ error: "Failed to save golden set" });
+    }
+  });
+
+  app.get("/api/corpus/eval/sets/:id/questions", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { getEvalSetQuestions } = await import("./services/retrievalEval");
+      res.json({ questions: await getEvalSetQuestions(req.params.id) });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Get eval set questions error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch golden set questions" });
+    }
+  });
+
+  // Queue a run of a set with optional overrides of RAG_DEFAULT_K / RAG_MIN_SCORE / retrieval mode;
+  // poll GET /api/corpus/eval/runs/:id for the result
+  app.post("/api/corpus/eval/sets/:id/run", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const options = evalRunOptionsSchema.parse(req.body ?? {});
+      const { queueEvalSetRun } = await import("./services/retrievalEval");
+      const run = await queueEvalSetRun(req.params.id, options, (req as any).publicKey);
+      if (!run) {
+        return res.status(404).json({ error: "Golden set not found" });
+      }
+
+      await audit.log("retrieval_eval_run", {
+        targetType: "retrieval_eval_set",
+        targetId: req.params.id,
+        metadata: { runId: run.id, jobId: run.jobId, ...options },
+      });
+
+      res.status(202).json({ runId: run.id, run });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Retrieval eval run error", details: error });
+      res.status(500).json({ error: "Failed to run retrieval evaluation" });
+    }
+  });
+
+  app.get("/api/corpus/eval/runs", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { listEvalRuns } = await import("./services/retrievalEval");
+      const setId = req.query.setId as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json({ runs: await listEvalRuns(setId, limit) });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "List eval runs error", details: error.message });
+      res.status(500).json({ error: "Failed to list retrieval eval runs" });
+    }
+  });
+
+  app.get("/api/corpus/eval/runs/:id", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { getEvalRun } = await import("./services/retrievalEval");
+      const run = await getEvalRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Eval run not found" });
+      }
+      res.json({ run });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Get eval run error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch retrieval eval run" });
+    }
+  });
+
   // ===== JOB QUEUE MANAGEMENT (Admin/Creator Only) =====
   
   // Get jobs by status
@@ -1195,159 +1988,896 @@ export async function registerRoutes(
     message: z.string().min(1).max(2000),
     track: z.string().optional(),
     aiLevel: z.number().int().min(1).max(100),
+    conversationId: z.string().optional(), // Omit to start a new thread
+    corpusFilter: corpusRetrievalFilterSchema.optional(), // Scope retrieval by corpus metadata
   });
 
+  type ChatRequestBody = z.infer<typeof chatMessageSchema>;
+
+  /**
+   * Load the wallet's thread for a chat request, or start a new one.
+   * Returns null when conversationId is given but not owned by the wallet.
+   */
+  async function resolveConversation(publicKey: string, body: ChatRequestBody) {
+    const { deriveConversationTitle } = await import("./services/conversationContext");
+    if (body.conversationId) {
+      return (await storage.getConversation(body.conversationId, publicKey)) ?? null;
+    }
+    return await storage.createConversation(publicKey, deriveConversationTitle(body.message));
+  }
+
+  type ChatConversation = NonNullable<Awaited<ReturnType<typeof resolveConversation>>>;
+
+  /**
+   * Resolve server-side level, track and complexity gating for a chat request
+   */
+  async function resolveChatContext(publicKey: string, body: ChatRequestBody, conversation: ChatConversation) {
+    // Fetch user's actual intelligence level from database (enforce server-side)
+    const balance = await storage.getOrCreateWalletBalance(publicKey);
+    const intelligenceLevel = balance.level; // Server-side level (1-100)
+    
+    // Prior turns of the thread, trimmed/summarized to the level's history budget
+    // Tokens spent on the history summary are metered with the answer
+    const { buildConversationHistory } = await import("./services/conversationContext");
+    const { getLevelPolicy } = await import("./services/levelPolicy");
+    const { createTokenMeter } = await import("./services/tokenUsage");
+    const meter = createTokenMeter();
+    const history = await buildConversationHistory(conversation, getLevelPolicy(intelligenceLevel), meter);
+    
+    // Look up trackId if track name provided
+    let trackId: string | undefined;
+    if (body.track) {
+      const tracks = await storage.getAllTracks();
+      const matchedTrack = tracks.find(t => t.name.toLowerCase() === body.track!.toLowerCase());
+      trackId = matchedTrack?.id;
+    }
+    
+    // Check if question is above user's level; only confident estimates gate the answer
+    const { allowedComplexity } = await import("./services/questionSelector");
+    const { estimateQuestionComplexity } = await import("./services/complexityClassifier");
+    const userMaxComplexity = allowedComplexity(intelligenceLevel);
+    const complexityEstimate = await estimateQuestionComplexity(body.message, trackId);
+    const questionComplexity = complexityEstimate.complexity;
+    const isGated = complexityEstimate.confident && questionComplexity > userMaxComplexity;
+    const learningSteps = isGated
+      ? generateLearningSteps(intelligenceLevel, questionComplexity, userMaxComplexity)
+      : [];
+    
+    return {
+      intelligenceLevel,
+      trackId,
+      conversation,
+      history,
+      meter,
+      isGated,
+      learningSteps,
+      complexityEstimate,
+      userMaxComplexity,
+      // Text wrapped around the model answer when the question is above level
+      gatingPrefix: isGated
+        ? `I understand you're asking about an advanced topic. At your current intelligence level (${intelligenceLevel}), this topic requires complexity level ${questionComplexity}, but you currently have access up to level ${userMaxComplexity}.\n\n` +
+          `Here's a simplified answer based on your current level:\n\n`
+        : "",
+      gatingSuffix: isGated
+        ? `\n\n**To unlock this topic, here's what you need to do:**\n${learningSteps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`
+        : "",
+    };
+  }
+
+  type ChatContext = Awaited<ReturnType<typeof resolveChatContext>>;
+
+  function getChatFallbackResponse(message: string): string {
+    return `[Development Mode] AI service is currently offline. Your message was: "${message.slice(0, 100)}${message.length > 100 ? '...' : ''}"`;
+  }
+
+  // Tokens spent before generation (history summary); null when nothing was metered
+  function getPreparationUsage(context: ChatContext): ChatTokenUsage | null {
+    const usage = context.meter.totals();
+    return usage.totalTokens > 0 ? usage : null;
+  }
+
+  // Track usage for corpus items (increment usageCountCycle)
+  async function trackCorpusItemUsage(req: Request, corpusItemIds: string[]) {
+    if (corpusItemIds.length === 0) return;
+    try {
+      const { incrementCorpusItemUsage } = await import("./services/rewardsDistributionV2");
+      await incrementCorpusItemUsage(corpusItemIds);
+    } catch (error: any) {
+      logger.error({ 
+        requestId: req.requestId, 
+        error: "Failed to track corpus item usage (non-blocking)", 
+        details: error.message 
+      });
+    }
+  }
+
+  async function chargeTokenUsage(req: Request, publicKey: string, usage: ChatTokenUsage) {
+    try {
+      const { recordTokenUsage } = await import("./services/tokenUsage");
+      await recordTokenUsage(publicKey, usage);
+    } catch (error: any) {
+      logger.error({
+        requestId: req.requestId,
+        error: "Failed to record token usage (non-blocking)",
+        details: error.message
+      });
+    }
+  }
+
+  async function recordOutputGuardFlag(req: Request, publicKey: string, chatMessageId: string, report: OutputGuardReport) {
+    try {
+      const { recordOutputFlag } = await import("./services/outputGuard");
+      const flag = await recordOutputFlag(report, publicKey, chatMessageId);
+      await createAuditHelper(req).log("output_guard_triggered", {
+        targetType: "chat_message",
+        targetId: chatMessageId,
+        overrideWallet: publicKey,
+        metadata: {
+          flagId: flag.id,
+          mode: report.mode,
+          action: report.action,
+          rules: report.findings.map(f => f.rule),
+        },
+      });
+    } catch (error: any) {
+      logger.error({
+        requestId: req.requestId,
+        error: "Failed to record output guard flag (non-blocking)",
+        details: error.message
+      });
+    }
+  }
+
+  /**
+   * Track corpus usage, persist the exchange and build the chat response payload
+   */
+  async function finalizeChatResponse(
+    req: Request,
+    publicKey: string,
+    body: ChatRequestBody,
+    context: ChatContext,
+    result: {
+      response: string;
+      corpusItemsUsed: string[];
+      sources: Array<{ chunkText: string; score: number; title: string | null; rerankScore?: number }>;
+      isGrounded: boolean;
+      usedCorpus: boolean;
+      grounded: boolean;
+      policySnapshot: any;
+      citationReport: CitationReport | null;
+      cache: ChatCacheInfo | null;
+      toolInvocations: ChatToolInvocation[];
+      usage: ChatTokenUsage | null;
+      outputGuard: OutputGuardReport | null;
+    }
+  ) {
+    const { intelligenceLevel, trackId, conversation, isGated, learningSteps, complexityEstimate, userMaxComplexity } = context;
+    const { response, corpusItemsUsed, toolInvocations } = result;
+    
+    await trackCorpusItemUsage(req, corpusItemsUsed);
+    
+    // Charge the answer's tokens to the wallet's quota for this cycle
+    if (result.usage) {
+      await chargeTokenUsage(req, publicKey, result.usage);
+    }
+    
+    // Save to chat history (use server-side intelligence level)
+    const chatMessage = await storage.saveChatMessage({
+      walletAddress: publicKey,
+      conversationId: conversation.id,
+      trackId,
+      aiLevel: intelligenceLevel, // Use server-side level
+      userMessage: body.message,
+      aiResponse: response,
+      corpusItemsUsed,
+      toolInvocations: toolInvocations.length > 0 ? toolInvocations : null,
+      sources: result.sources,
+      policySnapshot: result.policySnapshot,
+    });
+    await storage.touchConversation(conversation.id);
+    
+    if (result.outputGuard) {
+      await recordOutputGuardFlag(req, publicKey, chatMessage.id, result.outputGuard);
+    }
+    
+    // Get active model version metadata
+    const { getActiveModelVersion, getCurrentCorpusHash } = await import("./services/modelVersioning");
+    const activeVersion = await getActiveModelVersion();
+    const corpusHash = await getCurrentCorpusHash();
+
+    return {
+      id: chatMessage.id,
+      conversationId: conversation.id,
+      response,
+      corpusItemsUsed: corpusItemsUsed.length,
+      aiLevel: intelligenceLevel, // Server-side level
+      track: body.track,
+      sources: result.sources,
+      isGrounded: result.isGrounded, // Keep for backwards compatibility
+      usedCorpus: result.usedCorpus,
+      grounded: result.grounded,
+      level: intelligenceLevel, // Server-side level
+      policySnapshot: result.policySnapshot,
+      citationReport: result.citationReport, // Null when citations were not required/verified
+      cache: result.cache, // Null when the answer cache was not consulted
+      toolInvocations, // Calculator / unit converter calls made while answering
+      usage: result.usage, // Tokens charged for this answer (null when nothing was charged)
+      outputGuard: result.outputGuard ? { action: result.outputGuard.action } : null, // Findings stay server-side
+      isGated, // Whether response was gated due to level
+      learningSteps: isGated ? learningSteps : undefined,
+      complexityEstimate: {
+        complexity: complexityEstimate.complexity,
+        confidence: complexityEstimate.confidence,
+        score: complexityEstimate.score,
+        confident: complexityEstimate.confident,
+        maxAllowed: userMaxComplexity,
+        neighbors: complexityEstimate.neighbors,
+      },
+      metadata: {
+        activeModelVersionId: activeVersion?.id || null,
+        corpusHash,
+      },
+    };
+  }
+
+  /**
+   * Current-cycle token usage for a wallet; null when quotas are disabled or the lookup fails
+   * (accounting problems never block chat)
+   */
+  async function checkTokenQuota(req: Request, publicKey: string): Promise<TokenUsageStatus | null> {
+    try {
+      const { getTokenQuotaConfig, getTokenUsageStatus } = await import("./services/tokenUsage");
+      const config = getTokenQuotaConfig();
+      if (!config.enabled) {
+        return null;
+      }
+      return await getTokenUsageStatus(publicKey, isCreator(publicKey), config);
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Token quota check failed (non-blocking)", details: error.message });
+      return null;
+    }
+  }
+
+  function quotaExhaustedResponse(req: Request, usage: TokenUsageStatus) {
+    return {
+      error: "quota_exhausted",
+      message: `You've used your chat allowance for this cycle (${usage.totalTokens.toLocaleString("en-US")} of ${usage.quota.toLocaleString("en-US")} tokens). ` +
+        "It resets when the next cycle starts; leveling up or staking raises it.",
+      usage,
+      requestId: req.requestId,
+    };
+  }
+
   app.post("/api/ai/chat", requireAuthMiddleware, requireHiveAccess, chatLimiter, chatLimiterWallet, chatLimiterIp, async (req: Request, res: Response) => {
     try {
       const body = chatMessageSchema.parse(req.body);
       const publicKey = (req as any).publicKey;
       
-      // Fetch user's actual intelligence level from database (enforce server-side)
-      const balance = await storage.getOrCreateWalletBalance(publicKey);
-      const intelligenceLevel = balance.level; // Server-side level (1-100)
-      
-      // Look up trackId if track name provided
-      let trackId: string | undefined;
-      if (body.track) {
-        const tracks = await storage.getAllTracks();
-        const matchedTrack = tracks.find(t => t.name.toLowerCase() === body.track!.toLowerCase());
-        trackId = matchedTrack?.id;
+      const quota = await checkTokenQuota(req, publicKey);
+      if (quota?.exhausted) {
+        return res.status(429).json(quotaExhaustedResponse(req, quota));
       }
       
-      // Check if question is above user's level (simple heuristic)
-      const { allowedComplexity } = await import("./services/questionSelector");
-      const userMaxComplexity = allowedComplexity(intelligenceLevel);
-      const questionComplexity = estimateQuestionComplexity(body.message);
-      const isQuestionAboveLevel = questionComplexity > userMaxComplexity;
+      const conversation = await resolveConversation(publicKey, body);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const context = await resolveChatContext(publicKey, body, conversation);
       
       // Generate response using Ollama (always use server-side intelligence level)
       const { generateChatResponse } = await import("./aiChat");
       
-      let response: string;
-      let corpusItemsUsed: string[];
+      let result: Parameters<typeof finalizeChatResponse>[4];
+      
+      try {
+        const generated = await generateChatResponse(
+          body.message,
+          context.intelligenceLevel, // Use server-side level, not client-provided
+          context.trackId,
+          { history: context.history, corpusFilter: body.corpusFilter, meter: context.meter }
+        );
+        
+        // If question is above level, gate the response
+        result = {
+          ...generated,
+          response: context.gatingPrefix + generated.response + context.gatingSuffix,
+        };
+      } catch (error: any) {
+        logger.error({ requestId: req.requestId, error: "[AI Chat] Ollama error", details: error.message });
+        captureError(error, { requestId: req.requestId, walletAddress: publicKey });
+        
+        if (!isAiFallbackAllowed()) {
+          return res.status(503).json({ 
+            error: "ai_unavailable",
+            message: "AI service is offline",
+            requestId: req.requestId
+          });
+        }
+        
+        result = {
+          response: getChatFallbackResponse(body.message),
+          corpusItemsUsed: [],
+          sources: [],
+          isGrounded: false,
+          usedCorpus: false,
+          grounded: false,
+          policySnapshot: null,
+          citationReport: null,
+          cache: null,
+          toolInvocations: [],
+          usage: getPreparationUsage(context),
+          outputGuard: null,
+        };
+        logger.warn({ requestId: req.requestId, message: "Using fallback AI response in development mode" });
+      }
+      
+      res.json(await finalizeChatResponse(req, publicKey, body, context, result));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "AI chat error", details: error });
+      res.status(500).json({ error: "Failed to generate response" });
+    }
+  });
+
+  // Streaming chat over Server-Sent Events
+  // Events: "token" ({ token }) per content delta, then "done" with the same payload
+  // as POST /api/ai/chat, or "error" ({ error, message, requestId }) on failure
+  app.post("/api/ai/chat/stream", requireAuthMiddleware, requireHiveAccess, chatLimiter, chatLimiterWallet, chatLimiterIp, async (req: Request, res: Response) => {
+    let body: ChatRequestBody;
+    try {
+      body = chatMessageSchema.parse(req.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(400).json({ error: "Invalid request" });
+    }
+    
+    const publicKey = (req as any).publicKey;
+    
+    const quota = await checkTokenQuota(req, publicKey);
+    if (quota?.exhausted) {
+      return res.status(429).json(quotaExhaustedResponse(req, quota));
+    }
+    
+    // Resolve the thread and level before opening the stream so failures can still return JSON
+    let context: ChatContext;
+    try {
+      const conversation = await resolveConversation(publicKey, body);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      context = await resolveChatContext(publicKey, body, conversation);
+    } catch (error) {
+      logger.error({ requestId: req.requestId, error: "AI chat stream setup error", details: error });
+      return res.status(500).json({ error: "Failed to generate response" });
+    }
+    
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+    
+    const sendEvent = (event: string, data: unknown) => {
+      if (res.writableEnded || res.destroyed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering (Caddy/nginx)
+    res.flushHeaders();
+    
+    try {
+      const { streamChatResponse } = await import("./aiChat");
       
-      let sources: Array<{ chunkText: string; score: number; title: string | null }> = [];
-      let isGrounded = false;
-      let usedCorpus = false;
-      let grounded = false;
-      let level = intelligenceLevel;
-      let policySnapshot: any = null;
-      let isGated = false;
-      let learningSteps: string[] = [];
+      let result: Parameters<typeof finalizeChatResponse>[4];
+      let aborted = false;
       
       try {
-        const result = await generateChatResponse(
+        if (context.gatingPrefix) {
+          sendEvent("token", { token: context.gatingPrefix });
+        }
+        
+        const generated = await streamChatResponse(
           body.message,
-          intelligenceLevel, // Use server-side level, not client-provided
-          trackId
+          context.intelligenceLevel, // Use server-side level, not client-provided
+          context.trackId,
+          {
+            history: context.history,
+            corpusFilter: body.corpusFilter,
+            meter: context.meter,
+            onToken: (token) => sendEvent("token", { token }),
+            onTool: (invocation) => sendEvent("tool", invocation),
+            signal: abortController.signal,
+          }
         );
+        aborted = generated.aborted;
         
-        // If question is above level, gate the response
-        if (isQuestionAboveLevel) {
-          isGated = true;
-          learningSteps = generateLearningSteps(intelligenceLevel, questionComplexity, userMaxComplexity);
-          
-          // Modify response to include gating message
-          response = `I understand you're asking about an advanced topic. At your current intelligence level (${intelligenceLevel}), this topic requires complexity level ${questionComplexity}, but you currently have access up to level ${userMaxComplexity}.\n\n` +
-            `Here's a simplified answer based on your current level:\n\n${result.response}\n\n` +
-            `**To unlock this topic, here's what you need to do:**\n${learningSteps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`;
-        } else {
-          response = result.response;
+        if (context.gatingSuffix && !aborted) {
+          sendEvent("token", { token: context.gatingSuffix });
         }
         
-        corpusItemsUsed = result.corpusItemsUsed;
-        sources = result.sources;
-        isGrounded = result.isGrounded;
-        usedCorpus = result.usedCorpus;
-        grounded = result.grounded;
-        level = result.level;
-        policySnapshot = result.policySnapshot;
+        result = {
+          ...generated,
+          response: context.gatingPrefix + generated.response + (aborted ? "" : context.gatingSuffix),
+        };
       } catch (error: any) {
-        logger.error({ requestId: req.requestId, error: "[AI Chat] Ollama error", details: error.message });
+        logger.error({ requestId: req.requestId, error: "[AI Chat] Ollama stream error", details: error.message });
         captureError(error, { requestId: req.requestId, walletAddress: publicKey });
         
         if (!isAiFallbackAllowed()) {
-          return res.status(503).json({ 
+          sendEvent("error", {
             error: "ai_unavailable",
             message: "AI service is offline",
-            requestId: req.requestId
+            requestId: req.requestId,
           });
+          return res.end();
         }
         
-        response = `[Development Mode] AI service is currently offline. Your message was: "${body.message.slice(0, 100)}${body.message.length > 100 ? '...' : ''}"`;
-        corpusItemsUsed = [];
-        usedCorpus = false;
-        grounded = false;
+        const fallback = getChatFallbackResponse(body.message);
+        sendEvent("token", { token: fallback });
+        result = {
+          response: context.gatingPrefix + fallback,
+          corpusItemsUsed: [],
+          sources: [],
+          isGrounded: false,
+          usedCorpus: false,
+          grounded: false,
+          policySnapshot: null,
+          citationReport: null,
+          cache: null,
+          toolInvocations: [],
+          usage: getPreparationUsage(context),
+          outputGuard: null,
+        };
         logger.warn({ requestId: req.requestId, message: "Using fallback AI response in development mode" });
       }
       
-      // Track usage for corpus items (increment usageCountCycle)
-      if (corpusItemsUsed.length > 0) {
-        try {
-          const { incrementCorpusItemUsage } = await import("./services/rewardsDistributionV2");
-          await incrementCorpusItemUsage(corpusItemsUsed);
-        } catch (error: any) {
-          logger.error({ 
-            requestId: req.requestId, 
-            error: "Failed to track corpus item usage (non-blocking)", 
-            details: error.message 
-          });
+      // Client went away mid-stream: keep whatever was generated so history matches what they saw
+      if (aborted) {
+        logger.info({ requestId: req.requestId, message: "Chat stream aborted by client" });
+        if (result.response.trim().length === 0) {
+          return res.end();
         }
       }
       
-      // Save to chat history (use server-side intelligence level)
-      const chatMessage = await storage.saveChatMessage({
-        walletAddress: publicKey,
-        trackId,
-        aiLevel: intelligenceLevel, // Use server-side level
-        userMessage: body.message,
-        aiResponse: response,
-        corpusItemsUsed,
+      const payload = await finalizeChatResponse(req, publicKey, body, context, result);
+      sendEvent("done", { ...payload, aborted });
+      res.end();
+    } catch (error) {
+      logger.error({ requestId: req.requestId, error: "AI chat stream error", details: error });
+      sendEvent("error", {
+        error: "chat_failed",
+        message: "Failed to generate response",
+        requestId: req.requestId,
       });
+      res.end();
+    }
+  });
+
+  // Chat token usage and quota for the current cycle
+  app.get("/api/ai/usage", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const { getTokenUsageStatus } = await import("./services/tokenUsage");
+      res.json(await getTokenUsageStatus(publicKey, isCreator(publicKey)));
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Token usage error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch token usage" });
+    }
+  });
+
+  // Chat history grouped by thread (most recently active first)
+  // Messages sent before threads existed are grouped under conversationId: null
+  app.get("/api/ai/chat/history", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
       
-      // Get active model version metadata
-      const { getActiveModelVersion, getCurrentCorpusHash } = await import("./services/modelVersioning");
-      const activeVersion = await getActiveModelVersion();
-      const corpusHash = await getCurrentCorpusHash();
+      const [history, conversations] = await Promise.all([
+        storage.getChatHistory(publicKey, limit),
+        storage.getConversationsByWallet(publicKey, 100),
+      ]);
+      
+      const conversationsById = new Map(conversations.map(c => [c.id, c]));
+      const threads = new Map<string | null, {
+        conversationId: string | null;
+        title: string;
+        updatedAt: Date;
+        messages: typeof history;
+      }>();
+      
+      for (const message of history) {
+        const key = message.conversationId ?? null;
+        let thread = threads.get(key);
+        if (!thread) {
+          const conversation = key ? conversationsById.get(key) : undefined;
+          thread = {
+            conversationId: key,
+            title: conversation?.title ?? "Earlier messages",
+            updatedAt: conversation?.updatedAt ?? message.createdAt,
+            messages: [],
+          };
+          threads.set(key, thread);
+        }
+        thread.messages.push(message);
+      }
+      
+      res.json(Array.from(threads.values()));
+    } catch (error) {
+      console.error("Chat history error:", error);
+      res.status(500).json({ error: "Failed to fetch chat history" });
+    }
+  });
 
-      res.json({
-        id: chatMessage.id,
-        response,
-        corpusItemsUsed: corpusItemsUsed.length,
-        aiLevel: intelligenceLevel, // Server-side level
-        track: body.track,
-        sources,
-        isGrounded, // Keep for backwards compatibility
-        usedCorpus,
-        grounded,
-        level: intelligenceLevel, // Server-side level
-        policySnapshot,
-        isGated, // Whether response was gated due to level
-        learningSteps: isGated ? learningSteps : undefined,
+  // Full-text search over the wallet's own messages
+  const chatSearchSchema = z.object({
+    q: z.string().trim().min(1).max(200),
+    conversationId: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+
+  app.get("/api/ai/chat/search", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const query = chatSearchSchema.parse(req.query);
+      const { searchChatHistory } = await import("./services/chatHistory");
+      const results = await searchChatHistory(publicKey, query.q, {
+        limit: query.limit,
+        offset: query.offset,
+        conversationId: query.conversationId,
+      });
+      res.json({ query: query.q, results });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Chat search error", details: error.message });
+      res.status(500).json({ error: "Failed to search chat history" });
+    }
+  });
+
+  // Download the wallet's chat history (all of it, or one conversation)
+  const chatExportSchema = z.object({
+    format: z.enum(["json", "markdown"]).default("json"),
+    conversationId: z.string().optional(),
+  });
+
+  app.get("/api/ai/chat/export", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const query = chatExportSchema.parse(req.query);
+      if (query.conversationId && !(await storage.getConversation(query.conversationId, publicKey))) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const { buildChatExport, formatChatExportMarkdown } = await import("./services/chatHistory");
+      const data = await buildChatExport(publicKey, query.conversationId);
+      const filename = `hivemind-chat-${new Date().toISOString().slice(0, 10)}`;
+
+      if (query.format === "markdown") {
+        res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.md"`);
+        return res.send(formatChatExportMarkdown(data));
+      }
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+      res.json(data);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Chat export error", details: error.message });
+      res.status(500).json({ error: "Failed to export chat history" });
+    }
+  });
+
+  app.delete("/api/ai/chat/messages/:id", requireAuthMiddleware, requireHiveAccess, writeLimiter, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const { deleteChatMessages } = await import("./services/chatHistory");
+      const result = await deleteChatMessages(publicKey, { messageIds: [req.params.id] });
+      if (result.deletedMessages === 0) {
+        return res.status(404).json({ error: "Chat message not found" });
+      }
+
+      await createAuditHelper(req).log("chat_history_deleted", {
+        targetType: "chat_message",
+        targetId: req.params.id,
+        metadata: { scope: "message", ...result },
+      });
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Delete chat message error", details: error.message });
+      res.status(500).json({ error: "Failed to delete chat message" });
+    }
+  });
+
+  // Bulk deletion: a list of messages, or everything the wallet has ever sent ("delete my data")
+  const chatBulkDeleteSchema = z.union([
+    z.object({ messageIds: z.array(z.string().min(1)).min(1).max(500) }),
+    z.object({ all: z.literal(true) }),
+  ]);
+
+  app.post("/api/ai/chat/history/delete", requireAuthMiddleware, requireHiveAccess, writeLimiter, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const body = chatBulkDeleteSchema.parse(req.body);
+      const { deleteChatMessages } = await import("./services/chatHistory");
+      const messageIds = "messageIds" in body ? Array.from(new Set(body.messageIds)) : null;
+      const result = await deleteChatMessages(publicKey, messageIds ? { messageIds } : { all: true });
+
+      await createAuditHelper(req).log("chat_history_deleted", {
+        targetType: "chat_message",
         metadata: {
-          activeModelVersionId: activeVersion?.id || null,
-          corpusHash,
+          scope: messageIds ? "messages" : "all",
+          requestedMessages: messageIds?.length,
+          ...result,
         },
       });
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Bulk chat deletion error", details: error.message });
+      res.status(500).json({ error: "Failed to delete chat history" });
+    }
+  });
+
+  // Rate an answer (thumbs up/down with optional reason); rating: null clears it
+  const chatFeedbackSchema = z.object({
+    rating: z.enum(["up", "down"]).nullable(),
+    reason: z.string().trim().max(500).optional(),
+  });
+
+  app.post("/api/ai/chat/:id/feedback", requireAuthMiddleware, requireHiveAccess, writeLimiter, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const body = chatFeedbackSchema.parse(req.body);
+      const rating = body.rating === "up" ? 1 : body.rating === "down" ? -1 : null;
+      
+      const message = await storage.setChatMessageFeedback(req.params.id, publicKey, rating, body.reason);
+      if (!message) {
+        return res.status(404).json({ error: "Chat message not found" });
+      }
+      
+      res.json({
+        id: message.id,
+        rating: body.rating,
+        reason: message.feedbackReason,
+        feedbackAt: message.feedbackAt,
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      logger.error({ requestId: req.requestId, error: "AI chat error", details: error });
-      res.status(500).json({ error: "Failed to generate response" });
+      logger.error({ requestId: req.requestId, error: "Chat feedback error", details: error });
+      res.status(500).json({ error: "Failed to save feedback" });
     }
   });
 
-  app.get("/api/ai/chat/history", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+  // ===== CHAT CONVERSATIONS =====
+  const conversationSchema = z.object({
+    title: z.string().trim().min(1).max(120),
+  });
+
+  app.get("/api/ai/conversations", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
     try {
       const publicKey = (req as any).publicKey;
       const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-      
-      const history = await storage.getChatHistory(publicKey, limit);
-      res.json(history);
+      const conversations = await storage.getConversationsByWallet(publicKey, limit);
+      res.json(conversations.map(c => ({
+        id: c.id,
+        title: c.title,
+        attemptId: c.attemptId,
+        createdAt: c.createdAt,
+        updatedAt: c.updatedAt,
+      })));
     } catch (error) {
-      console.error("Chat history error:", error);
-      res.status(500).json({ error: "Failed to fetch chat history" });
+      logger.error({ requestId: req.requestId, error: "List conversations error", details: error });
+      res.status(500).json({ error: "Failed to fetch conversations" });
+    }
+  });
+
+  app.post("/api/ai/conversations", requireAuthMiddleware, requireHiveAccess, writeLimiter, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const body = conversationSchema.partial().parse(req.body ?? {});
+      const conversation = await storage.createConversation(publicKey, body.title || "New conversation");
+      res.json({
+        id: conversation.id,
+        title: conversation.title,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Create conversation error", details: error });
+      res.status(500).json({ error: "Failed to create conversation" });
+    }
+  });
+
+  app.get("/api/ai/conversations/:id/messages", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const conversation = await storage.getConversation(req.params.id, publicKey);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const messages = await storage.getConversationMessages(conversation.id, publicKey);
+      res.json({ conversation: { id: conversation.id, title: conversation.title }, messages });
+    } catch (error) {
+      logger.error({ requestId: req.requestId, error: "Get conversation messages error", details: error });
+      res.status(500).json({ error: "Failed to fetch conversation" });
+    }
+  });
+
+  app.put("/api/ai/conversations/:id", requireAuthMiddleware, requireHiveAccess, writeLimiter, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const body = conversationSchema.parse(req.body);
+      const conversation = await storage.renameConversation(req.params.id, publicKey, body.title);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      res.json({
+        id: conversation.id,
+        title: conversation.title,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Rename conversation error", details: error });
+      res.status(500).json({ error: "Failed to rename conversation" });
+    }
+  });
+
+  app.delete("/api/ai/conversations/:id", requireAuthMiddleware, requireHiveAccess, writeLimiter, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const { deleteChatMessages } = await import("./services/chatHistory");
+      const result = await deleteChatMessages(publicKey, { conversationId: req.params.id });
+      if (result.deletedConversations === 0) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      await createAuditHelper(req).log("chat_history_deleted", {
+        targetType: "conversation",
+        targetId: req.params.id,
+        metadata: { scope: "conversation", ...result },
+      });
+      res.json({ success: true, ...result });
+    } catch (error) {
+      logger.error({ requestId: req.requestId, error: "Delete conversation error", details: error });
+      res.status(500).json({ error: "Failed to delete conversation" });
+    }
+  });
+
+  // ===== EXPLAIN MY MISTAKES =====
+  // Review chats for training attempts; only the wallet that submitted an attempt can review it
+
+  app.get("/api/ai/explain/attempts", requireAuthMiddleware, requireHiveAccess, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+      const { getMissedAnswers, isAttemptReviewed } = await import("./services/mistakeExplainer");
+      const [attempts, tracks] = await Promise.all([
+        storage.getAttemptsBySubmitter(publicKey, limit),
+        storage.getAllTracks(),
+      ]);
+      const trackNames = new Map(tracks.map(t => [t.id, t.name]));
+
+      const explainable = attempts
+        .filter(isAttemptReviewed)
+        .map(attempt => ({ attempt, missed: getMissedAnswers(attempt.evidencePacket).length }))
+        .filter(({ missed }) => missed > 0);
+      const reviews = await Promise.all(
+        explainable.map(({ attempt }) => storage.getConversationByAttempt(attempt.id, publicKey))
+      );
+
+      res.json(explainable.map(({ attempt, missed }, i) => ({
+        id: attempt.id,
+        trackId: attempt.trackId,
+        trackName: attempt.trackId ? trackNames.get(attempt.trackId) ?? null : null,
+        difficulty: attempt.difficulty,
+        status: attempt.status,
+        scorePct: attempt.scorePct ? parseFloat(attempt.scorePct) : null,
+        missedCount: missed,
+        totalCount: attempt.evidencePacket?.questionResults?.length ?? 0,
+        conversationId: reviews[i]?.id ?? null,
+        createdAt: attempt.createdAt,
+      })));
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "List explainable attempts error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch attempts" });
+    }
+  });
+
+  app.post("/api/ai/explain/attempts/:id", requireAuthMiddleware, requireHiveAccess, chatLimiter, chatLimiterWallet, chatLimiterIp, async (req: Request, res: Response) => {
+    try {
+      const publicKey = (req as any).publicKey;
+      const attempt = await storage.getAttemptById(req.params.id);
+      // Someone else's attempt looks the same as a missing one
+      if (!attempt || attempt.submitterWalletPubkey !== publicKey) {
+        return res.status(404).json({ error: "Attempt not found" });
+      }
+
+      const { explainAttempt, getMissedAnswers, isAttemptReviewed } = await import("./services/mistakeExplainer");
+      if (!isAttemptReviewed(attempt)) {
+        return res.status(400).json({ error: "attempt_not_reviewed", message: "Only approved or rejected attempts can be explained" });
+      }
+      if (getMissedAnswers(attempt.evidencePacket).length === 0) {
+        return res.status(400).json({ error: "no_missed_questions", message: "This attempt has no missed questions to explain" });
+      }
+
+      // Each attempt is explained once; reopening it returns the saved review
+      const existing = await storage.getConversationByAttempt(attempt.id, publicKey);
+      if (existing) {
+        return res.json({ conversationId: existing.id, created: false });
+      }
+
+      const quota = await checkTokenQuota(req, publicKey);
+      if (quota?.exhausted) {
+        return res.status(429).json(quotaExhaustedResponse(req, quota));
+      }
+
+      const balance = await storage.getOrCreateWalletBalance(publicKey);
+      let explanation: Awaited<ReturnType<typeof explainAttempt>>;
+      try {
+        explanation = await explainAttempt(attempt, balance.level);
+      } catch (error: any) {
+        logger.error({ requestId: req.requestId, error: "Mistake explanation failed", attemptId: attempt.id, details: error.message });
+        return res.status(503).json({ error: "ai_unavailable", message: "AI service is currently offline. Please try again later." });
+      }
+
+      const track = attempt.trackId ? await storage.getTrack(attempt.trackId) : undefined;
+      const conversation = await storage.createConversation(
+        publicKey,
+        `Mistake review: ${track?.name ?? "training"} attempt`,
+        attempt.id
+      );
+
+      for (const item of explanation.items) {
+        const chatMessage = await storage.saveChatMessage({
+          walletAddress: publicKey,
+          conversationId: conversation.id,
+          trackId: item.trackId ?? undefined,
+          aiLevel: balance.level,
+          userMessage: `Why was my answer wrong?\n\n${item.questionText}\n\nMy answer: ${item.yourAnswer}\nCorrect answer: ${item.correctAnswer}`,
+          aiResponse: item.explanation,
+          corpusItemsUsed: item.corpusItemIds,
+          sources: item.sources,
+        });
+        if (item.outputGuard) {
+          await recordOutputGuardFlag(req, publicKey, chatMessage.id, item.outputGuard);
+        }
+        await trackCorpusItemUsage(req, item.corpusItemIds);
+      }
+      await chargeTokenUsage(req, publicKey, explanation.usage);
+
+      res.json({
+        conversationId: conversation.id,
+        created: true,
+        explainedCount: explanation.items.length,
+        missedCount: explanation.missedCount,
+        usage: explanation.usage,
+      });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Explain attempt error", details: error.message });
+      res.status(500).json({ error: "Failed to explain attempt" });
     }
   });
 
@@ -1538,6 +3068,17 @@ export async function registerRoutes(
         return res.status(400).json({ error: "No active cycle" });
       }
       
+      // Refuse or redact personal information before any fee is reserved
+      const { applyPiiPolicy, piiAuditMetadata } = await import("./services/piiScanner");
+      const pii = applyPiiPolicy(body.content, { ownWallet: publicKey });
+      if (pii.report.action === "rejected") {
+        await audit.log("pii_rejected", {
+          targetType: "submission",
+          metadata: { ...piiAuditMetadata(pii.report), surface: "train_attempt", trackId: body.trackId },
+        });
+        return res.status(422).json({ error: "Content contains personal information", piiReport: pii.report });
+      }
+      
       const feeHive = getFeeForDifficulty(body.difficulty);
       
       const balance = await storage.getOrCreateWalletBalance(publicKey);
@@ -1662,7 +3203,7 @@ export async function registerRoutes(
         trackId: body.trackId,
         difficulty: body.difficulty,
         cost,
-        content: body.content,
+        content: pii.text,
         cycleId: currentCycle.id,
         scorePct: scorePct.toFixed(4),
         attemptDurationSec,
@@ -1694,6 +3235,13 @@ export async function registerRoutes(
         targetId: attempt.id,
         metadata: { trackId: body.trackId, difficulty: body.difficulty, cycleId: currentCycle.id, feeHive },
       });
+      if (pii.report.action === "redacted") {
+        await audit.log("pii_redacted", {
+          targetType: "submission",
+          targetId: attempt.id,
+          metadata: { ...piiAuditMetadata(pii.report), surface: "train_attempt" },
+        });
+      }
       
       // Apply auto-review logic
       const autoReviewConfig = getAutoReviewConfig();
@@ -1761,6 +3309,7 @@ export async function registerRoutes(
           refundHive: settlementResult.refundHive,
           stakeAfter: settlementResult.stakeAfter,
         },
+        piiReport: pii.report,
       });
       
       // Calculate rewards if approved
@@ -2769,6 +4318,133 @@ export async function registerRoutes(
     }
   });
 
+  // ===== PROMPT TEMPLATES =====
+  // Edits create a new revision; chat uses the revision pinned by the active model
+  // version (or the latest one when no version pins a revision). POST /api/prompts/pin
+  // moves the active version to the latest revision.
+
+  const promptTemplateSchema = z.object({
+    content: z.string().max(8000).nullable(), // null resets to the default / removes the track override
+    trackId: z.string().optional(),
+  });
+
+  app.get("/api/prompts", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { listPromptTemplates, getPromptRevisionStatus } = await import("./services/promptTemplates");
+      const revision = req.query.revision ? parseInt(String(req.query.revision), 10) : undefined;
+      if (revision !== undefined && (isNaN(revision) || revision < 0)) {
+        return res.status(400).json({ error: "Invalid revision" });
+      }
+
+      const [list, revisionStatus] = await Promise.all([
+        listPromptTemplates(revision),
+        getPromptRevisionStatus(),
+      ]);
+      res.json({ ...list, ...revisionStatus });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "List prompt templates error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch prompt templates" });
+    }
+  });
+
+  app.get("/api/prompts/:key/history", requireAuthMiddleware, requireCreator, async (req: Request, res: Response) => {
+    try {
+      const { isPromptTemplateKey, getPromptTemplateHistory } = await import("./services/promptTemplates");
+      if (!isPromptTemplateKey(req.params.key)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+
+      const trackId = (req.query.trackId as string) || null;
+      const revisions = await getPromptTemplateHistory(req.params.key, trackId);
+      res.json({ key: req.params.key, trackId, revisions });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Prompt template history error", details: error.message });
+      res.status(500).json({ error: "Failed to fetch prompt template history" });
+    }
+  });
+
+  app.put("/api/prompts/:key", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const body = promptTemplateSchema.parse(req.body);
+      const { isPromptTemplateKey, validatePromptTemplate, savePromptTemplate, getPromptRevisionStatus } = await import("./services/promptTemplates");
+      const key = req.params.key;
+      if (!isPromptTemplateKey(key)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+
+      if (body.content !== null) {
+        const problems = validatePromptTemplate(key, body.content);
+        if (problems.length > 0) {
+          return res.status(400).json({ error: "Invalid prompt template", details: problems });
+        }
+      }
+
+      if (body.trackId && !(await storage.getTrack(body.trackId))) {
+        return res.status(404).json({ error: "Track not found" });
+      }
+
+      const template = await savePromptTemplate(key, body.content, body.trackId ?? null, (req as any).publicKey);
+
+      // Cached answers may have been generated with the previous prompt
+      try {
+        const { clearAnswerCache } = await import("./services/answerCache");
+        await clearAnswerCache();
+      } catch (error: any) {
+        logger.warn({ requestId: req.requestId, error: "Failed to clear answer cache (non-blocking)", details: error.message });
+      }
+
+      await audit.log("admin_action", {
+        targetType: "prompt_template",
+        targetId: template.id,
+        metadata: { action: body.content === null ? "reset" : "update", key, trackId: template.trackId, revision: template.revision },
+      });
+
+      // Tell the caller whether chat already uses this edit or it waits for a re-pin
+      const { activeRevision, headRevision } = await getPromptRevisionStatus();
+      res.json({ ...template, activeRevision, headRevision, live: activeRevision >= template.revision });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      logger.error({ requestId: req.requestId, error: "Save prompt template error", details: error.message });
+      res.status(500).json({ error: "Failed to save prompt template" });
+    }
+  });
+
+  // Pin the active model version to the latest prompt revision
+  app.post("/api/prompts/pin", requireAuthMiddleware, requireCreator, writeLimiter, async (req: Request, res: Response) => {
+    const audit = createAuditHelper(req);
+    try {
+      const { getHeadPromptRevision } = await import("./services/promptTemplates");
+      const { getActiveModelVersion, pinActivePromptRevision } = await import("./services/modelVersioning");
+      if (!(await getActiveModelVersion())) {
+        return res.status(400).json({ error: "No active model version; chat already uses the latest prompts" });
+      }
+
+      const pin = await pinActivePromptRevision(await getHeadPromptRevision());
+
+      // Cached answers were generated with the previously pinned prompts
+      try {
+        const { clearAnswerCache } = await import("./services/answerCache");
+        await clearAnswerCache();
+      } catch (error: any) {
+        logger.warn({ requestId: req.requestId, error: "Failed to clear answer cache (non-blocking)", details: error.message });
+      }
+
+      await audit.log("admin_action", {
+        targetType: "model_version",
+        targetId: pin.versionId,
+        metadata: { action: "pin_prompts", previousRevision: pin.previousRevision, promptRevision: pin.promptRevision },
+      });
+
+      res.json({ success: true, ...pin });
+    } catch (error: any) {
+      logger.error({ requestId: req.requestId, error: "Pin prompt revision error", details: error.message });
+      res.status(500).json({ error: "Failed to pin prompt revision" });
+    }
+  });
+
   // ===== PROGRESSION REQUIREMENTS =====
   
   app.get("/api/progression/requirements", defaultLimiter, publicReadLimiter, async (req: Request, res: Response) => {
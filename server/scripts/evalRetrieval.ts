@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+/**
+ * CLI script to evaluate corpus retrieval against a golden question set
+ *
+ * Usage:
+ *   npx tsx server/scripts/evalRetrieval.ts --file golden.jsonl [--k 5] [--minScore 0.5] [--mode hybrid]
+ *   npx tsx server/scripts/evalRetrieval.ts --file golden.jsonl --save <set-name>   (store the set, then run and record it)
+ *   npx tsx server/scripts/evalRetrieval.ts --set <set-name>                        (run a stored set and record it)
+ *
+ * Runs from --file alone are printed but not stored.
+ */
+
+import { readFileSync } from "fs";
+import type { RetrievalEvalMetrics, RetrievalEvalSummary } from "@shared/schema";
+import type { RetrievalMode } from "../services/rag";
+
+const MODES: RetrievalMode[] = ["vector", "lexical", "hybrid"];
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && index < args.length - 1 ? args[index + 1] : undefined;
+}
+
+function formatMetrics(label: string, metrics: RetrievalEvalMetrics): string {
+  const scores = metrics.scores
+    ? `scores min ${metrics.scores.min.toFixed(2)} / median ${metrics.scores.median.toFixed(2)} / max ${metrics.scores.max.toFixed(2)}`
+    : "no results";
+  const answer = metrics.answerRecall !== null ? `  answer ${metrics.answerRecall.toFixed(3)}` : "";
+  return `${label.padEnd(38)} n=${String(metrics.questionCount).padEnd(4)} recall@k ${metrics.recallAtK.toFixed(3)}  MRR ${metrics.mrr.toFixed(3)}  nDCG ${metrics.ndcg.toFixed(3)}${answer}  ${scores}`;
+}
+
+function printSummary(summary: RetrievalEvalSummary): void {
+  console.log(formatMetrics("overall", summary.overall));
+  for (const [track, metrics] of Object.entries(summary.byTrack)) {
+    console.log(formatMetrics(`  track ${track}`, metrics));
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const filePath = getArg(args, "file");
+  const setName = getArg(args, "set");
+  const saveAs = getArg(args, "save");
+  const k = getArg(args, "k");
+  const minScore = getArg(args, "minScore");
+  const mode = getArg(args, "mode") as RetrievalMode | undefined;
+
+  if ((!filePath && !setName) || (mode && !MODES.includes(mode))) {
+    console.error("Usage: npx tsx server/scripts/evalRetrieval.ts (--file <golden.jsonl> [--save <set-name>] | --set <set-name>)");
+    console.error("       [--k <n>] [--minScore <0-1>] [--mode vector|lexical|hybrid]");
+    process.exit(1);
+  }
+
+  const options = {
+    k: k ? parseInt(k, 10) : undefined,
+    minScore: minScore ? parseFloat(minScore) : undefined,
+    mode,
+  };
+  const { parseGoldenJsonl, saveEvalSet, getEvalSetByName, runEvalSet, evaluateGoldenQuestions } = await import("../services/retrievalEval");
+
+  if (filePath) {
+    const { questions, errors } = parseGoldenJsonl(readFileSync(filePath, "utf-8"));
+    for (const error of errors) {
+      console.error(`Line ${error.line}: ${error.error}`);
+    }
+    if (questions.length === 0) {
+      console.error("No valid questions in file");
+      process.exit(1);
+    }
+
+    if (!saveAs) {
+      const { settings, summary, durationMs } = await evaluateGoldenQuestions(questions, options);
+      console.log(`Evaluated ${questions.length} questions (k=${settings.k}, minScore=${settings.minScore}, mode=${settings.mode}, ${settings.embeddingModel}) in ${durationMs}ms`);
+      printSummary(summary);
+      process.exit(0);
+    }
+
+    const saved = await saveEvalSet({ name: saveAs, questions });
+    console.log(`Saved set "${saveAs}" with ${saved.questionCount} questions`);
+    if (saved.unknownCorpusItemIds.length > 0) {
+      console.warn(`Warning: ${saved.unknownCorpusItemIds.length} expected corpus item IDs don't exist: ${saved.unknownCorpusItemIds.join(", ")}`);
+    }
+  }
+
+  const name = (saveAs || setName)!;
+  const set = await getEvalSetByName(name);
+  if (!set) {
+    console.error(`Golden set "${name}" not found`);
+    process.exit(1);
+  }
+
+  const run = await runEvalSet(set.id, options);
+  if (!run) {
+    console.error(`Golden set "${name}" not found`);
+    process.exit(1);
+  }
+  console.log(`Run ${run.id} (k=${run.settings.k}, minScore=${run.settings.minScore}, mode=${run.settings.mode}, ${run.settings.embeddingModel}) in ${run.durationMs}ms`);
+  printSummary(run.summary);
+  console.log(run.modelVersionId ? `Recorded on model version ${run.modelVersionId}` : "No active model version; run stored without one");
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Retrieval eval failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,261 @@
+import { db } from "../db";
+import { chatAnswerCache } from "@shared/schema";
+import { and, eq, gt, lte, or, ne, desc, isNull, sql } from "drizzle-orm";
+import { generateEmbedding, cosineSimilarity } from "./embedding";
+import { getActiveEmbeddingSpace, toEmbeddingTarget } from "./embeddingSpaces";
+import { getActiveModelVersion } from "./modelVersioning";
+import { getLevelPolicyBand } from "./levelPolicy";
+import { getChatProvider } from "./llmProvider";
+import { logger } from "../middleware/logger";
+
+/**
+ * Semantic answer cache
+ *
+ * Answers are reused for questions whose embedding is within the similarity
+ * threshold of a cached question, but only inside the same scope: level policy
+ * band, track, corpus revision, active model version and LLM model. The corpus
+ * revision is computed live, so approving, editing, rejecting or quarantining
+ * corpus content moves chat to a new scope at once. Entries from an older scope
+ * never match and are purged periodically and when the model version changes.
+ */
+
+export interface AnswerCacheConfig {
+  enabled: boolean;
+  similarityThreshold: number;
+  ttlSec: number;
+  maxCandidates: number; // Most recent entries compared per lookup
+}
+
+export interface AnswerCacheScope {
+  levelBand: string;
+  trackId: string | null;
+  corpusHash: string; // Live corpus revision (see computeCorpusRevision), not the model version's frozen hash
+  modelVersionId: string | null;
+  llmModel: string;
+}
+
+export interface AnswerCacheHit {
+  entryId: string;
+  similarity: number;
+  cachedAt: Date;
+  result: Record<string, unknown>;
+}
+
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+let lastPurgeAt = 0;
+
+export function getAnswerCacheConfig(): AnswerCacheConfig {
+  return {
+    enabled: process.env.CHAT_CACHE_ENABLED !== "false", // Default true
+    similarityThreshold: parseFloat(process.env.CHAT_CACHE_SIMILARITY || "0.95"),
+    ttlSec: parseInt(process.env.CHAT_CACHE_TTL_SEC || "3600", 10),
+    maxCandidates: parseInt(process.env.CHAT_CACHE_MAX_CANDIDATES || "200", 10),
+  };
+}
+
+/**
+ * Normalize a question so trivial differences (case, spacing, trailing punctuation) hit the same entry
+ */
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[\s?!.]+$/, "")
+    .trim();
+}
+
+/**
+ * Hash of the retrievable corpus as it is now: every approved item with its
+ * updatedAt, plus the quarantine state of chunks (which changes what retrieval
+ * returns without touching the item). Computed in the database so only the hash
+ * is transferred.
+ */
+export async function computeCorpusRevision(): Promise<string> {
+  const result = await db.execute(sql`
+    SELECT md5(
+      COALESCE((
+        SELECT string_agg(tci.id || ':' || COALESCE(tci.updated_at::text, ''), '|' ORDER BY tci.id)
+        FROM training_corpus_items tci
+        WHERE tci.status = 'approved'
+      ), '')
+      || '#' ||
+      COALESCE((
+        SELECT count(*)::text || ':' || COALESCE(max(cc.quarantine_reviewed_at)::text, '')
+        FROM corpus_chunks cc
+        WHERE cc.quarantine_status <> 'none'
+      ), '')
+    ) AS revision
+  `);
+  const rows: any[] = Array.isArray(result) ? result : (result.rows || []);
+  return String(rows[0]?.revision ?? "");
+}
+
+/**
+ * Current cache scope for a chat request
+ */
+export async function resolveAnswerCacheScope(aiLevel: number, trackId?: string): Promise<AnswerCacheScope> {
+  const [activeVersion, corpusHash] = await Promise.all([
+    getActiveModelVersion(),
+    computeCorpusRevision(),
+  ]);
+  const provider = getChatProvider();
+
+  return {
+    levelBand: getLevelPolicyBand(aiLevel),
+    trackId: trackId || null,
+    corpusHash,
+    modelVersionId: activeVersion?.id || null,
+    llmModel: `${provider.name}:${provider.chatModel}`,
+  };
+}
+
+function scopeConditions(scope: AnswerCacheScope) {
+  return and(
+    eq(chatAnswerCache.levelBand, scope.levelBand),
+    scope.trackId ? eq(chatAnswerCache.trackId, scope.trackId) : isNull(chatAnswerCache.trackId),
+    eq(chatAnswerCache.corpusHash, scope.corpusHash),
+    scope.modelVersionId
+      ? eq(chatAnswerCache.modelVersionId, scope.modelVersionId)
+      : isNull(chatAnswerCache.modelVersionId),
+    eq(chatAnswerCache.llmModel, scope.llmModel),
+    gt(chatAnswerCache.expiresAt, new Date())
+  );
+}
+
+/**
+ * Find the closest cached answer within scope.
+ * Also returns the query embedding so a miss can be stored without re-embedding.
+ */
+export async function lookupCachedAnswer(
+  query: string,
+  scope: AnswerCacheScope,
+  config: AnswerCacheConfig = getAnswerCacheConfig()
+): Promise<{ hit: AnswerCacheHit | null; embedding: number[] }> {
+  const normalized = normalizeQuery(query);
+  // Same model as corpus retrieval; the cache is cleared when the active embedding space changes
+  const { embedding } = await generateEmbedding(normalized, toEmbeddingTarget(await getActiveEmbeddingSpace()));
+
+  const candidates = await db
+    .select()
+    .from(chatAnswerCache)
+    .where(scopeConditions(scope))
+    .orderBy(desc(chatAnswerCache.createdAt))
+    .limit(config.maxCandidates);
+
+  let best: { entry: typeof candidates[number]; similarity: number } | null = null;
+  for (const entry of candidates) {
+    const similarity = entry.queryText === normalized
+      ? 1
+      : entry.embedding.length === embedding.length
+        ? cosineSimilarity(embedding, entry.embedding)
+        : 0; // Cached under a different embedding model
+    if (similarity >= config.similarityThreshold && (!best || similarity > best.similarity)) {
+      best = { entry, similarity };
+    }
+  }
+
+  if (!best) {
+    return { hit: null, embedding };
+  }
+
+  await db
+    .update(chatAnswerCache)
+    .set({
+      hitCount: sql`${chatAnswerCache.hitCount} + 1`,
+      lastHitAt: new Date(),
+    })
+    .where(eq(chatAnswerCache.id, best.entry.id));
+
+  return {
+    hit: {
+      entryId: best.entry.id,
+      similarity: Math.round(best.similarity * 10000) / 10000,
+      cachedAt: best.entry.createdAt,
+      result: best.entry.result,
+    },
+    embedding,
+  };
+}
+
+/**
+ * Store a freshly generated answer for reuse
+ */
+export async function storeCachedAnswer(
+  query: string,
+  embedding: number[],
+  scope: AnswerCacheScope,
+  result: Record<string, unknown>,
+  config: AnswerCacheConfig = getAnswerCacheConfig()
+): Promise<void> {
+  await db.insert(chatAnswerCache).values({
+    queryText: normalizeQuery(query),
+    embedding,
+    ...scope,
+    result,
+    expiresAt: new Date(Date.now() + config.ttlSec * 1000),
+  });
+
+  // Opportunistic cleanup so expired and out-of-scope entries don't accumulate
+  if (Date.now() - lastPurgeAt > PURGE_INTERVAL_MS) {
+    lastPurgeAt = Date.now();
+    purgeStaleAnswerCache().catch((error: any) => {
+      logger.warn({ error: error.message, message: "Answer cache purge failed" });
+    });
+  }
+}
+
+/**
+ * Delete expired entries and entries cached under a different corpus revision or model version
+ */
+export async function purgeStaleAnswerCache(): Promise<number> {
+  const [activeVersion, corpusHash] = await Promise.all([
+    getActiveModelVersion(),
+    computeCorpusRevision(),
+  ]);
+  const activeVersionId = activeVersion?.id || null;
+
+  const deleted = await db
+    .delete(chatAnswerCache)
+    .where(
+      or(
+        lte(chatAnswerCache.expiresAt, new Date()),
+        ne(chatAnswerCache.corpusHash, corpusHash),
+        activeVersionId
+          ? or(isNull(chatAnswerCache.modelVersionId), ne(chatAnswerCache.modelVersionId, activeVersionId))
+          : sql`${chatAnswerCache.modelVersionId} IS NOT NULL`
+      )
+    )
+    .returning({ id: chatAnswerCache.id });
+
+  if (deleted.length > 0) {
+    logger.info({ deleted: deleted.length, message: "Purged stale answer cache entries" });
+  }
+  return deleted.length;
+}
+
+/**
+ * Drop every cached answer (admin)
+ */
+export async function clearAnswerCache(): Promise<number> {
+  const deleted = await db.delete(chatAnswerCache).returning({ id: chatAnswerCache.id });
+  return deleted.length;
+}
+
+/**
+ * Entry counts and hit totals for the admin dashboard
+ */
+export async function getAnswerCacheStats(): Promise<{ entries: number; activeEntries: number; totalHits: number }> {
+  const [row] = await db
+    .select({
+      entries: sql<number>`COUNT(*)::int`,
+      activeEntries: sql<number>`COUNT(*) FILTER (WHERE ${chatAnswerCache.expiresAt} > NOW())::int`,
+      totalHits: sql<number>`COALESCE(SUM(${chatAnswerCache.hitCount}), 0)::int`,
+    })
+    .from(chatAnswerCache);
+
+  return {
+    entries: Number(row?.entries ?? 0),
+    activeEntries: Number(row?.activeEntries ?? 0),
+    totalHits: Number(row?.totalHits ?? 0),
+  };
+}
@@ -11,8 +11,16 @@ export type AuditAction =
   | "review_vote"
   | "corpus_item_added"
   | "corpus_item_updated"
+  | "corpus_item_reverted"
   | "corpus_item_deleted"
   | "corpus_item_approved"
+  | "corpus_duplicate_blocked"
+  | "corpus_injection_blocked"
+  | "corpus_item_rejected"
+  | "corpus_chunk_cleared"
+  | "corpus_quarantine_rescan"
+  | "pii_redacted"
+  | "pii_rejected"
   | "corpus_embed_retry"
   | "corpus_force_reembed"
   | "cosmetic_purchase"
@@ -36,10 +44,22 @@ export type AuditAction =
   | "rankup_trial_started"
   | "rankup_trial_passed"
   | "rankup_trial_failed"
-  | "bulk_import_questions";
+  | "bulk_import_questions"
+  | "output_guard_triggered"
+  | "chat_history_deleted"
+  | "corpus_chunking_updated"
+  | "corpus_rechunk"
+  | "corpus_upload_queued"
+  | "embedding_migration_started"
+  | "embedding_migration_cancelled"
+  | "embedding_cutover"
+  | "retrieval_eval_set_saved"
+  | "retrieval_eval_run";
 
 export type AuditTargetType =
   | "corpus_item"
+  | "corpus_chunk"
+  | "corpus_upload"
   | "submission"
   | "review"
   | "cosmetic"
@@ -53,7 +73,13 @@ export type AuditTargetType =
   | "answer_event"
   | "aggregate"
   | "job"
-  | "rankup_trial";
+  | "rankup_trial"
+  | "answer_cache"
+  | "prompt_template"
+  | "chat_message"
+  | "conversation"
+  | "embedding_space"
+  | "retrieval_eval_set";
 
 export interface AuditLogEntry {
   action: AuditAction;
@@ -0,0 +1,323 @@
+import { db } from "../db";
+import {
+  chatMessages,
+  conversations,
+  chatOutputFlags,
+  chatAnswerCache,
+  type ChatMessage,
+  type Conversation,
+} from "@shared/schema";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { normalizeQuery } from "./answerCache";
+
+/**
+ * Chat history search, export and deletion
+ *
+ * Lets a wallet search its own chat messages, download them (Markdown or JSON,
+ * with the sources and level policy each answer was generated under) and
+ * delete them. Deletion also scrubs data derived from the deleted messages:
+ * output guard flags, conversation summaries and answer cache entries created
+ * from the same questions.
+ */
+
+export interface ChatSearchResult {
+  id: string;
+  conversationId: string | null;
+  conversationTitle: string | null;
+  trackId: string | null;
+  createdAt: string;
+  rank: number;
+  userSnippet: string; // Matches wrapped in ** **
+  responseSnippet: string;
+}
+
+export interface ChatExportMessage {
+  id: string;
+  createdAt: string;
+  trackId: string | null;
+  aiLevel: number;
+  question: string;
+  answer: string;
+  sources: ChatMessage["sources"];
+  policySnapshot: ChatMessage["policySnapshot"];
+  corpusItemsUsed: string[];
+  toolInvocations: ChatMessage["toolInvocations"];
+  feedback: { rating: "up" | "down"; reason: string | null } | null;
+}
+
+export interface ChatExportConversation {
+  id: string | null; // Null groups messages sent before threads existed
+  title: string;
+  createdAt: string | null;
+  messages: ChatExportMessage[];
+}
+
+export interface ChatExport {
+  exportedAt: string;
+  walletAddress: string;
+  messageCount: number;
+  truncated: boolean; // More than MAX_EXPORT_MESSAGES messages exist
+  conversations: ChatExportConversation[];
+}
+
+export type ChatDeletionTarget =
+  | { messageIds: string[] }
+  | { conversationId: string }
+  | { all: true };
+
+export interface ChatDeletionResult {
+  deletedMessages: number;
+  deletedConversations: number;
+  deletedOutputFlags: number;
+  scrubbedCacheEntries: number;
+  resetSummaries: number;
+}
+
+export const MAX_EXPORT_MESSAGES = 10000;
+const CACHE_SCRUB_BATCH = 500;
+const UNTHREADED_TITLE = "Earlier messages";
+
+// Keep in sync with chat_messages_search_idx so searches can use the index
+const searchDocument = sql`to_tsvector('english', ${chatMessages.userMessage} || ' ' || ${chatMessages.aiResponse})`;
+
+/**
+ * Full-text search over a wallet's messages, best matches first
+ */
+export async function searchChatHistory(
+  walletAddress: string,
+  query: string,
+  options: { limit?: number; offset?: number; conversationId?: string } = {}
+): Promise<ChatSearchResult[]> {
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  const headline = (column: typeof chatMessages.userMessage | typeof chatMessages.aiResponse) =>
+    sql<string>`ts_headline('english', ${column}, ${tsQuery}, 'StartSel=**, StopSel=**, MaxWords=30, MinWords=10, MaxFragments=2')`;
+
+  const conditions = [
+    eq(chatMessages.walletAddress, walletAddress),
+    sql`${searchDocument} @@ ${tsQuery}`,
+  ];
+  if (options.conversationId) {
+    conditions.push(eq(chatMessages.conversationId, options.conversationId));
+  }
+
+  const rank = sql<number>`ts_rank(${searchDocument}, ${tsQuery})`;
+  const rows = await db
+    .select({
+      id: chatMessages.id,
+      conversationId: chatMessages.conversationId,
+      conversationTitle: conversations.title,
+      trackId: chatMessages.trackId,
+      createdAt: chatMessages.createdAt,
+      rank,
+      userSnippet: headline(chatMessages.userMessage),
+      responseSnippet: headline(chatMessages.aiResponse),
+    })
+    .from(chatMessages)
+    .leftJoin(conversations, eq(chatMessages.conversationId, conversations.id))
+    .where(and(...conditions))
+    .orderBy(sql`${rank} DESC`, sql`${chatMessages.createdAt} DESC`)
+    .limit(options.limit ?? 20)
+    .offset(options.offset ?? 0);
+
+  return rows.map(row => ({
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    rank: Math.round(Number(row.rank) * 10000) / 10000,
+  }));
+}
+
+function toExportMessage(message: ChatMessage): ChatExportMessage {
+  return {
+    id: message.id,
+    createdAt: message.createdAt.toISOString(),
+    trackId: message.trackId,
+    aiLevel: message.aiLevel,
+    question: message.userMessage,
+    answer: message.aiResponse,
+    sources: message.sources,
+    policySnapshot: message.policySnapshot,
+    corpusItemsUsed: message.corpusItemsUsed ?? [],
+    toolInvocations: message.toolInvocations,
+    feedback: message.feedbackRating
+      ? { rating: message.feedbackRating === 1 ? "up" : "down", reason: message.feedbackReason }
+      : null,
+  };
+}
+
+/**
+ * Group messages (oldest first) under their conversations, in order of first message
+ */
+export function groupChatExport(
+  walletAddress: string,
+  threads: Pick<Conversation, "id" | "title" | "createdAt">[],
+  messages: ChatMessage[],
+  exportedAt: Date = new Date(),
+  truncated = false
+): ChatExport {
+  const threadsById = new Map(threads.map(t => [t.id, t]));
+  const grouped = new Map<string | null, ChatExportConversation>();
+
+  for (const message of messages) {
+    const key = message.conversationId;
+    let group = grouped.get(key);
+    if (!group) {
+      const thread = key ? threadsById.get(key) : undefined;
+      group = {
+        id: key,
+        title: thread?.title ?? UNTHREADED_TITLE,
+        createdAt: thread?.createdAt.toISOString() ?? null,
+        messages: [],
+      };
+      grouped.set(key, group);
+    }
+    group.messages.push(toExportMessage(message));
+  }
+
+  return {
+    exportedAt: exportedAt.toISOString(),
+    walletAddress,
+    messageCount: messages.length,
+    truncated,
+    conversations: Array.from(grouped.values()),
+  };
+}
+
+/**
+ * All of a wallet's messages (or one conversation's) for download
+ */
+export async function buildChatExport(walletAddress: string, conversationId?: string): Promise<ChatExport> {
+  const conditions = [eq(chatMessages.walletAddress, walletAddress)];
+  if (conversationId) {
+    conditions.push(eq(chatMessages.conversationId, conversationId));
+  }
+
+  const [messages, threads] = await Promise.all([
+    db
+      .select()
+      .from(chatMessages)
+      .where(and(...conditions))
+      .orderBy(asc(chatMessages.createdAt))
+      .limit(MAX_EXPORT_MESSAGES + 1),
+    db
+      .select({ id: conversations.id, title: conversations.title, createdAt: conversations.createdAt })
+      .from(conversations)
+      .where(eq(conversations.walletAddress, walletAddress)),
+  ]);
+
+  const truncated = messages.length > MAX_EXPORT_MESSAGES;
+  return groupChatExport(walletAddress, threads, messages.slice(0, MAX_EXPORT_MESSAGES), new Date(), truncated);
+}
+
+function formatSourceLine(source: { chunkText: string; score: number; title: string | null; rerankScore?: number }, index: number): string {
+  const title = source.title ? ` ${source.title}` : "";
+  const rerank = source.rerankScore !== undefined ? `, rerank ${source.rerankScore.toFixed(2)}` : "";
+  return `  ${index + 1}.${title} (score ${source.score.toFixed(2)}${rerank}): ${source.chunkText.replace(/\s+/g, " ")}`;
+}
+
+/**
+ * Human-readable export: one section per conversation, one Q/A block per message
+ */
+export function formatChatExportMarkdown(data: ChatExport): string {
+  const lines = [
+    "# HiveMind chat history",
+    "",
+    `- Wallet: ${data.walletAddress}`,
+    `- Exported: ${data.exportedAt}`,
+    `- Messages: ${data.messageCount}${data.truncated ? ` (first ${MAX_EXPORT_MESSAGES} only)` : ""}`,
+  ];
+
+  for (const conversation of data.conversations) {
+    lines.push("", `## ${conversation.title}`);
+    for (const message of conversation.messages) {
+      lines.push("", `### ${message.createdAt} (level ${message.aiLevel})`, "", "**You:**", "", message.question, "", "**HiveMind:**", "", message.answer);
+
+      if (message.sources && message.sources.length > 0) {
+        lines.push("", "Sources:", ...message.sources.map(formatSourceLine));
+      }
+      if (message.toolInvocations && message.toolInvocations.length > 0) {
+        lines.push("", "Tools:", ...message.toolInvocations.map(t =>
+          `  - ${t.name}(${JSON.stringify(t.arguments)}) = ${t.error ? `error: ${t.error}` : t.result}`
+        ));
+      }
+      if (message.policySnapshot) {
+        lines.push("", `Policy: \`${JSON.stringify(message.policySnapshot)}\``);
+      }
+      if (message.feedback) {
+        lines.push("", `Feedback: ${message.feedback.rating}${message.feedback.reason ? ` (${message.feedback.reason})` : ""}`);
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Delete a wallet's messages and the data derived from them.
+ * Other wallets' messages are never touched: every lookup is scoped to walletAddress.
+ */
+export async function deleteChatMessages(walletAddress: string, target: ChatDeletionTarget): Promise<ChatDeletionResult> {
+  return await db.transaction(async (tx) => {
+    const scope = [eq(chatMessages.walletAddress, walletAddress)];
+    if ("messageIds" in target) {
+      scope.push(inArray(chatMessages.id, target.messageIds));
+    } else if ("conversationId" in target) {
+      scope.push(eq(chatMessages.conversationId, target.conversationId));
+    }
+
+    const doomed = await tx
+      .select({ id: chatMessages.id, conversationId: chatMessages.conversationId, userMessage: chatMessages.userMessage })
+      .from(chatMessages)
+      .where(and(...scope));
+    const ids = doomed.map(m => m.id);
+
+    const result: ChatDeletionResult = {
+      deletedMessages: 0,
+      deletedConversations: 0,
+      deletedOutputFlags: 0,
+      scrubbedCacheEntries: 0,
+      resetSummaries: 0,
+    };
+
+    if (ids.length > 0) {
+      // Flags cascade with their message, but are removed explicitly to count them
+      const flags = "all" in target
+        ? await tx.delete(chatOutputFlags).where(eq(chatOutputFlags.walletAddress, walletAddress)).returning({ id: chatOutputFlags.id })
+        : await tx.delete(chatOutputFlags).where(inArray(chatOutputFlags.chatMessageId, ids)).returning({ id: chatOutputFlags.id });
+      result.deletedOutputFlags = flags.length;
+
+      const deleted = await tx.delete(chatMessages).where(and(...scope)).returning({ id: chatMessages.id });
+      result.deletedMessages = deleted.length;
+
+      // Cached answers carry no wallet, so entries for the same (normalized) questions are dropped
+      const queries = Array.from(new Set(doomed.map(m => normalizeQuery(m.userMessage))));
+      for (let i = 0; i < queries.length; i += CACHE_SCRUB_BATCH) {
+        const scrubbed = await tx
+          .delete(chatAnswerCache)
+          .where(inArray(chatAnswerCache.queryText, queries.slice(i, i + CACHE_SCRUB_BATCH)))
+          .returning({ id: chatAnswerCache.id });
+        result.scrubbedCacheEntries += scrubbed.length;
+      }
+    }
+
+    if ("messageIds" in target) {
+      // Summaries may paraphrase deleted turns; they are rebuilt from the remaining messages on the next reply
+      const conversationIds = Array.from(new Set(doomed.map(m => m.conversationId).filter(Boolean) as string[]));
+      if (conversationIds.length > 0) {
+        const reset = await tx
+          .update(conversations)
+          .set({ summary: null, summarizedMessageCount: 0 })
+          .where(and(eq(conversations.walletAddress, walletAddress), inArray(conversations.id, conversationIds)))
+          .returning({ id: conversations.id });
+        result.resetSummaries = reset.length;
+      }
+    } else {
+      const conversationScope = "conversationId" in target
+        ? and(eq(conversations.id, target.conversationId), eq(conversations.walletAddress, walletAddress))
+        : eq(conversations.walletAddress, walletAddress);
+      const removed = await tx.delete(conversations).where(conversationScope).returning({ id: conversations.id });
+      result.deletedConversations = removed.length;
+    }
+
+    return result;
+  });
+}
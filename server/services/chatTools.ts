@@ -0,0 +1,174 @@
+import type { ChatMessage, ChatOptions, ToolCall, ToolDefinition, ToolChatResult } from "./llmProvider";
+import { evaluateExpression } from "../utils/mathExpression";
+import { convertUnits, resolveUnit } from "../utils/unitConversion";
+
+/**
+ * Chat tools
+ *
+ * Server-side tools the model can call during chat (OpenAI-style function calling):
+ * a sandboxed calculator and a unit converter. The model requests calls, the server
+ * executes them and feeds the results back until the model answers or the round
+ * limit is reached.
+ */
+
+export interface ChatToolInvocation {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string | null;
+  error: string | null;
+}
+
+export interface ChatToolsConfig {
+  enabled: boolean;
+  maxRounds: number; // Model turns that may request tools before it must answer
+  maxCallsPerRound: number;
+}
+
+export interface ToolLoopResult {
+  answer: string | null; // null when the round limit was hit without a final answer
+  messages: ChatMessage[]; // Prompt plus tool requests/results, for the final answer call
+  invocations: ChatToolInvocation[];
+}
+
+export const CHAT_TOOLS: ToolDefinition[] = [
+  {
+    name: "calculator",
+    description:
+      "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, " +
+      "sqrt, cbrt, abs, exp, ln, log (base 10), log2, sin/cos/tan (radians), asin/acos/atan, " +
+      "round, floor, ceil, min, max, pow and the constants pi and e. Use it for any calculation.",
+    parameters: {
+      type: "object",
+      properties: {
+        expression: { type: "string", description: "Expression to evaluate, e.g. \"(3/4 + 2) * sqrt(16)\"" },
+      },
+      required: ["expression"],
+    },
+  },
+  {
+    name: "convert_units",
+    description:
+      "Convert a value between units of length, mass, time, volume, area, speed, data size, energy or temperature " +
+      "(e.g. miles to km, lb to kg, °F to °C, GiB to GB).",
+    parameters: {
+      type: "object",
+      properties: {
+        value: { type: "string", description: "Numeric value, e.g. \"12.5\" or \"3/4\"" },
+        from: { type: "string", description: "Unit to convert from, e.g. \"mi\" or \"fahrenheit\"" },
+        to: { type: "string", description: "Unit to convert to, e.g. \"km\" or \"celsius\"" },
+      },
+      required: ["value", "from", "to"],
+    },
+  },
+];
+
+export function getChatToolsConfig(): ChatToolsConfig {
+  return {
+    enabled: process.env.CHAT_TOOLS_ENABLED !== "false", // Default true
+    maxRounds: parseInt(process.env.CHAT_TOOLS_MAX_ROUNDS || "3", 10),
+    maxCallsPerRound: parseInt(process.env.CHAT_TOOLS_MAX_CALLS_PER_ROUND || "5", 10),
+  };
+}
+
+// A number next to an operator: "12 * 7", "15%", "2^10", "10 - 3" (a spaced minus, so dates don't count)
+const ARITHMETIC_PATTERN = /\d\s*[+*\/^%\u00D7\u00F7]|[+*\/^\u00D7\u00F7]\s*[\d(]|\d\s+-\s+\d/;
+const MATH_WORD_PATTERN = /\b(?:sqrt|square root|cube root|log|ln|sin|cos|tan|times|divided by|plus|minus|percent|convert|calculate|compute)\b/i;
+// A number followed by a word that may be a unit ("5 miles", "3.5kg", "20 fl oz")
+const NUMBER_UNIT_PATTERN = /\d(\s?)(\u00B0?[a-z][a-z0-9\/^]*)(?:\s([a-z]+))?/gi;
+
+function hasNumberWithUnit(message: string): boolean {
+  NUMBER_UNIT_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = NUMBER_UNIT_PATTERN.exec(message)) !== null) {
+    const [, space, word, next] = match;
+    if (next && resolveUnit(`${word} ${next}`)) return true;
+    // One-letter units and "in" read as ordinary words unless attached ("5m", "3in")
+    if (space && (word.length < 2 || word.toLowerCase() === "in")) continue;
+    if (resolveUnit(word)) return true;
+  }
+  return false;
+}
+
+/**
+ * Only questions with arithmetic or a quantity in units are offered tools, so
+ * ordinary questions ("the 2024 halving", "level 3") keep the plain streamed path
+ */
+export function shouldOfferTools(message: string): boolean {
+  if (!/\d/.test(message)) return false;
+  return ARITHMETIC_PATTERN.test(message) || MATH_WORD_PATTERN.test(message) || hasNumberWithUnit(message);
+}
+
+/**
+ * Run one tool call. Bad arguments and evaluation errors are returned to the model, never thrown.
+ */
+export function executeToolCall(call: ToolCall): ChatToolInvocation {
+  let args: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(call.arguments || "{}");
+    args = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return { name: call.name, arguments: {}, result: null, error: "Arguments are not valid JSON" };
+  }
+
+  if (call.name === "calculator") {
+    const { value, error } = evaluateExpression(String(args.expression ?? ""));
+    return { name: call.name, arguments: args, result: value !== undefined ? String(value) : null, error: error ?? null };
+  }
+
+  if (call.name === "convert_units") {
+    const { value, from, to, error } = convertUnits(
+      typeof args.value === "number" ? args.value : String(args.value ?? ""),
+      String(args.from ?? ""),
+      String(args.to ?? "")
+    );
+    return {
+      name: call.name,
+      arguments: args,
+      result: value !== undefined ? `${value} ${to}` : null,
+      error: error ?? (from ? null : "Conversion failed"),
+    };
+  }
+
+  return { name: call.name, arguments: args, result: null, error: `Unknown tool "${call.name}"` };
+}
+
+/**
+ * Let the model call tools until it answers.
+ *
+ * @param chat - One model turn with tools available (usually provider.chatWithTools)
+ * @param onInvocation - Called after each tool runs (used to stream tool activity)
+ */
+export async function runToolLoop(
+  messages: ChatMessage[],
+  chat: (messages: ChatMessage[], tools: ToolDefinition[], opts?: ChatOptions) => Promise<ToolChatResult>,
+  opts: ChatOptions = {},
+  config: ChatToolsConfig = getChatToolsConfig(),
+  onInvocation?: (invocation: ChatToolInvocation) => void
+): Promise<ToolLoopResult> {
+  const transcript = [...messages];
+  const invocations: ChatToolInvocation[] = [];
+
+  for (let round = 0; round < config.maxRounds; round++) {
+    const turn = await chat(transcript, CHAT_TOOLS, opts);
+    if (turn.toolCalls.length === 0) {
+      return { answer: turn.content, messages: transcript, invocations };
+    }
+
+    const calls = turn.toolCalls.slice(0, config.maxCallsPerRound);
+    transcript.push({ role: "assistant", content: turn.content, toolCalls: calls });
+
+    for (const call of calls) {
+      const invocation = executeToolCall(call);
+      invocations.push(invocation);
+      onInvocation?.(invocation);
+      transcript.push({
+        role: "tool",
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(invocation.error ? { error: invocation.error } : { result: invocation.result }),
+      });
+    }
+  }
+
+  return { answer: null, messages: transcript, invocations };
+}
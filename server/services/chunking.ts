@@ -0,0 +1,362 @@
+import { db } from "../db";
+import {
+  corpusChunks,
+  trainingCorpusItems,
+  tracks,
+  type ChunkingConfig,
+  type ChunkingStrategy,
+} from "@shared/schema";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { chunkText } from "./embedding";
+import { getActiveEmbeddingSpace } from "./embeddingSpaces";
+import { estimateTokens } from "./conversationContext";
+import { logger } from "../middleware/logger";
+
+/**
+ * Structure-aware chunking of corpus items
+ *
+ * Strategies:
+ *   fixed     Character window with overlap, broken at the last period/newline (the original chunker)
+ *   sentence  Whole sentences packed up to chunkSize, overlapping by trailing sentences
+ *   markdown  Split at headings; long sections continue under a repeated heading line
+ *   code      Paragraph packing that never splits fenced code blocks or tables
+ *   token     Word packing by estimated token count (~4 characters per token)
+ *
+ * The strategy is chosen per corpus item, falling back to its track and then to
+ * CHUNK_STRATEGY / CHUNK_SIZE / CHUNK_OVERLAP. Every chunk row records the config
+ * that produced it, so items whose effective config changed can be re-chunked.
+ */
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ["fixed", "markdown", "sentence", "code", "token"];
+
+// Chunk rows written before chunking was configurable
+export const LEGACY_CHUNKING: ChunkingConfig = { strategy: "fixed", chunkSize: 1000, overlap: 200 };
+
+const STRATEGY_DEFAULTS: Record<ChunkingStrategy, Omit<ChunkingConfig, "strategy">> = {
+  fixed: { chunkSize: 1000, overlap: 200 },
+  sentence: { chunkSize: 1000, overlap: 150 },
+  markdown: { chunkSize: 1200, overlap: 0 },
+  code: { chunkSize: 1200, overlap: 0 },
+  token: { chunkSize: 256, overlap: 32 },
+};
+
+export const chunkingConfigSchema = z
+  .object({
+    strategy: z.enum(["fixed", "markdown", "sentence", "code", "token"]),
+    chunkSize: z.number().int().min(32).max(8000).optional(),
+    overlap: z.number().int().min(0).optional(),
+  })
+  .transform((c): ChunkingConfig => ({
+    strategy: c.strategy,
+    chunkSize: c.chunkSize ?? STRATEGY_DEFAULTS[c.strategy].chunkSize,
+    overlap: c.overlap ?? STRATEGY_DEFAULTS[c.strategy].overlap,
+  }))
+  .refine(c => c.overlap <= c.chunkSize / 2, { message: "overlap must be at most half of chunkSize" });
+
+export function getDefaultChunkingConfig(): ChunkingConfig {
+  const strategy = (process.env.CHUNK_STRATEGY || "fixed") as ChunkingStrategy;
+  const resolved = CHUNKING_STRATEGIES.includes(strategy) ? strategy : "fixed";
+  const chunkSize = parseInt(process.env.CHUNK_SIZE || String(STRATEGY_DEFAULTS[resolved].chunkSize), 10);
+  const overlap = parseInt(process.env.CHUNK_OVERLAP || String(STRATEGY_DEFAULTS[resolved].overlap), 10);
+  return {
+    strategy: resolved,
+    chunkSize,
+    overlap: Math.min(overlap, Math.floor(chunkSize / 2)),
+  };
+}
+
+/**
+ * Item config, else track config, else the server default
+ */
+export function resolveChunkingConfig(
+  itemConfig: ChunkingConfig | null | undefined,
+  trackConfig: ChunkingConfig | null | undefined,
+  defaults: ChunkingConfig = getDefaultChunkingConfig()
+): ChunkingConfig {
+  return itemConfig ?? trackConfig ?? defaults;
+}
+
+export function sameChunkingConfig(a: ChunkingConfig, b: ChunkingConfig): boolean {
+  return a.strategy === b.strategy && a.chunkSize === b.chunkSize && a.overlap === b.overlap;
+}
+
+// ===== Chunkers =====
+
+interface Block {
+  text: string;
+  kind: "heading" | "paragraph" | "code" | "table";
+}
+
+/**
+ * Split text into headings, paragraphs, fenced code blocks and tables
+ */
+export function splitBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = text.split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const joined = paragraph.join("\n").trim();
+    if (joined) blocks.push({ text: joined, kind: "paragraph" });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^\s*(```|~~~)/);
+
+    if (fence) {
+      flushParagraph();
+      const code = [line];
+      i++;
+      while (i < lines.length) {
+        code.push(lines[i]);
+        if (lines[i].trim().startsWith(fence[1])) break;
+        i++;
+      }
+      blocks.push({ text: code.join("\n"), kind: "code" });
+    } else if (/^\s*\|/.test(line)) {
+      flushParagraph();
+      const table = [line];
+      while (i + 1 < lines.length && /^\s*\|/.test(lines[i + 1])) {
+        table.push(lines[++i]);
+      }
+      blocks.push({ text: table.join("\n"), kind: "table" });
+    } else if (/^#{1,6}\s/.test(line)) {
+      flushParagraph();
+      blocks.push({ text: line.trim(), kind: "heading" });
+    } else if (line.trim() === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?]["')\]]?)\s+|\n{2,}/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+/**
+ * Pack units into chunks of at most `size` (a unit larger than size becomes its own chunk),
+ * starting each chunk with trailing units of the previous one that fit in `overlap`
+ */
+function packUnits(units: string[], size: number, overlap: number, separator: string, measure: (s: string) => number = s => s.length): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentSize = 0;
+
+  for (const unit of units) {
+    const unitSize = measure(unit);
+    if (current.length > 0 && currentSize + unitSize > size) {
+      chunks.push(current.join(separator));
+
+      const carried: string[] = [];
+      let carriedSize = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const s = measure(current[i]);
+        if (carriedSize + s > overlap || carriedSize + s + unitSize > size) break;
+        carried.unshift(current[i]);
+        carriedSize += s;
+      }
+      current = carried;
+      currentSize = carriedSize;
+    }
+    current.push(unit);
+    currentSize += unitSize;
+  }
+  if (current.length > 0) {
+    chunks.push(current.join(separator));
+  }
+
+  return chunks;
+}
+
+function chunkBySentences(text: string, size: number, overlap: number): string[] {
+  // Sentences longer than a chunk fall back to the fixed window
+  const units = splitSentences(text).flatMap(s => (s.length > size ? chunkText(s, size, 0) : [s]));
+  return packUnits(units, size, overlap, " ");
+}
+
+function chunkByTokens(text: string, size: number, overlap: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  return packUnits(words, size, overlap, " ", word => estimateTokens(word + " "));
+}
+
+/**
+ * Pack blocks without cutting code or tables; long paragraphs are split by sentence
+ */
+function packBlocks(blocks: Block[], size: number): string[] {
+  const units = blocks.flatMap(block =>
+    block.kind === "paragraph" && block.text.length > size ? chunkBySentences(block.text, size, 0) : [block.text]
+  );
+  return packUnits(units, size, 0, "\n\n");
+}
+
+function chunkByMarkdown(text: string, size: number): string[] {
+  const sections: Array<{ heading: string | null; blocks: Block[] }> = [{ heading: null, blocks: [] }];
+  for (const block of splitBlocks(text)) {
+    if (block.kind === "heading") {
+      sections.push({ heading: block.text, blocks: [block] });
+    } else {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  }
+
+  // Consecutive sections that fit are packed together; longer ones are split on
+  // their own and each part repeats the section heading
+  const chunks: string[] = [];
+  let pending: string[] = [];
+  const flushPending = () => {
+    chunks.push(...packUnits(pending, size, 0, "\n\n"));
+    pending = [];
+  };
+
+  for (const section of sections.filter(s => s.blocks.length > 0)) {
+    const whole = section.blocks.map(b => b.text).join("\n\n");
+    if (whole.length <= size) {
+      pending.push(whole);
+      continue;
+    }
+    flushPending();
+    const heading = section.heading;
+    chunks.push(...(heading
+      ? packBlocks(section.blocks.slice(1), Math.max(1, size - heading.length - 2)).map(part => `${heading}\n\n${part}`)
+      : packBlocks(section.blocks, size)));
+  }
+  flushPending();
+
+  return chunks;
+}
+
+/**
+ * Split a document with the given strategy
+ */
+export function chunkDocument(text: string, config: ChunkingConfig): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  switch (config.strategy) {
+    case "sentence":
+      return chunkBySentences(trimmed, config.chunkSize, config.overlap);
+    case "token":
+      return chunkByTokens(trimmed, config.chunkSize, config.overlap);
+    case "markdown":
+      return chunkByMarkdown(trimmed, config.chunkSize);
+    case "code":
+      return packBlocks(splitBlocks(trimmed), config.chunkSize);
+    case "fixed":
+    default:
+      return chunkText(trimmed, config.chunkSize, config.overlap);
+  }
+}
+
+// ===== Persistence =====
+
+/**
+ * Effective chunking for a corpus item
+ */
+export async function getItemChunkingConfig(item: { chunkingConfig: ChunkingConfig | null; trackId: string | null }): Promise<ChunkingConfig> {
+  if (item.chunkingConfig || !item.trackId) {
+    return resolveChunkingConfig(item.chunkingConfig, null);
+  }
+  const [track] = await db
+    .select({ chunkingConfig: tracks.chunkingConfig })
+    .from(tracks)
+    .where(eq(tracks.id, item.trackId))
+    .limit(1);
+  return resolveChunkingConfig(null, track?.chunkingConfig);
+}
+
+/**
+ * Approved, already chunked items whose chunks were produced by a different config
+ * than the one now in effect. Scope to one item or to a track's inheriting items.
+ */
+export async function findStaleChunkedItems(scope: { corpusItemId?: string; trackId?: string } = {}): Promise<string[]> {
+  const conditions = [eq(trainingCorpusItems.status, "approved")];
+  if (scope.corpusItemId) {
+    conditions.push(eq(trainingCorpusItems.id, scope.corpusItemId));
+  }
+  if (scope.trackId) {
+    conditions.push(eq(trainingCorpusItems.trackId, scope.trackId), isNull(trainingCorpusItems.chunkingConfig));
+  }
+
+  const items = await db
+    .select({ id: trainingCorpusItems.id, trackId: trainingCorpusItems.trackId, chunkingConfig: trainingCorpusItems.chunkingConfig })
+    .from(trainingCorpusItems)
+    .where(and(...conditions));
+  if (items.length === 0) {
+    return [];
+  }
+
+  const space = await getActiveEmbeddingSpace();
+  const [trackConfigs, recorded] = await Promise.all([
+    db.select({ id: tracks.id, chunkingConfig: tracks.chunkingConfig }).from(tracks),
+    db
+      .select({ corpusItemId: corpusChunks.corpusItemId, chunkingConfig: corpusChunks.chunkingConfig })
+      .from(corpusChunks)
+      .where(and(
+        eq(corpusChunks.chunkIndex, 0),
+        eq(corpusChunks.embeddingSpaceId, space.id),
+        inArray(corpusChunks.corpusItemId, items.map(i => i.id))
+      )),
+  ]);
+  const trackConfigById = new Map(trackConfigs.map(t => [t.id, t.chunkingConfig]));
+  const recordedByItem = new Map(recorded.map(r => [r.corpusItemId, r.chunkingConfig ?? LEGACY_CHUNKING]));
+  const defaults = getDefaultChunkingConfig();
+
+  // Items without chunks pick up the current config whenever they are embedded
+  return items
+    .filter(item => {
+      const current = recordedByItem.get(item.id);
+      if (!current) return false;
+      const effective = resolveChunkingConfig(item.chunkingConfig, item.trackId ? trackConfigById.get(item.trackId) : null, defaults);
+      return !sameChunkingConfig(current, effective);
+    })
+    .map(item => item.id);
+}
+
+/**
+ * Enqueue re-embedding jobs for every stale item in scope
+ */
+export async function requeueStaleChunking(scope: { corpusItemId?: string; trackId?: string } = {}): Promise<{ corpusItemIds: string[]; jobIds: string[] }> {
+  const { enqueueJob } = await import("./jobQueue");
+  const corpusItemIds = await findStaleChunkedItems(scope);
+  const jobIds: string[] = [];
+
+  for (const corpusItemId of corpusItemIds) {
+    jobIds.push(await enqueueJob("embed_corpus_item", { corpusItemId, reason: "rechunk" }));
+  }
+
+  if (corpusItemIds.length > 0) {
+    logger.info({ ...scope, count: corpusItemIds.length, message: "Re-chunk jobs enqueued" });
+  }
+  return { corpusItemIds, jobIds };
+}
+
+export async function setCorpusItemChunking(corpusItemId: string, config: ChunkingConfig | null): Promise<boolean> {
+  const updated = await db
+    .update(trainingCorpusItems)
+    .set({ chunkingConfig: config, updatedAt: new Date() })
+    .where(eq(trainingCorpusItems.id, corpusItemId))
+    .returning({ id: trainingCorpusItems.id });
+  return updated.length > 0;
+}
+
+export async function setTrackChunking(trackId: string, config: ChunkingConfig | null): Promise<boolean> {
+  const updated = await db
+    .update(tracks)
+    .set({ chunkingConfig: config })
+    .where(eq(tracks.id, trackId))
+    .returning({ id: tracks.id });
+  return updated.length > 0;
+}
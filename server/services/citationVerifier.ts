@@ -0,0 +1,209 @@
+import { generateEmbeddings, cosineSimilarity } from "./embedding";
+import { logger } from "../middleware/logger";
+import type { ChunkResult } from "./rag";
+
+/**
+ * Post-generation citation verification
+ *
+ * Parses [Source N] citations from a model answer, drops references to sources
+ * that were never retrieved, and scores each sentence against the chunk texts it
+ * cites (or all retrieved chunks when uncited) using lexical overlap blended with
+ * embedding similarity.
+ */
+
+export interface CitationVerifierConfig {
+  enabled: boolean;
+  supportThreshold: number; // Per-sentence support score needed to count as supported
+  minSupportedRatio: number; // Share of checked sentences that must be supported
+  maxSentences: number; // Cap on sentences scored per answer (bounds embedding calls)
+}
+
+export interface SentenceSupport {
+  text: string;
+  citations: number[];
+  support: number;
+  lexical: number;
+  semantic: number | null;
+  supported: boolean;
+}
+
+export interface CitationReport {
+  passed: boolean;
+  citedSources: number[];
+  invalidCitations: number[];
+  sentences: SentenceSupport[];
+  supportedRatio: number;
+  regenerated: boolean;
+  reason?: "no_citations" | "unsupported";
+}
+
+export function getCitationVerifierConfig(): CitationVerifierConfig {
+  return {
+    enabled: process.env.CITATION_VERIFY_ENABLED !== "false", // Default true
+    supportThreshold: parseFloat(process.env.CITATION_SUPPORT_THRESHOLD || "0.45"),
+    minSupportedRatio: parseFloat(process.env.CITATION_MIN_SUPPORTED_RATIO || "0.6"),
+    maxSentences: 12,
+  };
+}
+
+// Matches [Source 1], [Source 1, 3], [Sources 2 and 4]
+const CITATION_PATTERN = /\[Sources?\s+(\d+(?:\s*(?:,|and|&)\s*\d+)*)\]/gi;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "her", "was", "one",
+  "our", "out", "has", "have", "had", "this", "that", "with", "from", "they", "will", "would",
+  "there", "their", "what", "which", "when", "where", "who", "how", "also", "into", "than",
+  "then", "them", "these", "those", "its", "such", "may", "each", "some", "more", "most",
+  "other", "about", "over", "only", "very", "just", "being", "been", "were", "does", "did",
+  "source", "sources",
+]);
+
+/**
+ * Parse citation indices (1-based) from a piece of text
+ */
+export function parseCitations(text: string): number[] {
+  const indices: number[] = [];
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    for (const n of match[1].match(/\d+/g) ?? []) {
+      indices.push(parseInt(n, 10));
+    }
+  }
+  return Array.from(new Set(indices));
+}
+
+/**
+ * Remove citations that point at sources which were not provided.
+ * Keeps valid indices inside multi-source citations.
+ */
+export function stripInvalidCitations(text: string, sourceCount: number): string {
+  return text
+    .replace(CITATION_PATTERN, (_match, list: string) => {
+      const valid = (list.match(/\d+/g) ?? [])
+        .map(n => parseInt(n, 10))
+        .filter(n => n >= 1 && n <= sourceCount);
+      if (valid.length === 0) return "";
+      return valid.length === 1 ? `[Source ${valid[0]}]` : `[Source ${valid.join(", ")}]`;
+    })
+    .replace(/[ \t]+([.,;:!?])/g, "$1")
+    .replace(/[ \t]{2,}/g, " ");
+}
+
+/**
+ * Split an answer into sentences worth checking (skips headings and very short fragments)
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"'(\[])|\n+/)
+    .map(s => s.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").trim())
+    .filter(s => contentTokens(s.replace(CITATION_PATTERN, "")).length >= 3);
+}
+
+function contentTokens(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(t => t.length > 2 && !STOPWORDS.has(t));
+}
+
+/**
+ * Fraction of the sentence's content words that appear in the chunk
+ */
+export function lexicalSupport(sentence: string, chunkText: string): number {
+  const tokens = contentTokens(sentence.replace(CITATION_PATTERN, ""));
+  if (tokens.length === 0) return 0;
+  const chunkTokens = new Set(contentTokens(chunkText));
+  const hits = tokens.filter(t => chunkTokens.has(t)).length;
+  return hits / tokens.length;
+}
+
+/**
+ * Embed texts, returning null for the whole batch if the embedding service fails
+ * (verification then falls back to lexical overlap only)
+ */
+async function tryEmbedAll(texts: string[]): Promise<number[][] | null> {
+  try {
+    return (await generateEmbeddings(texts)).map(r => r.embedding);
+  } catch (error: any) {
+    logger.warn({ error: error.message, message: "Citation verification: embeddings unavailable, using lexical support only" });
+    return null;
+  }
+}
+
+/**
+ * Verify the citations in an answer against the sources it was given.
+ * `sources` must be in prompt order, so [Source N] refers to sources[N - 1].
+ */
+export async function verifyCitations(
+  answer: string,
+  sources: ChunkResult[],
+  config: CitationVerifierConfig = getCitationVerifierConfig()
+): Promise<{ answer: string; report: CitationReport }> {
+  const allCited = parseCitations(answer);
+  const invalidCitations = allCited.filter(n => n < 1 || n > sources.length);
+  const cleaned = invalidCitations.length > 0 ? stripInvalidCitations(answer, sources.length) : answer;
+  const citedSources = allCited.filter(n => n >= 1 && n <= sources.length).sort((a, b) => a - b);
+
+  const sentences = splitSentences(cleaned).slice(0, config.maxSentences);
+  const strippedSentences = sentences.map(s => s.replace(CITATION_PATTERN, "").trim());
+
+  const sentenceEmbeddings = sentences.length > 0 ? await tryEmbedAll(strippedSentences) : null;
+  const sourceEmbeddings = sentenceEmbeddings ? await tryEmbedAll(sources.map(s => s.chunkText)) : null;
+
+  const results: SentenceSupport[] = sentences.map((sentence, i) => {
+    const citations = parseCitations(sentence).filter(n => n >= 1 && n <= sources.length);
+    // Uncited sentences are checked against every retrieved source
+    const candidates = citations.length > 0 ? citations.map(n => n - 1) : sources.map((_, idx) => idx);
+
+    let best = { support: 0, lexical: 0, semantic: null as number | null };
+    for (const idx of candidates) {
+      const lexical = lexicalSupport(strippedSentences[i], sources[idx].chunkText);
+      const semantic = sentenceEmbeddings && sourceEmbeddings
+        ? Math.max(0, cosineSimilarity(sentenceEmbeddings[i], sourceEmbeddings[idx]))
+        : null;
+      const support = semantic === null ? lexical : 0.5 * lexical + 0.5 * semantic;
+      if (support > best.support) {
+        best = { support, lexical, semantic };
+      }
+    }
+
+    return {
+      text: sentence,
+      citations,
+      support: Math.round(best.support * 1000) / 1000,
+      lexical: Math.round(best.lexical * 1000) / 1000,
+      semantic: best.semantic === null ? null : Math.round(best.semantic * 1000) / 1000,
+      supported: best.support >= config.supportThreshold,
+    };
+  });
+
+  const supportedCount = results.filter(r => r.supported).length;
+  const supportedRatio = results.length > 0 ? supportedCount / results.length : 0;
+
+  let reason: CitationReport["reason"];
+  if (citedSources.length === 0) {
+    reason = "no_citations";
+  } else if (supportedRatio < config.minSupportedRatio) {
+    reason = "unsupported";
+  }
+
+  return {
+    answer: cleaned,
+    report: {
+      passed: !reason,
+      citedSources,
+      invalidCitations,
+      sentences: results,
+      supportedRatio: Math.round(supportedRatio * 1000) / 1000,
+      regenerated: false,
+      reason,
+    },
+  };
+}
+
+/**
+ * Corrective instruction appended when regenerating an answer that failed verification
+ */
+export function getCitationRetryInstruction(report: CitationReport): string {
+  const problem = report.reason === "no_citations"
+    ? "Your previous answer did not cite any of the provided sources."
+    : "Parts of your previous answer were not supported by the sources they cited.";
+  return `\n\n${problem} Answer again using only facts stated in the provided sources, cite each claim with [Source N] where N is one of the listed sources, and say so plainly if the sources do not cover part of the question.`;
+}
@@ -0,0 +1,292 @@
+import { createHash } from "crypto";
+import { db } from "../db";
+import { questions, type EmbeddingSpace } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { generateEmbedding, cosineSimilarity } from "./embedding";
+import { getActiveEmbeddingSpace, toEmbeddingTarget } from "./embeddingSpaces";
+import { getLLMProvider, type LLMProviderName } from "./llmProvider";
+import { logger } from "../middleware/logger";
+import type { ComplexityLevel } from "../utils/complexityMapping";
+
+/**
+ * Topic complexity classifier
+ *
+ * Estimates how advanced a chat question is (1-5) by embedding it and comparing
+ * against the question bank, whose complexity is known, and approved corpus items
+ * whose source training attempt carries a difficulty. Neighbors vote by similarity;
+ * the estimate comes with a confidence so callers can ignore weak guesses.
+ */
+
+export interface ComplexityClassifierConfig {
+  topK: number;
+  minSimilarity: number; // Neighbors below this don't vote
+  minNeighbors: number; // Full support needs at least this many voting neighbors
+  minConfidence: number; // Estimates below this are not used for gating
+  indexTtlSec: number; // How long the in-memory question index is reused
+  retryBackoffSec: number; // Wait after a failed index build before trying again
+}
+
+export interface ComplexityNeighbor {
+  source: "question" | "corpus";
+  id: string;
+  complexity: number;
+  similarity: number;
+}
+
+export interface ComplexityEstimate {
+  complexity: ComplexityLevel;
+  confidence: number; // 0-1
+  score: number | null; // Weighted mean before rounding (null when nothing voted)
+  confident: boolean;
+  neighbors: ComplexityNeighbor[];
+}
+
+interface IndexedQuestion {
+  id: string;
+  trackId: string | null;
+  complexity: number;
+  textHash: string;
+  embedding: number[];
+}
+
+// Same mapping the training submission flow uses for attempt difficulty
+const DIFFICULTY_COMPLEXITY: Record<string, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  extreme: 5,
+};
+
+const EMBED_BATCH_SIZE = 32;
+
+let questionIndex: Map<string, IndexedQuestion> = new Map();
+let questionIndexBuiltAt = 0;
+let questionIndexFailedAt = 0;
+let questionIndexBuild: Promise<void> | null = null;
+let questionIndexSpaceId: string | null = null; // Embedding space the index vectors come from
+
+export function getComplexityClassifierConfig(): ComplexityClassifierConfig {
+  return {
+    topK: parseInt(process.env.COMPLEXITY_CLASSIFIER_TOP_K || "8", 10),
+    minSimilarity: parseFloat(process.env.COMPLEXITY_CLASSIFIER_MIN_SIMILARITY || "0.55"),
+    minNeighbors: parseInt(process.env.COMPLEXITY_CLASSIFIER_MIN_NEIGHBORS || "3", 10),
+    minConfidence: parseFloat(process.env.COMPLEXITY_CLASSIFIER_MIN_CONFIDENCE || "0.6"),
+    indexTtlSec: parseInt(process.env.COMPLEXITY_CLASSIFIER_INDEX_TTL_SEC || "600", 10),
+    retryBackoffSec: parseInt(process.env.COMPLEXITY_CLASSIFIER_RETRY_BACKOFF_SEC || "60", 10),
+  };
+}
+
+function clampComplexity(value: number): ComplexityLevel {
+  return Math.max(1, Math.min(5, Math.round(value))) as ComplexityLevel;
+}
+
+/**
+ * Combine neighbor votes into a complexity estimate.
+ *
+ * confidence = agreement × support × closeness, where agreement falls with the
+ * weighted spread of complexities, support grows with the number of voters up to
+ * minNeighbors, and closeness is the best similarity.
+ */
+export function scoreComplexity(
+  neighbors: ComplexityNeighbor[],
+  config: ComplexityClassifierConfig = getComplexityClassifierConfig()
+): ComplexityEstimate {
+  const voters = neighbors
+    .filter(n => Number.isFinite(n.similarity) && n.similarity >= config.minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, config.topK);
+
+  if (voters.length === 0) {
+    return { complexity: 1, confidence: 0, score: null, confident: false, neighbors: [] };
+  }
+
+  const totalWeight = voters.reduce((sum, n) => sum + n.similarity, 0);
+  const mean = voters.reduce((sum, n) => sum + n.similarity * n.complexity, 0) / totalWeight;
+  const variance = voters.reduce((sum, n) => sum + n.similarity * (n.complexity - mean) ** 2, 0) / totalWeight;
+
+  // Largest possible spread on a 1-5 scale is 2
+  const agreement = 1 - Math.min(1, Math.sqrt(variance) / 2);
+  const support = Math.min(1, voters.length / Math.max(1, config.minNeighbors));
+  const closeness = voters[0].similarity;
+  const confidence = Math.round(agreement * support * closeness * 1000) / 1000;
+
+  return {
+    complexity: clampComplexity(mean),
+    confidence,
+    score: Math.round(mean * 100) / 100,
+    confident: confidence >= config.minConfidence,
+    neighbors: voters,
+  };
+}
+
+function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * (Re)build the in-memory question bank index, embedding only new or edited questions
+ */
+async function refreshQuestionIndex(space: EmbeddingSpace): Promise<void> {
+  const rows = await db
+    .select({
+      id: questions.id,
+      trackId: questions.trackId,
+      text: questions.text,
+      complexity: questions.complexity,
+    })
+    .from(questions);
+
+  const next = new Map<string, IndexedQuestion>();
+  const pending: Array<{ row: typeof rows[number]; textHash: string }> = [];
+
+  for (const row of rows) {
+    const textHash = hashText(row.text);
+    const existing = questionIndex.get(row.id);
+    if (existing && existing.textHash === textHash) {
+      next.set(row.id, { ...existing, trackId: row.trackId, complexity: row.complexity });
+    } else {
+      pending.push({ row, textHash });
+    }
+  }
+
+  const provider = getLLMProvider(space.provider as LLMProviderName);
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+    const { embeddings } = await provider.embed(batch.map(p => p.row.text), space.model);
+    batch.forEach((p, j) => {
+      next.set(p.row.id, {
+        id: p.row.id,
+        trackId: p.row.trackId,
+        complexity: p.row.complexity,
+        textHash: p.textHash,
+        embedding: embeddings[j],
+      });
+    });
+  }
+
+  // The active space changed while this build ran; its vectors are not comparable
+  if (questionIndexSpaceId !== space.id) return;
+  questionIndex = next;
+  questionIndexBuiltAt = Date.now();
+  questionIndexFailedAt = 0;
+
+  if (pending.length > 0) {
+    logger.info({ embedded: pending.length, total: next.size, message: "Complexity classifier question index refreshed" });
+  }
+}
+
+async function getQuestionIndex(config: ComplexityClassifierConfig, space: EmbeddingSpace): Promise<Map<string, IndexedQuestion>> {
+  if (questionIndexSpaceId !== space.id) {
+    resetComplexityIndex();
+    questionIndexSpaceId = space.id;
+  }
+  const now = Date.now();
+  const stale = now - questionIndexBuiltAt > config.indexTtlSec * 1000;
+  // After a failed build, serve what we have instead of retrying on every request
+  const backingOff = now - questionIndexFailedAt < config.retryBackoffSec * 1000;
+  if (stale && !backingOff && !questionIndexBuild) {
+    questionIndexBuild = refreshQuestionIndex(space)
+      .catch((error: any) => {
+        questionIndexFailedAt = Date.now();
+        logger.warn({
+          error: error.message,
+          retryInSec: config.retryBackoffSec,
+          message: "Complexity classifier question index refresh failed",
+        });
+      })
+      .finally(() => {
+        questionIndexBuild = null;
+      });
+  }
+  // First build has to finish; later refreshes serve the previous index meanwhile
+  if (questionIndexBuild && questionIndex.size === 0) {
+    await questionIndexBuild;
+  }
+  return questionIndex;
+}
+
+/**
+ * Drop the cached question index (tests, question bank imports)
+ */
+export function resetComplexityIndex(): void {
+  questionIndex = new Map();
+  questionIndexBuiltAt = 0;
+  questionIndexFailedAt = 0;
+}
+
+function questionNeighbors(
+  embedding: number[],
+  index: Map<string, IndexedQuestion>,
+  trackId: string | undefined,
+  topK: number
+): ComplexityNeighbor[] {
+  const neighbors: ComplexityNeighbor[] = [];
+  for (const entry of Array.from(index.values())) {
+    if (trackId && entry.trackId !== trackId) continue;
+    if (entry.embedding.length !== embedding.length) continue;
+    neighbors.push({
+      source: "question",
+      id: entry.id,
+      complexity: entry.complexity,
+      similarity: cosineSimilarity(embedding, entry.embedding),
+    });
+  }
+  return neighbors.sort((a, b) => b.similarity - a.similarity).slice(0, topK);
+}
+
+async function corpusNeighbors(
+  embedding: number[],
+  spaceId: string,
+  trackId: string | undefined,
+  topK: number
+): Promise<ComplexityNeighbor[]> {
+  const embeddingStr = `[${embedding.join(",")}]`;
+  const result = await db.execute(sql`
+    SELECT
+      tci.id,
+      ta.difficulty,
+      MAX(1 - (cc.embedding <=> ${embeddingStr}::vector)) as similarity
+    FROM corpus_chunks cc
+    JOIN training_corpus_items tci ON cc.corpus_item_id = tci.id
+    JOIN train_attempts ta ON tci.source_attempt_id = ta.id
+    WHERE tci.status = 'approved'
+      AND cc.embedding_space_id = ${spaceId}
+      AND cc.embedding IS NOT NULL
+      ${trackId ? sql`AND tci.track_id = ${trackId}` : sql``}
+    GROUP BY tci.id, ta.difficulty
+    ORDER BY similarity DESC
+    LIMIT ${topK}
+  `);
+
+  return (result.rows as Array<{ id: string; difficulty: string; similarity: string | number }>)
+    .filter(row => DIFFICULTY_COMPLEXITY[row.difficulty] !== undefined)
+    .map(row => ({
+      source: "corpus" as const,
+      id: row.id,
+      complexity: DIFFICULTY_COMPLEXITY[row.difficulty],
+      similarity: Number(row.similarity),
+    }));
+}
+
+/**
+ * Estimate the complexity of a chat question.
+ * Lookup failures return a zero-confidence estimate so gating never blocks chat.
+ */
+export async function estimateQuestionComplexity(
+  message: string,
+  trackId?: string,
+  config: ComplexityClassifierConfig = getComplexityClassifierConfig()
+): Promise<ComplexityEstimate> {
+  try {
+    const space = await getActiveEmbeddingSpace();
+    const { embedding } = await generateEmbedding(message, toEmbeddingTarget(space));
+    const [index, corpus] = await Promise.all([
+      getQuestionIndex(config, space),
+      corpusNeighbors(embedding, space.id, trackId, config.topK),
+    ]);
+    return scoreComplexity([...questionNeighbors(embedding, index, trackId, config.topK), ...corpus], config);
+  } catch (error: any) {
+    logger.warn({ error: error.message, message: "Complexity classification failed, skipping gating" });
+    return { complexity: 1, confidence: 0, score: null, confident: false, neighbors: [] };
+  }
+}
@@ -0,0 +1,144 @@
+import { storage } from "../storage";
+import { lmstudioChat } from "./lmstudio";
+import { logger } from "../middleware/logger";
+import type { LevelPolicy } from "./levelPolicy";
+import type { TokenMeter } from "./tokenUsage";
+import type { ChatMessage, Conversation } from "@shared/schema";
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ConversationHistory {
+  summary: string | null;
+  turns: ConversationTurn[];
+  includedMessages: number;
+  summarizedMessages: number;
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function messageTokens(message: ChatMessage): number {
+  return estimateTokens(message.userMessage) + estimateTokens(message.aiResponse);
+}
+
+/**
+ * Pick the newest messages whose combined size fits the token budget.
+ * Returns the index of the first message to keep (messages are oldest-first).
+ */
+export function selectHistoryWindow(messages: ChatMessage[], budget: number): number {
+  let used = 0;
+  let keepFrom = messages.length;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = messageTokens(messages[i]);
+    if (used + cost > budget) break;
+    used += cost;
+    keepFrom = i;
+  }
+
+  return keepFrom;
+}
+
+/**
+ * Fold newly dropped turns into the conversation's rolling summary
+ */
+async function summarizeTurns(
+  previousSummary: string | null,
+  messages: ChatMessage[],
+  maxTokens: number,
+  meter?: TokenMeter
+): Promise<string> {
+  const transcript = messages
+    .map(m => `User: ${m.userMessage}\nHiveMind: ${m.aiResponse}`)
+    .join("\n\n");
+
+  const prompt = `Summarize the following conversation between a user and HiveMind AI in at most ${Math.max(20, Math.floor(maxTokens * 0.75))} words. Keep facts, names, numbers, decisions and open questions. Write plain prose with no preamble.` +
+    (previousSummary ? `\n\nSummary of earlier turns:\n${previousSummary}` : "") +
+    `\n\nConversation:\n${transcript}`;
+
+  const summaryMessages = [{ role: "user" as const, content: prompt }];
+  const summary = await lmstudioChat(
+    summaryMessages,
+    { temperature: 0.2, max_tokens: maxTokens, onUsage: meter?.onUsage }
+  );
+  meter?.settle(summaryMessages, summary);
+
+  return summary.trim();
+}
+
+/**
+ * Assemble prior turns of a conversation for prompt inclusion.
+ * Keeps the newest turns that fit policy.maxHistoryTokens; when the thread no
+ * longer fits, a quarter of the budget is reserved for a rolling summary of the
+ * older turns, which is persisted on the conversation so it is only extended
+ * when more turns fall out of the window.
+ * Summary tokens are added to the request's meter so they count toward the quota.
+ */
+export async function buildConversationHistory(
+  conversation: Conversation,
+  policy: LevelPolicy,
+  meter?: TokenMeter
+): Promise<ConversationHistory> {
+  const messages = await storage.getConversationMessages(conversation.id, conversation.walletAddress);
+  const budget = policy.maxHistoryTokens;
+
+  const totalTokens = messages.reduce((sum, m) => sum + messageTokens(m), 0);
+  const fitsEntirely = totalTokens <= budget;
+  const summaryBudget = fitsEntirely ? 0 : Math.floor(budget / 4);
+  const keepFrom = fitsEntirely ? 0 : selectHistoryWindow(messages, budget - summaryBudget);
+
+  let summary = conversation.summary;
+  let summarizedMessages = Math.min(conversation.summarizedMessageCount, keepFrom);
+
+  if (keepFrom > conversation.summarizedMessageCount) {
+    try {
+      summary = await summarizeTurns(
+        conversation.summary,
+        messages.slice(conversation.summarizedMessageCount, keepFrom),
+        summaryBudget,
+        meter
+      );
+      summarizedMessages = keepFrom;
+      await storage.updateConversationSummary(conversation.id, summary, keepFrom);
+    } catch (error: any) {
+      // Fall back to the previous summary; turns outside the window are simply dropped
+      logger.warn({
+        conversationId: conversation.id,
+        error: error.message,
+        message: "Conversation summarization failed, using stale summary",
+      });
+    }
+  }
+
+  const turns = messages.slice(keepFrom).flatMap((m): ConversationTurn[] => [
+    { role: "user", content: m.userMessage },
+    { role: "assistant", content: m.aiResponse },
+  ]);
+
+  return {
+    summary: keepFrom > 0 ? summary : null,
+    turns,
+    includedMessages: messages.length - keepFrom,
+    summarizedMessages,
+  };
+}
+
+/**
+ * Derive a thread title from the first message of a conversation
+ */
+export function deriveConversationTitle(message: string): string {
+  const singleLine = message.replace(/\s+/g, " ").trim();
+  if (singleLine.length <= 60) {
+    return singleLine;
+  }
+  const truncated = singleLine.slice(0, 60);
+  const lastSpace = truncated.lastIndexOf(" ");
+  return (lastSpace > 30 ? truncated.slice(0, lastSpace) : truncated) + "...";
+}
@@ -0,0 +1,397 @@
+import { createHash } from "crypto";
+import { db } from "../db";
+import { trainingCorpusItems } from "@shared/schema";
+import { and, eq, inArray, ne, sql } from "drizzle-orm";
+import { generateEmbedding } from "./embedding";
+import { getActiveEmbeddingSpace, toEmbeddingTarget } from "./embeddingSpaces";
+import { computeContentHash } from "./embedWorker";
+import { logger } from "../middleware/logger";
+
+/**
+ * Near-duplicate detection for corpus submissions
+ *
+ * New and to-be-approved items are compared with every approved item three ways:
+ *   exact      same content hash, or the same text ignoring case and whitespace
+ *   minhash    estimated Jaccard similarity of word shingles (catches light edits)
+ *   embedding  cosine similarity to the item's closest chunk in the active space (catches paraphrases)
+ *
+ * An item's similarity is the highest of the three. At CORPUS_DEDUP_BLOCK_THRESHOLD
+ * the submission is rejected; at CORPUS_DEDUP_WARN_THRESHOLD it goes through with
+ * the closest matches attached so the creator can review them.
+ */
+
+export interface DedupConfig {
+  enabled: boolean;
+  warnThreshold: number;
+  blockThreshold: number;
+  maxMatches: number;
+  embedding: boolean; // Whether the embedding check runs (needs the embedding provider)
+}
+
+export type DuplicateVerdict = "unique" | "similar" | "duplicate";
+
+export interface DuplicateMatch {
+  corpusItemId: string;
+  title: string | null;
+  trackId: string | null;
+  excerpt: string;
+  similarity: number; // Highest of the checks below
+  exact: boolean;
+  minhashSimilarity: number | null;
+  embeddingSimilarity: number | null;
+}
+
+export interface DuplicateCheckResult {
+  verdict: DuplicateVerdict;
+  similarity: number; // Closest match (0 when there is none)
+  matches: DuplicateMatch[]; // Closest first, at most maxMatches
+  thresholds: { warn: number; block: number };
+  checks: { exact: boolean; minhash: boolean; embedding: boolean }; // Which checks ran
+}
+
+const SHINGLE_SIZE = 3; // Words per shingle
+const MINHASH_PERMUTATIONS = 128;
+const EMBED_MAX_CHARS = 2000;
+const EXCERPT_CHARS = 200;
+const TEXT_FETCH_BATCH = 500; // Approved items whose text is loaded per query on a cache miss
+
+// What the exact and MinHash checks need from a text
+export interface TextFingerprint {
+  comparableHash: string; // Hash of the case/whitespace-normalized text, for the exact check
+  signature: number[]; // MinHash signature (empty when the text has no words)
+}
+
+interface ItemSignature extends TextFingerprint {
+  contentHash: string; // Content hash the entry was computed from
+}
+
+// Signatures of approved items, reused while their content hash is unchanged.
+// Items that are no longer approved (deleted, rejected, back in review) are pruned on every check.
+const signatureCache = new Map<string, ItemSignature>();
+
+export function getDedupConfig(): DedupConfig {
+  return {
+    enabled: process.env.CORPUS_DEDUP_ENABLED !== "false",
+    warnThreshold: parseFloat(process.env.CORPUS_DEDUP_WARN_THRESHOLD || "0.85"),
+    blockThreshold: parseFloat(process.env.CORPUS_DEDUP_BLOCK_THRESHOLD || "0.95"),
+    maxMatches: parseInt(process.env.CORPUS_DEDUP_MAX_MATCHES || "5", 10),
+    embedding: process.env.CORPUS_DEDUP_EMBEDDING !== "false",
+  };
+}
+
+export function classifyDuplicate(similarity: number, config: Pick<DedupConfig, "warnThreshold" | "blockThreshold">): DuplicateVerdict {
+  if (similarity >= config.blockThreshold) return "duplicate";
+  if (similarity >= config.warnThreshold) return "similar";
+  return "unique";
+}
+
+function normalizeForComparison(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// murmur3 32-bit finalizer
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// FNV-1a 32-bit
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const PERMUTATION_SEEDS = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => mix32(i + 1));
+
+// Letters and digits of any script (built at runtime: the compile target has no `u` regex literals)
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{M}\\p{N}]+", "gu");
+// Scripts written without spaces between words; their text is shingled by character
+const UNSPACED_SCRIPT_PATTERN = new RegExp("[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}\\p{Script=Lao}\\p{Script=Khmer}\\p{Script=Myanmar}]", "u");
+
+/**
+ * Words of the text in any script; runs of unspaced scripts (CJK, Thai...) become one token per character
+ */
+function wordsOf(text: string): string[] {
+  const tokens = text.toLowerCase().match(WORD_PATTERN) ?? [];
+  return tokens.flatMap(token => UNSPACED_SCRIPT_PATTERN.test(token) ? Array.from(token) : [token]);
+}
+
+/**
+ * Word shingles of the text (the whole text when it is shorter than one shingle)
+ */
+export function shingles(text: string, size: number = SHINGLE_SIZE): Set<string> {
+  const words = wordsOf(text);
+  const result = new Set<string>();
+  if (words.length === 0) return result;
+  if (words.length < size) {
+    result.add(words.join(" "));
+    return result;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(words.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+/**
+ * MinHash signature of the text's shingles; empty when the text has no words,
+ * so it never matches another wordless text
+ */
+export function minhashSignature(text: string): number[] {
+  const hashes = Array.from(shingles(text), hashString);
+  if (hashes.length === 0) return [];
+  return PERMUTATION_SEEDS.map(seed => {
+    let min = 0xffffffff;
+    for (const h of hashes) {
+      const permuted = mix32(h ^ seed);
+      if (permuted < min) min = permuted;
+    }
+    return min;
+  });
+}
+
+/**
+ * Estimated Jaccard similarity: the share of permutations whose minimum agrees
+ * (0 when either text had no shingles)
+ */
+export function minhashSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+function hashComparable(text: string): string {
+  return createHash("sha256").update(normalizeForComparison(text)).digest("hex");
+}
+
+export function fingerprintText(text: string): TextFingerprint {
+  return { comparableHash: hashComparable(text), signature: minhashSignature(text) };
+}
+
+/**
+ * Similarity by the exact and MinHash checks only (1 for the same text ignoring
+ * case and whitespace), for texts that are not approved items, e.g. the sections
+ * of one upload
+ */
+export function fingerprintSimilarity(a: TextFingerprint, b: TextFingerprint): number {
+  if (a.comparableHash === b.comparableHash) return 1;
+  return minhashSimilarity(a.signature, b.signature);
+}
+
+/**
+ * Signatures for the approved items, loading text only for items that are new,
+ * edited or have no content hash, and evicting items that left the approved set
+ */
+async function loadSignatures(
+  approved: Array<{ id: string; contentHash: string | null }>,
+  excludeItemId: string | undefined
+): Promise<Map<string, ItemSignature>> {
+  const result = new Map<string, ItemSignature>();
+  const missing: string[] = [];
+  for (const item of approved) {
+    const cached = signatureCache.get(item.id);
+    if (cached && item.contentHash !== null && cached.contentHash === item.contentHash) {
+      result.set(item.id, cached);
+    } else {
+      missing.push(item.id);
+    }
+  }
+
+  for (let i = 0; i < missing.length; i += TEXT_FETCH_BATCH) {
+    const rows = await db
+      .select({
+        id: trainingCorpusItems.id,
+        title: trainingCorpusItems.title,
+        normalizedText: trainingCorpusItems.normalizedText,
+        contentHash: trainingCorpusItems.contentHash,
+      })
+      .from(trainingCorpusItems)
+      .where(inArray(trainingCorpusItems.id, missing.slice(i, i + TEXT_FETCH_BATCH)));
+    for (const row of rows) {
+      const entry: ItemSignature = {
+        contentHash: row.contentHash ?? computeContentHash(row.title, row.normalizedText),
+        ...fingerprintText(row.normalizedText),
+      };
+      signatureCache.set(row.id, entry);
+      result.set(row.id, entry);
+    }
+  }
+
+  // The excluded item is still approved; keep its entry for the next check
+  for (const id of Array.from(signatureCache.keys())) {
+    if (!result.has(id) && id !== excludeItemId) {
+      signatureCache.delete(id);
+    }
+  }
+  return result;
+}
+
+function excerpt(text: string): string {
+  return text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS)}…` : text;
+}
+
+async function embeddingMatches(
+  text: string,
+  excludeItemId: string | undefined,
+  limit: number
+): Promise<Array<{ id: string; similarity: number }>> {
+  const space = await getActiveEmbeddingSpace();
+  const { embedding } = await generateEmbedding(text.slice(0, EMBED_MAX_CHARS), toEmbeddingTarget(space));
+  const embeddingStr = `[${embedding.join(",")}]`;
+  const result = await db.execute(sql`
+    SELECT tci.id, MAX(1 - (cc.embedding <=> ${embeddingStr}::vector)) as similarity
+    FROM corpus_chunks cc
+    JOIN training_corpus_items tci ON cc.corpus_item_id = tci.id
+    WHERE tci.status = 'approved'
+      AND cc.embedding_space_id = ${space.id}
+      AND cc.embedding IS NOT NULL
+      ${excludeItemId ? sql`AND tci.id <> ${excludeItemId}` : sql``}
+    GROUP BY tci.id
+    ORDER BY similarity DESC
+    LIMIT ${limit}
+  `);
+  return (result.rows as Array<{ id: string; similarity: string | number }>).map(r => ({ id: r.id, similarity: Number(r.similarity) }));
+}
+
+/**
+ * Fill in title, track and excerpt of the reported matches
+ */
+async function describeMatches(matches: DuplicateMatch[]): Promise<void> {
+  if (matches.length === 0) return;
+  const rows = await db
+    .select({
+      id: trainingCorpusItems.id,
+      title: trainingCorpusItems.title,
+      trackId: trainingCorpusItems.trackId,
+      normalizedText: trainingCorpusItems.normalizedText,
+    })
+    .from(trainingCorpusItems)
+    .where(inArray(trainingCorpusItems.id, matches.map(m => m.corpusItemId)));
+  const byId = new Map(rows.map(row => [row.id, row]));
+  for (const m of matches) {
+    const item = byId.get(m.corpusItemId);
+    if (!item) continue;
+    m.title = item.title;
+    m.trackId = item.trackId;
+    m.excerpt = excerpt(item.normalizedText);
+  }
+}
+
+/**
+ * Compare text with every approved corpus item
+ */
+export async function checkCorpusDuplicates(
+  text: string,
+  options: { title?: string | null; excludeItemId?: string } = {},
+  config: DedupConfig = getDedupConfig()
+): Promise<DuplicateCheckResult> {
+  const result: DuplicateCheckResult = {
+    verdict: "unique",
+    similarity: 0,
+    matches: [],
+    thresholds: { warn: config.warnThreshold, block: config.blockThreshold },
+    checks: { exact: false, minhash: false, embedding: false },
+  };
+  if (!config.enabled || !text.trim()) {
+    return result;
+  }
+
+  // Only IDs and hashes here; text is loaded for cache misses and for the reported matches
+  const approved = await db
+    .select({
+      id: trainingCorpusItems.id,
+      contentHash: trainingCorpusItems.contentHash,
+    })
+    .from(trainingCorpusItems)
+    .where(options.excludeItemId
+      ? and(eq(trainingCorpusItems.status, "approved"), ne(trainingCorpusItems.id, options.excludeItemId))
+      : eq(trainingCorpusItems.status, "approved"));
+  const signatures = await loadSignatures(approved, options.excludeItemId);
+  const matches = new Map<string, DuplicateMatch>();
+
+  const match = (id: string): DuplicateMatch => {
+    let existing = matches.get(id);
+    if (!existing) {
+      existing = {
+        corpusItemId: id,
+        title: null,
+        trackId: null,
+        excerpt: "",
+        similarity: 0,
+        exact: false,
+        minhashSimilarity: null,
+        embeddingSimilarity: null,
+      };
+      matches.set(id, existing);
+    }
+    return existing;
+  };
+
+  const contentHash = computeContentHash(options.title ?? null, text);
+  const { comparableHash, signature } = fingerprintText(text);
+  // Report anything halfway to the warning threshold so near misses are visible too
+  const reportFloor = config.warnThreshold / 2;
+
+  for (const [id, item] of Array.from(signatures.entries())) {
+    if (item.contentHash === contentHash || item.comparableHash === comparableHash) {
+      const m = match(id);
+      m.exact = true;
+      m.similarity = 1;
+    }
+    // Texts without words have no shingles to compare
+    if (signature.length === 0 || item.signature.length === 0) continue;
+    const similarity = minhashSimilarity(signature, item.signature);
+    if (similarity >= reportFloor) {
+      const m = match(id);
+      m.minhashSimilarity = similarity;
+      m.similarity = Math.max(m.similarity, similarity);
+    }
+  }
+  result.checks.exact = true;
+  result.checks.minhash = true;
+
+  if (config.embedding && approved.length > 0) {
+    try {
+      for (const { id, similarity } of await embeddingMatches(text, options.excludeItemId, config.maxMatches)) {
+        if (!signatures.has(id) || similarity < reportFloor) continue;
+        const m = match(id);
+        m.embeddingSimilarity = similarity;
+        m.similarity = Math.max(m.similarity, similarity);
+      }
+      result.checks.embedding = true;
+    } catch (error: any) {
+      // Exact and MinHash checks still apply when the embedding provider is down
+      logger.warn({ error: error.message, message: "Duplicate check skipped embedding similarity" });
+    }
+  }
+
+  result.matches = Array.from(matches.values())
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, config.maxMatches);
+  await describeMatches(result.matches);
+  result.similarity = result.matches[0]?.similarity ?? 0;
+  result.verdict = classifyDuplicate(result.similarity, config);
+  return result;
+}
+
+/**
+ * Check an existing item (e.g. before approval) against the other approved items.
+ * Returns null when the item doesn't exist.
+ */
+export async function checkCorpusItemDuplicates(corpusItemId: string): Promise<DuplicateCheckResult | null> {
+  const [item] = await db
+    .select({ title: trainingCorpusItems.title, normalizedText: trainingCorpusItems.normalizedText })
+    .from(trainingCorpusItems)
+    .where(eq(trainingCorpusItems.id, corpusItemId))
+    .limit(1);
+  if (!item) return null;
+  return checkCorpusDuplicates(item.normalizedText, { title: item.title, excludeItemId: corpusItemId });
+}
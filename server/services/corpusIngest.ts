@@ -0,0 +1,352 @@
+import { db } from "../db";
+import {
+  corpusUploads,
+  trainingCorpusItems,
+  type CorpusUpload,
+  type CorpusUploadFormat,
+  type CorpusUploadSectionResult,
+} from "@shared/schema";
+import { desc, eq } from "drizzle-orm";
+import { DEFAULT_MAX_INFLATED_BYTES, extractDocumentText, splitIntoSections, titleFromFilename, type DocumentSection } from "./documentExtract";
+import { normalizeCorpusText } from "../utils/corpusText";
+import { scanSubmission } from "./ragGuard";
+import { applyPiiPolicy } from "./piiScanner";
+import type { TextFingerprint } from "./corpusDedup";
+import { logger } from "../middleware/logger";
+
+/**
+ * Document uploads
+ *
+ * An upload stores the file and enqueues an ingest_corpus_upload job. The job
+ * extracts the text, splits it into sections at headings and creates one corpus
+ * item per section (title from the heading path, source filename attached),
+ * skipping sections that duplicate approved items or earlier sections of the same
+ * upload, or score as prompt injections (see ragGuard). PII is redacted from each section, or the section is skipped
+ * under PII_POLICY=reject (see piiScanner). Progress is written to the upload row after every section, and
+ * a retried job resumes after the last recorded section.
+ */
+
+export interface CorpusUploadConfig {
+  maxBytes: number;
+  maxInflatedBytes: number; // Decompressed PDF stream bytes per document
+  maxSections: number;
+  sectionMaxChars: number;
+}
+
+export interface CorpusUploadReport {
+  id: string;
+  filename: string;
+  format: CorpusUploadFormat;
+  sizeBytes: number;
+  trackId: string | null;
+  autoApprove: boolean;
+  status: CorpusUpload["status"];
+  progress: {
+    sectionsTotal: number;
+    sectionsProcessed: number;
+    itemsCreated: number;
+    duplicatesSkipped: number;
+    percent: number;
+  };
+  results: CorpusUploadSectionResult[];
+  error: string | null;
+  job: { status: string; attempts: number; lastError: string | null } | null;
+  uploadedByWallet: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export function getCorpusUploadConfig(): CorpusUploadConfig {
+  return {
+    maxBytes: parseInt(process.env.CORPUS_UPLOAD_MAX_BYTES || String(10 * 1024 * 1024), 10),
+    maxInflatedBytes: parseInt(process.env.CORPUS_UPLOAD_MAX_INFLATED_BYTES || String(DEFAULT_MAX_INFLATED_BYTES), 10),
+    maxSections: parseInt(process.env.CORPUS_UPLOAD_MAX_SECTIONS || "200", 10),
+    sectionMaxChars: parseInt(process.env.CORPUS_UPLOAD_SECTION_MAX_CHARS || "8000", 10),
+  };
+}
+
+/**
+ * Store an uploaded file and enqueue its ingestion
+ */
+export async function createCorpusUpload(data: {
+  filename: string;
+  format: CorpusUploadFormat;
+  content: Buffer;
+  trackId?: string;
+  cycleId?: string;
+  autoApprove: boolean;
+  uploadedByWallet?: string;
+}): Promise<CorpusUpload> {
+  const [upload] = await db
+    .insert(corpusUploads)
+    .values({
+      filename: data.filename,
+      format: data.format,
+      sizeBytes: data.content.length,
+      trackId: data.trackId,
+      cycleId: data.cycleId,
+      autoApprove: data.autoApprove,
+      sourceData: data.content.toString("base64"),
+      uploadedByWallet: data.uploadedByWallet,
+    })
+    .returning();
+
+  const { enqueueJob } = await import("./jobQueue");
+  const jobId = await enqueueJob("ingest_corpus_upload", { corpusUploadId: upload.id }, { maxAttempts: 3 });
+  const [queued] = await db
+    .update(corpusUploads)
+    .set({ jobId, updatedAt: new Date() })
+    .where(eq(corpusUploads.id, upload.id))
+    .returning();
+
+  logger.info({ corpusUploadId: upload.id, filename: data.filename, format: data.format, jobId, message: "Corpus upload queued" });
+  return queued;
+}
+
+async function failUpload(uploadId: string, error: string): Promise<void> {
+  await db
+    .update(corpusUploads)
+    .set({ status: "failed", error, sourceData: null, updatedAt: new Date(), completedAt: new Date() })
+    .where(eq(corpusUploads.id, uploadId));
+  logger.warn({ corpusUploadId: uploadId, error, message: "Corpus upload failed" });
+}
+
+function extractSections(upload: CorpusUpload, config: CorpusUploadConfig): DocumentSection[] {
+  const text = extractDocumentText(Buffer.from(upload.sourceData!, "base64"), upload.format, { maxInflatedBytes: config.maxInflatedBytes });
+  return splitIntoSections(text, {
+    fallbackTitle: titleFromFilename(upload.filename),
+    maxChars: config.sectionMaxChars,
+  });
+}
+
+/**
+ * Approve a section's item (autoApprove uploads) and record the outcome, so a
+ * resumed job can retry approvals that failed after the item was stored
+ */
+async function approveUploadedSection(
+  uploadId: string,
+  results: CorpusUploadSectionResult[],
+  result: CorpusUploadSectionResult
+): Promise<void> {
+  const { approveCorpusItem } = await import("./rag");
+  result.approved = await approveCorpusItem(result.corpusItemId!);
+  await db
+    .update(corpusUploads)
+    .set({ results, updatedAt: new Date() })
+    .where(eq(corpusUploads.id, uploadId));
+}
+
+/**
+ * Job handler: turn an upload's sections into corpus items
+ */
+export async function processCorpusUpload(uploadId: string): Promise<void> {
+  const [upload] = await db.select().from(corpusUploads).where(eq(corpusUploads.id, uploadId)).limit(1);
+  if (!upload) {
+    throw new Error(`Corpus upload ${uploadId} not found`);
+  }
+  if (upload.status === "completed" || upload.status === "failed") {
+    return;
+  }
+  if (!upload.sourceData) {
+    return failUpload(uploadId, "Uploaded file is no longer available");
+  }
+
+  const config = getCorpusUploadConfig();
+  let sections: DocumentSection[];
+  try {
+    sections = extractSections(upload, config);
+  } catch (error: any) {
+    // Unreadable files won't get better on retry
+    return failUpload(uploadId, error.message);
+  }
+  if (sections.length === 0) {
+    return failUpload(uploadId, "No text found in the document");
+  }
+  if (sections.length > config.maxSections) {
+    return failUpload(uploadId, `Document has ${sections.length} sections; the limit is ${config.maxSections}`);
+  }
+
+  await db
+    .update(corpusUploads)
+    .set({ status: "processing", sectionsTotal: sections.length, error: null, updatedAt: new Date() })
+    .where(eq(corpusUploads.id, uploadId));
+
+  const { checkCorpusDuplicates, classifyDuplicate, fingerprintSimilarity, fingerprintText, getDedupConfig } = await import("./corpusDedup");
+  const dedupConfig = getDedupConfig();
+  const results = [...upload.results];
+  const done = new Set(results.map(r => r.index));
+
+  // A previous attempt may have stored items whose approval then failed
+  if (upload.autoApprove) {
+    for (const result of results) {
+      if (result.outcome === "created" && result.corpusItemId && !result.approved) {
+        await approveUploadedSection(uploadId, results, result);
+      }
+    }
+  }
+
+  // Items created from earlier sections: without autoApprove they are drafts,
+  // which the approved-item check doesn't see, so repeats are caught here
+  const uploadSections: Array<{ corpusItemId: string; fingerprint: TextFingerprint }> = [];
+  if (dedupConfig.enabled) {
+    const created = await db
+      .select({ id: trainingCorpusItems.id, normalizedText: trainingCorpusItems.normalizedText })
+      .from(trainingCorpusItems)
+      .where(eq(trainingCorpusItems.sourceUploadId, upload.id));
+    for (const item of created) {
+      uploadSections.push({ corpusItemId: item.id, fingerprint: fingerprintText(item.normalizedText) });
+    }
+  }
+
+  for (let index = 0; index < sections.length; index++) {
+    if (done.has(index)) continue;
+    const section = sections[index];
+
+    const pii = applyPiiPolicy(normalizeCorpusText(section.text), { ownWallet: upload.uploadedByWallet ?? undefined });
+    const normalizedText = pii.text;
+    const piiFound = pii.report.total > 0 ? { piiFound: pii.report.total } : {};
+    let result: CorpusUploadSectionResult;
+    let fingerprint: TextFingerprint | null = null;
+
+    const injectionScan = normalizedText ? scanSubmission(normalizedText) : null;
+
+    if (!normalizedText) {
+      result = { index, title: section.title, outcome: "empty", corpusItemId: null };
+    } else if (pii.report.action === "rejected") {
+      result = { index, title: section.title, outcome: "pii", corpusItemId: null, ...piiFound };
+    } else if (injectionScan!.verdict === "blocked") {
+      result = { index, title: section.title, outcome: "injection", corpusItemId: null, injectionScore: injectionScan!.score };
+    } else {
+      const duplicateCheck = await checkCorpusDuplicates(normalizedText, { title: section.title });
+      fingerprint = fingerprintText(normalizedText);
+      let repeatOf: { corpusItemId: string; similarity: number } | null = null;
+      for (const earlier of uploadSections) {
+        const similarity = fingerprintSimilarity(fingerprint, earlier.fingerprint);
+        if (!repeatOf || similarity > repeatOf.similarity) {
+          repeatOf = { corpusItemId: earlier.corpusItemId, similarity };
+        }
+      }
+
+      if (duplicateCheck.verdict === "duplicate") {
+        result = {
+          index,
+          title: section.title,
+          outcome: "duplicate",
+          corpusItemId: null,
+          duplicateOf: duplicateCheck.matches[0]?.corpusItemId,
+          similarity: duplicateCheck.similarity,
+        };
+      } else if (repeatOf && classifyDuplicate(repeatOf.similarity, dedupConfig) === "duplicate") {
+        result = {
+          index,
+          title: section.title,
+          outcome: "duplicate",
+          corpusItemId: null,
+          duplicateOf: repeatOf.corpusItemId,
+          similarity: repeatOf.similarity,
+        };
+      } else {
+        result = { index, title: section.title, outcome: "created", corpusItemId: null, ...piiFound };
+      }
+    }
+    results.push(result);
+
+    // The item and the progress that records it are written together so a retry can't create it twice
+    await db.transaction(async (tx) => {
+      if (result.outcome === "created") {
+        const [item] = await tx
+          .insert(trainingCorpusItems)
+          .values({
+            trackId: upload.trackId,
+            cycleId: upload.cycleId,
+            title: section.title,
+            normalizedText,
+            submitterWalletPubkey: upload.uploadedByWallet,
+            sourceUploadId: upload.id,
+            sourceFilename: upload.filename,
+            injectionScore: injectionScan!.score.toFixed(3),
+          })
+          .returning({ id: trainingCorpusItems.id });
+        result.corpusItemId = item.id;
+      }
+      await tx
+        .update(corpusUploads)
+        .set({
+          results,
+          sectionsProcessed: results.length,
+          itemsCreated: results.filter(r => r.outcome === "created").length,
+          duplicatesSkipped: results.filter(r => r.outcome === "duplicate").length,
+          updatedAt: new Date(),
+        })
+        .where(eq(corpusUploads.id, uploadId));
+    });
+
+    if (result.outcome === "created" && fingerprint) {
+      uploadSections.push({ corpusItemId: result.corpusItemId!, fingerprint });
+    }
+    // Approved one at a time so later sections are checked against earlier ones
+    if (result.outcome === "created" && upload.autoApprove) {
+      await approveUploadedSection(uploadId, results, result);
+    }
+  }
+
+  await db
+    .update(corpusUploads)
+    .set({ status: "completed", sourceData: null, updatedAt: new Date(), completedAt: new Date() })
+    .where(eq(corpusUploads.id, uploadId));
+
+  logger.info({
+    corpusUploadId: uploadId,
+    sections: sections.length,
+    itemsCreated: results.filter(r => r.outcome === "created").length,
+    message: "Corpus upload processed",
+  });
+}
+
+async function toReport(upload: CorpusUpload): Promise<CorpusUploadReport> {
+  const { getJobById } = await import("./jobQueue");
+  const job = upload.jobId ? await getJobById(upload.jobId) : undefined;
+  return {
+    id: upload.id,
+    filename: upload.filename,
+    format: upload.format,
+    sizeBytes: upload.sizeBytes,
+    trackId: upload.trackId,
+    autoApprove: upload.autoApprove,
+    // A job that ran out of retries leaves the upload mid-way
+    status: job?.status === "failed" && upload.status !== "completed" ? "failed" : upload.status,
+    progress: {
+      sectionsTotal: upload.sectionsTotal,
+      sectionsProcessed: upload.sectionsProcessed,
+      itemsCreated: upload.itemsCreated,
+      duplicatesSkipped: upload.duplicatesSkipped,
+      percent: upload.status === "completed"
+        ? 100
+        : upload.sectionsTotal > 0 ? Math.floor((upload.sectionsProcessed / upload.sectionsTotal) * 100) : 0,
+    },
+    results: upload.results,
+    error: upload.error ?? (job?.status === "failed" ? job.lastError : null),
+    job: job ? { status: job.status, attempts: job.attempts, lastError: job.lastError } : null,
+    uploadedByWallet: upload.uploadedByWallet,
+    createdAt: upload.createdAt,
+    completedAt: upload.completedAt,
+  };
+}
+
+export async function getCorpusUploadReport(uploadId: string): Promise<CorpusUploadReport | null> {
+  const [upload] = await db.select().from(corpusUploads).where(eq(corpusUploads.id, uploadId)).limit(1);
+  return upload ? toReport(upload) : null;
+}
+
+/**
+ * Recent uploads, newest first (all uploads, or one wallet's)
+ */
+export async function listCorpusUploads(options: { wallet?: string; limit?: number } = {}): Promise<CorpusUploadReport[]> {
+  const uploads = await db
+    .select()
+    .from(corpusUploads)
+    .where(options.wallet ? eq(corpusUploads.uploadedByWallet, options.wallet) : undefined)
+    .orderBy(desc(corpusUploads.createdAt))
+    .limit(options.limit ?? 20);
+  return Promise.all(uploads.map(toReport));
+}
@@ -0,0 +1,167 @@
+import { z } from "zod";
+import type { CorpusItemMetadata, TrainingCorpusItem } from "@shared/schema";
+
+/**
+ * Corpus item metadata, faceted listing and retrieval filters
+ *
+ * Metadata is normalized on write (licenses upper case, languages and tags
+ * lower case) so listing facets and retrieval filters can match values exactly.
+ * Facet counts are disjunctive: each facet is counted over the items matching
+ * every other active filter, so selecting one tag still shows how many items
+ * the other tags would add.
+ */
+
+const MAX_TAGS = 20;
+
+export const corpusMetadataSchema = z.object({
+  sourceUrl: z.string().trim().url().max(2000).optional(),
+  license: z.string().trim().min(1).max(64).regex(/^[A-Za-z0-9.+-]+$/, "License must be an SPDX-style identifier").optional(),
+  language: z.string().trim().regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, "Language must be a BCP 47 tag such as en or pt-BR").optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(MAX_TAGS).optional(),
+  difficulty: z.number().int().min(1).max(5).optional(),
+  author: z.string().trim().min(1).max(200).optional(),
+}).strict();
+
+export type CorpusMetadataInput = z.infer<typeof corpusMetadataSchema>;
+
+// Chat and search scoping; every listed field must match (values within a field are alternatives)
+export const corpusRetrievalFilterSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(40)).max(MAX_TAGS).optional(),
+  languages: z.array(z.string().trim().min(1).max(35)).max(10).optional(),
+  licenses: z.array(z.string().trim().min(1).max(64)).max(10).optional(),
+});
+
+export type CorpusRetrievalFilter = z.infer<typeof corpusRetrievalFilterSchema>;
+
+export function normalizeCorpusMetadata(input: CorpusMetadataInput): CorpusItemMetadata {
+  const metadata: CorpusItemMetadata = {};
+  if (input.sourceUrl) metadata.sourceUrl = input.sourceUrl;
+  if (input.license) metadata.license = input.license.toUpperCase();
+  if (input.language) metadata.language = input.language.toLowerCase();
+  if (input.tags?.length) metadata.tags = Array.from(new Set(input.tags.map(t => t.toLowerCase())));
+  if (input.difficulty !== undefined) metadata.difficulty = input.difficulty;
+  if (input.author) metadata.author = input.author;
+  return metadata;
+}
+
+/**
+ * Normalize a retrieval filter the same way as stored metadata; null when it filters nothing
+ */
+export function normalizeRetrievalFilter(filter?: CorpusRetrievalFilter | null): CorpusRetrievalFilter | null {
+  if (!filter) return null;
+  const normalized: CorpusRetrievalFilter = {};
+  if (filter.tags?.length) normalized.tags = Array.from(new Set(filter.tags.map(t => t.toLowerCase())));
+  if (filter.languages?.length) normalized.languages = Array.from(new Set(filter.languages.map(l => l.toLowerCase())));
+  if (filter.licenses?.length) normalized.licenses = Array.from(new Set(filter.licenses.map(l => l.toUpperCase())));
+  return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+// ===== FACETED LISTING =====
+
+export type CorpusFacetName = "tags" | "language" | "license" | "contributor" | "embedStatus" | "status" | "trackId";
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export type CorpusFacets = Record<CorpusFacetName, FacetCount[]>;
+
+export interface CorpusListFilter {
+  trackId?: string;
+  cycleId?: string;
+  search?: string;
+  status?: string[];
+  embedStatus?: string[];
+  contributor?: string[];
+  tags?: string[]; // Any of
+  languages?: string[];
+  licenses?: string[];
+  createdFrom?: Date;
+  createdTo?: Date;
+  approvedFrom?: Date;
+  approvedTo?: Date;
+}
+
+export function contributorOf(item: Pick<TrainingCorpusItem, "submitterWalletPubkey" | "createdByWallet">): string | null {
+  return item.submitterWalletPubkey || item.createdByWallet || null;
+}
+
+// Values an item contributes to each facet
+function facetValues(item: TrainingCorpusItem, facet: CorpusFacetName): string[] {
+  const metadata = item.metadata ?? {};
+  switch (facet) {
+    case "tags":
+      return metadata.tags ?? [];
+    case "language":
+      return metadata.language ? [metadata.language] : [];
+    case "license":
+      return metadata.license ? [metadata.license] : [];
+    case "contributor": {
+      const contributor = contributorOf(item);
+      return contributor ? [contributor] : [];
+    }
+    case "embedStatus":
+      return [item.embedStatus];
+    case "status":
+      return [item.status];
+    case "trackId":
+      return item.trackId ? [item.trackId] : [];
+  }
+}
+
+const FACET_FILTERS: Record<CorpusFacetName, (filter: CorpusListFilter) => string[] | undefined> = {
+  tags: f => f.tags?.map(t => t.toLowerCase()),
+  language: f => f.languages?.map(l => l.toLowerCase()),
+  license: f => f.licenses?.map(l => l.toUpperCase()),
+  contributor: f => f.contributor,
+  embedStatus: f => f.embedStatus,
+  status: f => f.status,
+  trackId: f => (f.trackId ? [f.trackId] : undefined),
+};
+
+const FACET_NAMES = Object.keys(FACET_FILTERS) as CorpusFacetName[];
+
+function inRange(date: Date | null, from?: Date, to?: Date): boolean {
+  if (!from && !to) return true;
+  if (!date) return false;
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+function matchesFixedFilters(item: TrainingCorpusItem, filter: CorpusListFilter): boolean {
+  if (filter.cycleId && item.cycleId !== filter.cycleId) return false;
+  if (filter.search && !item.normalizedText.toLowerCase().includes(filter.search.toLowerCase())) return false;
+  return inRange(item.createdAt, filter.createdFrom, filter.createdTo)
+    && inRange(item.approvedAt, filter.approvedFrom, filter.approvedTo);
+}
+
+function matchesFacet(item: TrainingCorpusItem, facet: CorpusFacetName, filter: CorpusListFilter): boolean {
+  const wanted = FACET_FILTERS[facet](filter);
+  if (!wanted || wanted.length === 0) return true;
+  return facetValues(item, facet).some(value => wanted.includes(value));
+}
+
+/**
+ * Apply a listing filter and count facet values (most frequent first)
+ */
+export function filterCorpusItems(items: TrainingCorpusItem[], filter: CorpusListFilter): { items: TrainingCorpusItem[]; facets: CorpusFacets } {
+  const candidates = items.filter(item => matchesFixedFilters(item, filter));
+  const facets = {} as CorpusFacets;
+
+  for (const facet of FACET_NAMES) {
+    const counts = new Map<string, number>();
+    for (const item of candidates) {
+      if (!FACET_NAMES.every(other => other === facet || matchesFacet(item, other, filter))) continue;
+      for (const value of facetValues(item, facet)) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    facets[facet] = Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  return {
+    items: candidates.filter(item => FACET_NAMES.every(facet => matchesFacet(item, facet, filter))),
+    facets,
+  };
+}
@@ -0,0 +1,211 @@
+import { db } from "../db";
+import { corpusChunks, trainingCorpusItems, type InjectionSignal, type TrainingCorpusItem } from "@shared/schema";
+import { and, asc, eq, gt, sql } from "drizzle-orm";
+import { getRAGGuardConfig, scoreInjectionRisk, type SanitizedChunk } from "./ragGuard";
+import { logger } from "../middleware/logger";
+
+/**
+ * Prompt-injection quarantine queue
+ *
+ * Chunks are scored by ragGuard when they are written (see guardChunks in rag.ts);
+ * chunks over RAG_GUARD_QUARANTINE_THRESHOLD are quarantined and left out of
+ * retrieval. Creators review the queue and either clear a chunk (its text is
+ * trusted for that item from then on, across embedding spaces and re-embeds) or
+ * reject the item it came from.
+ */
+
+export interface QuarantinedChunk {
+  chunkId: string;
+  corpusItemId: string;
+  chunkIndex: number;
+  chunkText: string;
+  injectionScore: number;
+  signals: InjectionSignal[];
+  item: {
+    title: string | null;
+    trackId: string | null;
+    status: string;
+    submitterWallet: string | null;
+    injectionScore: number | null; // Full-text score at submission
+  };
+  createdAt: Date;
+}
+
+function rowsOf(result: any): any[] {
+  return result.rows || result;
+}
+
+/**
+ * Quarantined chunks of items that haven't been rejected, riskiest first.
+ * An item's chunks exist once per embedding space; each text is listed once.
+ */
+export async function listQuarantinedChunks(limit: number = 50): Promise<QuarantinedChunk[]> {
+  const result = await db.execute(sql`
+    SELECT * FROM (
+      SELECT DISTINCT ON (cc.corpus_item_id, cc.chunk_index)
+        cc.id AS "chunkId",
+        cc.corpus_item_id AS "corpusItemId",
+        cc.chunk_index AS "chunkIndex",
+        cc.chunk_text AS "chunkText",
+        cc.injection_score AS "injectionScore",
+        cc.injection_signals AS "signals",
+        cc.created_at AS "createdAt",
+        tci.title,
+        tci.track_id AS "trackId",
+        tci.status,
+        COALESCE(tci.submitter_wallet_pubkey, tci.created_by_wallet) AS "submitterWallet",
+        tci.injection_score AS "itemInjectionScore"
+      FROM corpus_chunks cc
+      JOIN training_corpus_items tci ON cc.corpus_item_id = tci.id
+      WHERE cc.quarantine_status = 'quarantined'
+        AND tci.status <> 'rejected'
+      ORDER BY cc.corpus_item_id, cc.chunk_index, cc.created_at DESC
+    ) queue
+    ORDER BY "injectionScore" DESC, "createdAt" DESC
+    LIMIT ${limit}
+  `);
+
+  return rowsOf(result).map((r: any) => ({
+    chunkId: r.chunkId,
+    corpusItemId: r.corpusItemId,
+    chunkIndex: r.chunkIndex,
+    chunkText: r.chunkText,
+    injectionScore: parseFloat(r.injectionScore),
+    signals: r.signals ?? [],
+    item: {
+      title: r.title,
+      trackId: r.trackId,
+      status: r.status,
+      submitterWallet: r.submitterWallet,
+      injectionScore: r.itemInjectionScore === null ? null : parseFloat(r.itemInjectionScore),
+    },
+    createdAt: new Date(r.createdAt),
+  }));
+}
+
+async function getChunk(chunkId: string) {
+  const [chunk] = await db
+    .select({ id: corpusChunks.id, corpusItemId: corpusChunks.corpusItemId, chunkText: corpusChunks.chunkText, quarantineStatus: corpusChunks.quarantineStatus })
+    .from(corpusChunks)
+    .where(eq(corpusChunks.id, chunkId))
+    .limit(1);
+  return chunk;
+}
+
+/**
+ * Trust a quarantined chunk's text for its item. Returns the number of chunk rows
+ * released (one per embedding space), or null when the chunk isn't quarantined.
+ */
+export async function clearQuarantinedChunk(chunkId: string, reviewerWallet: string): Promise<{ corpusItemId: string; released: number } | null> {
+  const chunk = await getChunk(chunkId);
+  if (!chunk || chunk.quarantineStatus !== "quarantined") return null;
+
+  const released = await db
+    .update(corpusChunks)
+    .set({ quarantineStatus: "cleared", quarantineReviewedBy: reviewerWallet, quarantineReviewedAt: new Date() })
+    .where(and(
+      eq(corpusChunks.corpusItemId, chunk.corpusItemId),
+      eq(corpusChunks.chunkText, chunk.chunkText),
+      eq(corpusChunks.quarantineStatus, "quarantined")
+    ))
+    .returning({ id: corpusChunks.id });
+
+  logger.info({ chunkId, corpusItemId: chunk.corpusItemId, released: released.length, message: "Quarantined chunk cleared" });
+  return { corpusItemId: chunk.corpusItemId, released: released.length };
+}
+
+/**
+ * Reject the corpus item a quarantined chunk came from, taking all of its chunks
+ * out of retrieval. Returns null when the chunk isn't quarantined.
+ */
+export async function rejectQuarantinedItem(chunkId: string, reviewerWallet: string): Promise<TrainingCorpusItem | null> {
+  const chunk = await getChunk(chunkId);
+  if (!chunk || chunk.quarantineStatus !== "quarantined") return null;
+
+  return db.transaction(async (tx) => {
+    const [item] = await tx
+      .update(trainingCorpusItems)
+      .set({ status: "rejected", approvedAt: null, updatedAt: new Date() })
+      .where(eq(trainingCorpusItems.id, chunk.corpusItemId))
+      .returning();
+    await tx
+      .update(corpusChunks)
+      .set({ quarantineReviewedBy: reviewerWallet, quarantineReviewedAt: new Date() })
+      .where(and(eq(corpusChunks.corpusItemId, chunk.corpusItemId), eq(corpusChunks.quarantineStatus, "quarantined")));
+    logger.info({ chunkId, corpusItemId: chunk.corpusItemId, message: "Corpus item rejected from quarantine" });
+    return item ?? null;
+  });
+}
+
+/**
+ * Quarantine chunks the retrieval-time guard flagged that were stored unflagged
+ * (written before scoring, or under a higher threshold). Never throws.
+ */
+export async function quarantineDetectedChunks(sanitized: SanitizedChunk[]): Promise<void> {
+  const { quarantineThreshold } = getRAGGuardConfig();
+  const detected = sanitized.filter(s => s.injectionScan && s.originalChunk && s.injectionScan.score >= quarantineThreshold);
+  try {
+    for (const { injectionScan, originalChunk } of detected) {
+      const updated = await db
+        .update(corpusChunks)
+        .set({
+          injectionScore: injectionScan!.score.toFixed(3),
+          injectionSignals: injectionScan!.signals,
+          quarantineStatus: "quarantined",
+        })
+        .where(and(eq(corpusChunks.id, originalChunk!.id), eq(corpusChunks.quarantineStatus, "none")))
+        .returning({ id: corpusChunks.id });
+      if (updated.length > 0) {
+        logger.warn({ chunkId: originalChunk!.id, corpusItemId: originalChunk!.corpusItemId, injectionScore: injectionScan!.score, message: "RAG Guard: Quarantined chunk flagged at retrieval" });
+      }
+    }
+  } catch (error: any) {
+    logger.error({ error: error.message, message: "Failed to quarantine chunks flagged at retrieval" });
+  }
+}
+
+/**
+ * Re-score every stored chunk with the current heuristics and threshold.
+ * Cleared chunks stay cleared; unflagged chunks that now score high are quarantined
+ * and quarantined ones that no longer do are released.
+ */
+export async function rescanCorpusChunks(batchSize: number = 500): Promise<{ scanned: number; quarantined: number; released: number }> {
+  const { quarantineThreshold } = getRAGGuardConfig();
+  let scanned = 0;
+  let quarantined = 0;
+  let released = 0;
+  let lastId = "";
+
+  for (;;) {
+    const batch = await db
+      .select({ id: corpusChunks.id, chunkText: corpusChunks.chunkText, quarantineStatus: corpusChunks.quarantineStatus })
+      .from(corpusChunks)
+      .where(gt(corpusChunks.id, lastId))
+      .orderBy(asc(corpusChunks.id))
+      .limit(batchSize);
+    if (batch.length === 0) break;
+
+    for (const chunk of batch) {
+      const scan = scoreInjectionRisk(chunk.chunkText);
+      const flagged = scan.score >= quarantineThreshold;
+      let quarantineStatus = chunk.quarantineStatus;
+      if (chunk.quarantineStatus === "none" && flagged) {
+        quarantineStatus = "quarantined";
+        quarantined++;
+      } else if (chunk.quarantineStatus === "quarantined" && !flagged) {
+        quarantineStatus = "none";
+        released++;
+      }
+      await db
+        .update(corpusChunks)
+        .set({ injectionScore: scan.score.toFixed(3), injectionSignals: scan.signals, quarantineStatus })
+        .where(eq(corpusChunks.id, chunk.id));
+    }
+
+    scanned += batch.length;
+    lastId = batch[batch.length - 1].id;
+  }
+
+  logger.info({ scanned, quarantined, released, message: "Corpus chunks rescanned for prompt injection" });
+  return { scanned, quarantined, released };
+}
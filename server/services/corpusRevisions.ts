@@ -0,0 +1,373 @@
+import { db } from "../db";
+import { corpusItemRevisions, trainingCorpusItems, type CorpusItemRevision, type TrainingCorpusItem } from "@shared/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { computeContentHash } from "./embedWorker";
+import { applyPiiPolicy, getPiiConfig, type PiiReport } from "./piiScanner";
+import { logger } from "../middleware/logger";
+
+/**
+ * Corpus item revision history
+ *
+ * Every text or track edit goes through editCorpusItem, which stores the item's
+ * new state as a numbered revision (the first recorded edit also stores the text
+ * it replaced as revision 1). Revisions can be diffed word by word and restored;
+ * a revert is itself a new revision.
+ *
+ * Editing an approved item by more than CORPUS_REVISION_REVIEW_THRESHOLD of its
+ * words returns it to draft, so rewarded items can't be rewritten without review.
+ * The change is measured against the text as it was last approved, so a series
+ * of small edits adds up.
+ * New text goes through the PII policy (see piiScanner) before it is stored.
+ */
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+export interface TextDiff {
+  segments: DiffSegment[];
+  wordsAdded: number;
+  wordsRemoved: number;
+  changeRatio: number; // Changed words / words in the longer text (0 = identical, 1 = nothing in common)
+}
+
+export interface CorpusEditResult {
+  item: TrainingCorpusItem;
+  revision: CorpusItemRevision | null; // null when nothing changed
+  changeRatio: number; // Approved items: against the text at their last approval; otherwise against the previous text
+  returnedToReview: boolean;
+  piiReport: PiiReport | null; // Scan of the new text; null when no text was given. When rejected nothing was saved
+}
+
+// Above this many LCS cells the differing middle is reported as one removal + one insertion
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function getRevisionReviewThreshold(): number {
+  return parseFloat(process.env.CORPUS_REVISION_REVIEW_THRESHOLD || "0.2");
+}
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function pushSegment(segments: DiffSegment[], op: DiffOp, word: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += ` ${word}`;
+  } else {
+    segments.push({ op, text: word });
+  }
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence)
+ */
+export function diffText(before: string, after: string): TextDiff {
+  const a = words(before);
+  const b = words(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: Array<[DiffOp, string]> = [];
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    midA.forEach(w => ops.push(["delete", w]));
+    midB.forEach(w => ops.push(["insert", w]));
+  } else {
+    // lcs[i * width + j] = LCS length of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push(["equal", midA[i]]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        ops.push(["delete", midA[i++]]);
+      } else {
+        ops.push(["insert", midB[j++]]);
+      }
+    }
+    while (i < midA.length) ops.push(["delete", midA[i++]]);
+    while (j < midB.length) ops.push(["insert", midB[j++]]);
+  }
+
+  const segments: DiffSegment[] = [];
+  a.slice(0, prefix).forEach(w => pushSegment(segments, "equal", w));
+  ops.forEach(([op, w]) => pushSegment(segments, op, w));
+  a.slice(a.length - suffix).forEach(w => pushSegment(segments, "equal", w));
+
+  const wordsAdded = ops.filter(([op]) => op === "insert").length;
+  const wordsRemoved = ops.filter(([op]) => op === "delete").length;
+  const longest = Math.max(a.length, b.length);
+  return {
+    segments,
+    wordsAdded,
+    wordsRemoved,
+    changeRatio: longest === 0 ? 0 : Math.max(wordsAdded, wordsRemoved) / longest,
+  };
+}
+
+/**
+ * Whether an edit of this size sends an approved item back to review
+ */
+export function requiresReview(status: string, changeRatio: number, threshold: number = getRevisionReviewThreshold()): boolean {
+  return status === "approved" && changeRatio > threshold;
+}
+
+/**
+ * Share of an item's words an edit to `nextText` changes. Approved items are
+ * compared with their text at approval (when recorded), so the ratio grows with
+ * every edit since then instead of resetting each time.
+ */
+export function editChangeRatio(
+  item: Pick<TrainingCorpusItem, "status" | "normalizedText" | "approvedText">,
+  nextText: string
+): number {
+  const baseline = item.status === "approved" ? item.approvedText ?? item.normalizedText : item.normalizedText;
+  return diffText(baseline, nextText).changeRatio;
+}
+
+/**
+ * Update an item's text and/or track, recording the change as a revision.
+ * Returns null when the item doesn't exist.
+ */
+export async function editCorpusItem(
+  corpusItemId: string,
+  changes: { normalizedText?: string; trackId?: string },
+  author: { wallet?: string | null; reason?: string | null; revertedFromRevisionId?: string } = {}
+): Promise<CorpusEditResult | null> {
+  const result = await db.transaction(async (tx): Promise<{ edit: CorpusEditResult; previous: TrainingCorpusItem } | null> => {
+    const [item] = await tx
+      .select()
+      .from(trainingCorpusItems)
+      .where(eq(trainingCorpusItems.id, corpusItemId))
+      .for("update");
+    if (!item) return null;
+
+    const pii = changes.normalizedText !== undefined
+      ? applyPiiPolicy(changes.normalizedText, { ownWallet: item.submitterWalletPubkey ?? item.createdByWallet ?? undefined })
+      : null;
+    const unchanged = { item, revision: null, changeRatio: 0, returnedToReview: false, piiReport: pii?.report ?? null };
+    if (pii?.report.action === "rejected") {
+      return { edit: unchanged, previous: item };
+    }
+
+    const normalizedText = pii?.text ?? item.normalizedText;
+    const trackId = changes.trackId ?? item.trackId;
+    if (normalizedText === item.normalizedText && trackId === item.trackId) {
+      return { edit: unchanged, previous: item };
+    }
+
+    const [latest] = await tx
+      .select({ revisionNumber: corpusItemRevisions.revisionNumber })
+      .from(corpusItemRevisions)
+      .where(eq(corpusItemRevisions.corpusItemId, corpusItemId))
+      .orderBy(desc(corpusItemRevisions.revisionNumber))
+      .limit(1);
+    let revisionNumber = latest?.revisionNumber ?? 0;
+
+    // Keep the text this first recorded edit replaces
+    if (revisionNumber === 0) {
+      revisionNumber = 1;
+      await tx.insert(corpusItemRevisions).values({
+        corpusItemId,
+        revisionNumber,
+        normalizedText: item.normalizedText,
+        trackId: item.trackId,
+        contentHash: computeContentHash(item.title, item.normalizedText),
+        authorWallet: item.submitterWalletPubkey ?? item.createdByWallet,
+        reason: "original",
+        createdAt: item.createdAt,
+      });
+    }
+
+    const changeRatio = editChangeRatio(item, normalizedText);
+    const returnedToReview = requiresReview(item.status, changeRatio);
+
+    const [updated] = await tx
+      .update(trainingCorpusItems)
+      .set({
+        normalizedText,
+        trackId,
+        updatedAt: new Date(),
+        ...(returnedToReview ? { status: "draft", approvedAt: null } : {}),
+        // Items approved before approvedText existed start measuring from this edit
+        ...(!returnedToReview && item.status === "approved" && item.approvedText === null ? { approvedText: item.normalizedText } : {}),
+      })
+      .where(eq(trainingCorpusItems.id, corpusItemId))
+      .returning();
+
+    const [revision] = await tx
+      .insert(corpusItemRevisions)
+      .values({
+        corpusItemId,
+        revisionNumber: revisionNumber + 1,
+        normalizedText,
+        trackId,
+        contentHash: computeContentHash(item.title, normalizedText),
+        authorWallet: author.wallet ?? null,
+        reason: author.reason ?? null,
+        changeRatio: changeRatio.toFixed(4),
+        returnedToReview,
+        revertedFromRevisionId: author.revertedFromRevisionId ?? null,
+      })
+      .returning();
+
+    return { edit: { item: updated, revision, changeRatio, returnedToReview, piiReport: pii?.report ?? null }, previous: item };
+  });
+
+  if (!result) return null;
+  const { edit, previous } = result;
+  if (!edit.revision) return edit;
+
+  if (edit.returnedToReview) {
+    logger.info({ corpusItemId, changeRatio: edit.changeRatio, message: "Edit returned approved corpus item to review" });
+  } else if (edit.item.status === "approved") {
+    if (edit.item.normalizedText !== previous.normalizedText) {
+      const { checkAndQueueOnEdit } = await import("./embedWorker");
+      if (await checkAndQueueOnEdit(corpusItemId, edit.item.title, edit.item.normalizedText)) {
+        logger.info({ corpusItemId, message: "Content changed, re-queued for embedding" });
+      }
+    }
+    // Moving an item to another track can change the chunking it inherits
+    if (edit.item.trackId !== previous.trackId) {
+      const { requeueStaleChunking } = await import("./chunking");
+      await requeueStaleChunking({ corpusItemId });
+    }
+  }
+
+  return edit;
+}
+
+export async function listCorpusItemRevisions(corpusItemId: string): Promise<CorpusItemRevision[]> {
+  return db
+    .select()
+    .from(corpusItemRevisions)
+    .where(eq(corpusItemRevisions.corpusItemId, corpusItemId))
+    .orderBy(desc(corpusItemRevisions.revisionNumber));
+}
+
+export async function getCorpusItemRevision(corpusItemId: string, revisionId: string): Promise<CorpusItemRevision | undefined> {
+  const [revision] = await db
+    .select()
+    .from(corpusItemRevisions)
+    .where(and(eq(corpusItemRevisions.corpusItemId, corpusItemId), eq(corpusItemRevisions.id, revisionId)))
+    .limit(1);
+  return revision;
+}
+
+/**
+ * Diff two revisions of an item. Returns null when either doesn't belong to it.
+ */
+export async function diffCorpusItemRevisions(
+  corpusItemId: string,
+  fromRevisionId: string,
+  toRevisionId: string
+): Promise<{ from: CorpusItemRevision; to: CorpusItemRevision; diff: TextDiff } | null> {
+  const [from, to] = await Promise.all([
+    getCorpusItemRevision(corpusItemId, fromRevisionId),
+    getCorpusItemRevision(corpusItemId, toRevisionId),
+  ]);
+  if (!from || !to) return null;
+  return { from, to, diff: diffText(from.normalizedText, to.normalizedText) };
+}
+
+/**
+ * Restore an earlier revision's text and track as a new revision.
+ * Returns null when the revision doesn't belong to the item.
+ */
+export async function revertCorpusItem(
+  corpusItemId: string,
+  revisionId: string,
+  author: { wallet?: string | null; reason?: string | null } = {}
+): Promise<CorpusEditResult | null> {
+  const revision = await getCorpusItemRevision(corpusItemId, revisionId);
+  if (!revision) return null;
+  return editCorpusItem(
+    corpusItemId,
+    { normalizedText: revision.normalizedText, trackId: revision.trackId ?? undefined },
+    {
+      wallet: author.wallet,
+      reason: author.reason ?? `Reverted to revision ${revision.revisionNumber}`,
+      revertedFromRevisionId: revision.id,
+    }
+  );
+}
+
+/**
+ * Redact PII from every stored revision of an item, so history, diffs and
+ * reverts can't bring it back. Returns the number of revisions changed.
+ */
+async function scrubRevisionPii(corpusItemId: string, title: string | null, ownWallet?: string): Promise<number> {
+  const config = { ...getPiiConfig(), policy: "redact" as const };
+  const revisions = await db
+    .select({ id: corpusItemRevisions.id, normalizedText: corpusItemRevisions.normalizedText })
+    .from(corpusItemRevisions)
+    .where(eq(corpusItemRevisions.corpusItemId, corpusItemId));
+
+  let scrubbed = 0;
+  for (const revision of revisions) {
+    const pii = applyPiiPolicy(revision.normalizedText, { ownWallet, config });
+    if (pii.report.action !== "redacted") continue;
+    await db
+      .update(corpusItemRevisions)
+      .set({ normalizedText: pii.text, contentHash: computeContentHash(title, pii.text) })
+      .where(eq(corpusItemRevisions.id, revision.id));
+    scrubbed++;
+  }
+  return scrubbed;
+}
+
+/**
+ * Scan a stored item for PII before approval. Under the redact policy the
+ * redaction is saved as a revision; under reject the item is left as is and the
+ * caller refuses the approval. Unless rejected, the item's revision history is
+ * scrubbed too. Returns null when the item doesn't exist.
+ */
+export async function redactCorpusItemPii(
+  corpusItemId: string,
+  reviewerWallet?: string | null
+): Promise<{ report: PiiReport; edit: CorpusEditResult | null; revisionsScrubbed: number } | null> {
+  const [item] = await db
+    .select({ normalizedText: trainingCorpusItems.normalizedText })
+    .from(trainingCorpusItems)
+    .where(eq(trainingCorpusItems.id, corpusItemId))
+    .limit(1);
+  if (!item) return null;
+
+  // Resubmitting the stored text runs it through the edit's PII scan
+  const edit = await editCorpusItem(corpusItemId, { normalizedText: item.normalizedText }, { wallet: reviewerWallet, reason: "PII redacted" });
+  if (!edit) return null;
+  const report = edit.piiReport!;
+  if (report.action === "rejected") {
+    return { report, edit: null, revisionsScrubbed: 0 };
+  }
+
+  const revisionsScrubbed = await scrubRevisionPii(
+    corpusItemId,
+    edit.item.title,
+    edit.item.submitterWalletPubkey ?? edit.item.createdByWallet ?? undefined
+  );
+  if (revisionsScrubbed > 0) {
+    logger.info({ corpusItemId, revisionsScrubbed, message: "PII redacted from corpus item revisions" });
+  }
+  return { report, edit: edit.revision ? edit : null, revisionsScrubbed };
+}
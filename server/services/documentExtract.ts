@@ -0,0 +1,398 @@
+import { inflateSync } from "zlib";
+import type { CorpusUploadFormat } from "@shared/schema";
+
+/**
+ * Text extraction for uploaded corpus documents
+ *
+ * Every format is reduced to Markdown-style text (HTML headings become "#"
+ * lines) and then split into sections at headings. PDF support covers
+ * text-based PDFs with standard font encodings; scanned PDFs and fonts with
+ * custom glyph maps yield no usable text and are rejected.
+ */
+
+export interface DocumentSection {
+  title: string;
+  text: string;
+}
+
+export interface SectionOptions {
+  fallbackTitle: string; // Title for text before the first heading (usually the file name)
+  maxChars: number; // Longer sections are split into parts at paragraph breaks
+  minChars: number; // Shorter sections are merged into the one before them
+  maxHeadingLevel: number; // Deeper headings stay inside their section
+}
+
+const DEFAULT_SECTION_OPTIONS: Omit<SectionOptions, "fallbackTitle"> = {
+  maxChars: 8000,
+  minChars: 80,
+  maxHeadingLevel: 3,
+};
+
+const EXTENSION_FORMATS: Record<string, CorpusUploadFormat> = {
+  md: "markdown",
+  markdown: "markdown",
+  html: "html",
+  htm: "html",
+  txt: "text",
+  text: "text",
+  pdf: "pdf",
+};
+
+const MIME_FORMATS: Record<string, CorpusUploadFormat> = {
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "text/plain": "text",
+  "application/pdf": "pdf",
+};
+
+/**
+ * Format from the file extension, falling back to the content type
+ */
+export function detectFormat(filename: string, contentType?: string): CorpusUploadFormat | null {
+  const extension = filename.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension && EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+  const mime = contentType?.split(";")[0].trim().toLowerCase();
+  return (mime && MIME_FORMATS[mime]) || null;
+}
+
+export function titleFromFilename(filename: string): string {
+  const base = filename.replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "");
+  return base.replace(/[-_]+/g, " ").trim() || "Untitled document";
+}
+
+// ===== MARKDOWN / HTML =====
+
+function cleanMarkdown(text: string): string {
+  return text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/^---\n[\s\S]*?\n---\n/, "") // YAML front matter
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // Images keep their alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1"); // Links keep their label
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: "\u00A0",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : "";
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Reduce HTML to Markdown-style text: headings become "#" lines, block elements line breaks
+ */
+export function htmlToMarkdown(html: string): string {
+  const stripTags = (fragment: string) => decodeHtmlEntities(fragment.replace(/<[^>]*>/g, "")).replace(/\s+/g, " ").trim();
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  const text = body
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|nav|footer)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) => `\n\n${"#".repeat(Number(level))} ${stripTags(inner)}\n\n`)
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?(p|div|section|article|header|main|aside|ul|ol|table|tr|blockquote|pre|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, "\n\n")
+    .replace(/<\/t[dh]>/gi, " ")
+    .replace(/<[^>]*>/g, "");
+
+  const lines = decodeHtmlEntities(text)
+    .split("\n")
+    .map(line => line.replace(/[ \t\u00A0]+/g, " ").trim());
+  const markdown = lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+
+  // Use the <title> as the document heading when the body has no top-level heading
+  if (title && !/^# /m.test(markdown)) {
+    return `# ${stripTags(title)}\n\n${markdown}`;
+  }
+  return markdown;
+}
+
+// ===== PDF =====
+
+function readLiteralString(content: string, start: number): { value: string; end: number } {
+  let depth = 1;
+  let value = "";
+  let i = start + 1;
+  while (i < content.length && depth > 0) {
+    const ch = content[i];
+    if (ch === "\\") {
+      const next = content[i + 1];
+      const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", "(": "(", ")": ")", "\\": "\\" };
+      if (next in escapes) {
+        value += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        value += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else if (next === "\n" || next === "\r") {
+        i += next === "\r" && content[i + 2] === "\n" ? 3 : 2; // Line continuation
+      } else {
+        i += 1;
+      }
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (depth > 0) value += ch;
+    i++;
+  }
+  return { value, end: i };
+}
+
+function decodePdfString(bytes: string): string {
+  // UTF-16BE strings start with a byte order mark
+  if (bytes.startsWith("\u00FE\u00FF")) {
+    let decoded = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      decoded += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+    return decoded;
+  }
+  return bytes;
+}
+
+const NUMBER_TOKEN = /[-+]?(\d+\.?\d*|\.\d+)/g;
+const OPERATOR_TOKEN = /[a-zA-Z'"*]+/g;
+
+// The token starting exactly at `index` (content.slice(index).match(...) copies the rest of the stream every time)
+function tokenAt(pattern: RegExp, content: string, index: number): string | null {
+  pattern.lastIndex = index;
+  const match = pattern.exec(content);
+  return match && match.index === index ? match[0] : null;
+}
+
+/**
+ * Text shown by a page content stream's Tj / TJ / ' / " operators, with line breaks where the text moves down
+ */
+export function extractContentStreamText(content: string): string {
+  let out = "";
+  let pending = "";
+  let numbers: number[] = [];
+  let i = 0;
+
+  const newline = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+
+  while (i < content.length) {
+    const ch = content[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++;
+    } else if (ch === "(") {
+      const { value, end } = readLiteralString(content, i);
+      pending += decodePdfString(value);
+      i = end;
+    } else if (ch === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      const hex = content.slice(i + 1, end === -1 ? content.length : end).replace(/[^0-9a-f]/gi, "");
+      let bytes = "";
+      for (let h = 0; h < hex.length; h += 2) {
+        bytes += String.fromCharCode(parseInt(hex.slice(h, h + 2).padEnd(2, "0"), 16));
+      }
+      pending += decodePdfString(bytes);
+      i = end === -1 ? content.length : end + 1;
+    } else if (/[-+.\d]/.test(ch)) {
+      const token = tokenAt(NUMBER_TOKEN, content, i) ?? ch;
+      const value = parseFloat(token);
+      // Large negative kerning inside a TJ array is a word gap
+      if (value < -200 && pending && !pending.endsWith(" ")) pending += " ";
+      numbers.push(value);
+      i += token.length;
+    } else if (/[a-zA-Z'"*]/.test(ch)) {
+      const operator = tokenAt(OPERATOR_TOKEN, content, i)!;
+      i += operator.length;
+      switch (operator) {
+        case "Tj":
+        case "TJ":
+          out += pending;
+          break;
+        case "'":
+        case "\"":
+          newline();
+          out += pending;
+          break;
+        case "Td":
+        case "TD":
+          if (numbers.length >= 2 && numbers[numbers.length - 1] !== 0) newline();
+          else if (out && !/\s$/.test(out)) out += " ";
+          break;
+        case "T*":
+        case "Tm":
+        case "ET":
+          newline();
+          break;
+      }
+      pending = "";
+      numbers = [];
+    } else {
+      i++; // Array brackets, names, dictionaries
+    }
+  }
+  return out;
+}
+
+// Decompressed stream bytes allowed per PDF, so a small compression bomb can't exhaust memory
+export const DEFAULT_MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Text of a text-based PDF. Throws when the file has no extractable text or its
+ * compressed streams inflate past maxInflatedBytes in total.
+ */
+export function extractPdfText(data: Buffer, maxInflatedBytes: number = DEFAULT_MAX_INFLATED_BYTES): string {
+  const raw = data.toString("latin1");
+  if (!raw.startsWith("%PDF-")) {
+    throw new Error("Not a PDF file");
+  }
+
+  const pages: string[] = [];
+  let inflatedBytes = 0;
+  const objectPattern = /\d+\s+\d+\s+obj\b((?:(?!endobj)[\s\S])*?)stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = objectPattern.exec(raw)) !== null) {
+    const dictionary = match[1];
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) break;
+    objectPattern.lastIndex = end;
+
+    // Images, fonts, cross-reference and object streams carry no page text
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(XRef|ObjStm|XObject)|\/Length[123]\b/.test(dictionary)) continue;
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? "";
+    if (filters && filters.replace(/\/FlateDecode/g, "").replace(/[\[\]\s]/g, "")) continue;
+
+    let stream = Buffer.from(raw.slice(start, end).replace(/\r?\n$/, ""), "latin1");
+    if (filters.includes("FlateDecode")) {
+      const remaining = maxInflatedBytes - inflatedBytes;
+      try {
+        stream = inflateSync(stream, { maxOutputLength: Math.max(remaining, 1) });
+      } catch (error: any) {
+        if (error.code === "ERR_BUFFER_TOO_LARGE") {
+          throw new Error(`PDF decompresses to more than ${maxInflatedBytes} bytes`);
+        }
+        continue;
+      }
+      inflatedBytes += stream.length;
+    }
+    const content = stream.toString("latin1");
+    if (!/\bBT\b/.test(content)) continue;
+    pages.push(extractContentStreamText(content));
+  }
+
+  const text = pages.join("\n\n").replace(/[ \t]+/g, " ").replace(/ *\n */g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  const readable = text.replace(/[^\x20-\x7E\u00A0-\u024F\s]/g, "").length;
+  if (text.length < 20 || readable / text.length < 0.85) {
+    throw new Error("PDF has no extractable text (scanned pages or embedded font encodings are not supported)");
+  }
+  return text;
+}
+
+// ===== SECTIONS =====
+
+/**
+ * Extract Markdown-style text from an uploaded file
+ */
+export function extractDocumentText(data: Buffer, format: CorpusUploadFormat, options: { maxInflatedBytes?: number } = {}): string {
+  switch (format) {
+    case "pdf":
+      return extractPdfText(data, options.maxInflatedBytes);
+    case "html":
+      return htmlToMarkdown(data.toString("utf-8"));
+    case "markdown":
+      return cleanMarkdown(data.toString("utf-8"));
+    case "text":
+      return data.toString("utf-8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  }
+}
+
+function splitLongSection(section: DocumentSection, maxChars: number): DocumentSection[] {
+  if (section.text.length <= maxChars) return [section];
+
+  const parts: string[] = [];
+  let current = "";
+  for (const paragraph of section.text.split(/\n{2,}/)) {
+    // A single oversized paragraph is cut at the limit
+    for (let offset = 0; offset < paragraph.length; offset += maxChars) {
+      const piece = paragraph.slice(offset, offset + maxChars);
+      if (current && current.length + piece.length + 2 > maxChars) {
+        parts.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) parts.push(current);
+  return parts.map((text, index) => ({ title: `${section.title} (part ${index + 1})`, text }));
+}
+
+/**
+ * Split Markdown-style text into sections at headings. Titles join the heading path
+ * ("Guide - Staking - Rewards"); a heading with no text of its own only contributes to the path.
+ */
+export function splitIntoSections(text: string, options: Partial<SectionOptions> & Pick<SectionOptions, "fallbackTitle">): DocumentSection[] {
+  const config = { ...DEFAULT_SECTION_OPTIONS, ...options };
+  const raw: DocumentSection[] = [];
+  const path: string[] = [];
+  let title = config.fallbackTitle;
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const body = lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+    if (body) raw.push({ title, text: body });
+    lines = [];
+  };
+
+  for (const line of text.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading && heading[1].length <= config.maxHeadingLevel) {
+      flush();
+      const level = heading[1].length;
+      path.length = level - 1;
+      path[level - 1] = heading[2].trim();
+      title = path.filter(Boolean).join(" - ");
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  // Fold fragments into the section before them
+  const merged: DocumentSection[] = [];
+  for (const section of raw) {
+    const previous = merged[merged.length - 1];
+    if (previous && section.text.length < config.minChars) {
+      previous.text += `\n\n${section.title.split(" - ").pop()}\n${section.text}`;
+    } else {
+      merged.push({ ...section });
+    }
+  }
+
+  return merged.flatMap(section => splitLongSection(section, config.maxChars));
+}
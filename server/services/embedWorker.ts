@@ -1,7 +1,9 @@
 import { db } from "../db";
 import { trainingCorpusItems, corpusChunks } from "@shared/schema";
 import { eq, sql, and, lte, or, isNull } from "drizzle-orm";
-import { generateEmbedding, chunkText } from "./embedding";
+import { embedChunksForSpaces, replaceItemChunks } from "./rag";
+import { getWriteEmbeddingSpaces } from "./embeddingSpaces";
+import { chunkDocument, getItemChunkingConfig } from "./chunking";
 import { logger } from "../middleware/logger";
 import crypto from "crypto";
 
@@ -191,30 +193,15 @@ async function embedItemWithRetry(corpusItemId: string): Promise<void> {
   }
 
   const attemptNumber = (item.embedAttempts || 0) + 1;
+  const chunking = await getItemChunkingConfig(item);
 
   try {
+    // Embed before opening the transaction so no HTTP calls run while it holds locks
+    const chunks = chunkDocument(item.normalizedText, chunking);
+    const embedded = await embedChunksForSpaces(chunks, await getWriteEmbeddingSpaces());
+
     await db.transaction(async (tx) => {
-      await tx.delete(corpusChunks).where(eq(corpusChunks.corpusItemId, corpusItemId));
-
-      const chunks = chunkText(item.normalizedText);
-      
-      for (let i = 0; i < chunks.length; i++) {
-        const { embedding, model } = await generateEmbedding(chunks[i]);
-        const embeddingJson = JSON.stringify(embedding);
-
-        await tx.insert(corpusChunks).values({
-          corpusItemId,
-          chunkIndex: i,
-          chunkText: chunks[i],
-          embeddingModel: model,
-        });
-
-        await tx.execute(
-          sql`UPDATE corpus_chunks 
-              SET embedding = ${embeddingJson}::vector 
-              WHERE corpus_item_id = ${corpusItemId} AND chunk_index = ${i}`
-        );
-      }
+      await replaceItemChunks(tx, corpusItemId, chunks, chunking, embedded);
 
       const contentHash = computeContentHash(item.title, item.normalizedText);
 
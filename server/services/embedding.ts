@@ -1,77 +1,146 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
 import { logger } from "../middleware/logger";
+import { getEmbeddingDimension, getEmbeddingProvider, getLLMProvider, type LLMProviderName } from "./llmProvider";
 
-const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || "https://ollama.replit.dev";
-const OLLAMA_API_KEY = process.env.OLLAMA_API_KEY || "";
-const OLLAMA_EMBED_MODEL = process.env.OLLAMA_EMBED_MODEL || "nomic-embed-text";
-const EMBEDDING_DIMENSION = 1024;
+// EMBEDDING_DIMENSION is read in llmProvider so the mock provider can size its vectors too
+export { getEmbeddingDimension };
+
+const DEFAULT_EMBEDDING_BATCH_SIZE = 32;
 
 export interface EmbeddingResult {
   embedding: number[];
   model: string;
 }
 
-export async function generateEmbedding(text: string): Promise<EmbeddingResult> {
-  const url = `${OLLAMA_BASE_URL}/api/embed`;
-  
-  try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(OLLAMA_API_KEY ? { Authorization: `Bearer ${OLLAMA_API_KEY}` } : {}),
-      },
-      body: JSON.stringify({
-        model: OLLAMA_EMBED_MODEL,
-        input: text,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `Embedding API error ${response.status}: ${errorText}`;
-      
-      // Provide helpful instructions for common 404 model not found errors
-      if (response.status === 404 && errorText.includes("not found")) {
-        errorMessage = `Model "${OLLAMA_EMBED_MODEL}" not found in Ollama. Please run: ollama pull ${OLLAMA_EMBED_MODEL}`;
-      }
-      
-      throw new Error(errorMessage);
-    }
+// Provider and model to embed with (an embedding space, or the configured model)
+export interface EmbeddingTarget {
+  provider: LLMProviderName;
+  model: string;
+  dimension: number;
+}
 
-    const data = await response.json();
-    
-    if (data.embeddings && data.embeddings.length > 0) {
-      return {
-        embedding: data.embeddings[0],
-        model: OLLAMA_EMBED_MODEL,
-      };
-    }
-    
-    if (data.embedding) {
-      return {
-        embedding: data.embedding,
-        model: OLLAMA_EMBED_MODEL,
-      };
-    }
+export interface EmbeddingDimensionCheck {
+  ok: boolean;
+  model: string;
+  expected: number; // EMBEDDING_DIMENSION
+  modelDimension: number | null; // Size of the vectors the model returned (null when it could not be reached)
+  columnDimension: number | null; // corpus_chunks.embedding column size (null when unknown)
+  error?: string;
+}
 
-    throw new Error("No embedding returned from API");
-  } catch (error: any) {
-    logger.error({ error: error.message, model: OLLAMA_EMBED_MODEL, message: "Embedding generation failed" });
-    throw error;
+export function getEmbeddingBatchSize(): number {
+  return Math.max(1, parseInt(process.env.EMBEDDING_BATCH_SIZE || String(DEFAULT_EMBEDDING_BATCH_SIZE), 10));
+}
+
+/**
+ * Configured embedding provider and model. Corpus retrieval embeds with the active
+ * embedding space instead (see embeddingSpaces.ts), which may lag behind a config change.
+ */
+export function getConfiguredEmbeddingTarget(): EmbeddingTarget {
+  const provider = getEmbeddingProvider();
+  return { provider: provider.name, model: provider.embedModel, dimension: getEmbeddingDimension() };
+}
+
+/**
+ * Reject vectors that would not fit the embedding column. Inserting them fails
+ * (or, for query embeddings, makes every distance comparison error) much later.
+ */
+export function assertEmbeddingDimension(embedding: number[], model: string, expected: number = getEmbeddingDimension()): void {
+  if (!Array.isArray(embedding) || embedding.length !== expected) {
+    throw new Error(
+      `Embedding model "${model}" returned ${Array.isArray(embedding) ? embedding.length : 0}-dimensional vectors, ` +
+      `but corpus_chunks.embedding expects ${expected}. Use a ${expected}-dimensional embedding model, ` +
+      `or set EMBEDDING_DIMENSION and recreate the column to match the model.`
+    );
   }
 }
 
-export async function generateEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
+export async function generateEmbedding(text: string, target?: EmbeddingTarget): Promise<EmbeddingResult> {
+  const [result] = await generateEmbeddings([text], target);
+  return result;
+}
+
+/**
+ * Embed texts in batches of EMBEDDING_BATCH_SIZE, one provider request per batch.
+ * Results are in input order; any failed batch or wrong-sized vector fails the whole call.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  target: EmbeddingTarget = getConfiguredEmbeddingTarget()
+): Promise<EmbeddingResult[]> {
+  const provider = getLLMProvider(target.provider);
+  const batchSize = getEmbeddingBatchSize();
   const results: EmbeddingResult[] = [];
-  
-  for (const text of texts) {
-    const result = await generateEmbedding(text);
-    results.push(result);
+
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const batch = texts.slice(start, start + batchSize);
+    try {
+      const { embeddings, model } = await provider.embed(batch, target.model);
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Embedding API returned ${embeddings.length} vectors for ${batch.length} texts`);
+      }
+      for (const embedding of embeddings) {
+        assertEmbeddingDimension(embedding, model, target.dimension);
+        results.push({ embedding, model });
+      }
+    } catch (error: any) {
+      logger.error({ error: error.message, provider: provider.name, model: target.model, batchStart: start, batchSize: batch.length, message: "Embedding generation failed" });
+      throw error;
+    }
   }
-  
+
   return results;
 }
 
+/**
+ * Size of the pgvector corpus_chunks.embedding column (pgvector keeps it in atttypmod)
+ */
+async function getEmbeddingColumnDimension(): Promise<number | null> {
+  const result = await db.execute(sql`
+    SELECT atttypmod AS dimension
+    FROM pg_attribute
+    WHERE attrelid = 'corpus_chunks'::regclass AND attname = 'embedding' AND NOT attisdropped
+  `);
+  const rows: any[] = Array.isArray(result) ? result : (result.rows || []);
+  const dimension = Number(rows[0]?.dimension);
+  return Number.isFinite(dimension) && dimension > 0 ? dimension : null;
+}
+
+/**
+ * Compare the embedding model's output size and the embedding column with EMBEDDING_DIMENSION.
+ * Run at startup and from the provider status endpoint; never throws.
+ */
+export async function checkEmbeddingDimension(): Promise<EmbeddingDimensionCheck> {
+  const provider = getEmbeddingProvider();
+  const expected = getEmbeddingDimension();
+  const check: EmbeddingDimensionCheck = { ok: false, model: provider.embedModel, expected, modelDimension: null, columnDimension: null };
+
+  try {
+    check.columnDimension = await getEmbeddingColumnDimension();
+  } catch (error: any) {
+    logger.warn({ error: error.message, message: "Could not read corpus_chunks.embedding dimension" });
+  }
+
+  try {
+    const { embeddings, model } = await provider.embed(["dimension check"]);
+    check.model = model;
+    check.modelDimension = embeddings[0]?.length ?? 0;
+  } catch (error: any) {
+    check.error = `Embedding provider unavailable: ${error.message}`;
+    return check;
+  }
+
+  if (check.modelDimension !== expected) {
+    check.error = `Embedding model "${check.model}" returns ${check.modelDimension}-dimensional vectors, but EMBEDDING_DIMENSION is ${expected}`;
+  } else if (check.columnDimension !== null && check.columnDimension !== expected) {
+    check.error = `corpus_chunks.embedding is vector(${check.columnDimension}), but EMBEDDING_DIMENSION is ${expected}`;
+  } else {
+    check.ok = true;
+  }
+  return check;
+}
+
 export function chunkText(text: string, chunkSize: number = 1000, overlap: number = 200): string[] {
   const chunks: string[] = [];
   
@@ -98,7 +167,8 @@ export function chunkText(text: string, chunkSize: number = 1000, overlap: numbe
       chunks.push(chunk);
     }
     
-    start = end - overlap;
+    // A break point pulled back by more than the overlap must not stall the window
+    start = Math.max(start + 1, end - overlap);
     if (start >= text.length) break;
   }
   
@@ -124,9 +194,11 @@ export function cosineSimilarity(a: number[], b: number[]): number {
 }
 
 export function getEmbeddingConfig() {
+  const provider = getEmbeddingProvider();
   return {
-    model: OLLAMA_EMBED_MODEL,
-    dimension: EMBEDDING_DIMENSION,
-    baseUrl: OLLAMA_BASE_URL,
+    provider: provider.name,
+    model: provider.embedModel,
+    dimension: getEmbeddingDimension(),
+    baseUrl: provider.baseUrl,
   };
 }
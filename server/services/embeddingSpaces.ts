@@ -0,0 +1,386 @@
+import { db } from "../db";
+import {
+  corpusChunks,
+  embeddingSpaces,
+  trainingCorpusItems,
+  type EmbeddingSpace,
+} from "@shared/schema";
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { getEmbeddingDimension, type EmbeddingTarget } from "./embedding";
+import { getEmbeddingProviderName, getLLMProvider, type LLMProviderName } from "./llmProvider";
+import { logger } from "../middleware/logger";
+
+/**
+ * Embedding spaces
+ *
+ * Every chunk row belongs to the embedding space (provider + model) that produced
+ * its vector, and retrieval only compares query embeddings with chunks of the
+ * active space. Switching models is a migration campaign:
+ *
+ *   1. startEmbeddingMigration() creates a "building" space and enqueues an
+ *      embed_corpus_item job per approved item for it
+ *   2. while it builds, new or edited items are embedded into both spaces
+ *   3. once every approved item has chunks in the building space, the job worker
+ *      cuts over: the building space becomes active and the old one is retired,
+ *      in a single transaction
+ *
+ * Retired spaces keep their chunks until the next migration starts, so instances
+ * that still hold the old space in their cache keep answering until it expires.
+ * All spaces share the corpus_chunks.embedding column, so they must have the same
+ * dimension (EMBEDDING_DIMENSION).
+ */
+
+const ACTIVE_SPACE_CACHE_MS = 30 * 1000;
+
+let activeSpaceCache: { space: EmbeddingSpace; expiresAt: number } | null = null;
+
+export interface EmbeddingMigrationCoverage {
+  itemsTotal: number; // Approved items now
+  itemsEmbedded: number; // Approved items with chunks in the space
+  percent: number;
+}
+
+export type EmbeddingMigrationError =
+  | "same_model"
+  | "migration_in_progress"
+  | "provider_unavailable"
+  | "dimension_mismatch";
+
+export type EmbeddingMigrationResult =
+  | { ok: true; space: EmbeddingSpace; queued: number; cutover: boolean }
+  | { ok: false; error: EmbeddingMigrationError; message: string };
+
+export function toEmbeddingTarget(space: EmbeddingSpace): EmbeddingTarget {
+  return { provider: space.provider as LLMProviderName, model: space.model, dimension: space.dimension };
+}
+
+/**
+ * Coverage in percent; an empty corpus is fully covered
+ */
+export function computeCoveragePercent(itemsEmbedded: number, itemsTotal: number): number {
+  if (itemsTotal <= 0) return 100;
+  return Math.min(100, Math.floor((itemsEmbedded / itemsTotal) * 100));
+}
+
+export function isReadyForCutover(coverage: EmbeddingMigrationCoverage): boolean {
+  return coverage.itemsEmbedded >= coverage.itemsTotal;
+}
+
+/**
+ * Forget the cached active space (after a cutover, tests)
+ */
+export function clearEmbeddingSpaceCache(): void {
+  activeSpaceCache = null;
+}
+
+export async function getEmbeddingSpace(id: string): Promise<EmbeddingSpace | null> {
+  const [space] = await db.select().from(embeddingSpaces).where(eq(embeddingSpaces.id, id)).limit(1);
+  return space ?? null;
+}
+
+export async function getBuildingEmbeddingSpace(): Promise<EmbeddingSpace | null> {
+  const [space] = await db.select().from(embeddingSpaces).where(eq(embeddingSpaces.status, "building")).limit(1);
+  return space ?? null;
+}
+
+/**
+ * Space used for retrieval, cached for ACTIVE_SPACE_CACHE_MS.
+ * The first call on a database without spaces creates one from the existing chunks.
+ */
+export async function getActiveEmbeddingSpace(): Promise<EmbeddingSpace> {
+  if (activeSpaceCache && activeSpaceCache.expiresAt > Date.now()) {
+    return activeSpaceCache.space;
+  }
+
+  const [existing] = await db.select().from(embeddingSpaces).where(eq(embeddingSpaces.status, "active")).limit(1);
+  const space = existing ?? (await bootstrapActiveSpace());
+  activeSpaceCache = { space, expiresAt: Date.now() + ACTIVE_SPACE_CACHE_MS };
+  return space;
+}
+
+/**
+ * Spaces new chunks are written to: the active one, plus the building one during a migration
+ */
+export async function getWriteEmbeddingSpaces(): Promise<EmbeddingSpace[]> {
+  const active = await getActiveEmbeddingSpace();
+  const building = await getBuildingEmbeddingSpace();
+  return building ? [active, building] : [active];
+}
+
+/**
+ * Create the first active space. Chunks written before embedding spaces existed
+ * are adopted when they came from the model that embedded most of the corpus;
+ * items embedded with any other model are dropped and re-queued.
+ */
+async function bootstrapActiveSpace(): Promise<EmbeddingSpace> {
+  const provider = getEmbeddingProviderName();
+  const [dominant] = await db
+    .select({ model: corpusChunks.embeddingModel, count: sql<number>`count(*)::int` })
+    .from(corpusChunks)
+    .where(and(isNull(corpusChunks.embeddingSpaceId), sql`${corpusChunks.embeddingModel} IS NOT NULL`))
+    .groupBy(corpusChunks.embeddingModel)
+    .orderBy(desc(sql`count(*)`))
+    .limit(1);
+  const model = dominant?.model || getLLMProvider(provider).embedModel;
+
+  let space: EmbeddingSpace;
+  try {
+    [space] = await db
+      .insert(embeddingSpaces)
+      .values({ provider, model, dimension: getEmbeddingDimension(), status: "active", activatedAt: new Date() })
+      .returning();
+  } catch (error: any) {
+    // Another instance bootstrapped concurrently (one active space per database)
+    const [winner] = await db.select().from(embeddingSpaces).where(eq(embeddingSpaces.status, "active")).limit(1);
+    if (!winner) throw error;
+    return winner;
+  }
+
+  const adopted = await db
+    .update(corpusChunks)
+    .set({ embeddingSpaceId: space.id })
+    .where(and(isNull(corpusChunks.embeddingSpaceId), eq(corpusChunks.embeddingModel, model)))
+    .returning({ id: corpusChunks.id });
+  const foreign = await db
+    .delete(corpusChunks)
+    .where(isNull(corpusChunks.embeddingSpaceId))
+    .returning({ corpusItemId: corpusChunks.corpusItemId });
+
+  const requeue = Array.from(new Set(foreign.map(c => c.corpusItemId)));
+  if (requeue.length > 0) {
+    const { enqueueJob } = await import("./jobQueue");
+    for (const corpusItemId of requeue) {
+      await enqueueJob("embed_corpus_item", { corpusItemId, embeddingSpaceId: space.id, reason: "embedding_space_bootstrap" });
+    }
+  }
+
+  logger.info({
+    spaceId: space.id,
+    provider,
+    model,
+    adoptedChunks: adopted.length,
+    requeuedItems: requeue.length,
+    message: "Active embedding space created",
+  });
+  return space;
+}
+
+/**
+ * Approved items that have chunks in the space, against all approved items
+ */
+export async function getEmbeddingMigrationCoverage(spaceId: string): Promise<EmbeddingMigrationCoverage> {
+  const [totals] = await db
+    .select({
+      itemsTotal: sql<number>`count(*)::int`,
+      itemsEmbedded: sql<number>`count(*) FILTER (WHERE EXISTS (
+        SELECT 1 FROM corpus_chunks cc
+        WHERE cc.corpus_item_id = ${trainingCorpusItems.id} AND cc.embedding_space_id = ${spaceId}
+      ))::int`,
+    })
+    .from(trainingCorpusItems)
+    .where(eq(trainingCorpusItems.status, "approved"));
+
+  const itemsTotal = Number(totals?.itemsTotal ?? 0);
+  const itemsEmbedded = Number(totals?.itemsEmbedded ?? 0);
+  return { itemsTotal, itemsEmbedded, percent: computeCoveragePercent(itemsEmbedded, itemsTotal) };
+}
+
+/**
+ * Start re-embedding every approved item into a new space for the given model
+ * (defaults to the configured embedding provider and model)
+ */
+export async function startEmbeddingMigration(target: { provider?: LLMProviderName; model?: string } = {}): Promise<EmbeddingMigrationResult> {
+  const providerName = target.provider ?? getEmbeddingProviderName();
+  const provider = getLLMProvider(providerName);
+  const model = target.model || provider.embedModel;
+
+  const active = await getActiveEmbeddingSpace();
+  if (active.provider === providerName && active.model === model) {
+    return { ok: false, error: "same_model", message: `The corpus is already embedded with ${providerName}:${model}` };
+  }
+  const building = await getBuildingEmbeddingSpace();
+  if (building) {
+    return {
+      ok: false,
+      error: "migration_in_progress",
+      message: `A migration to ${building.provider}:${building.model} is in progress; cancel it first`,
+    };
+  }
+
+  const dimension = getEmbeddingDimension();
+  let modelDimension: number;
+  try {
+    const { embeddings } = await provider.embed(["dimension check"], model);
+    modelDimension = embeddings[0]?.length ?? 0;
+  } catch (error: any) {
+    return { ok: false, error: "provider_unavailable", message: `Embedding provider unavailable: ${error.message}` };
+  }
+  if (modelDimension !== dimension) {
+    return {
+      ok: false,
+      error: "dimension_mismatch",
+      message: `${providerName}:${model} returns ${modelDimension}-dimensional vectors, but corpus_chunks.embedding is vector(${dimension})`,
+    };
+  }
+
+  // Chunks of earlier retired spaces are no longer served by any instance
+  await purgeRetiredSpaceChunks();
+
+  const items = await db
+    .select({ id: trainingCorpusItems.id })
+    .from(trainingCorpusItems)
+    .where(eq(trainingCorpusItems.status, "approved"));
+
+  const [space] = await db
+    .insert(embeddingSpaces)
+    .values({ provider: providerName, model, dimension, status: "building", itemsTotal: items.length })
+    .returning();
+
+  const { enqueueJob } = await import("./jobQueue");
+  for (const item of items) {
+    await enqueueJob("embed_corpus_item", { corpusItemId: item.id, embeddingSpaceId: space.id, reason: "embedding_migration" });
+  }
+
+  logger.info({
+    spaceId: space.id,
+    provider: providerName,
+    model,
+    from: `${active.provider}:${active.model}`,
+    queued: items.length,
+    message: "Embedding migration started",
+  });
+
+  // Nothing to embed: cut over right away
+  const cutover = await maybeCutoverEmbeddingSpace();
+  return { ok: true, space: cutover ? { ...space, status: "active" } : space, queued: items.length, cutover };
+}
+
+/**
+ * Cut over to the building space if it covers every approved item.
+ * Called by the job worker after each embedding job; returns true when it cut over.
+ */
+export async function maybeCutoverEmbeddingSpace(): Promise<boolean> {
+  const building = await getBuildingEmbeddingSpace();
+  if (!building) return false;
+
+  const coverage = await getEmbeddingMigrationCoverage(building.id);
+  if (!isReadyForCutover(coverage)) return false;
+
+  return cutoverEmbeddingSpace(building.id);
+}
+
+/**
+ * Make a building space active and retire the current one, atomically.
+ * Returns false when the space is not (or no longer) building.
+ */
+export async function cutoverEmbeddingSpace(spaceId: string): Promise<boolean> {
+  const switched = await db.transaction(async (tx) => {
+    const [space] = await tx
+      .select()
+      .from(embeddingSpaces)
+      .where(and(eq(embeddingSpaces.id, spaceId), eq(embeddingSpaces.status, "building")))
+      .for("update");
+    if (!space) return false;
+
+    const now = new Date();
+    await tx
+      .update(embeddingSpaces)
+      .set({ status: "retired", retiredAt: now })
+      .where(eq(embeddingSpaces.status, "active"));
+    await tx
+      .update(embeddingSpaces)
+      .set({ status: "active", activatedAt: now })
+      .where(eq(embeddingSpaces.id, spaceId));
+    return true;
+  });
+
+  if (!switched) return false;
+  clearEmbeddingSpaceCache();
+
+  // Cached answers were matched with query embeddings from the old model
+  try {
+    const { clearAnswerCache } = await import("./answerCache");
+    await clearAnswerCache();
+  } catch (error: any) {
+    logger.warn({ error: error.message, message: "Failed to clear answer cache after embedding cutover" });
+  }
+
+  logger.info({ spaceId, message: "Embedding space cut over" });
+  return true;
+}
+
+/**
+ * Abandon a building space and drop its chunks. Its queued jobs become no-ops.
+ */
+export async function cancelEmbeddingMigration(spaceId: string): Promise<boolean> {
+  const cancelled = await db
+    .update(embeddingSpaces)
+    .set({ status: "retired", retiredAt: new Date() })
+    .where(and(eq(embeddingSpaces.id, spaceId), eq(embeddingSpaces.status, "building")))
+    .returning({ id: embeddingSpaces.id });
+  if (cancelled.length === 0) return false;
+
+  await db.delete(corpusChunks).where(eq(corpusChunks.embeddingSpaceId, spaceId));
+  logger.info({ spaceId, message: "Embedding migration cancelled" });
+  return true;
+}
+
+async function purgeRetiredSpaceChunks(): Promise<void> {
+  const retired = await db
+    .select({ id: embeddingSpaces.id })
+    .from(embeddingSpaces)
+    .where(eq(embeddingSpaces.status, "retired"));
+  if (retired.length === 0) return;
+
+  const deleted = await db
+    .delete(corpusChunks)
+    .where(inArray(corpusChunks.embeddingSpaceId, retired.map(s => s.id)))
+    .returning({ id: corpusChunks.id });
+  if (deleted.length > 0) {
+    logger.info({ chunks: deleted.length, message: "Purged chunks of retired embedding spaces" });
+  }
+}
+
+/**
+ * All spaces, newest first, with their chunk counts
+ */
+export async function listEmbeddingSpaces(): Promise<Array<EmbeddingSpace & { chunkCount: number }>> {
+  await getActiveEmbeddingSpace();
+  const rows = await db
+    .select({ space: embeddingSpaces, chunkCount: sql<number>`count(${corpusChunks.id})::int` })
+    .from(embeddingSpaces)
+    .leftJoin(corpusChunks, eq(corpusChunks.embeddingSpaceId, embeddingSpaces.id))
+    .groupBy(embeddingSpaces.id)
+    .orderBy(desc(embeddingSpaces.createdAt));
+  return rows.map(r => ({ ...r.space, chunkCount: Number(r.chunkCount) }));
+}
+
+/**
+ * Active space, the running migration with its coverage, and whether the
+ * configured embedding model still matches the active space
+ */
+export async function getEmbeddingSpaceStatus() {
+  const active = await getActiveEmbeddingSpace();
+  const building = await getBuildingEmbeddingSpace();
+  const configuredProvider = getEmbeddingProviderName();
+  const configuredModel = getLLMProvider(configuredProvider).embedModel;
+
+  return {
+    active: { id: active.id, provider: active.provider, model: active.model, dimension: active.dimension, activatedAt: active.activatedAt },
+    migration: building
+      ? {
+          id: building.id,
+          provider: building.provider,
+          model: building.model,
+          startedAt: building.createdAt,
+          itemsQueued: building.itemsTotal,
+          ...(await getEmbeddingMigrationCoverage(building.id)),
+        }
+      : null,
+    configured: {
+      provider: configuredProvider,
+      model: configuredModel,
+      matchesActive: configuredProvider === active.provider && configuredModel === active.model,
+    },
+  };
+}
@@ -11,6 +11,7 @@ interface ServiceStatus {
   latencyMs?: number;
   error?: string;
   baseUrl?: string;
+  provider?: string;
 }
 
 interface HealthResponse {
@@ -90,6 +91,7 @@ async function checkOllamaHealthWithLatency(): Promise<ServiceStatus> {
   return {
     status: health.ok ? "ok" : "down",
     latencyMs: Date.now() - start,
+    provider: health.provider,
     baseUrl: health.baseUrl,
     error: health.error,
   };
@@ -4,7 +4,7 @@ import { eq, and, lte, sql, or, isNull } from "drizzle-orm";
 import { logger } from "../middleware/logger";
 import crypto from "crypto";
 
-export type JobType = "embed_corpus_item";
+export type JobType = "embed_corpus_item" | "ingest_corpus_upload" | "run_retrieval_eval";
 export type JobStatus = "pending" | "running" | "succeeded" | "failed";
 
 export interface JobPayload {
@@ -7,6 +7,9 @@ import {
   type JobType,
 } from "./jobQueue";
 import { embedCorpusItem } from "./rag";
+import { maybeCutoverEmbeddingSpace } from "./embeddingSpaces";
+import { processCorpusUpload } from "./corpusIngest";
+import { processEvalRun } from "./retrievalEval";
 
 let workerInterval: NodeJS.Timeout | null = null;
 let isRunning = false;
@@ -20,12 +23,35 @@ async function processJob(job: { id: string; type: JobType; payload: any; attemp
   try {
     switch (job.type) {
       case "embed_corpus_item": {
-        const { corpusItemId } = job.payload;
+        const { corpusItemId, embeddingSpaceId } = job.payload;
         if (!corpusItemId || typeof corpusItemId !== "string") {
           throw new Error("Invalid payload: corpusItemId required");
         }
+        if (embeddingSpaceId !== undefined && typeof embeddingSpaceId !== "string") {
+          throw new Error("Invalid payload: embeddingSpaceId must be a string");
+        }
+
+        await embedCorpusItem(corpusItemId, embeddingSpaceId);
+        break;
+      }
+
+      case "ingest_corpus_upload": {
+        const { corpusUploadId } = job.payload;
+        if (!corpusUploadId || typeof corpusUploadId !== "string") {
+          throw new Error("Invalid payload: corpusUploadId required");
+        }
+
+        await processCorpusUpload(corpusUploadId);
+        break;
+      }
+
+      case "run_retrieval_eval": {
+        const { evalRunId, options } = job.payload;
+        if (!evalRunId || typeof evalRunId !== "string") {
+          throw new Error("Invalid payload: evalRunId required");
+        }
 
-        await embedCorpusItem(corpusItemId);
+        await processEvalRun(evalRunId, options ?? {});
         break;
       }
 
@@ -40,6 +66,15 @@ async function processJob(job: { id: string; type: JobType; payload: any; attemp
     await markJobFailed(job.id, errorMessage, job.attempts, job.maxAttempts);
     throw error; // Re-throw so caller knows it failed
   }
+
+  // Any embedding job may complete a running embedding migration
+  if (job.type === "embed_corpus_item") {
+    try {
+      await maybeCutoverEmbeddingSpace();
+    } catch (error: any) {
+      logger.error({ jobId: job.id, error: error.message, message: "Embedding space cutover check failed" });
+    }
+  }
 }
 
 /**
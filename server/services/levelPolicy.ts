@@ -1,3 +1,5 @@
+import { resolveRetrievalMode, type RetrievalMode } from "./rag";
+
 /**
  * Level-based policy system for AI intelligence levels (1-100)
  * Provides formula-based configuration instead of hardcoded values
@@ -5,11 +7,14 @@
 
 export interface LevelPolicy {
   retrievalEnabled: boolean;
+  retrievalMode: RetrievalMode; // Vector-only, lexical-only or fused hybrid search (see RAG_RETRIEVAL_MODE)
   preferCorpus: "off" | "weak" | "strong";
   topK: number;
   minScore: number;
   requireCitations: boolean;
+  regenerateUnsupported: boolean; // Retry once when citation verification fails (otherwise mark ungrounded)
   maxAnswerTokens: number;
+  maxHistoryTokens: number; // Budget for prior conversation turns included in the prompt
   temperature: number;
   simplicityMode: boolean;
 }
@@ -41,16 +46,20 @@ function normalizeLevel(level: number, minLevel: number, maxLevel: number): numb
 export function getLevelPolicy(level: number): LevelPolicy {
   // Clamp level to valid range
   const clampedLevel = Math.max(1, Math.min(100, Math.floor(level)));
+  const retrievalMode = resolveRetrievalMode(clampedLevel);
 
   // Levels 1-10: Beginner - No retrieval, simple mode
   if (clampedLevel <= 10) {
     return {
       retrievalEnabled: false,
+      retrievalMode,
       preferCorpus: "off",
       simplicityMode: true,
       maxAnswerTokens: 180,
+      maxHistoryTokens: 300,
       temperature: 0.8,
       requireCitations: false,
+      regenerateUnsupported: false,
       topK: 0,
       minScore: 0,
     };
@@ -61,13 +70,16 @@ export function getLevelPolicy(level: number): LevelPolicy {
     const t = normalizeLevel(clampedLevel, 11, 30);
     return {
       retrievalEnabled: true,
+      retrievalMode,
       preferCorpus: "weak",
       simplicityMode: false,
       topK: Math.round(lerp(2, 4, t)),
       minScore: lerp(0.80, 0.70, t),
       maxAnswerTokens: Math.round(lerp(220, 350, t)),
+      maxHistoryTokens: Math.round(lerp(400, 800, t)),
       temperature: 0.7,
       requireCitations: false,
+      regenerateUnsupported: false,
     };
   }
 
@@ -76,27 +88,50 @@ export function getLevelPolicy(level: number): LevelPolicy {
     const t = normalizeLevel(clampedLevel, 31, 70);
     return {
       retrievalEnabled: true,
+      retrievalMode,
       preferCorpus: "strong",
       simplicityMode: false,
       topK: Math.round(lerp(4, 8, t)),
       minScore: lerp(0.70, 0.60, t),
       requireCitations: clampedLevel >= 40,
+      regenerateUnsupported: false,
       maxAnswerTokens: Math.round(lerp(350, 700, t)),
+      maxHistoryTokens: Math.round(lerp(800, 1600, t)),
       temperature: lerp(0.7, 0.5, t),
     };
   }
 
-  // Levels 71-100: Elite - Strong corpus, citations required, maximum capabilities
+  // Levels 71-100: Elite - Strong corpus, citations required (unsupported answers regenerated), maximum capabilities
   const t = normalizeLevel(clampedLevel, 71, 100);
   return {
     retrievalEnabled: true,
+    retrievalMode,
     preferCorpus: "strong",
     simplicityMode: false,
     topK: Math.round(lerp(8, 12, t)),
     minScore: lerp(0.60, 0.55, t),
     requireCitations: true,
+    regenerateUnsupported: true,
     maxAnswerTokens: Math.round(lerp(700, 1200, t)),
+    maxHistoryTokens: Math.round(lerp(1600, 2400, t)),
     temperature: lerp(0.5, 0.35, t),
   };
 }
 
+/**
+ * Level ranges that share the same policy shape (retrieval mode, citation and retry rules).
+ * Answers generated anywhere in a band are interchangeable for caching purposes.
+ */
+const POLICY_BAND_BOUNDARIES = [10, 30, 39, 70, 100];
+
+export function getLevelPolicyBand(level: number): string {
+  const clampedLevel = Math.max(1, Math.min(100, Math.floor(level)));
+  let lower = 1;
+  for (const upper of POLICY_BAND_BOUNDARIES) {
+    if (clampedLevel <= upper) {
+      return `${lower}-${upper}`;
+    }
+    lower = upper + 1;
+  }
+  return "1-100";
+}
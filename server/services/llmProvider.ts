@@ -0,0 +1,708 @@
+/**
+ * LLM provider registry
+ *
+ * Chat, embeddings, model listing and health checks go through a shared
+ * LLMProvider interface so the inference backend can be switched by config:
+ *
+ *   LLM_PROVIDER        lmstudio | ollama | openai | mock   (default: lmstudio)
+ *   EMBEDDING_PROVIDER  lmstudio | ollama | openai | mock   (default: ollama, or mock when LLM_PROVIDER=mock)
+ *
+ * Reranking (second-stage retrieval scoring) uses the chat provider's rerank model when one is set.
+ *
+ * TEST_MODE (NODE_ENV=test + TEST_MODE=true) always resolves chat to the mock provider.
+ */
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON-encoded arguments as produced by the model
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+}
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  toolCalls?: ToolCall[]; // assistant messages that requested tools
+  toolCallId?: string; // tool messages: the call being answered
+  name?: string; // tool messages: the tool that produced the result
+};
+
+export interface ToolChatResult {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+export type LLMProviderName = "lmstudio" | "ollama" | "openai" | "mock";
+
+// Token counts as reported by the backend for one completion
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  max_tokens?: number;
+  signal?: AbortSignal;
+  // Called once per completion when the backend reports token usage (not every backend does)
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface EmbedResult {
+  embeddings: number[][];
+  model: string;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  provider: LLMProviderName;
+  baseUrl: string;
+  model?: string;
+  error?: string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  label: string;
+  baseUrl: string;
+  chatModel: string;
+  embedModel: string;
+  rerankModel: string; // Empty when the backend has no rerank model configured
+  isConfigured(): boolean;
+  chat(messages: ChatMessage[], opts?: ChatOptions): Promise<string>;
+  chatStream(messages: ChatMessage[], opts?: ChatOptions): AsyncGenerator<string>;
+  // Single non-streamed turn where the model may answer or request tool calls
+  chatWithTools(messages: ChatMessage[], tools: ToolDefinition[], opts?: ChatOptions): Promise<ToolChatResult>;
+  // `model` overrides embedModel (used while re-embedding into a new embedding space)
+  embed(texts: string[], model?: string): Promise<EmbedResult>;
+  // Cross-encoder relevance of each document to the query, in document order
+  rerank(query: string, documents: string[]): Promise<number[]>;
+  listModels(): Promise<string[]>;
+  health(): Promise<ProviderHealth>;
+}
+
+const HEALTH_TIMEOUT_MS = 5000;
+// Must match the corpus_chunks.embedding vector(N) column
+const DEFAULT_EMBEDDING_DIMENSION = 1024;
+export const MOCK_CHAT_RESPONSE = "Test response from mocked AI service";
+
+const LLM_PROVIDER_NAMES: LLMProviderName[] = ["lmstudio", "ollama", "openai", "mock"];
+
+export function getEmbeddingDimension(): number {
+  return parseInt(process.env.EMBEDDING_DIMENSION || String(DEFAULT_EMBEDDING_DIMENSION), 10);
+}
+
+function isTestMode(): boolean {
+  return process.env.NODE_ENV === "test" && process.env.TEST_MODE === "true";
+}
+
+function parseProviderName(value: string | undefined, fallback: LLMProviderName): LLMProviderName {
+  if (!value) return fallback;
+  const name = value.toLowerCase() as LLMProviderName;
+  if (!LLM_PROVIDER_NAMES.includes(name)) {
+    throw new Error(`Unknown LLM provider "${value}". Expected one of: ${LLM_PROVIDER_NAMES.join(", ")}`);
+  }
+  return name;
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * Fetch with a timeout, used for health and model listing calls
+ */
+async function fetchWithTimeout(url: string, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function describeHealthError(error: any): string {
+  return error.name === "AbortError"
+    ? `Connection timeout (${HEALTH_TIMEOUT_MS / 1000}s)`
+    : error.message || "Unknown error";
+}
+
+/**
+ * Read a streamed response body line by line
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        yield line;
+      }
+    }
+    if (buffer.length > 0) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ===== OpenAI-compatible (LM Studio, vLLM, OpenAI, ...) =====
+
+interface OpenAICompatibleConfig {
+  name: LLMProviderName;
+  label: string;
+  baseUrl: string;
+  chatModel: string;
+  embedModel: string;
+  rerankModel?: string;
+  apiKey?: string;
+}
+
+function toOpenAIMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function reportOpenAIUsage(j: any, opts: ChatOptions | undefined): void {
+  const usage = j?.usage;
+  if (opts?.onUsage && usage && typeof usage.prompt_tokens === "number") {
+    opts.onUsage({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 });
+  }
+}
+
+function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.map(tool => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const baseUrl = stripTrailingSlash(config.baseUrl);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+  };
+
+  const isConfigured = () => !!baseUrl && !!config.chatModel;
+
+  const requireConfig = () => {
+    if (!isConfigured()) {
+      throw new Error(`${config.label} not configured (missing base URL or model)`);
+    }
+  };
+
+  async function postChat(
+    messages: ChatMessage[],
+    opts: ChatOptions | undefined,
+    stream: boolean,
+    tools?: ToolDefinition[]
+  ) {
+    requireConfig();
+    const r = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.chatModel,
+        messages: messages.map(toOpenAIMessage),
+        temperature: opts?.temperature ?? 0.4,
+        max_tokens: opts?.max_tokens ?? 800,
+        // include_usage adds a final chunk with token counts (ignored by servers that don't support it)
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        ...(tools?.length ? { tools: toOpenAITools(tools), tool_choice: "auto" } : {}),
+      }),
+      signal: opts?.signal,
+    });
+    if (!r.ok) throw new Error(`${config.label} HTTP ${r.status}: ${await r.text()}`);
+    return r;
+  }
+
+  return {
+    name: config.name,
+    label: config.label,
+    baseUrl,
+    chatModel: config.chatModel,
+    embedModel: config.embedModel,
+    rerankModel: config.rerankModel ?? "",
+
+    isConfigured,
+
+    async chat(messages, opts) {
+      const r = await postChat(messages, opts, false);
+      const j: any = await r.json();
+      reportOpenAIUsage(j, opts);
+      return j?.choices?.[0]?.message?.content ?? "";
+    },
+
+    async chatWithTools(messages, tools, opts) {
+      const r = await postChat(messages, opts, false, tools);
+      const j: any = await r.json();
+      reportOpenAIUsage(j, opts);
+      const message = j?.choices?.[0]?.message;
+      const toolCalls: ToolCall[] = (message?.tool_calls ?? [])
+        .filter((call: any) => call?.function?.name)
+        .map((call: any, i: number) => ({
+          id: call.id || `call_${i}`,
+          name: call.function.name,
+          arguments: typeof call.function.arguments === "string"
+            ? call.function.arguments
+            : JSON.stringify(call.function.arguments ?? {}),
+        }));
+      return { content: message?.content ?? "", toolCalls };
+    },
+
+    async *chatStream(messages, opts) {
+      const r = await postChat(messages, opts, true);
+      if (!r.body) throw new Error(`${config.label} returned an empty stream`);
+
+      for await (const line of readLines(r.body)) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const data = trimmed.slice(5).trim();
+        if (data === "[DONE]") return;
+
+        try {
+          const j: any = JSON.parse(data);
+          reportOpenAIUsage(j, opts);
+          const token = j?.choices?.[0]?.delta?.content;
+          if (token) yield token;
+        } catch {
+          // Ignore keep-alive comments and malformed frames
+        }
+      }
+    },
+
+    async embed(texts, model = config.embedModel) {
+      if (!baseUrl || !model) {
+        throw new Error(`${config.label} embeddings not configured (missing base URL or embedding model)`);
+      }
+      const r = await fetch(`${baseUrl}/embeddings`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model, input: texts }),
+      });
+      if (!r.ok) throw new Error(`Embedding API error ${r.status}: ${await r.text()}`);
+
+      const j: any = await r.json();
+      const embeddings = (j?.data ?? [])
+        .slice()
+        .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+        .map((d: any) => d.embedding);
+      if (embeddings.length !== texts.length) {
+        throw new Error("No embedding returned from API");
+      }
+      return { embeddings, model };
+    },
+
+    async rerank(query, documents) {
+      if (!baseUrl || !config.rerankModel) {
+        throw new Error(`${config.label} reranking not configured (missing base URL or rerank model)`);
+      }
+      // Cohere/Jina-style /rerank, also served by vLLM, llama.cpp and TEI
+      const r = await fetch(`${baseUrl}/rerank`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model: config.rerankModel, query, documents }),
+      });
+      if (!r.ok) throw new Error(`Rerank API error ${r.status}: ${await r.text()}`);
+
+      const j: any = await r.json();
+      const scores = new Array<number>(documents.length).fill(NaN);
+      for (const result of j?.results ?? j?.data ?? []) {
+        const score = result?.relevance_score ?? result?.score;
+        if (typeof result?.index === "number" && typeof score === "number") {
+          scores[result.index] = score;
+        }
+      }
+      if (scores.some(score => Number.isNaN(score))) {
+        throw new Error("Rerank API did not score every document");
+      }
+      return scores;
+    },
+
+    async listModels() {
+      requireConfig();
+      const r = await fetchWithTimeout(`${baseUrl}/models`, { headers });
+      if (!r.ok) throw new Error(`HTTP ${r.status}: ${r.statusText}`);
+      const j: any = await r.json();
+      return (j?.data ?? []).map((m: any) => m.id).filter(Boolean);
+    },
+
+    async health() {
+      const status = { provider: config.name, baseUrl: baseUrl || "(not configured)", model: config.chatModel || "(not configured)" };
+      if (!isConfigured()) {
+        return { ok: false, ...status, error: `${config.label} not configured` };
+      }
+      try {
+        const r = await fetchWithTimeout(`${baseUrl}/models`, { headers });
+        if (!r.ok) {
+          return { ok: false, ...status, error: `HTTP ${r.status}: ${r.statusText}` };
+        }
+        return { ok: true, ...status };
+      } catch (error: any) {
+        return { ok: false, ...status, error: describeHealthError(error) };
+      }
+    },
+  };
+}
+
+// ===== Ollama native API (/api/chat, /api/embed, /api/tags) =====
+
+interface OllamaConfig {
+  baseUrl: string;
+  chatModel: string;
+  embedModel: string;
+  apiKey?: string;
+}
+
+function toOllamaMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === "tool") {
+    return { role: "tool", content: message.content, tool_name: message.name };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content,
+      tool_calls: message.toolCalls.map(call => {
+        let args: unknown = {};
+        try {
+          args = JSON.parse(call.arguments);
+        } catch {
+          // Keep empty arguments; the tool result already reported the parse error
+        }
+        return { function: { name: call.name, arguments: args } };
+      }),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+// Ollama reports token counts on the final (done) response
+function reportOllamaUsage(j: any, opts: ChatOptions | undefined): void {
+  if (opts?.onUsage && typeof j?.prompt_eval_count === "number") {
+    opts.onUsage({ promptTokens: j.prompt_eval_count, completionTokens: j.eval_count ?? 0 });
+  }
+}
+
+export function createOllamaProvider(config: OllamaConfig): LLMProvider {
+  const baseUrl = stripTrailingSlash(config.baseUrl);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+  };
+
+  async function postChat(
+    messages: ChatMessage[],
+    opts: ChatOptions | undefined,
+    stream: boolean,
+    tools?: ToolDefinition[]
+  ) {
+    if (!config.chatModel) throw new Error("Ollama not configured (missing OLLAMA_MODEL)");
+    const r = await fetch(`${baseUrl}/api/chat`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.chatModel,
+        messages: messages.map(toOllamaMessage),
+        stream,
+        ...(tools?.length ? { tools: toOpenAITools(tools) } : {}),
+        options: {
+          temperature: opts?.temperature ?? 0.4,
+          num_predict: opts?.max_tokens ?? 800,
+        },
+      }),
+      signal: opts?.signal,
+    });
+    if (!r.ok) throw new Error(`Ollama HTTP ${r.status}: ${await r.text()}`);
+    return r;
+  }
+
+  return {
+    name: "ollama",
+    label: "Ollama",
+    baseUrl,
+    chatModel: config.chatModel,
+    embedModel: config.embedModel,
+    rerankModel: "",
+
+    isConfigured: () => !!baseUrl && !!config.chatModel,
+
+    async chat(messages, opts) {
+      const r = await postChat(messages, opts, false);
+      const j: any = await r.json();
+      reportOllamaUsage(j, opts);
+      return j?.message?.content ?? "";
+    },
+
+    async chatWithTools(messages, tools, opts) {
+      const r = await postChat(messages, opts, false, tools);
+      const j: any = await r.json();
+      reportOllamaUsage(j, opts);
+      // Ollama returns arguments as an object and doesn't assign call ids
+      const toolCalls: ToolCall[] = (j?.message?.tool_calls ?? [])
+        .filter((call: any) => call?.function?.name)
+        .map((call: any, i: number) => ({
+          id: `call_${i}`,
+          name: call.function.name,
+          arguments: JSON.stringify(call.function.arguments ?? {}),
+        }));
+      return { content: j?.message?.content ?? "", toolCalls };
+    },
+
+    async *chatStream(messages, opts) {
+      const r = await postChat(messages, opts, true);
+      if (!r.body) throw new Error("Ollama returned an empty stream");
+
+      // Ollama streams newline-delimited JSON objects
+      for await (const line of readLines(r.body)) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+
+        let j: any;
+        try {
+          j = JSON.parse(trimmed);
+        } catch {
+          continue;
+        }
+        if (j.error) throw new Error(`Ollama stream error: ${j.error}`);
+        const token = j?.message?.content;
+        if (token) yield token;
+        if (j.done) {
+          reportOllamaUsage(j, opts);
+          return;
+        }
+      }
+    },
+
+    async embed(texts, model = config.embedModel) {
+      const r = await fetch(`${baseUrl}/api/embed`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model, input: texts }),
+      });
+
+      if (!r.ok) {
+        const errorText = await r.text();
+        // Provide helpful instructions for common 404 model not found errors
+        if (r.status === 404 && errorText.includes("not found")) {
+          throw new Error(`Model "${model}" not found in Ollama. Please run: ollama pull ${model}`);
+        }
+        throw new Error(`Embedding API error ${r.status}: ${errorText}`);
+      }
+
+      const j: any = await r.json();
+      if (Array.isArray(j.embeddings) && j.embeddings.length === texts.length) {
+        return { embeddings: j.embeddings, model };
+      }
+      // Older Ollama versions return a single `embedding`
+      if (j.embedding && texts.length === 1) {
+        return { embeddings: [j.embedding], model };
+      }
+      throw new Error("No embedding returned from API");
+    },
+
+    async rerank() {
+      throw new Error("Ollama has no rerank endpoint");
+    },
+
+    async listModels() {
+      const r = await fetchWithTimeout(`${baseUrl}/api/tags`, { headers });
+      if (!r.ok) throw new Error(`HTTP ${r.status}: ${r.statusText}`);
+      const j: any = await r.json();
+      return (j?.models ?? []).map((m: any) => m.name).filter(Boolean);
+    },
+
+    async health() {
+      const status = { provider: "ollama" as const, baseUrl, model: config.chatModel || "(not configured)" };
+      try {
+        const r = await fetchWithTimeout(`${baseUrl}/api/tags`, { headers });
+        if (!r.ok) {
+          return { ok: false, ...status, error: `HTTP ${r.status}: ${r.statusText}` };
+        }
+        return { ok: true, ...status };
+      } catch (error: any) {
+        return { ok: false, ...status, error: describeHealthError(error) };
+      }
+    },
+  };
+}
+
+// ===== Deterministic local mock =====
+
+function hashToken(token: string): number {
+  // FNV-1a 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedding: texts sharing words get similar vectors,
+ * so retrieval behaves sensibly without a real embedding model.
+ */
+export function mockEmbedding(text: string, dimension: number = getEmbeddingDimension()): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+  for (const token of tokens) {
+    const hash = hashToken(token);
+    vector[hash % dimension] += (hash & 0x80000000) ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map(v => v / norm);
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: "mock",
+    label: "Mock LLM",
+    baseUrl: "mock://local",
+    chatModel: "mock-chat",
+    embedModel: "mock-embed",
+    rerankModel: "mock-rerank",
+
+    isConfigured: () => true,
+
+    async chat() {
+      return MOCK_CHAT_RESPONSE;
+    },
+
+    async *chatStream() {
+      yield MOCK_CHAT_RESPONSE;
+    },
+
+    async chatWithTools() {
+      return { content: MOCK_CHAT_RESPONSE, toolCalls: [] };
+    },
+
+    async embed(texts, model = "mock-embed") {
+      return { embeddings: texts.map(t => mockEmbedding(t)), model };
+    },
+
+    async rerank(query, documents) {
+      const q = mockEmbedding(query);
+      return documents.map(doc => {
+        const d = mockEmbedding(doc);
+        return Math.max(0, q.reduce((sum, v, i) => sum + v * d[i], 0));
+      });
+    },
+
+    async listModels() {
+      return ["mock-chat", "mock-embed"];
+    },
+
+    async health() {
+      return { ok: true, provider: "mock", baseUrl: "mock://local", model: "mock-chat" };
+    },
+  };
+}
+
+// ===== Registry =====
+
+const providerFactories: Record<LLMProviderName, () => LLMProvider> = {
+  lmstudio: () =>
+    createOpenAICompatibleProvider({
+      name: "lmstudio",
+      label: "LM Studio",
+      baseUrl: process.env.LMSTUDIO_BASE_URL || "",
+      chatModel: process.env.LMSTUDIO_MODEL || "",
+      embedModel: process.env.LMSTUDIO_EMBED_MODEL || "",
+      rerankModel: process.env.LMSTUDIO_RERANK_MODEL || "",
+    }),
+  ollama: () =>
+    createOllamaProvider({
+      baseUrl: process.env.OLLAMA_BASE_URL || "https://ollama.replit.dev",
+      chatModel: process.env.OLLAMA_MODEL || "",
+      embedModel: process.env.OLLAMA_EMBED_MODEL || "nomic-embed-text",
+      apiKey: process.env.OLLAMA_API_KEY || undefined,
+    }),
+  openai: () =>
+    createOpenAICompatibleProvider({
+      name: "openai",
+      label: "OpenAI-compatible API",
+      baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+      chatModel: process.env.OPENAI_MODEL || "",
+      embedModel: process.env.OPENAI_EMBED_MODEL || "",
+      rerankModel: process.env.OPENAI_RERANK_MODEL || "",
+      apiKey: process.env.OPENAI_API_KEY || undefined,
+    }),
+  mock: createMockProvider,
+};
+
+const providerCache = new Map<LLMProviderName, LLMProvider>();
+
+export function getLLMProvider(name: LLMProviderName): LLMProvider {
+  let provider = providerCache.get(name);
+  if (!provider) {
+    provider = providerFactories[name]();
+    providerCache.set(name, provider);
+  }
+  return provider;
+}
+
+export function getChatProviderName(): LLMProviderName {
+  if (isTestMode()) return "mock";
+  return parseProviderName(process.env.LLM_PROVIDER, "lmstudio");
+}
+
+export function getEmbeddingProviderName(): LLMProviderName {
+  const fallback = parseProviderName(process.env.LLM_PROVIDER, "lmstudio") === "mock" ? "mock" : "ollama";
+  return parseProviderName(process.env.EMBEDDING_PROVIDER, fallback);
+}
+
+/**
+ * Provider used for chat completions
+ */
+export function getChatProvider(): LLMProvider {
+  return getLLMProvider(getChatProviderName());
+}
+
+/**
+ * Provider used for corpus and query embeddings
+ */
+export function getEmbeddingProvider(): LLMProvider {
+  return getLLMProvider(getEmbeddingProviderName());
+}
+
+/**
+ * Drop cached providers so the next lookup re-reads configuration (tests)
+ */
+export function resetLLMProviders(): void {
+  providerCache.clear();
+}
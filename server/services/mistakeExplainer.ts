@@ -0,0 +1,208 @@
+import type { Question, TrainAttempt } from "@shared/schema";
+import { storage } from "../storage";
+import { searchCorpus, type ChunkResult } from "./rag";
+import {
+  sanitizeChunks,
+  filterValidChunks,
+  formatSanitizedSourceList,
+  sanitizeCitations,
+  getRAGGuardConfig,
+} from "./ragGuard";
+import { getLevelPolicy } from "./levelPolicy";
+import { getPromptRenderer } from "./promptTemplates";
+import { lmstudioChat, type ChatMessage } from "./lmstudio";
+import { createTokenMeter, type ChatTokenUsage, type TokenMeter } from "./tokenUsage";
+import { guardOutput, type OutputGuardReport } from "./outputGuard";
+
+/**
+ * "Explain my mistake" reviews
+ *
+ * Walks a learner through the questions they missed in a training attempt.
+ * Each explanation is grounded on the question itself, its correct answer and
+ * corpus chunks retrieved from the question's own track, so the model explains
+ * the stored answer instead of re-deciding it.
+ */
+
+export interface MissedAnswer {
+  questionId: string;
+  answer: number | string | null; // Raw answer as submitted (option index for MCQ)
+}
+
+export interface MistakeExplanation {
+  questionId: string;
+  trackId: string | null;
+  questionText: string;
+  yourAnswer: string;
+  correctAnswer: string;
+  explanation: string;
+  corpusItemIds: string[];
+  sources: Array<{ chunkText: string; score: number; title: string | null; rerankScore?: number }>;
+  outputGuard: OutputGuardReport | null;
+}
+
+export interface AttemptExplanation {
+  items: MistakeExplanation[];
+  missedCount: number; // May exceed items.length when capped
+  usage: ChatTokenUsage;
+}
+
+// Longer attempts are explained for their first N misses
+export const MAX_EXPLAINED_QUESTIONS = 10;
+const SOURCE_TOP_K = 3;
+const SOURCE_MIN_SCORE = 0.3;
+const OPTION_LABELS = "ABCDEFGHIJ";
+
+/**
+ * Only completed attempts are explained; pending ones are still awaiting review
+ */
+export function isAttemptReviewed(attempt: Pick<TrainAttempt, "status">): boolean {
+  return attempt.status === "approved" || attempt.status === "rejected";
+}
+
+/**
+ * Questions answered incorrectly, in attempt order, from the server-graded evidence packet
+ */
+export function getMissedAnswers(evidencePacket: Record<string, any> | null | undefined): MissedAnswer[] {
+  const results: Array<{ questionId: string; correct: boolean }> = evidencePacket?.questionResults ?? [];
+  const answers: Array<number | string> = evidencePacket?.answersGiven ?? [];
+
+  return results
+    .map((result, i) => ({ result, answer: answers[i] ?? null }))
+    .filter(({ result }) => result && result.correct === false)
+    .map(({ result, answer }) => ({ questionId: result.questionId, answer }));
+}
+
+function formatOption(question: Question, index: number): string {
+  return `${OPTION_LABELS[index] ?? index + 1}) ${question.options[index]}`;
+}
+
+/**
+ * Human-readable form of a submitted answer
+ */
+export function describeAnswer(question: Question, answer: number | string | null): string {
+  if (answer === null || answer === "") {
+    return "(no answer)";
+  }
+  if (question.questionType === "numeric") {
+    return question.numericUnit ? `${answer} ${question.numericUnit}` : String(answer);
+  }
+
+  const index = typeof answer === "number" ? answer : parseInt(String(answer), 10);
+  if (!Number.isInteger(index) || index < 0 || index >= question.options.length) {
+    return "(no answer)";
+  }
+  return formatOption(question, index);
+}
+
+export function describeCorrectAnswer(question: Question): string {
+  if (question.questionType === "numeric") {
+    return describeAnswer(question, question.numericAnswer ?? null);
+  }
+  return formatOption(question, question.correctIndex);
+}
+
+/**
+ * The question block the model explains; options are listed so it can contrast them
+ */
+export function buildMistakePrompt(question: Question, yourAnswer: string, correctAnswer: string): string {
+  const lines = [`Question: ${question.text}`];
+  if (question.questionType !== "numeric") {
+    lines.push("Options:", ...question.options.map((_, i) => formatOption(question, i)));
+  }
+  lines.push(
+    `Learner's answer: ${yourAnswer}`,
+    `Correct answer: ${correctAnswer}`,
+    "",
+    "Explain why the learner's answer is wrong and why the correct answer is right."
+  );
+  return lines.join("\n");
+}
+
+async function explainQuestion(
+  question: Question,
+  answer: number | string | null,
+  aiLevel: number,
+  fallbackTrackId: string | null,
+  meter: TokenMeter
+): Promise<MistakeExplanation> {
+  const trackId = question.trackId ?? fallbackTrackId;
+  const policy = getLevelPolicy(aiLevel);
+  const prompts = await getPromptRenderer(trackId ?? undefined);
+  const track = trackId ? await storage.getTrack(trackId) : undefined;
+  const promptVars = { level: aiLevel, track: track?.name ?? "general" };
+
+  const yourAnswer = describeAnswer(question, answer);
+  const correctAnswer = describeCorrectAnswer(question);
+
+  let systemPrompt = prompts.render("explain_mistake", promptVars);
+  let instructions = systemPrompt;
+  let ragSources: ChunkResult[] = [];
+
+  // Retrieval is restricted to the question's track, whatever the wallet's level
+  if (trackId) {
+    try {
+      const results = await searchCorpus(
+        `${question.text}\n${correctAnswer}`,
+        SOURCE_TOP_K,
+        trackId,
+        SOURCE_MIN_SCORE,
+        policy.retrievalMode
+      );
+      const sanitizedChunks = sanitizeChunks(results, getRAGGuardConfig());
+      if (sanitizedChunks.some(s => s.injectionScan)) {
+        const { quarantineDetectedChunks } = await import("./corpusQuarantine");
+        void quarantineDetectedChunks(sanitizedChunks);
+      }
+      const sourceList = formatSanitizedSourceList(sanitizedChunks);
+      if (sourceList) {
+        const guardInstructions = prompts.render("rag_guard", promptVars) + "\n\n" + prompts.render("citations_preferred", promptVars);
+        systemPrompt += "\n\n" + prompts.render("rag_context", { ...promptVars, sources: sourceList }) + "\n\n" + guardInstructions;
+        instructions += "\n\n" + guardInstructions;
+      }
+      ragSources = filterValidChunks(sanitizedChunks).map(s => s.originalChunk!).filter(Boolean);
+    } catch (error: any) {
+      console.warn("[Explain] Corpus search failed, explaining from the question alone:", error.message);
+    }
+  }
+
+  const messages: ChatMessage[] = [
+    { role: "user", content: `${systemPrompt}\n\n${buildMistakePrompt(question, yourAnswer, correctAnswer)}` },
+  ];
+  const answerText = await lmstudioChat(messages, {
+    temperature: Math.min(policy.temperature, 0.5),
+    max_tokens: Math.max(policy.maxAnswerTokens, 300),
+    onUsage: meter.onUsage,
+  });
+  meter.settle(messages, answerText);
+  const guarded = guardOutput(answerText, instructions);
+
+  return {
+    questionId: question.id,
+    trackId,
+    questionText: question.text,
+    yourAnswer,
+    correctAnswer,
+    explanation: guarded.response,
+    corpusItemIds: Array.from(new Set(ragSources.map(s => s.corpusItemId))),
+    sources: sanitizeCitations(ragSources, 240),
+    outputGuard: guarded.report.triggered ? guarded.report : null,
+  };
+}
+
+/**
+ * Explain every missed question of an attempt (up to MAX_EXPLAINED_QUESTIONS).
+ * Callers must check that the attempt belongs to the requesting wallet.
+ */
+export async function explainAttempt(attempt: TrainAttempt, aiLevel: number): Promise<AttemptExplanation> {
+  const missed = getMissedAnswers(attempt.evidencePacket);
+  const meter = createTokenMeter();
+  const items: MistakeExplanation[] = [];
+
+  for (const { questionId, answer } of missed.slice(0, MAX_EXPLAINED_QUESTIONS)) {
+    const question = await storage.getQuestionById(questionId);
+    if (!question) continue; // Deleted since the attempt
+    items.push(await explainQuestion(question, answer, aiLevel, attempt.trackId, meter));
+  }
+
+  return { items, missedCount: missed.length, usage: meter.totals() };
+}
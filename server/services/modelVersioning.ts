@@ -1,5 +1,5 @@
 import { db } from "../db";
-import { modelVersionsV2, modelState, trainingCorpusItems } from "@shared/schema";
+import { modelVersionsV2, modelState, trainingCorpusItems, type RetrievalBenchmark } from "@shared/schema";
 import { eq, sql, and } from "drizzle-orm";
 import { logger } from "../middleware/logger";
 import crypto from "crypto";
@@ -13,6 +13,7 @@ export interface BenchmarkMetrics {
   hallucinationRate?: number;
   latencyMs?: number;
   evalCount?: number;
+  retrieval?: Record<string, RetrievalBenchmark>; // Written by retrieval eval runs (see retrievalEval.ts)
 }
 
 export interface ModelVersionConfig {
@@ -129,6 +130,9 @@ export async function createModelVersionForCycle(
   const corpusHash = await computeCorpusHash();
   const benchmarks = await runBenchmarkStub();
   const config = getModelVersionConfig();
+  // Pin the prompts in effect now so activating/rolling back this version restores them
+  const { getHeadPromptRevision } = await import("./promptTemplates");
+  const promptRevision = await getHeadPromptRevision();
 
   // Evaluate if version passes thresholds
   const evaluation = evaluateModelVersion(benchmarks, config);
@@ -141,6 +145,7 @@ export async function createModelVersionForCycle(
       status,
       corpusHash,
       benchmarks,
+      promptRevision,
       notes: notes || (evaluation.reason ? `Auto-evaluated: ${evaluation.reason}` : null),
     })
     .returning();
@@ -151,6 +156,7 @@ export async function createModelVersionForCycle(
     cycleId,
     status,
     corpusHash,
+    promptRevision,
     message: "Model version created",
   });
 
@@ -202,6 +208,19 @@ export async function getCurrentCorpusHash(): Promise<string> {
   return await computeCorpusHash();
 }
 
+/**
+ * Drop cached chat answers that belong to the previous model version.
+ * Never fails the version change itself.
+ */
+async function invalidateAnswerCache(): Promise<void> {
+  try {
+    const { purgeStaleAnswerCache } = await import("./answerCache");
+    await purgeStaleAnswerCache();
+  } catch (error: any) {
+    logger.warn({ error: error.message, message: "Failed to purge answer cache after model version change" });
+  }
+}
+
 /**
  * Activate a model version
  */
@@ -259,6 +278,8 @@ export async function activateModelVersion(versionId: string): Promise<void> {
       );
   }
 
+  await invalidateAnswerCache();
+
   logger.info({
     versionId,
     previousModelVersionId,
@@ -303,6 +324,8 @@ export async function rollbackModelVersion(): Promise<void> {
     .set({ status: "active" })
     .where(eq(modelVersions.id, previousVersionId));
 
+  await invalidateAnswerCache();
+
   logger.info({
     currentVersionId,
     previousVersionId,
@@ -310,6 +333,33 @@ export async function rollbackModelVersion(): Promise<void> {
   });
 }
 
+/**
+ * Re-pin the active model version to a prompt template revision, so prompt
+ * edits reach chat without waiting for the next cycle's version
+ */
+export async function pinActivePromptRevision(
+  promptRevision: number
+): Promise<{ versionId: string; previousRevision: number | null; promptRevision: number }> {
+  const activeVersion = await getActiveModelVersion();
+  if (!activeVersion) {
+    throw new Error("No active model version to pin");
+  }
+
+  await db
+    .update(modelVersions)
+    .set({ promptRevision })
+    .where(eq(modelVersions.id, activeVersion.id));
+
+  logger.info({
+    versionId: activeVersion.id,
+    previousRevision: activeVersion.promptRevision,
+    promptRevision,
+    message: "Active model version re-pinned to prompt revision",
+  });
+
+  return { versionId: activeVersion.id, previousRevision: activeVersion.promptRevision, promptRevision };
+}
+
 /**
  * Get all model versions
  */
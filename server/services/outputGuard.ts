@@ -0,0 +1,387 @@
+import { db } from "../db";
+import { chatOutputFlags, type ChatOutputFlag } from "@shared/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { redactSecrets } from "./ragGuard";
+import { logger } from "../middleware/logger";
+
+/**
+ * Output guard
+ *
+ * The RAG guard screens what goes into the prompt; this screens what comes out.
+ * A model answer is checked for secret values, for echoes of the system
+ * instructions (prompt leaks) and for policy-violating content such as asking
+ * users for their seed phrase. Depending on the mode the offending text is
+ * redacted, the whole answer is replaced, or the answer is kept and flagged.
+ * Every trigger is recorded for admin review.
+ */
+
+export type OutputGuardMode = "redact" | "block" | "flag";
+export type OutputGuardFindingType = "secret" | "prompt_echo" | "policy";
+
+export interface OutputGuardConfig {
+  enabled: boolean;
+  mode: OutputGuardMode;
+  echoShingleSize: number; // Words per shingle when comparing against the instructions
+  echoThreshold: number; // Share of instruction shingles repeated in the answer that counts as a leak
+  blockedTerms: string[]; // Extra case-insensitive terms treated as policy violations
+}
+
+export interface OutputGuardFinding {
+  type: OutputGuardFindingType;
+  rule: string;
+  excerpt: string;
+}
+
+export interface OutputGuardReport {
+  triggered: boolean;
+  mode: OutputGuardMode;
+  action: "none" | "redacted" | "blocked" | "flagged";
+  findings: OutputGuardFinding[];
+  echoRatio: number;
+  responseExcerpt?: string; // Start of the original answer (secrets redacted), set when triggered
+}
+
+export interface OutputGuardResult {
+  response: string;
+  report: OutputGuardReport;
+}
+
+export const BLOCKED_RESPONSE =
+  "I can't share that answer because it may contain sensitive or unsafe content. Please rephrase your question.";
+
+const ECHO_REPLACEMENT = "[instructions removed]";
+const POLICY_REPLACEMENT = "[removed]";
+const EXCERPT_LENGTH = 160;
+
+const NEGATION_PATTERN = /\b(?:never|not|don't|dont|no one|nobody|avoid)\b/i;
+
+// Wallet-safety rules: the assistant must never ask for keys or steer funds.
+// allowNegated rules don't fire on warnings like "never share your seed phrase".
+interface PolicyRule {
+  rule: string;
+  pattern: RegExp;
+  allowNegated?: boolean;
+}
+
+const POLICY_RULES: PolicyRule[] = [
+  {
+    rule: "credential_request",
+    allowNegated: true,
+    pattern: /\b(?:share|send|enter|paste|provide|type|give|tell)\b[^.!?\n]{0,40}\b(?:seed phrase|recovery phrase|secret recovery|mnemonic|private key|secret key)\b/i,
+  },
+  {
+    rule: "fund_transfer",
+    pattern: /\b(?:send|transfer|deposit)\b[^.!?\n]{0,40}\b(?:SOL|HIVE|tokens?|funds|crypto)\b[^.!?\n]{0,20}\bto\b[^.!?\n]{0,20}\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/i,
+  },
+  {
+    rule: "guard_bypass",
+    pattern: /\b(?:ignore|disregard)\b[^.!?\n]{0,20}\b(?:previous|prior|above|all)\b[^.!?\n]{0,20}\binstructions\b/i,
+  },
+];
+
+export function getOutputGuardConfig(): OutputGuardConfig {
+  const mode = (process.env.OUTPUT_GUARD_MODE || "redact") as OutputGuardMode;
+  return {
+    enabled: process.env.OUTPUT_GUARD_ENABLED !== "false", // Default true
+    mode: ["redact", "block", "flag"].includes(mode) ? mode : "redact",
+    echoShingleSize: parseInt(process.env.OUTPUT_GUARD_ECHO_SHINGLE_SIZE || "8", 10),
+    echoThreshold: parseFloat(process.env.OUTPUT_GUARD_ECHO_THRESHOLD || "0.25"),
+    blockedTerms: (process.env.OUTPUT_GUARD_BLOCKED_TERMS || "")
+      .split(",")
+      .map(term => term.trim())
+      .filter(Boolean),
+  };
+}
+
+function excerpt(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > EXCERPT_LENGTH ? collapsed.slice(0, EXCERPT_LENGTH) + "..." : collapsed;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Expand a character range to the sentence (or line) containing it
+ */
+function sentenceBounds(text: string, start: number, end: number): [number, number] {
+  let from = start;
+  while (from > 0 && !/[.!?\n]/.test(text[from - 1])) from--;
+  let to = end;
+  while (to < text.length && !/[.!?\n]/.test(text[to])) to++;
+  if (to < text.length && text[to] !== "\n") to++; // Keep the sentence's own punctuation in the span
+  while (from < to && /\s/.test(text[from])) from++;
+  return [from, to];
+}
+
+/**
+ * Replace ranges (merged when overlapping) with a placeholder
+ */
+function replaceRanges(text: string, ranges: Array<[number, number]>, replacement: string): string {
+  if (ranges.length === 0) return text;
+  const sorted = ranges.slice().sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [sorted[0]];
+  for (const [start, end] of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  let result = "";
+  let cursor = 0;
+  for (const [start, end] of merged) {
+    result += text.slice(cursor, start) + replacement;
+    cursor = end;
+  }
+  return result + text.slice(cursor);
+}
+
+interface WordSpan {
+  word: string;
+  start: number;
+  end: number;
+}
+
+function words(text: string): WordSpan[] {
+  const spans: WordSpan[] = [];
+  for (const match of Array.from(text.matchAll(/[A-Za-z0-9\u00C0-\u024F]+(?:['’][A-Za-z]+)?/g))) {
+    spans.push({ word: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length });
+  }
+  return spans;
+}
+
+function shingles(spans: WordSpan[], size: number): string[] {
+  const result: string[] = [];
+  for (let i = 0; i + size <= spans.length; i++) {
+    result.push(spans.slice(i, i + size).map(s => s.word).join(" "));
+  }
+  return result;
+}
+
+/**
+ * Find runs of the answer copied from the instructions.
+ * ratio = share of distinct instruction shingles that appear in the answer.
+ */
+export function detectPromptEcho(
+  response: string,
+  instructions: string,
+  shingleSize: number
+): { ratio: number; ranges: Array<[number, number]> } {
+  const instructionShingles = new Set(shingles(words(instructions), shingleSize));
+  if (instructionShingles.size === 0) {
+    return { ratio: 0, ranges: [] };
+  }
+
+  const responseWords = words(response);
+  const matched = new Set<string>();
+  const ranges: Array<[number, number]> = [];
+  shingles(responseWords, shingleSize).forEach((shingle, i) => {
+    if (instructionShingles.has(shingle)) {
+      matched.add(shingle);
+      ranges.push([responseWords[i].start, responseWords[i + shingleSize - 1].end]);
+    }
+  });
+
+  return { ratio: matched.size / instructionShingles.size, ranges };
+}
+
+function policyMatches(response: string, config: OutputGuardConfig): Array<{ rule: string; start: number; end: number }> {
+  const rules: PolicyRule[] = [
+    ...POLICY_RULES,
+    ...config.blockedTerms.map(term => ({ rule: `blocked_term:${term}`, pattern: new RegExp(`\\b${escapeRegExp(term)}\\b`, "i") })),
+  ];
+
+  const matches: Array<{ rule: string; start: number; end: number }> = [];
+  for (const { rule, pattern, allowNegated } of rules) {
+    const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g");
+    for (const match of Array.from(response.matchAll(global))) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (allowNegated && NEGATION_PATTERN.test(response.slice(sentenceBounds(response, start, end)[0], end))) {
+        continue;
+      }
+      matches.push({ rule, start, end });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Check an AI answer before it is returned or stored
+ *
+ * @param instructions - System prompt text the answer must not reveal (excluding retrieved sources,
+ *   which answers are allowed to quote)
+ */
+export function guardOutput(
+  response: string,
+  instructions: string,
+  config: OutputGuardConfig = getOutputGuardConfig()
+): OutputGuardResult {
+  const report: OutputGuardReport = { triggered: false, mode: config.mode, action: "none", findings: [], echoRatio: 0 };
+  if (!config.enabled || !response) {
+    return { response, report };
+  }
+
+  const secrets = redactSecrets(response, true);
+  for (const rule of Array.from(new Set(secrets.matches))) {
+    report.findings.push({ type: "secret", rule, excerpt: rule });
+  }
+
+  const echo = detectPromptEcho(response, instructions, config.echoShingleSize);
+  report.echoRatio = Math.round(echo.ratio * 1000) / 1000;
+  const echoed = echo.ratio >= config.echoThreshold;
+  if (echoed) {
+    const [start, end] = echo.ranges[0];
+    report.findings.push({ type: "prompt_echo", rule: "system_prompt", excerpt: excerpt(response.slice(start, end)) });
+  }
+
+  const policy = policyMatches(response, config);
+  for (const match of policy) {
+    report.findings.push({
+      type: "policy",
+      rule: match.rule,
+      excerpt: excerpt(redactSecrets(response.slice(match.start, match.end)).text),
+    });
+  }
+
+  if (report.findings.length === 0) {
+    return { response, report };
+  }
+  report.triggered = true;
+  report.responseExcerpt = excerpt(secrets.text);
+
+  if (config.mode === "flag") {
+    report.action = "flagged";
+    return { response, report };
+  }
+  if (config.mode === "block") {
+    report.action = "blocked";
+    return { response: BLOCKED_RESPONSE, report };
+  }
+
+  // Redact: drop whole sentences for echoes and policy hits (their meaning survives partial removal),
+  // then mask secret values in what remains
+  report.action = "redacted";
+  let redacted = response;
+  if (echoed) {
+    redacted = replaceRanges(redacted, echo.ranges.map(([s, e]) => sentenceBounds(redacted, s, e)), ECHO_REPLACEMENT);
+  }
+  const remainingPolicy = policyMatches(redacted, config);
+  redacted = replaceRanges(redacted, remainingPolicy.map(m => sentenceBounds(redacted, m.start, m.end)), POLICY_REPLACEMENT);
+  redacted = redactSecrets(redacted, true).text;
+
+  return { response: redacted, report };
+}
+
+export interface StreamGuard {
+  push(token: string): void;
+  end(): void; // Release the held-back tail unless the guard triggered
+}
+
+// End of a sentence or line: where streamed text may be released
+const RELEASE_BOUNDARY = /[.!?:;](?=\s)|\n/g;
+
+/**
+ * Gate streamed tokens through the guard. In redact and block modes text is
+ * released a sentence at a time, and only once the answer so far passes the
+ * guard; after it triggers nothing more is streamed, and the guarded final
+ * response replaces what the client has. Flag mode streams tokens unchanged.
+ */
+export function createStreamGuard(
+  instructions: string,
+  emit: (text: string) => void,
+  config: OutputGuardConfig = getOutputGuardConfig()
+): StreamGuard {
+  if (!config.enabled || config.mode === "flag") {
+    return { push: emit, end: () => {} };
+  }
+
+  let released = "";
+  let pending = "";
+  let withheld = false;
+
+  const release = (upTo: number) => {
+    const candidate = released + pending.slice(0, upTo);
+    if (guardOutput(candidate, instructions, config).report.triggered) {
+      withheld = true;
+      return;
+    }
+    emit(pending.slice(0, upTo));
+    released = candidate;
+    pending = pending.slice(upTo);
+  };
+
+  return {
+    push(token: string) {
+      if (withheld) return;
+      pending += token;
+      let boundary = -1;
+      RELEASE_BOUNDARY.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = RELEASE_BOUNDARY.exec(pending)) !== null) {
+        boundary = match.index + match[0].length;
+      }
+      if (boundary > 0) release(boundary);
+    },
+    end() {
+      if (!withheld && pending) release(pending.length);
+    },
+  };
+}
+
+/**
+ * Record a triggered guard for admin review
+ */
+export async function recordOutputFlag(
+  report: OutputGuardReport,
+  walletAddress: string,
+  chatMessageId: string | null
+): Promise<ChatOutputFlag> {
+  const [flag] = await db
+    .insert(chatOutputFlags)
+    .values({
+      chatMessageId,
+      walletAddress,
+      mode: report.mode,
+      action: report.action,
+      findingTypes: Array.from(new Set(report.findings.map(f => f.type))),
+      findings: report.findings,
+      responseExcerpt: report.responseExcerpt ?? "",
+    })
+    .returning();
+
+  logger.warn({
+    flagId: flag.id,
+    chatMessageId,
+    action: report.action,
+    rules: report.findings.map(f => f.rule),
+    message: "Output guard triggered",
+  });
+  return flag;
+}
+
+/**
+ * Recent flags, newest first, optionally limited to one finding type
+ */
+export async function listOutputFlags(
+  options: { type?: OutputGuardFindingType; walletAddress?: string; limit?: number } = {}
+): Promise<ChatOutputFlag[]> {
+  const conditions = [];
+  if (options.type) {
+    conditions.push(sql`${chatOutputFlags.findingTypes} ? ${options.type}`);
+  }
+  if (options.walletAddress) {
+    conditions.push(eq(chatOutputFlags.walletAddress, options.walletAddress));
+  }
+
+  return await db
+    .select()
+    .from(chatOutputFlags)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(chatOutputFlags.createdAt))
+    .limit(options.limit ?? 50);
+}
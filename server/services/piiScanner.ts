@@ -0,0 +1,201 @@
+/**
+ * PII detection and redaction for contributed text
+ *
+ * Corpus submissions, corpus approvals and training attempt submissions are
+ * scanned for personal information before they are stored, since that text ends
+ * up in chat prompts and citations. Depending on PII_POLICY the matches are
+ * replaced with placeholders or the submission is rejected; either way the
+ * submitter gets a report of what was found (values masked).
+ */
+
+export type PiiEntityType = "email" | "phone" | "street_address" | "wallet_address" | "credit_card" | "ip_address";
+export type PiiPolicy = "redact" | "reject";
+
+export interface PiiConfig {
+  enabled: boolean;
+  entityTypes: PiiEntityType[];
+  policy: PiiPolicy;
+  walletAllowlist: string[]; // Addresses that are public knowledge (token mints, programs)
+}
+
+export interface PiiMatch {
+  type: PiiEntityType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiReport {
+  policy: PiiPolicy;
+  action: "none" | "redacted" | "rejected";
+  total: number;
+  entities: Array<{ type: PiiEntityType; count: number; examples: string[] }>; // Examples are masked
+}
+
+export const PII_ENTITY_TYPES: PiiEntityType[] = ["email", "phone", "street_address", "wallet_address", "credit_card", "ip_address"];
+
+// IP addresses look like version numbers, so they are opt-in
+const DEFAULT_ENTITY_TYPES: PiiEntityType[] = ["email", "phone", "street_address", "wallet_address", "credit_card"];
+
+const PLACEHOLDERS: Record<PiiEntityType, string> = {
+  email: "[EMAIL_REMOVED]",
+  phone: "[PHONE_REMOVED]",
+  street_address: "[ADDRESS_REMOVED]",
+  wallet_address: "[WALLET_REMOVED]",
+  credit_card: "[CARD_REMOVED]",
+  ip_address: "[IP_REMOVED]",
+};
+
+const STREET_SUFFIXES = "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Square|Sq";
+
+// Checked in this order; a span claimed by an earlier type is not matched again
+// standalone: the number must not continue a longer digit group ("4111 1111 1111" inside a card number)
+const DETECTORS: Array<{ type: PiiEntityType; pattern: RegExp; valid?: (value: string) => boolean; standalone?: boolean }> = [
+  { type: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  {
+    type: "wallet_address",
+    pattern: /\b0x[a-fA-F0-9]{40}\b|\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g,
+    // Base58 runs of plain words are not addresses
+    valid: (value) => value.startsWith("0x") || (/\d/.test(value) && /[a-z]/.test(value) && /[A-Z]/.test(value)),
+  },
+  { type: "credit_card", pattern: /\b\d(?:[ -]?\d){12,18}\b/g, valid: (value) => luhnValid(value.replace(/\D/g, "")), standalone: true },
+  {
+    type: "phone",
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}\b/g,
+    valid: (value) => {
+      const digits = value.replace(/\D/g, "").length;
+      return digits >= 10 && digits <= 15;
+    },
+    standalone: true,
+  },
+  { type: "ip_address", pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g },
+  { type: "street_address", pattern: new RegExp(`\\b\\d{1,6}\\s+(?:[A-Z][a-z]+\\.?\\s+){1,4}(?:${STREET_SUFFIXES})\\b\\.?`, "g") },
+];
+
+export function getPiiConfig(): PiiConfig {
+  const configured = (process.env.PII_ENTITY_TYPES || "")
+    .split(",")
+    .map(t => t.trim())
+    .filter((t): t is PiiEntityType => PII_ENTITY_TYPES.includes(t as PiiEntityType));
+  const walletAllowlist = (process.env.PII_WALLET_ALLOWLIST || "").split(",").map(w => w.trim()).filter(Boolean);
+  if (process.env.HIVE_MINT) walletAllowlist.push(process.env.HIVE_MINT);
+
+  return {
+    enabled: process.env.PII_SCAN_ENABLED !== "false",
+    entityTypes: configured.length > 0 ? configured : DEFAULT_ENTITY_TYPES,
+    policy: process.env.PII_POLICY === "reject" ? "reject" : "redact",
+    walletAllowlist,
+  };
+}
+
+function luhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Find PII in text, in order of appearance
+ *
+ * @param ownWallet - The submitter's wallet, which they may mention freely
+ */
+export function detectPii(text: string, config: PiiConfig = getPiiConfig(), ownWallet?: string): PiiMatch[] {
+  const allowedWallets = new Set([...config.walletAllowlist, ...(ownWallet ? [ownWallet] : [])]);
+  const matches: PiiMatch[] = [];
+  const overlaps = (start: number, end: number) => matches.some(m => start < m.end && end > m.start);
+
+  for (const { type, pattern, valid, standalone } of DETECTORS) {
+    if (!config.entityTypes.includes(type)) continue;
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const value = match[0].trim();
+      const start = match.index;
+      const end = start + match[0].length;
+      if (valid && !valid(value)) continue;
+      if (standalone && (/\d[\s.-]?$/.test(text.slice(Math.max(0, start - 2), start)) || /^[\s.-]?\d/.test(text.slice(end, end + 2)))) continue;
+      if (type === "wallet_address" && allowedWallets.has(value)) continue;
+      if (overlaps(start, end)) continue;
+      matches.push({ type, start, end, value });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace matches with their placeholders
+ */
+export function redactPii(text: string, matches: PiiMatch[]): string {
+  let redacted = text;
+  // Right to left so earlier offsets stay valid
+  for (const match of [...matches].sort((a, b) => b.start - a.start)) {
+    redacted = redacted.slice(0, match.start) + PLACEHOLDERS[match.type] + redacted.slice(match.end);
+  }
+  return redacted;
+}
+
+export function maskPiiValue(value: string): string {
+  if (value.length <= 6) return "***";
+  return `${value.slice(0, 2)}***${value.slice(-2)}`;
+}
+
+function buildReport(matches: PiiMatch[], policy: PiiPolicy, action: PiiReport["action"]): PiiReport {
+  const byType = new Map<PiiEntityType, PiiMatch[]>();
+  for (const match of matches) {
+    byType.set(match.type, [...(byType.get(match.type) ?? []), match]);
+  }
+  return {
+    policy,
+    action,
+    total: matches.length,
+    entities: Array.from(byType, ([type, found]) => ({
+      type,
+      count: found.length,
+      examples: found.slice(0, 3).map(m => maskPiiValue(m.value)),
+    })),
+  };
+}
+
+/**
+ * Scan text and apply the configured policy. With "reject", text is returned
+ * unchanged and the caller must refuse it when report.action is "rejected".
+ */
+export function applyPiiPolicy(
+  text: string,
+  options: { ownWallet?: string; config?: PiiConfig } = {}
+): { text: string; report: PiiReport } {
+  const config = options.config ?? getPiiConfig();
+  if (!config.enabled) {
+    return { text, report: buildReport([], config.policy, "none") };
+  }
+
+  const matches = detectPii(text, config, options.ownWallet);
+  if (matches.length === 0) {
+    return { text, report: buildReport([], config.policy, "none") };
+  }
+  if (config.policy === "reject") {
+    return { text, report: buildReport(matches, config.policy, "rejected") };
+  }
+  return { text: redactPii(text, matches), report: buildReport(matches, config.policy, "redacted") };
+}
+
+/**
+ * Entity counts for audit metadata (never the values themselves)
+ */
+export function piiAuditMetadata(report: PiiReport): Record<string, any> {
+  return {
+    policy: report.policy,
+    action: report.action,
+    total: report.total,
+    entities: Object.fromEntries(report.entities.map(e => [e.type, e.count])),
+  };
+}
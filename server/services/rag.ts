@@ -1,31 +1,199 @@
 import { db } from "../db";
-import { corpusChunks, trainingCorpusItems } from "@shared/schema";
-import { eq, sql, and, desc } from "drizzle-orm";
-import { generateEmbedding, chunkText, getEmbeddingConfig } from "./embedding";
+import { corpusChunks, trainingCorpusItems, type ChunkingConfig, type ChunkQuarantineStatus, type EmbeddingSpace } from "@shared/schema";
+import { eq, sql, and, desc, isNull, or, type SQL } from "drizzle-orm";
+import { generateEmbedding, generateEmbeddings, type EmbeddingResult } from "./embedding";
+import { chunkDocument, getItemChunkingConfig } from "./chunking";
+import { getActiveEmbeddingSpace, getEmbeddingSpace, getWriteEmbeddingSpaces, toEmbeddingTarget } from "./embeddingSpaces";
+import type { DuplicateCheckResult } from "./corpusDedup";
+import { normalizeRetrievalFilter, type CorpusRetrievalFilter } from "./corpusMetadata";
+import { getRAGGuardConfig, scanSubmission, scoreInjectionRisk, type InjectionScan } from "./ragGuard";
 import { logger } from "../middleware/logger";
 
 export interface ChunkResult {
   id: string;
   corpusItemId: string;
   chunkText: string;
-  score: number;
+  score: number; // Cosine similarity to the query (0 when the chunk has no embedding)
   trackId: string | null;
   title: string | null;
+  matchedBy?: "vector" | "lexical" | "both"; // Retrieval path(s) that found the chunk
+  rerankScore?: number; // Relevance from the rerank stage, when it ran (score keeps the retrieval score)
+  quarantineStatus?: ChunkQuarantineStatus; // "cleared" chunks were reviewed and are trusted despite their injection score
 }
 
+export type RetrievalMode = "vector" | "lexical" | "hybrid";
+
 export interface RAGConfig {
   defaultK: number;
   minScore: number;
+  retrievalMode: RetrievalMode | "auto"; // "auto": vector below hybridMinLevel, hybrid from it
+  hybridMinLevel: number;
+  rrfK: number; // Reciprocal rank fusion constant: fused = Σ weight / (rrfK + rank)
+  vectorWeight: number;
+  lexicalWeight: number;
+  candidateMultiplier: number; // Each path fetches k × this many candidates before fusion
 }
 
+const RETRIEVAL_MODES = ["vector", "lexical", "hybrid"];
+
 export function getRAGConfig(): RAGConfig {
+  const mode = process.env.RAG_RETRIEVAL_MODE || "auto";
   return {
     defaultK: parseInt(process.env.RAG_DEFAULT_K || "5", 10),
     minScore: parseFloat(process.env.RAG_MIN_SCORE || "0.5"),
+    retrievalMode: RETRIEVAL_MODES.includes(mode) ? (mode as RetrievalMode) : "auto",
+    hybridMinLevel: parseInt(process.env.RAG_HYBRID_MIN_LEVEL || "31", 10),
+    rrfK: parseInt(process.env.RAG_RRF_K || "60", 10),
+    vectorWeight: parseFloat(process.env.RAG_VECTOR_WEIGHT || "1"),
+    lexicalWeight: parseFloat(process.env.RAG_LEXICAL_WEIGHT || "1"),
+    candidateMultiplier: parseInt(process.env.RAG_CANDIDATE_MULTIPLIER || "3", 10),
   };
 }
 
-export async function embedCorpusItem(corpusItemId: string): Promise<number> {
+/**
+ * Retrieval mode for a level (or for level-less searches when level is undefined)
+ */
+export function resolveRetrievalMode(level: number | undefined, config: RAGConfig = getRAGConfig()): RetrievalMode {
+  if (config.retrievalMode !== "auto") {
+    return config.retrievalMode;
+  }
+  return level !== undefined && level >= config.hybridMinLevel ? "hybrid" : "vector";
+}
+
+/**
+ * Whether a result clears the similarity threshold. Lexical matches contain the
+ * query's terms literally, so they count even when their embedding is further away.
+ */
+export function meetsRetrievalThreshold(result: ChunkResult, minScore: number): boolean {
+  return result.score >= minScore || result.matchedBy === "lexical" || result.matchedBy === "both";
+}
+
+/**
+ * Weighted reciprocal rank fusion of ranked result lists, best first.
+ * A chunk's fused score is Σ weight / (rrfK + rank) over the lists containing it (rank from 1).
+ */
+export function fuseRankings(
+  rankings: Array<{ source: "vector" | "lexical"; weight: number; results: ChunkResult[] }>,
+  rrfK: number
+): Array<ChunkResult & { fusedScore: number }> {
+  const fused = new Map<string, ChunkResult & { fusedScore: number }>();
+
+  for (const { source, weight, results } of rankings) {
+    results.forEach((result, index) => {
+      const contribution = weight / (rrfK + index + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.fusedScore += contribution;
+        existing.score = Math.max(existing.score, result.score);
+        if (existing.matchedBy !== source) existing.matchedBy = "both";
+      } else {
+        fused.set(result.id, { ...result, matchedBy: source, fusedScore: contribution });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.fusedScore - a.fusedScore || b.score - a.score);
+}
+
+export interface ChunkGuardResult {
+  scan: InjectionScan;
+  quarantineStatus: ChunkQuarantineStatus;
+}
+
+/**
+ * Score each chunk for prompt injection. Chunks over the quarantine threshold are
+ * quarantined unless a creator already cleared the same text for this item.
+ */
+export function guardChunks(chunks: string[], clearedTexts: Set<string> = new Set()): ChunkGuardResult[] {
+  const { quarantineThreshold } = getRAGGuardConfig();
+  return chunks.map(text => {
+    const scan = scoreInjectionRisk(text);
+    const flagged = scan.score >= quarantineThreshold;
+    return { scan, quarantineStatus: !flagged ? "none" : clearedTexts.has(text) ? "cleared" : "quarantined" };
+  });
+}
+
+/**
+ * Single INSERT for all of an item's chunks with their embeddings (embedding is a
+ * raw pgvector column, so the rows are written with SQL rather than the query builder)
+ */
+export function buildChunkInsert(
+  corpusItemId: string,
+  chunks: string[],
+  embeddings: EmbeddingResult[],
+  chunking: ChunkingConfig,
+  embeddingSpaceId: string,
+  guard: ChunkGuardResult[] = guardChunks(chunks)
+): SQL {
+  const rows = chunks.map((text, i) => sql`(
+    ${corpusItemId}, ${i}, ${text}, ${embeddings[i].model}, ${embeddingSpaceId},
+    ${JSON.stringify(chunking)}::jsonb, ${JSON.stringify(embeddings[i].embedding)}::vector,
+    ${guard[i].scan.score}, ${JSON.stringify(guard[i].scan.signals)}::jsonb, ${guard[i].quarantineStatus}
+  )`);
+  return sql`
+    INSERT INTO corpus_chunks (corpus_item_id, chunk_index, chunk_text, embedding_model, embedding_space_id, chunking_config, embedding,
+      injection_score, injection_signals, quarantine_status)
+    VALUES ${sql.join(rows, sql`, `)}
+  `;
+}
+
+export interface SpaceEmbeddings {
+  space: EmbeddingSpace;
+  embeddings: EmbeddingResult[];
+}
+
+/**
+ * Embed an item's chunks once per embedding space (HTTP only, no database writes)
+ */
+export async function embedChunksForSpaces(chunks: string[], spaces: EmbeddingSpace[]): Promise<SpaceEmbeddings[]> {
+  const embedded: SpaceEmbeddings[] = [];
+  for (const space of spaces) {
+    embedded.push({ space, embeddings: await generateEmbeddings(chunks, toEmbeddingTarget(space)) });
+  }
+  return embedded;
+}
+
+/**
+ * Replace an item's chunks in each embedded space (and drop any rows written
+ * before embedding spaces). Run inside the caller's transaction.
+ * Quarantine clearances carry over to chunks whose text is unchanged.
+ */
+export async function replaceItemChunks(
+  tx: Pick<typeof db, "delete" | "execute">,
+  corpusItemId: string,
+  chunks: string[],
+  chunking: ChunkingConfig,
+  embedded: SpaceEmbeddings[]
+): Promise<void> {
+  const cleared = await tx.execute(sql`
+    SELECT DISTINCT chunk_text AS "chunkText" FROM corpus_chunks
+    WHERE corpus_item_id = ${corpusItemId} AND quarantine_status = 'cleared'
+  `);
+  const guard = guardChunks(chunks, new Set(((cleared as any).rows || cleared).map((r: any) => r.chunkText)));
+  const quarantined = guard.filter(g => g.quarantineStatus === "quarantined").length;
+  if (quarantined > 0) {
+    logger.warn({ corpusItemId, quarantined, message: "RAG Guard: Quarantined chunks scored as prompt injection" });
+  }
+
+  for (const { space, embeddings } of embedded) {
+    await tx.delete(corpusChunks).where(and(
+      eq(corpusChunks.corpusItemId, corpusItemId),
+      or(eq(corpusChunks.embeddingSpaceId, space.id), isNull(corpusChunks.embeddingSpaceId))
+    ));
+    if (chunks.length > 0) {
+      await tx.execute(buildChunkInsert(corpusItemId, chunks, embeddings, chunking, space.id, guard));
+    }
+  }
+}
+
+/**
+ * Chunk and embed an approved corpus item, replacing its chunks.
+ * Without embeddingSpaceId the item is written to every space being served or
+ * built; with it (migration jobs) only to that space, unless it was retired.
+ * Embeddings are generated first (batched), so a provider failure or a dimension
+ * mismatch fails the job and leaves the previous chunks untouched.
+ */
+export async function embedCorpusItem(corpusItemId: string, embeddingSpaceId?: string): Promise<number> {
   const items = await db
     .select()
     .from(trainingCorpusItems)
@@ -36,103 +204,158 @@ export async function embedCorpusItem(corpusItemId: string): Promise<number> {
     throw new Error(`Corpus item ${corpusItemId} not found or not approved`);
   }
 
+  let spaces: EmbeddingSpace[];
+  if (embeddingSpaceId) {
+    const space = await getEmbeddingSpace(embeddingSpaceId);
+    if (!space || space.status === "retired") {
+      logger.info({ corpusItemId, embeddingSpaceId, message: "Skipping embedding into retired space" });
+      return 0;
+    }
+    spaces = [space];
+  } else {
+    spaces = await getWriteEmbeddingSpaces();
+  }
+
   const item = items[0];
-  const chunks = chunkText(item.normalizedText);
-  const config = getEmbeddingConfig();
+  const chunking = await getItemChunkingConfig(item);
+  const chunks = chunkDocument(item.normalizedText, chunking);
+  const embedded = await embedChunksForSpaces(chunks, spaces);
 
-  await db.delete(corpusChunks).where(eq(corpusChunks.corpusItemId, corpusItemId));
+  await db.transaction(async (tx) => {
+    await replaceItemChunks(tx, corpusItemId, chunks, chunking, embedded);
+  });
 
-  let embeddedCount = 0;
-  for (let i = 0; i < chunks.length; i++) {
-    try {
-      const { embedding, model } = await generateEmbedding(chunks[i]);
-      const embeddingJson = JSON.stringify(embedding);
-
-      await db.insert(corpusChunks).values({
-        corpusItemId,
-        chunkIndex: i,
-        chunkText: chunks[i],
-        embeddingModel: model,
-      });
+  logger.info({ corpusItemId, chunksCreated: chunks.length, embeddingSpaces: spaces.map(s => s.id), message: "Corpus item embedded" });
+  return chunks.length;
+}
 
-      await db.execute(
-        sql`UPDATE corpus_chunks SET embedding = ${embeddingJson}::vector WHERE corpus_item_id = ${corpusItemId} AND chunk_index = ${i}`
-      );
+function toChunkResults(queryResult: any): ChunkResult[] {
+  const rows = queryResult.rows || queryResult;
+  return rows.map((r: any) => ({
+    id: r.id,
+    corpusItemId: r.corpusItemId,
+    chunkText: r.chunkText,
+    score: parseFloat(r.score),
+    trackId: r.trackId,
+    title: r.title,
+    quarantineStatus: r.quarantineStatus,
+  }));
+}
 
-      embeddedCount++;
-    } catch (error: any) {
-      logger.error({ error: error.message, chunkIndex: i, corpusItemId, message: "Failed to embed chunk" });
-    }
-  }
+function valueList(values: string[]) {
+  return sql.join(values.map(v => sql`${v}`), sql`, `);
+}
+
+/**
+ * Track and metadata conditions on training_corpus_items (aliased tci)
+ */
+export function corpusFilterSql(trackId?: string, filter?: CorpusRetrievalFilter | null) {
+  const conditions: SQL[] = [];
+  if (trackId) conditions.push(sql`AND tci.track_id = ${trackId}`);
+  if (filter?.tags?.length) conditions.push(sql`AND tci.metadata->'tags' ?| ARRAY[${valueList(filter.tags)}]::text[]`);
+  if (filter?.languages?.length) conditions.push(sql`AND tci.metadata->>'language' IN (${valueList(filter.languages)})`);
+  if (filter?.licenses?.length) conditions.push(sql`AND tci.metadata->>'license' IN (${valueList(filter.licenses)})`);
+  return conditions.length > 0 ? sql.join(conditions, sql` `) : sql``;
+}
+
+async function vectorSearch(embeddingStr: string, spaceId: string, k: number, trackId?: string, filter?: CorpusRetrievalFilter | null): Promise<ChunkResult[]> {
+  const queryResult = await db.execute(
+    sql`
+      SELECT 
+        cc.id,
+        cc.corpus_item_id as "corpusItemId",
+        cc.chunk_text as "chunkText",
+        1 - (cc.embedding <=> ${embeddingStr}::vector) as score,
+        tci.track_id as "trackId",
+        tci.title,
+        cc.quarantine_status as "quarantineStatus"
+      FROM corpus_chunks cc
+      JOIN training_corpus_items tci ON cc.corpus_item_id = tci.id
+      WHERE tci.status = 'approved'
+        AND cc.embedding_space_id = ${spaceId}
+        AND cc.quarantine_status <> 'quarantined'
+        ${corpusFilterSql(trackId, filter)}
+        AND cc.embedding IS NOT NULL
+      ORDER BY cc.embedding <=> ${embeddingStr}::vector
+      LIMIT ${k}
+    `
+  );
+  return toChunkResults(queryResult);
+}
 
-  logger.info({ corpusItemId, chunksCreated: embeddedCount, message: "Corpus item embedded" });
-  return embeddedCount;
+/**
+ * Full-text search over chunk text (all query terms must match).
+ * Scores are still cosine similarities so callers can compare them with vector results.
+ */
+async function lexicalSearch(query: string, embeddingStr: string, spaceId: string, k: number, trackId?: string, filter?: CorpusRetrievalFilter | null): Promise<ChunkResult[]> {
+  // Keep in sync with corpus_chunks_text_search_idx so the index is used
+  const document = sql`to_tsvector('english', cc.chunk_text)`;
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  const queryResult = await db.execute(
+    sql`
+      SELECT 
+        cc.id,
+        cc.corpus_item_id as "corpusItemId",
+        cc.chunk_text as "chunkText",
+        COALESCE(1 - (cc.embedding <=> ${embeddingStr}::vector), 0) as score,
+        tci.track_id as "trackId",
+        tci.title,
+        cc.quarantine_status as "quarantineStatus"
+      FROM corpus_chunks cc
+      JOIN training_corpus_items tci ON cc.corpus_item_id = tci.id
+      WHERE tci.status = 'approved'
+        AND cc.embedding_space_id = ${spaceId}
+        AND cc.quarantine_status <> 'quarantined'
+        ${corpusFilterSql(trackId, filter)}
+        AND ${document} @@ ${tsQuery}
+      ORDER BY ts_rank_cd(${document}, ${tsQuery}) DESC
+      LIMIT ${k}
+    `
+  );
+  return toChunkResults(queryResult);
 }
 
 export async function searchCorpus(
   query: string,
   k: number = 5,
   trackId?: string,
-  minScore?: number
+  minScore?: number,
+  mode?: RetrievalMode,
+  filter?: CorpusRetrievalFilter | null
 ): Promise<ChunkResult[]> {
   const config = getRAGConfig();
+  const metadataFilter = normalizeRetrievalFilter(filter);
   const effectiveMinScore = minScore ?? config.minScore;
-  const { embedding } = await generateEmbedding(query);
+  const effectiveMode = mode ?? resolveRetrievalMode(undefined, config);
+  // Only chunks of the active space are comparable with the query embedding
+  const space = await getActiveEmbeddingSpace();
+  const { embedding } = await generateEmbedding(query, toEmbeddingTarget(space));
   const embeddingStr = `[${embedding.join(",")}]`;
 
-  let queryResult: any;
-  
-  if (trackId) {
-    queryResult = await db.execute(
-      sql`
-        SELECT 
-          cc.id,
-          cc.corpus_item_id as "corpusItemId",
-          cc.chunk_text as "chunkText",
-          1 - (cc.embedding <=> ${embeddingStr}::vector) as score,
-          tci.track_id as "trackId",
-          tci.title
-        FROM corpus_chunks cc
-        JOIN training_corpus_items tci ON cc.corpus_item_id = tci.id
-        WHERE tci.status = 'approved'
-          AND tci.track_id = ${trackId}
-          AND cc.embedding IS NOT NULL
-        ORDER BY cc.embedding <=> ${embeddingStr}::vector
-        LIMIT ${k}
-      `
-    );
-  } else {
-    queryResult = await db.execute(
-      sql`
-        SELECT 
-          cc.id,
-          cc.corpus_item_id as "corpusItemId",
-          cc.chunk_text as "chunkText",
-          1 - (cc.embedding <=> ${embeddingStr}::vector) as score,
-          tci.track_id as "trackId",
-          tci.title
-        FROM corpus_chunks cc
-        JOIN training_corpus_items tci ON cc.corpus_item_id = tci.id
-        WHERE tci.status = 'approved'
-          AND cc.embedding IS NOT NULL
-        ORDER BY cc.embedding <=> ${embeddingStr}::vector
-        LIMIT ${k}
-      `
-    );
+  if (effectiveMode === "vector") {
+    const results = await vectorSearch(embeddingStr, space.id, k, trackId, metadataFilter);
+    return results
+      .filter(r => r.score >= effectiveMinScore)
+      .map(r => ({ ...r, matchedBy: "vector" as const }));
   }
 
-  const rows = queryResult.rows || queryResult;
-  
-  return rows
-    .filter((r: any) => r.score >= effectiveMinScore)
-    .map((r: any) => ({
-      id: r.id,
-      corpusItemId: r.corpusItemId,
-      chunkText: r.chunkText,
-      score: parseFloat(r.score),
-      trackId: r.trackId,
-      title: r.title,
-    }));
+  if (effectiveMode === "lexical") {
+    const results = await lexicalSearch(query, embeddingStr, space.id, k, trackId, metadataFilter);
+    return results.map(r => ({ ...r, matchedBy: "lexical" as const }));
+  }
+
+  // Hybrid: fuse a thresholded vector ranking with the lexical ranking
+  const candidates = k * Math.max(1, config.candidateMultiplier);
+  const [vectorResults, lexicalResults] = await Promise.all([
+    vectorSearch(embeddingStr, space.id, candidates, trackId, metadataFilter),
+    lexicalSearch(query, embeddingStr, space.id, candidates, trackId, metadataFilter),
+  ]);
+  const fused = fuseRankings([
+    { source: "vector", weight: config.vectorWeight, results: vectorResults.filter(r => r.score >= effectiveMinScore) },
+    { source: "lexical", weight: config.lexicalWeight, results: lexicalResults },
+  ], config.rrfK);
+
+  return fused.slice(0, k).map(({ fusedScore, ...result }) => result);
 }
 
 export async function getApprovedCorpusItems(trackId?: string) {
@@ -170,13 +393,20 @@ export async function approveCorpusItem(id: string): Promise<boolean> {
   }
 
   const contentHash = computeContentHash(item.title, item.normalizedText);
+  // Flagged text is still approved; its risky chunks are quarantined when embedded
+  const injectionScan = scanSubmission(item.normalizedText);
+  if (injectionScan.verdict !== "clean") {
+    logger.warn({ corpusItemId: id, injectionScore: injectionScan.score, signals: injectionScan.signals.map(s => s.pattern), message: "Approved corpus item scored as possible prompt injection" });
+  }
 
   const result = await db
     .update(trainingCorpusItems)
     .set({ 
       status: "approved", 
       approvedAt: new Date(),
+      approvedText: item.normalizedText, // Baseline for the review threshold of later edits
       contentHash,
+      injectionScore: injectionScan.score.toFixed(3),
       updatedAt: new Date(),
     })
     .where(eq(trainingCorpusItems.id, id))
@@ -207,7 +437,8 @@ export async function approveCorpusItem(id: string): Promise<boolean> {
         calculateUsageScore, 
         calculateShares,
         recordSharesV2,
-        getCorpusItemUsageCount
+        getCorpusItemUsageCount,
+        getCorpusItemFeedback,
       } = await import("./rewardsDistributionV2");
       const currentCycle = await storage.getCurrentCycle();
       
@@ -220,8 +451,13 @@ export async function approveCorpusItem(id: string): Promise<boolean> {
         const complexity = 2; // Default medium complexity
         const difficultyScore = calculateDifficultyScore(complexity);
         
-        // Quality score: default 1.0 (no auto-review or consensus data available for corpus items)
-        const qualityScore = calculateQualityScore({});
+        // Quality score from ratings of chat answers this item has grounded (1.0 when unrated);
+        // refreshed at payout time as more ratings come in
+        const feedback = (await getCorpusItemFeedback([id])).get(id);
+        const qualityScore = calculateQualityScore({
+          feedbackUpCount: feedback?.up,
+          feedbackDownCount: feedback?.down,
+        });
         
         // Record baseShares (difficulty × quality) - usage computed at payout time
         await recordSharesV2(
@@ -237,7 +473,7 @@ export async function approveCorpusItem(id: string): Promise<boolean> {
         logger.info({ 
           corpusItemId: id, 
           walletPubkey: item.createdByWallet,
-          baseShares: baseShares.toFixed(8),
+          baseShares: (difficultyScore * qualityScore).toFixed(8),
           difficultyScore,
           qualityScore,
           usageCount,
@@ -262,7 +498,23 @@ export async function createCorpusItem(data: {
   trackId?: string;
   createdByWallet?: string;
   autoApprove?: boolean;
-}): Promise<{ id: string; status: string }> {
+}): Promise<{ id: string; status: string; duplicateCheck: DuplicateCheckResult }> {
+  const { checkCorpusDuplicates } = await import("./corpusDedup");
+  const { applyPiiPolicy } = await import("./piiScanner");
+  const pii = applyPiiPolicy(data.content, { ownWallet: data.createdByWallet });
+  if (pii.report.action === "rejected") {
+    throw new Error(`Text contains personal information (${pii.report.entities.map(e => e.type).join(", ")})`);
+  }
+  data = { ...data, content: pii.text };
+  const injectionScan = scanSubmission(data.content);
+  if (injectionScan.verdict === "blocked") {
+    throw new Error(`Text scored ${injectionScan.score.toFixed(2)} as a prompt injection (${injectionScan.signals.map(s => s.pattern).join(", ")})`);
+  }
+  const duplicateCheck = await checkCorpusDuplicates(data.content, { title: data.title });
+  if (duplicateCheck.verdict === "duplicate") {
+    throw new Error(`Duplicate of corpus item ${duplicateCheck.matches[0].corpusItemId} (similarity ${duplicateCheck.similarity.toFixed(2)})`);
+  }
+
   const status = data.autoApprove ? "approved" : "draft";
   
   const result = await db
@@ -274,6 +526,7 @@ export async function createCorpusItem(data: {
       createdByWallet: data.createdByWallet,
       status,
       approvedAt: data.autoApprove ? new Date() : null,
+      injectionScore: injectionScan.score.toFixed(3),
     })
     .returning();
 
@@ -290,7 +543,7 @@ export async function createCorpusItem(data: {
     }
   }
 
-  return { id: item.id, status };
+  return { id: item.id, status, duplicateCheck };
 }
 
 export function formatSourcesForPrompt(sources: ChunkResult[]): string {
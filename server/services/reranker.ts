@@ -0,0 +1,174 @@
+import type { ChunkResult } from "./rag";
+import { getChatProvider, type LLMProvider } from "./llmProvider";
+
+/**
+ * Second-stage reranking of retrieved chunks
+ *
+ * First-stage retrieval orders chunks by embedding similarity (or fused rank),
+ * which lets chunks that merely share vocabulary with the question into the
+ * prompt. The rerank stage rescores the top-N candidates against the question
+ * with the provider's cross-encoder rerank model (or a local lexical scorer
+ * when none is available), then picks the final chunks with maximal marginal
+ * relevance so near-duplicate chunks of the same corpus item don't crowd out
+ * other sources. Each kept chunk's `rerankScore` is recorded next to its
+ * original retrieval `score`.
+ */
+
+export type RerankMode = "provider" | "local";
+
+export interface RerankConfig {
+  enabled: boolean;
+  mode: RerankMode; // "provider" falls back to local scoring when the provider can't rerank
+  candidates: number; // Retrieval results rescored per question
+  mmrLambda: number; // 1 = relevance only, 0 = diversity only
+  sameItemSimilarity: number; // Added to the similarity of two chunks from the same corpus item
+  minScore: number; // Rescored chunks below this are dropped (0 keeps all)
+}
+
+export interface RerankResult {
+  chunks: ChunkResult[]; // Selected chunks, best first, with rerankScore set
+  method: RerankMode;
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "i", "in", "is",
+  "it", "of", "on", "or", "that", "the", "this", "to", "was", "what", "when", "where", "which", "who",
+  "why", "with", "you",
+]);
+
+export function getRerankConfig(): RerankConfig {
+  return {
+    enabled: process.env.RERANK_ENABLED === "true",
+    mode: process.env.RERANK_MODE === "local" ? "local" : "provider",
+    candidates: parseInt(process.env.RERANK_CANDIDATES || "20", 10),
+    mmrLambda: parseFloat(process.env.RERANK_MMR_LAMBDA || "0.7"),
+    sameItemSimilarity: parseFloat(process.env.RERANK_SAME_ITEM_SIMILARITY || "0.3"),
+    minScore: parseFloat(process.env.RERANK_MIN_SCORE || "0"),
+  };
+}
+
+/**
+ * Distinct lowercase content terms (stopwords and single characters dropped)
+ */
+export function tokenize(text: string): Set<string> {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  return new Set(tokens.filter(t => t.length > 1 && !STOPWORDS.has(t)));
+}
+
+/**
+ * Offline relevance in [0, 1]: the IDF-weighted share of query terms a chunk
+ * contains (IDF over the candidate set), averaged with its retrieval score
+ */
+export function scoreLexicalRelevance(query: string, chunks: ChunkResult[]): number[] {
+  const queryTerms = Array.from(tokenize(query));
+  const chunkTerms = chunks.map(c => tokenize(c.chunkText));
+  const n = chunks.length;
+
+  const idf = new Map(queryTerms.map(term => {
+    const df = chunkTerms.filter(terms => terms.has(term)).length;
+    return [term, Math.log(1 + (n - df + 0.5) / (df + 0.5))];
+  }));
+  const totalWeight = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+
+  return chunks.map((chunk, i) => {
+    const coverage = totalWeight > 0
+      ? queryTerms.filter(term => chunkTerms[i].has(term)).reduce((sum, term) => sum + idf.get(term)!, 0) / totalWeight
+      : 0;
+    return (coverage + Math.min(1, Math.max(0, chunk.score))) / 2;
+  });
+}
+
+/**
+ * Map provider scores into [0, 1]; some rerank servers return raw logits
+ */
+export function normalizeRerankScores(scores: number[]): number[] {
+  if (scores.every(s => s >= 0 && s <= 1)) {
+    return scores;
+  }
+  return scores.map(s => 1 / (1 + Math.exp(-s)));
+}
+
+/**
+ * Similarity used by MMR: term overlap (Jaccard), raised for chunks of the same corpus item
+ */
+export function chunkSimilarity(a: ChunkResult, b: ChunkResult, sameItemSimilarity: number): number {
+  const termsA = tokenize(a.chunkText);
+  const termsB = tokenize(b.chunkText);
+  const union = new Set([...Array.from(termsA), ...Array.from(termsB)]).size;
+  const shared = Array.from(termsA).filter(t => termsB.has(t)).length;
+  const jaccard = union > 0 ? shared / union : 0;
+  return Math.min(1, jaccard + (a.corpusItemId === b.corpusItemId ? sameItemSimilarity : 0));
+}
+
+/**
+ * Greedy maximal marginal relevance: repeatedly take the chunk maximizing
+ * λ · relevance − (1 − λ) · (max similarity to the chunks already taken)
+ */
+export function selectByMMR(
+  chunks: ChunkResult[],
+  relevance: number[],
+  k: number,
+  lambda: number,
+  sameItemSimilarity: number
+): number[] {
+  const selected: number[] = [];
+  const remaining = chunks.map((_, i) => i);
+
+  while (selected.length < k && remaining.length > 0) {
+    let bestPos = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((index, pos) => {
+      const redundancy = selected.length > 0
+        ? Math.max(...selected.map(s => chunkSimilarity(chunks[index], chunks[s], sameItemSimilarity)))
+        : 0;
+      const score = lambda * relevance[index] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestPos = pos;
+      }
+    });
+    selected.push(remaining.splice(bestPos, 1)[0]);
+  }
+
+  return selected;
+}
+
+async function scoreRelevance(
+  query: string,
+  chunks: ChunkResult[],
+  config: RerankConfig,
+  provider: LLMProvider
+): Promise<{ scores: number[]; method: RerankMode }> {
+  if (config.mode === "provider" && provider.rerankModel) {
+    try {
+      const scores = await provider.rerank(query, chunks.map(c => c.chunkText));
+      return { scores: normalizeRerankScores(scores), method: "provider" };
+    } catch (error: any) {
+      console.warn(`[Rerank] ${provider.label} rerank failed, using local scoring:`, error.message);
+    }
+  }
+  return { scores: scoreLexicalRelevance(query, chunks), method: "local" };
+}
+
+/**
+ * Rescore retrieval candidates against the query and keep the best k, diversified with MMR
+ */
+export async function rerankChunks(
+  query: string,
+  candidates: ChunkResult[],
+  k: number,
+  config: RerankConfig = getRerankConfig(),
+  provider: LLMProvider = getChatProvider()
+): Promise<RerankResult> {
+  if (candidates.length === 0) {
+    return { chunks: [], method: config.mode };
+  }
+
+  const { scores, method } = await scoreRelevance(query, candidates, config, provider);
+  const kept = candidates
+    .map((chunk, i) => ({ ...chunk, rerankScore: Math.round(scores[i] * 10000) / 10000 }))
+    .filter(chunk => chunk.rerankScore >= config.minScore);
+
+  const order = selectByMMR(kept, kept.map(c => c.rerankScore), k, config.mmrLambda, config.sameItemSimilarity);
+  return { chunks: order.map(i => kept[i]), method };
+}
@@ -0,0 +1,488 @@
+import { db } from "../db";
+import {
+  modelVersionsV2,
+  retrievalEvalQuestions,
+  retrievalEvalRuns,
+  retrievalEvalSets,
+  trainingCorpusItems,
+  type RetrievalEvalMetrics,
+  type RetrievalEvalRun,
+  type RetrievalEvalSet,
+  type RetrievalEvalSettings,
+  type RetrievalEvalSummary,
+  type RetrievalScoreDistribution,
+} from "@shared/schema";
+import { desc, eq, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { getRAGConfig, resolveRetrievalMode, searchCorpus, type ChunkResult, type RetrievalMode } from "./rag";
+import { getActiveEmbeddingSpace } from "./embeddingSpaces";
+import { tokenize } from "./reranker";
+import { logger } from "../middleware/logger";
+
+/**
+ * Retrieval evaluation
+ *
+ * A golden set is a list of queries with the corpus items that should be
+ * retrieved for them (and optionally the answer they support). Running a set
+ * calls searchCorpus for every query and scores the ranking of distinct corpus
+ * items: recall@k, MRR and nDCG@k, plus how much of the expected answer's
+ * vocabulary the retrieved chunks contain. Runs started over the API are queued
+ * as run_retrieval_eval jobs. Runs are stored with their settings, and the latest
+ * run per set is copied into the active model version's benchmarks.
+ *
+ * JSONL format, one question per line:
+ *   {"query": "...", "expectedCorpusItemIds": ["..."], "expectedAnswer"?: "...", "trackId"?: "..."}
+ */
+
+export const goldenQuestionSchema = z.object({
+  query: z.string().trim().min(1).max(2000),
+  expectedCorpusItemIds: z.array(z.string().min(1)).min(1).max(100),
+  expectedAnswer: z.string().max(8000).optional(),
+  trackId: z.string().optional(),
+});
+
+export type GoldenQuestion = z.infer<typeof goldenQuestionSchema>;
+
+export interface RetrievalEvalOptions {
+  k?: number;
+  minScore?: number;
+  mode?: RetrievalMode;
+}
+
+export interface QuestionEvalResult {
+  questionId: string;
+  trackId: string | null;
+  retrievedCorpusItemIds: string[]; // Distinct items in retrieval order
+  firstRelevantRank: number | null; // 1-based rank of the first expected item
+  recallAtK: number;
+  reciprocalRank: number;
+  ndcg: number;
+  answerRecall: number | null;
+  scores: number[];
+}
+
+const NO_TRACK = "none";
+
+/**
+ * Parse a JSONL golden set. Blank lines and lines starting with "#" are skipped;
+ * invalid lines are reported by line number instead of failing the whole file.
+ */
+export function parseGoldenJsonl(text: string): { questions: GoldenQuestion[]; errors: Array<{ line: number; error: string }> } {
+  const questions: GoldenQuestion[] = [];
+  const errors: Array<{ line: number; error: string }> = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    try {
+      const parsed = goldenQuestionSchema.safeParse(JSON.parse(line));
+      if (parsed.success) {
+        questions.push(parsed.data);
+      } else {
+        errors.push({ line: index + 1, error: parsed.error.errors.map(e => `${e.path.join(".") || "line"}: ${e.message}`).join("; ") });
+      }
+    } catch (error: any) {
+      errors.push({ line: index + 1, error: `Invalid JSON: ${error.message}` });
+    }
+  });
+
+  return { questions, errors };
+}
+
+/**
+ * Score one query's retrieval against its expected items. Several chunks of the
+ * same item count once, at the rank of its best chunk.
+ */
+export function scoreRetrieval(
+  question: { expectedCorpusItemIds: string[]; expectedAnswer?: string | null },
+  retrieved: ChunkResult[],
+  k: number
+): Omit<QuestionEvalResult, "questionId" | "trackId"> {
+  const ranked = Array.from(new Set(retrieved.map(r => r.corpusItemId))).slice(0, k);
+  const expected = new Set(question.expectedCorpusItemIds);
+
+  let found = 0;
+  let dcg = 0;
+  let firstRelevantRank: number | null = null;
+  ranked.forEach((id, index) => {
+    if (!expected.has(id)) return;
+    found++;
+    dcg += 1 / Math.log2(index + 2);
+    if (firstRelevantRank === null) firstRelevantRank = index + 1;
+  });
+
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(expected.size, k); i++) {
+    idealDcg += 1 / Math.log2(i + 2);
+  }
+
+  let answerRecall: number | null = null;
+  if (question.expectedAnswer) {
+    const answerTerms = Array.from(tokenize(question.expectedAnswer));
+    if (answerTerms.length > 0) {
+      const retrievedTerms = tokenize(retrieved.map(r => r.chunkText).join(" "));
+      answerRecall = answerTerms.filter(t => retrievedTerms.has(t)).length / answerTerms.length;
+    }
+  }
+
+  return {
+    retrievedCorpusItemIds: ranked,
+    firstRelevantRank,
+    recallAtK: expected.size > 0 ? found / expected.size : 0,
+    reciprocalRank: firstRelevantRank ? 1 / firstRelevantRank : 0,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    answerRecall,
+    scores: retrieved.map(r => r.score),
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function scoreDistribution(values: number[]): RetrievalScoreDistribution | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    p25: percentile(sorted, 0.25),
+    median: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function aggregate(results: QuestionEvalResult[]): RetrievalEvalMetrics {
+  const answerRecalls = results.map(r => r.answerRecall).filter((v): v is number => v !== null);
+  return {
+    questionCount: results.length,
+    recallAtK: mean(results.map(r => r.recallAtK)),
+    mrr: mean(results.map(r => r.reciprocalRank)),
+    ndcg: mean(results.map(r => r.ndcg)),
+    answerRecall: answerRecalls.length > 0 ? mean(answerRecalls) : null,
+    scores: scoreDistribution(results.flatMap(r => r.scores)),
+  };
+}
+
+/**
+ * Overall and per-track metrics (questions without a track are grouped under "none")
+ */
+export function summarizeEvalResults(results: QuestionEvalResult[]): RetrievalEvalSummary {
+  const byTrack = new Map<string, QuestionEvalResult[]>();
+  for (const result of results) {
+    const key = result.trackId ?? NO_TRACK;
+    byTrack.set(key, [...(byTrack.get(key) ?? []), result]);
+  }
+
+  return {
+    overall: aggregate(results),
+    byTrack: Object.fromEntries(Array.from(byTrack.entries()).map(([track, group]) => [track, aggregate(group)])),
+  };
+}
+
+/**
+ * Run golden questions through searchCorpus without storing anything
+ */
+export async function evaluateGoldenQuestions(
+  questions: Array<GoldenQuestion & { id?: string }>,
+  options: RetrievalEvalOptions = {}
+): Promise<{ settings: RetrievalEvalSettings; summary: RetrievalEvalSummary; results: QuestionEvalResult[]; durationMs: number }> {
+  const config = getRAGConfig();
+  const space = await getActiveEmbeddingSpace();
+  const settings: RetrievalEvalSettings = {
+    k: options.k ?? config.defaultK,
+    minScore: options.minScore ?? config.minScore,
+    mode: options.mode ?? resolveRetrievalMode(undefined, config),
+    embeddingSpaceId: space.id,
+    embeddingModel: `${space.provider}:${space.model}`,
+  };
+
+  const startedAt = Date.now();
+  const results: QuestionEvalResult[] = [];
+  for (let index = 0; index < questions.length; index++) {
+    const question = questions[index];
+    const retrieved = await searchCorpus(question.query, settings.k, question.trackId, settings.minScore, settings.mode as RetrievalMode);
+    results.push({
+      questionId: question.id ?? String(index + 1),
+      trackId: question.trackId ?? null,
+      ...scoreRetrieval(question, retrieved, settings.k),
+    });
+  }
+
+  return { settings, summary: summarizeEvalResults(results), results, durationMs: Date.now() - startedAt };
+}
+
+/**
+ * Create a golden set, or replace the questions of the set with this name
+ */
+export async function saveEvalSet(data: {
+  name: string;
+  description?: string;
+  questions: GoldenQuestion[];
+  createdByWallet?: string;
+}): Promise<{ set: RetrievalEvalSet; questionCount: number; unknownCorpusItemIds: string[] }> {
+  const set = await db.transaction(async (tx) => {
+    const [saved] = await tx
+      .insert(retrievalEvalSets)
+      .values({ name: data.name, description: data.description, createdByWallet: data.createdByWallet })
+      .onConflictDoUpdate({
+        target: retrievalEvalSets.name,
+        set: { description: data.description ?? null, updatedAt: new Date() },
+      })
+      .returning();
+
+    await tx.delete(retrievalEvalQuestions).where(eq(retrievalEvalQuestions.setId, saved.id));
+    if (data.questions.length > 0) {
+      await tx.insert(retrievalEvalQuestions).values(data.questions.map(q => ({
+        setId: saved.id,
+        query: q.query,
+        expectedCorpusItemIds: q.expectedCorpusItemIds,
+        expectedAnswer: q.expectedAnswer ?? null,
+        trackId: q.trackId ?? null,
+      })));
+    }
+    return saved;
+  });
+
+  // Expected items that don't exist can never be retrieved; report them rather than reject the set
+  const expectedIds = Array.from(new Set(data.questions.flatMap(q => q.expectedCorpusItemIds)));
+  const existing = expectedIds.length > 0
+    ? await db.select({ id: trainingCorpusItems.id }).from(trainingCorpusItems).where(inArray(trainingCorpusItems.id, expectedIds))
+    : [];
+  const existingIds = new Set(existing.map(e => e.id));
+
+  return { set, questionCount: data.questions.length, unknownCorpusItemIds: expectedIds.filter(id => !existingIds.has(id)) };
+}
+
+export async function getEvalSetByName(name: string): Promise<RetrievalEvalSet | null> {
+  const [set] = await db.select().from(retrievalEvalSets).where(eq(retrievalEvalSets.name, name)).limit(1);
+  return set ?? null;
+}
+
+export async function listEvalSets() {
+  const sets = await db
+    .select({
+      set: retrievalEvalSets,
+      questionCount: sql<number>`(SELECT count(*)::int FROM retrieval_eval_questions q WHERE q.set_id = ${retrievalEvalSets.id})`,
+    })
+    .from(retrievalEvalSets)
+    .orderBy(retrievalEvalSets.name);
+  return sets.map(s => ({ ...s.set, questionCount: Number(s.questionCount) }));
+}
+
+export async function getEvalSetQuestions(setId: string) {
+  return db
+    .select()
+    .from(retrievalEvalQuestions)
+    .where(eq(retrievalEvalQuestions.setId, setId))
+    .orderBy(retrievalEvalQuestions.createdAt);
+}
+
+// A run row once its evaluation has been written
+export type CompletedRetrievalEvalRun = RetrievalEvalRun & {
+  settings: RetrievalEvalSettings;
+  summary: RetrievalEvalSummary;
+  results: NonNullable<RetrievalEvalRun["results"]>;
+  durationMs: number;
+};
+
+/**
+ * Evaluate a set into an existing run row and record it on the active model version.
+ * The row is marked failed (and the error rethrown) when evaluation fails.
+ */
+async function completeEvalRun(
+  runId: string,
+  set: RetrievalEvalSet,
+  options: RetrievalEvalOptions
+): Promise<CompletedRetrievalEvalRun> {
+  try {
+    const questions = await getEvalSetQuestions(set.id);
+    const evaluation = await evaluateGoldenQuestions(
+      questions.map(q => ({
+        id: q.id,
+        query: q.query,
+        expectedCorpusItemIds: q.expectedCorpusItemIds,
+        expectedAnswer: q.expectedAnswer ?? undefined,
+        trackId: q.trackId ?? undefined,
+      })),
+      options
+    );
+
+    const { getActiveModelVersion } = await import("./modelVersioning");
+    const activeVersion = await getActiveModelVersion();
+
+    const [row] = await db
+      .update(retrievalEvalRuns)
+      .set({
+        status: "completed",
+        modelVersionId: activeVersion?.id ?? null,
+        settings: evaluation.settings,
+        summary: evaluation.summary,
+        results: evaluation.results.map(r => ({
+          questionId: r.questionId,
+          retrievedCorpusItemIds: r.retrievedCorpusItemIds,
+          firstRelevantRank: r.firstRelevantRank,
+          recallAtK: r.recallAtK,
+        })),
+        durationMs: evaluation.durationMs,
+        error: null,
+        completedAt: new Date(),
+      })
+      .where(eq(retrievalEvalRuns.id, runId))
+      .returning();
+    const run = row as CompletedRetrievalEvalRun;
+
+    if (activeVersion) {
+      await recordRetrievalBenchmark(activeVersion.id, set.name, run);
+    }
+
+    logger.info({
+      runId,
+      setId: set.id,
+      setName: set.name,
+      questions: questions.length,
+      recallAtK: evaluation.summary.overall.recallAtK,
+      mrr: evaluation.summary.overall.mrr,
+      ndcg: evaluation.summary.overall.ndcg,
+      message: "Retrieval eval run completed",
+    });
+    return run;
+  } catch (error: any) {
+    await db
+      .update(retrievalEvalRuns)
+      .set({ status: "failed", error: error.message, completedAt: new Date() })
+      .where(eq(retrievalEvalRuns.id, runId));
+    logger.warn({ runId, setId: set.id, error: error.message, message: "Retrieval eval run failed" });
+    throw error;
+  }
+}
+
+/**
+ * Run a stored set in-process (CLI), store the run, and record it on the active model version.
+ * Returns null when the set doesn't exist.
+ */
+export async function runEvalSet(
+  setId: string,
+  options: RetrievalEvalOptions = {},
+  createdByWallet?: string
+): Promise<CompletedRetrievalEvalRun | null> {
+  const [set] = await db.select().from(retrievalEvalSets).where(eq(retrievalEvalSets.id, setId)).limit(1);
+  if (!set) return null;
+
+  const [run] = await db
+    .insert(retrievalEvalRuns)
+    .values({ setId, status: "running", createdByWallet })
+    .returning();
+  return await completeEvalRun(run.id, set, options);
+}
+
+/**
+ * Store a queued run and enqueue a run_retrieval_eval job for it, so large sets
+ * don't hold the request open. Returns null when the set doesn't exist.
+ */
+export async function queueEvalSetRun(
+  setId: string,
+  options: RetrievalEvalOptions = {},
+  createdByWallet?: string
+): Promise<RetrievalEvalRun | null> {
+  const [set] = await db.select().from(retrievalEvalSets).where(eq(retrievalEvalSets.id, setId)).limit(1);
+  if (!set) return null;
+
+  const [run] = await db
+    .insert(retrievalEvalRuns)
+    .values({ setId, status: "queued", createdByWallet })
+    .returning();
+
+  const { enqueueJob } = await import("./jobQueue");
+  const jobId = await enqueueJob("run_retrieval_eval", { evalRunId: run.id, options }, { maxAttempts: 1 });
+  const [queued] = await db
+    .update(retrievalEvalRuns)
+    .set({ jobId })
+    .where(eq(retrievalEvalRuns.id, run.id))
+    .returning();
+
+  logger.info({ runId: run.id, setId, jobId, message: "Retrieval eval run queued" });
+  return queued;
+}
+
+/**
+ * Job handler: evaluate a queued run (a retried job re-runs a failed one)
+ */
+export async function processEvalRun(runId: string, options: RetrievalEvalOptions): Promise<void> {
+  const run = await getEvalRun(runId);
+  if (!run) {
+    throw new Error(`Retrieval eval run ${runId} not found`);
+  }
+  if (run.status === "completed") {
+    return;
+  }
+
+  const [set] = await db.select().from(retrievalEvalSets).where(eq(retrievalEvalSets.id, run.setId)).limit(1);
+  if (!set) {
+    throw new Error(`Golden set ${run.setId} not found`);
+  }
+
+  await db
+    .update(retrievalEvalRuns)
+    .set({ status: "running", error: null })
+    .where(eq(retrievalEvalRuns.id, runId));
+  await completeEvalRun(runId, set, options);
+}
+
+export async function getEvalRun(runId: string): Promise<RetrievalEvalRun | null> {
+  const [run] = await db.select().from(retrievalEvalRuns).where(eq(retrievalEvalRuns.id, runId)).limit(1);
+  return run ?? null;
+}
+
+/**
+ * Copy a run's headline metrics into model_versions_v2.benchmarks.retrieval[setName]
+ */
+async function recordRetrievalBenchmark(modelVersionId: string, setName: string, run: CompletedRetrievalEvalRun): Promise<void> {
+  const [version] = await db
+    .select({ benchmarks: modelVersionsV2.benchmarks })
+    .from(modelVersionsV2)
+    .where(eq(modelVersionsV2.id, modelVersionId))
+    .limit(1);
+  if (!version) return;
+
+  const benchmarks = version.benchmarks ?? {};
+  await db
+    .update(modelVersionsV2)
+    .set({
+      benchmarks: {
+        ...benchmarks,
+        retrieval: {
+          ...benchmarks.retrieval,
+          [setName]: {
+            runId: run.id,
+            k: run.settings.k,
+            recallAtK: run.summary.overall.recallAtK,
+            mrr: run.summary.overall.mrr,
+            ndcg: run.summary.overall.ndcg,
+            evalCount: run.summary.overall.questionCount,
+            ranAt: run.createdAt.toISOString(),
+          },
+        },
+      },
+    })
+    .where(eq(modelVersionsV2.id, modelVersionId));
+}
+
+/**
+ * Stored runs, newest first (optionally for one set), for comparing settings and model versions
+ */
+export async function listEvalRuns(setId?: string, limit: number = 50): Promise<RetrievalEvalRun[]> {
+  const query = db.select().from(retrievalEvalRuns);
+  return (setId ? query.where(eq(retrievalEvalRuns.setId, setId)) : query)
+    .orderBy(desc(retrievalEvalRuns.createdAt))
+    .limit(limit);
+}
@@ -1,7 +1,8 @@
-import { contributorSharesV2, cyclePayouts, rewardsPoolLedger, trainingCorpusItems } from "@shared/schema";
+import { chatMessages, contributorSharesV2, cyclePayouts, rewardsPoolLedger, trainingCorpusItems } from "@shared/schema";
 import { db } from "../db";
 import { eq, and, sql, desc } from "drizzle-orm";
 import { storage } from "../storage";
+import { logger } from "../middleware/logger";
 
 export type ShareSourceV2 = "corpus_approved" | "question_approved" | "review_reward" | "other";
 
@@ -26,8 +27,10 @@ export function calculateQualityScore(options: {
   autoReviewScore?: number; // 0-1 score from auto-review
   consensusApproveCount?: number; // Number of approve votes
   consensusTotalCount?: number; // Total review votes
+  feedbackUpCount?: number; // Thumbs-up ratings on chat answers grounded by this item
+  feedbackDownCount?: number; // Thumbs-down ratings on chat answers grounded by this item
 }): number {
-  const { autoReviewScore, consensusApproveCount, consensusTotalCount } = options;
+  const { autoReviewScore, consensusApproveCount, consensusTotalCount, feedbackUpCount, feedbackDownCount } = options;
   
   let score = 1.0; // Default baseline
   
@@ -50,10 +53,72 @@ export function calculateQualityScore(options: {
     score += consensusBoost;
   }
   
+  // If answers grounded by this item were rated, adjust by up to ±0.4
+  // Smoothed ratio (up+1)/(total+2) and a confidence ramp keep a handful of votes from swinging the score
+  const up = feedbackUpCount ?? 0;
+  const down = feedbackDownCount ?? 0;
+  const totalFeedback = up + down;
+  if (totalFeedback > 0) {
+    const smoothedRatio = (up + 1) / (totalFeedback + 2);
+    const confidence = totalFeedback / (totalFeedback + 5);
+    score += (smoothedRatio - 0.5) * 0.8 * confidence;
+  }
+  
   // Clamp to [0.5, 1.5]
   return Math.max(0.5, Math.min(1.5, score));
 }
 
+export interface CorpusItemFeedback {
+  up: number;
+  down: number;
+}
+
+/**
+ * Whether an item's answer ratings are poor enough to need admin review
+ */
+export function isFeedbackFlagged(feedback: CorpusItemFeedback): boolean {
+  const minVotes = parseInt(process.env.FEEDBACK_FLAG_MIN_VOTES || "3", 10);
+  const downRatio = parseFloat(process.env.FEEDBACK_FLAG_DOWN_RATIO || "0.5");
+  const total = feedback.up + feedback.down;
+  return feedback.down >= minVotes && feedback.down / total >= downRatio;
+}
+
+/**
+ * Aggregate chat answer ratings per corpus item via chat_messages.corpus_items_used.
+ * Each wallet counts once per item (the sign of its net rating), and the item's
+ * own contributor is never counted, so ratings can't be farmed by repetition.
+ * Returns only items with at least one counted rater
+ */
+export async function getCorpusItemFeedback(corpusItemIds?: string[]): Promise<Map<string, CorpusItemFeedback>> {
+  const feedback = new Map<string, CorpusItemFeedback>();
+  if (corpusItemIds && corpusItemIds.length === 0) return feedback;
+  
+  const itemFilter = corpusItemIds
+    ? sql`AND item_id IN (${sql.join(corpusItemIds.map(id => sql`${id}`), sql`, `)})`
+    : sql``;
+  
+  const result = await db.execute(sql`
+    SELECT item_id,
+      COUNT(*) FILTER (WHERE net > 0)::int AS up,
+      COUNT(*) FILTER (WHERE net < 0)::int AS down
+    FROM (
+      SELECT item_id, ${chatMessages.walletAddress} AS rater, SUM(${chatMessages.feedbackRating}) AS net
+      FROM ${chatMessages}, jsonb_array_elements_text(${chatMessages.corpusItemsUsed}) AS item_id
+      WHERE ${chatMessages.feedbackRating} IS NOT NULL ${itemFilter}
+      GROUP BY item_id, ${chatMessages.walletAddress}
+    ) raters
+    JOIN ${trainingCorpusItems} ON ${trainingCorpusItems.id} = raters.item_id
+    WHERE rater IS DISTINCT FROM COALESCE(${trainingCorpusItems.submitterWalletPubkey}, ${trainingCorpusItems.createdByWallet})
+    GROUP BY item_id
+    HAVING COUNT(*) FILTER (WHERE net <> 0) > 0
+  `);
+  
+  for (const row of result.rows as any[]) {
+    feedback.set(row.item_id, { up: Number(row.up), down: Number(row.down) });
+  }
+  return feedback;
+}
+
 /**
  * Calculate usage score from usage count
  * Returns score with max from env (default 3.0)
@@ -322,6 +387,8 @@ export async function calculateCyclePayoutsV2(cycleId: string): Promise<{
         walletPubkey: contributorSharesV2.walletPubkey,
         source: contributorSharesV2.source,
         refId: contributorSharesV2.refId,
+        difficultyScore: contributorSharesV2.difficultyScore,
+        qualityScore: contributorSharesV2.qualityScore,
         baseShares: contributorSharesV2.baseShares,
         shares: contributorSharesV2.shares, // May already be computed for reviewers
       })
@@ -348,7 +415,19 @@ export async function calculateCyclePayoutsV2(cycleId: string): Promise<{
     
     let totalContributorShares = 0;
     const contributorWalletShareMap = new Map<string, number>();
-    const contributorShareUpdates: Array<{ id: string; shares: string; usageScore: string }> = [];
+    const contributorShareUpdates: Array<{ id: string; shares: string; usageScore: string; qualityScore: string; baseShares: string }> = [];
+    
+    // Answer ratings for corpus items, used to refresh their quality score at payout time
+    const corpusRefIds = contributorRecords
+      .filter(r => r.source === "corpus_approved" && r.refId)
+      .map(r => r.refId as string);
+    let corpusFeedback = new Map<string, CorpusItemFeedback>();
+    try {
+      corpusFeedback = await getCorpusItemFeedback(corpusRefIds);
+    } catch (error: any) {
+      // Feedback is a bonus signal; fall back to approval-time quality scores
+      logger.warn({ cycleId, error: error.message, message: "Failed to load corpus feedback for payout quality scores" });
+    }
 
     for (const record of contributorRecords) {
       // Get current usage count for this item
@@ -364,8 +443,18 @@ export async function calculateCyclePayoutsV2(cycleId: string): Promise<{
       // Calculate usage score at payout time
       const usageScore = calculateUsageScore(usageCount);
       
+      // Corpus items: recompute baseShares with quality from answer ratings gathered since approval
+      let qualityScore = parseFloat(record.qualityScore);
+      let baseSharesNum = parseFloat(record.baseShares);
+      const feedback = record.source === "corpus_approved" && record.refId
+        ? corpusFeedback.get(record.refId)
+        : undefined;
+      if (feedback) {
+        qualityScore = calculateQualityScore({ feedbackUpCount: feedback.up, feedbackDownCount: feedback.down });
+        baseSharesNum = parseFloat(record.difficultyScore) * qualityScore;
+      }
+      
       // Calculate final shares = baseShares * usageScore
-      const baseSharesNum = parseFloat(record.baseShares);
       let finalShares = baseSharesNum * usageScore;
       
       // Clamp to [min, max]
@@ -376,6 +465,8 @@ export async function calculateCyclePayoutsV2(cycleId: string): Promise<{
         id: record.id,
         shares: finalShares.toFixed(8),
         usageScore: usageScore.toFixed(4),
+        qualityScore: qualityScore.toFixed(4),
+        baseShares: baseSharesNum.toFixed(8),
       });
       
       // Accumulate shares per wallet
@@ -405,6 +496,8 @@ export async function calculateCyclePayoutsV2(cycleId: string): Promise<{
         .set({
           shares: update.shares,
           usageScore: update.usageScore,
+          qualityScore: update.qualityScore,
+          baseShares: update.baseShares,
         })
         .where(eq(contributorSharesV2.id, update.id));
     }
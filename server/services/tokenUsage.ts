@@ -0,0 +1,206 @@
+import { db } from "../db";
+import { chatTokenUsage } from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { storage } from "../storage";
+import { estimateTokens } from "./conversationContext";
+import type { ChatMessage, TokenUsage } from "./llmProvider";
+
+/**
+ * Chat token accounting and quotas
+ *
+ * Every generated answer is metered in prompt and completion tokens (taken from
+ * the provider's usage report, or estimated when the backend doesn't send one)
+ * and added to the wallet's total for the current cycle. The per-cycle quota
+ * grows with the wallet's level and training stake, so long high-level answers
+ * are paid for by progression rather than by request count alone.
+ */
+
+export interface TokenQuotaConfig {
+  enabled: boolean;
+  baseTokens: number; // Quota at level 1 with no stake
+  tokensPerLevel: number; // Added for each level above 1
+  tokensPerStakedHive: number;
+  maxStakeBonus: number; // Cap on the stake part of the quota
+  creatorMultiplier: number; // Same 5x headroom the rate limiters give creators
+}
+
+export interface ChatTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // True when any completion in the answer had no provider usage report
+}
+
+export interface TokenUsageStatus {
+  enabled: boolean;
+  cycleNumber: number; // 0 when no cycle is active
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  requestCount: number;
+  quota: number;
+  remaining: number;
+  exhausted: boolean;
+  level: number;
+  stakeHive: number;
+}
+
+export interface TokenMeter {
+  // Pass as ChatOptions.onUsage
+  onUsage: (usage: TokenUsage) => void;
+  // Call after each completion; estimates it when the provider sent no usage report
+  settle: (messages: ChatMessage[], output: string) => void;
+  totals: () => ChatTokenUsage;
+}
+
+// Per-message framing the chat templates add around content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function getTokenQuotaConfig(): TokenQuotaConfig {
+  return {
+    enabled: process.env.CHAT_TOKEN_QUOTA_ENABLED !== "false", // Default true
+    baseTokens: parseInt(process.env.CHAT_TOKEN_QUOTA_BASE || "50000", 10),
+    tokensPerLevel: parseInt(process.env.CHAT_TOKEN_QUOTA_PER_LEVEL || "5000", 10),
+    tokensPerStakedHive: parseFloat(process.env.CHAT_TOKEN_QUOTA_PER_STAKED_HIVE || "50"),
+    maxStakeBonus: parseInt(process.env.CHAT_TOKEN_QUOTA_MAX_STAKE_BONUS || "200000", 10),
+    creatorMultiplier: 5,
+  };
+}
+
+/**
+ * Per-cycle token quota for a wallet
+ *
+ * quota = base + perLevel × (level - 1) + min(maxStakeBonus, perStakedHive × stake)
+ */
+export function computeTokenQuota(
+  level: number,
+  stakeHive: number,
+  config: TokenQuotaConfig = getTokenQuotaConfig(),
+  isCreatorWallet = false
+): number {
+  const levelBonus = config.tokensPerLevel * Math.max(0, level - 1);
+  const stakeBonus = Math.min(config.maxStakeBonus, Math.max(0, stakeHive) * config.tokensPerStakedHive);
+  const quota = Math.floor(config.baseTokens + levelBonus + stakeBonus);
+  return isCreatorWallet ? quota * config.creatorMultiplier : quota;
+}
+
+/**
+ * Rough prompt size of a message list (~4 characters per token plus framing)
+ */
+export function estimatePromptTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => {
+    const toolCallText = m.toolCalls?.map(call => call.name + call.arguments).join("") ?? "";
+    return sum + MESSAGE_OVERHEAD_TOKENS + estimateTokens(m.content) + estimateTokens(toolCallText);
+  }, 0);
+}
+
+/**
+ * Accumulate token usage across the completions that make up one answer
+ * (tool rounds, citation retry, final answer)
+ */
+export function createTokenMeter(): TokenMeter {
+  let reported: TokenUsage | null = null;
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let estimated = false;
+
+  return {
+    onUsage: (usage) => {
+      reported = usage;
+    },
+    settle: (messages, output) => {
+      if (reported) {
+        promptTokens += reported.promptTokens;
+        completionTokens += reported.completionTokens;
+      } else {
+        promptTokens += estimatePromptTokens(messages);
+        completionTokens += estimateTokens(output);
+        estimated = true;
+      }
+      reported = null;
+    },
+    totals: () => ({
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      estimated,
+    }),
+  };
+}
+
+async function getCurrentCycleNumber(): Promise<number> {
+  const cycle = await storage.getCurrentCycle();
+  return cycle?.cycleNumber ?? 0;
+}
+
+/**
+ * Add one answer's tokens to the wallet's total for the current cycle
+ */
+export async function recordTokenUsage(walletAddress: string, usage: ChatTokenUsage): Promise<void> {
+  const cycleNumber = await getCurrentCycleNumber();
+  const estimatedRequests = usage.estimated ? 1 : 0;
+
+  await db
+    .insert(chatTokenUsage)
+    .values({
+      walletAddress,
+      cycleNumber,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      requestCount: 1,
+      estimatedRequests,
+    })
+    .onConflictDoUpdate({
+      target: [chatTokenUsage.walletAddress, chatTokenUsage.cycleNumber],
+      set: {
+        promptTokens: sql`${chatTokenUsage.promptTokens} + ${usage.promptTokens}`,
+        completionTokens: sql`${chatTokenUsage.completionTokens} + ${usage.completionTokens}`,
+        requestCount: sql`${chatTokenUsage.requestCount} + 1`,
+        estimatedRequests: sql`${chatTokenUsage.estimatedRequests} + ${estimatedRequests}`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/**
+ * Current-cycle usage and quota for a wallet
+ */
+export async function getTokenUsageStatus(
+  walletAddress: string,
+  isCreatorWallet = false,
+  config: TokenQuotaConfig = getTokenQuotaConfig()
+): Promise<TokenUsageStatus> {
+  const [balance, cycleNumber] = await Promise.all([
+    storage.getOrCreateWalletBalance(walletAddress),
+    getCurrentCycleNumber(),
+  ]);
+
+  const [row] = await db
+    .select()
+    .from(chatTokenUsage)
+    .where(and(
+      eq(chatTokenUsage.walletAddress, walletAddress),
+      eq(chatTokenUsage.cycleNumber, cycleNumber)
+    ))
+    .limit(1);
+
+  const stakeHive = parseFloat(balance.trainingStakeHive) || 0;
+  const quota = computeTokenQuota(balance.level, stakeHive, config, isCreatorWallet);
+  const promptTokens = row?.promptTokens ?? 0;
+  const completionTokens = row?.completionTokens ?? 0;
+  const totalTokens = promptTokens + completionTokens;
+
+  return {
+    enabled: config.enabled,
+    cycleNumber,
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    requestCount: row?.requestCount ?? 0,
+    quota,
+    remaining: Math.max(0, quota - totalTokens),
+    exhausted: config.enabled && totalTokens >= quota,
+    level: balance.level,
+    stakeHive,
+  };
+}
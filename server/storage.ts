@@ -13,7 +13,9 @@ import {
   type HubPost,
   type HubSubmission,
   type TrainingCorpusItem,
+  type CorpusItemMetadata,
   type ChatMessage,
+  type Conversation,
   type AuthNonce,
   type Session,
   type WalletBalance,
@@ -41,6 +43,7 @@ import {
   trainingPool,
   trainingCorpusItems,
   chatMessages,
+  conversations,
   authNonces,
   sessions,
   auditLogs,
@@ -126,6 +129,7 @@ export interface IStorage {
   }): Promise<TrainAttempt>;
   getPendingAttempts(): Promise<TrainAttempt[]>;
   getAttemptById(id: string): Promise<TrainAttempt | undefined>;
+  getAttemptsBySubmitter(walletAddress: string, limit?: number): Promise<TrainAttempt[]>;
   updateAttemptStatus(id: string, status: "approved" | "rejected", evidencePacket?: Record<string, any>): Promise<TrainAttempt>;
   updateAttemptAutoReview(id: string, data: {
     status: "approved" | "rejected" | "pending";
@@ -191,8 +195,11 @@ export interface IStorage {
     normalizedText: string;
     sourceAttemptId?: string;
     submitterWalletPubkey?: string;
+    metadata?: CorpusItemMetadata;
+    injectionScore?: string;
   }): Promise<TrainingCorpusItem>;
   updateCorpusItem(id: string, normalizedText?: string, trackId?: string): Promise<TrainingCorpusItem | undefined>;
+  updateCorpusItemMetadata(id: string, metadata: CorpusItemMetadata): Promise<TrainingCorpusItem | undefined>;
   deleteCorpusItem(id: string): Promise<void>;
   getCorpusStats(): Promise<{ total: number; byTrack: Record<string, number> }>;
   getHubSubmissionById(id: string): Promise<HubSubmission | undefined>;
@@ -214,13 +221,28 @@ export interface IStorage {
   searchCorpusItems(query: string, trackId?: string, limit?: number): Promise<TrainingCorpusItem[]>;
   saveChatMessage(data: {
     walletAddress: string;
+    conversationId?: string;
     trackId?: string;
     aiLevel: number;
     userMessage: string;
     aiResponse: string;
     corpusItemsUsed?: string[];
+    toolInvocations?: ChatMessage["toolInvocations"];
+    sources?: ChatMessage["sources"];
+    policySnapshot?: ChatMessage["policySnapshot"];
   }): Promise<ChatMessage>;
   getChatHistory(walletAddress: string, limit?: number): Promise<ChatMessage[]>;
+  setChatMessageFeedback(id: string, walletAddress: string, rating: 1 | -1 | null, reason?: string | null): Promise<ChatMessage | undefined>;
+
+  // Conversation operations
+  createConversation(walletAddress: string, title: string, attemptId?: string): Promise<Conversation>;
+  getConversation(id: string, walletAddress: string): Promise<Conversation | undefined>;
+  getConversationByAttempt(attemptId: string, walletAddress: string): Promise<Conversation | undefined>;
+  getConversationsByWallet(walletAddress: string, limit?: number): Promise<Conversation[]>;
+  renameConversation(id: string, walletAddress: string, title: string): Promise<Conversation | undefined>;
+  updateConversationSummary(id: string, summary: string, summarizedMessageCount: number): Promise<void>;
+  touchConversation(id: string): Promise<void>;
+  getConversationMessages(conversationId: string, walletAddress: string): Promise<ChatMessage[]>;
 
   // Auth nonce operations
   createNonce(walletAddress: string, nonceHash: string, message: string, expiresAt: Date, ipHash?: string, userAgentHash?: string): Promise<AuthNonce>;
@@ -526,6 +548,15 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getAttemptsBySubmitter(walletAddress: string, limit: number = 20): Promise<TrainAttempt[]> {
+    return await db
+      .select()
+      .from(trainAttempts)
+      .where(eq(trainAttempts.submitterWalletPubkey, walletAddress))
+      .orderBy(desc(trainAttempts.createdAt))
+      .limit(limit);
+  }
+
   async updateAttemptStatus(id: string, status: "approved" | "rejected", evidencePacket?: Record<string, any>): Promise<TrainAttempt> {
     const updates: any = { status, reviewedAt: new Date() };
     if (evidencePacket) updates.evidencePacket = evidencePacket;
@@ -795,12 +826,16 @@ export class DbStorage implements IStorage {
     cycleId: string;
     normalizedText: string;
     sourceAttemptId?: string;
+    metadata?: CorpusItemMetadata;
+    injectionScore?: string;
   }): Promise<TrainingCorpusItem> {
     const result = await db.insert(trainingCorpusItems).values({
       trackId: data.trackId,
       cycleId: data.cycleId,
       normalizedText: data.normalizedText,
       sourceAttemptId: data.sourceAttemptId,
+      metadata: data.metadata ?? {},
+      injectionScore: data.injectionScore,
       createdByWallet: null, // Legacy field - keep for compatibility
       submitterWalletPubkey: null,
     }).returning();
@@ -825,6 +860,15 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async updateCorpusItemMetadata(id: string, metadata: CorpusItemMetadata): Promise<TrainingCorpusItem | undefined> {
+    const result = await db
+      .update(trainingCorpusItems)
+      .set({ metadata, updatedAt: new Date() })
+      .where(eq(trainingCorpusItems.id, id))
+      .returning();
+    return result[0];
+  }
+
   async deleteCorpusItem(id: string): Promise<void> {
     await db.delete(trainingCorpusItems).where(eq(trainingCorpusItems.id, id));
   }
@@ -878,19 +922,27 @@ export class DbStorage implements IStorage {
 
   async saveChatMessage(data: {
     walletAddress: string;
+    conversationId?: string;
     trackId?: string;
     aiLevel: number;
     userMessage: string;
     aiResponse: string;
     corpusItemsUsed?: string[];
+    toolInvocations?: ChatMessage["toolInvocations"];
+    sources?: ChatMessage["sources"];
+    policySnapshot?: ChatMessage["policySnapshot"];
   }): Promise<ChatMessage> {
     const result = await db.insert(chatMessages).values({
       walletAddress: data.walletAddress,
+      conversationId: data.conversationId || null,
       trackId: data.trackId || null,
       aiLevel: data.aiLevel,
       userMessage: data.userMessage,
       aiResponse: data.aiResponse,
       corpusItemsUsed: data.corpusItemsUsed || [],
+      toolInvocations: data.toolInvocations ?? null,
+      sources: data.sources ?? null,
+      policySnapshot: data.policySnapshot ?? null,
     }).returning();
     return result[0];
   }
@@ -904,6 +956,89 @@ export class DbStorage implements IStorage {
       .limit(limit);
   }
 
+  async setChatMessageFeedback(
+    id: string,
+    walletAddress: string,
+    rating: 1 | -1 | null,
+    reason?: string | null
+  ): Promise<ChatMessage | undefined> {
+    const result = await db
+      .update(chatMessages)
+      .set({
+        feedbackRating: rating,
+        feedbackReason: rating === null ? null : reason || null,
+        feedbackAt: rating === null ? null : new Date(),
+      })
+      .where(and(eq(chatMessages.id, id), eq(chatMessages.walletAddress, walletAddress)))
+      .returning();
+    return result[0];
+  }
+
+  // Conversation operations
+  async createConversation(walletAddress: string, title: string, attemptId?: string): Promise<Conversation> {
+    const result = await db.insert(conversations).values({ walletAddress, title, attemptId }).returning();
+    return result[0];
+  }
+
+  async getConversation(id: string, walletAddress: string): Promise<Conversation | undefined> {
+    const result = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.walletAddress, walletAddress)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getConversationByAttempt(attemptId: string, walletAddress: string): Promise<Conversation | undefined> {
+    const result = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.attemptId, attemptId), eq(conversations.walletAddress, walletAddress)))
+      .orderBy(desc(conversations.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async getConversationsByWallet(walletAddress: string, limit: number = 50): Promise<Conversation[]> {
+    return await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.walletAddress, walletAddress))
+      .orderBy(desc(conversations.updatedAt))
+      .limit(limit);
+  }
+
+  async renameConversation(id: string, walletAddress: string, title: string): Promise<Conversation | undefined> {
+    const result = await db
+      .update(conversations)
+      .set({ title, updatedAt: new Date() })
+      .where(and(eq(conversations.id, id), eq(conversations.walletAddress, walletAddress)))
+      .returning();
+    return result[0];
+  }
+
+  async updateConversationSummary(id: string, summary: string, summarizedMessageCount: number): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ summary, summarizedMessageCount })
+      .where(eq(conversations.id, id));
+  }
+
+  async touchConversation(id: string): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(conversations.id, id));
+  }
+
+  async getConversationMessages(conversationId: string, walletAddress: string): Promise<ChatMessage[]> {
+    return await db
+      .select()
+      .from(chatMessages)
+      .where(and(eq(chatMessages.conversationId, conversationId), eq(chatMessages.walletAddress, walletAddress)))
+      .orderBy(chatMessages.createdAt);
+  }
+
   // Auth nonce operations
   async createNonce(
     walletAddress: string,
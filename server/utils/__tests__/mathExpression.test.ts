@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { evaluateExpression } from "../mathExpression";
+
+describe("Math Expression Evaluator", () => {
+  it("should respect operator precedence and parentheses", () => {
+    expect(evaluateExpression("2 + 3 * 4").value).toBe(14);
+    expect(evaluateExpression("(2 + 3) * 4").value).toBe(20);
+    expect(evaluateExpression("10 % 4 + 1").value).toBe(3);
+  });
+
+  it("should treat ^ as right-associative and bind tighter than unary minus", () => {
+    expect(evaluateExpression("2^3^2").value).toBe(512);
+    expect(evaluateExpression("-2^2").value).toBe(-4);
+    expect(evaluateExpression("2^-1").value).toBe(0.5);
+  });
+
+  it("should support functions, constants and fractions", () => {
+    expect(evaluateExpression("sqrt(16) + abs(-3)").value).toBe(7);
+    expect(evaluateExpression("max(1, 7, 3)").value).toBe(7);
+    expect(evaluateExpression("round(pi * 100)").value).toBe(314);
+    expect(evaluateExpression("3/4 + 1/4").value).toBe(1);
+    expect(evaluateExpression("1 1/2").value).toBe(1.5);
+    expect(evaluateExpression("1.5e3 / 3").value).toBe(500);
+  });
+
+  it("should trim floating point noise", () => {
+    expect(evaluateExpression("0.1 + 0.2").value).toBe(0.3);
+  });
+
+  it("should reject invalid or unsafe input", () => {
+    expect(evaluateExpression("").error).toBeDefined();
+    expect(evaluateExpression("2 +").error).toBeDefined();
+    expect(evaluateExpression("1 / 0").error).toBe("Division by zero");
+    expect(evaluateExpression("process.exit(1)").error).toBeDefined();
+    expect(evaluateExpression("constructor(1)").error).toContain("Unknown function");
+    expect(evaluateExpression("sqrt(1, 2)").error).toContain("argument");
+    expect(evaluateExpression("(".repeat(50) + "1" + ")".repeat(50)).error).toContain("nested");
+    expect(evaluateExpression("1+".repeat(150) + "1").error).toContain("longer than");
+  });
+});
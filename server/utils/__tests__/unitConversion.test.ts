@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { convertUnits, resolveUnit } from "../unitConversion";
+
+describe("Unit Conversion", () => {
+  it("should resolve names and aliases to canonical units", () => {
+    expect(resolveUnit("Miles")).toBe("mi");
+    expect(resolveUnit("km/h")).toBe("km/h");
+    expect(resolveUnit("°F")).toBe("f");
+    expect(resolveUnit("furlong")).toBeNull();
+  });
+
+  it("should convert linear units through the base unit", () => {
+    expect(convertUnits(1, "mi", "km").value).toBe(1.609344);
+    expect(convertUnits("3/4", "lb", "g").value).toBeCloseTo(340.19, 2);
+    expect(convertUnits(1, "GiB", "MB").value).toBe(1073.741824);
+    expect(convertUnits(100, "km/h", "m/s").value).toBeCloseTo(27.7778, 4);
+  });
+
+  it("should convert offset temperature scales", () => {
+    expect(convertUnits(212, "fahrenheit", "celsius").value).toBe(100);
+    expect(convertUnits(0, "c", "k").value).toBe(273.15);
+    expect(convertUnits(-40, "c", "f").value).toBe(-40);
+  });
+
+  it("should reject unknown units, mismatched categories and bad values", () => {
+    expect(convertUnits(1, "furlong", "m").error).toContain("Unknown unit");
+    expect(convertUnits(1, "kg", "m").error).toContain("Cannot convert");
+    expect(convertUnits("abc", "kg", "lb").error).toContain("Invalid value");
+  });
+});
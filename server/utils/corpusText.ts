@@ -0,0 +1,11 @@
+/**
+ * Normalize corpus text the same way for every entry point
+ * (lowercase, punctuation replaced by spaces, whitespace collapsed)
+ */
+export function normalizeCorpusText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,272 @@
+/**
+ * Sandboxed arithmetic expression evaluator for the chat calculator tool
+ * Parses with a small recursive-descent grammar (no eval), supporting:
+ * - Numbers: "12.5", "1e3", and mixed numbers via parseNumeric ("1 1/2")
+ * - Operators: + - * / % ^ (right-associative), unary minus, parentheses
+ * - Functions: sqrt, cbrt, abs, exp, ln, log (base 10), log2, sin, cos, tan, asin, acos, atan,
+ *   round, floor, ceil, min, max, pow
+ * - Constants: pi, e
+ */
+
+import { parseNumeric } from "./numericGrade";
+
+export interface ExpressionResult {
+  value?: number;
+  error?: string;
+}
+
+export const MAX_EXPRESSION_LENGTH = 200;
+const MAX_DEPTH = 32;
+const MIXED_NUMBER_PATTERN = /^-?\d+\s+\d+\s*\/\s*\d+$/;
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  sqrt: { arity: [1, 1], fn: Math.sqrt },
+  cbrt: { arity: [1, 1], fn: Math.cbrt },
+  abs: { arity: [1, 1], fn: Math.abs },
+  exp: { arity: [1, 1], fn: Math.exp },
+  ln: { arity: [1, 1], fn: Math.log },
+  log: { arity: [1, 1], fn: Math.log10 },
+  log2: { arity: [1, 1], fn: Math.log2 },
+  sin: { arity: [1, 1], fn: Math.sin },
+  cos: { arity: [1, 1], fn: Math.cos },
+  tan: { arity: [1, 1], fn: Math.tan },
+  asin: { arity: [1, 1], fn: Math.asin },
+  acos: { arity: [1, 1], fn: Math.acos },
+  atan: { arity: [1, 1], fn: Math.atan },
+  round: { arity: [1, 1], fn: Math.round },
+  floor: { arity: [1, 1], fn: Math.floor },
+  ceil: { arity: [1, 1], fn: Math.ceil },
+  min: { arity: [1, 16], fn: Math.min },
+  max: { arity: [1, 16], fn: Math.max },
+  pow: { arity: [2, 2], fn: Math.pow },
+};
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "ident"; value: string }
+  | { type: "op"; value: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const numberMatch = input.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+    if (numberMatch) {
+      tokens.push({ type: "number", value: Number(numberMatch[0]) });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = input.slice(i).match(/^[a-zA-Z_][a-zA-Z0-9_]*/);
+    if (identMatch) {
+      tokens.push({ type: "ident", value: identMatch[0].toLowerCase() });
+      i += identMatch[0].length;
+      continue;
+    }
+
+    if ("+-*/%^(),".includes(ch)) {
+      tokens.push({ type: "op", value: ch });
+      i++;
+      continue;
+    }
+
+    // Common typographic operators
+    if (ch === "×" || ch === "·") {
+      tokens.push({ type: "op", value: "*" });
+      i++;
+      continue;
+    }
+    if (ch === "÷") {
+      tokens.push({ type: "op", value: "/" });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${ch}"`);
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): number {
+    const value = this.expression();
+    if (this.pos < this.tokens.length) {
+      throw new Error(`Unexpected "${this.tokens[this.pos].value}"`);
+    }
+    return value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.type === "op" && token.value === value;
+  }
+
+  private expect(value: string): void {
+    if (!this.isOp(value)) {
+      throw new Error(`Expected "${value}"`);
+    }
+    this.pos++;
+  }
+
+  private enter(): void {
+    if (++this.depth > MAX_DEPTH) {
+      throw new Error("Expression is nested too deeply");
+    }
+  }
+
+  // expression := term (("+" | "-") term)*
+  private expression(): number {
+    let value = this.term();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = this.tokens[this.pos++].value;
+      const right = this.term();
+      value = op === "+" ? value + right : value - right;
+    }
+    return value;
+  }
+
+  // term := unary (("*" | "/" | "%") unary)*
+  private term(): number {
+    let value = this.unary();
+    while (this.isOp("*") || this.isOp("/") || this.isOp("%")) {
+      const op = this.tokens[this.pos++].value;
+      const right = this.unary();
+      if ((op === "/" || op === "%") && right === 0) {
+        throw new Error("Division by zero");
+      }
+      value = op === "*" ? value * right : op === "/" ? value / right : value % right;
+    }
+    return value;
+  }
+
+  // unary := ("-" | "+") unary | power
+  private unary(): number {
+    if (this.isOp("-") || this.isOp("+")) {
+      const op = this.tokens[this.pos++].value;
+      this.enter();
+      const value = this.unary();
+      this.depth--;
+      return op === "-" ? -value : value;
+    }
+    return this.power();
+  }
+
+  // power := primary ("^" unary)?   (right-associative, so -2^2 = -4 and 2^3^2 = 512)
+  private power(): number {
+    const base = this.primary();
+    if (this.isOp("^")) {
+      this.pos++;
+      this.enter();
+      const exponent = this.unary();
+      this.depth--;
+      return Math.pow(base, exponent);
+    }
+    return base;
+  }
+
+  // primary := number | constant | function "(" args ")" | "(" expression ")"
+  private primary(): number {
+    const token = this.peek();
+    if (!token) {
+      throw new Error("Unexpected end of expression");
+    }
+
+    if (token.type === "number") {
+      this.pos++;
+      return token.value;
+    }
+
+    if (token.type === "ident") {
+      this.pos++;
+      // Own-property checks so names like "constructor" never reach Object.prototype
+      if (Object.prototype.hasOwnProperty.call(CONSTANTS, token.value) && !this.isOp("(")) {
+        return CONSTANTS[token.value];
+      }
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!fn) {
+        throw new Error(`Unknown function or constant "${token.value}"`);
+      }
+      this.expect("(");
+      this.enter();
+      const args = [this.expression()];
+      while (this.isOp(",")) {
+        this.pos++;
+        args.push(this.expression());
+      }
+      this.depth--;
+      this.expect(")");
+      if (args.length < fn.arity[0] || args.length > fn.arity[1]) {
+        throw new Error(`${token.value}() takes ${fn.arity[0] === fn.arity[1] ? fn.arity[0] : `${fn.arity[0]}-${fn.arity[1]}`} argument(s)`);
+      }
+      return fn.fn(...args);
+    }
+
+    if (this.isOp("(")) {
+      this.pos++;
+      this.enter();
+      const value = this.expression();
+      this.depth--;
+      this.expect(")");
+      return value;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+}
+
+/**
+ * Evaluate an arithmetic expression without executing code
+ *
+ * @param input - Expression string, e.g. "(3/4 + 2) * sqrt(16)"
+ * @returns The value, or an error message for invalid / non-finite results
+ */
+export function evaluateExpression(input: string | null | undefined): ExpressionResult {
+  if (!input || !input.trim()) {
+    return { error: "Empty expression" };
+  }
+  if (input.length > MAX_EXPRESSION_LENGTH) {
+    return { error: `Expression longer than ${MAX_EXPRESSION_LENGTH} characters` };
+  }
+
+  // Mixed numbers ("1 1/2") aren't valid expressions; read them the same way as graded answers
+  if (MIXED_NUMBER_PATTERN.test(input.trim())) {
+    const literal = parseNumeric(input);
+    if (literal !== null) {
+      return { value: literal };
+    }
+  }
+
+  try {
+    const value = new Parser(tokenize(input)).parse();
+    if (!Number.isFinite(value)) {
+      return { error: "Result is not a finite number" };
+    }
+    // Trim floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+    return { value: Number(value.toPrecision(12)) };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Unit conversion for the chat unit converter tool
+ * Linear units convert through a base unit per category; temperature is handled separately
+ * because its scales are offset (°C, °F, K).
+ */
+
+import { parseNumeric } from "./numericGrade";
+
+export type UnitCategory = "length" | "mass" | "time" | "volume" | "area" | "speed" | "data" | "energy" | "temperature";
+
+export interface UnitConversionResult {
+  value?: number;
+  from?: string;
+  to?: string;
+  category?: UnitCategory;
+  error?: string;
+}
+
+interface UnitDefinition {
+  category: UnitCategory;
+  factor: number; // Size in the category's base unit (unused for temperature)
+  aliases: string[];
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  // Length (base: meter)
+  mm: { category: "length", factor: 0.001, aliases: ["millimeter", "millimeters", "millimetre", "millimetres"] },
+  cm: { category: "length", factor: 0.01, aliases: ["centimeter", "centimeters", "centimetre", "centimetres"] },
+  m: { category: "length", factor: 1, aliases: ["meter", "meters", "metre", "metres"] },
+  km: { category: "length", factor: 1000, aliases: ["kilometer", "kilometers", "kilometre", "kilometres"] },
+  in: { category: "length", factor: 0.0254, aliases: ["inch", "inches", "\""] },
+  ft: { category: "length", factor: 0.3048, aliases: ["foot", "feet", "'"] },
+  yd: { category: "length", factor: 0.9144, aliases: ["yard", "yards"] },
+  mi: { category: "length", factor: 1609.344, aliases: ["mile", "miles"] },
+  nmi: { category: "length", factor: 1852, aliases: ["nautical mile", "nautical miles"] },
+
+  // Mass (base: kilogram)
+  mg: { category: "mass", factor: 1e-6, aliases: ["milligram", "milligrams"] },
+  g: { category: "mass", factor: 0.001, aliases: ["gram", "grams"] },
+  kg: { category: "mass", factor: 1, aliases: ["kilogram", "kilograms", "kilo", "kilos"] },
+  t: { category: "mass", factor: 1000, aliases: ["tonne", "tonnes", "metric ton", "metric tons"] },
+  oz: { category: "mass", factor: 0.028349523125, aliases: ["ounce", "ounces"] },
+  lb: { category: "mass", factor: 0.45359237, aliases: ["lbs", "pound", "pounds"] },
+
+  // Time (base: second)
+  ms: { category: "time", factor: 0.001, aliases: ["millisecond", "milliseconds"] },
+  s: { category: "time", factor: 1, aliases: ["sec", "secs", "second", "seconds"] },
+  min: { category: "time", factor: 60, aliases: ["mins", "minute", "minutes"] },
+  h: { category: "time", factor: 3600, aliases: ["hr", "hrs", "hour", "hours"] },
+  day: { category: "time", factor: 86400, aliases: ["d", "days"] },
+  week: { category: "time", factor: 604800, aliases: ["wk", "weeks"] },
+  year: { category: "time", factor: 31557600, aliases: ["yr", "yrs", "years"] }, // Julian year (365.25 days)
+
+  // Volume (base: liter)
+  ml: { category: "volume", factor: 0.001, aliases: ["milliliter", "milliliters", "millilitre", "millilitres"] },
+  l: { category: "volume", factor: 1, aliases: ["liter", "liters", "litre", "litres"] },
+  m3: { category: "volume", factor: 1000, aliases: ["cubic meter", "cubic meters", "m^3"] },
+  tsp: { category: "volume", factor: 0.00492892159375, aliases: ["teaspoon", "teaspoons"] },
+  tbsp: { category: "volume", factor: 0.01478676478125, aliases: ["tablespoon", "tablespoons"] },
+  floz: { category: "volume", factor: 0.0295735295625, aliases: ["fl oz", "fluid ounce", "fluid ounces"] },
+  cup: { category: "volume", factor: 0.2365882365, aliases: ["cups"] },
+  pt: { category: "volume", factor: 0.473176473, aliases: ["pint", "pints"] },
+  qt: { category: "volume", factor: 0.946352946, aliases: ["quart", "quarts"] },
+  gal: { category: "volume", factor: 3.785411784, aliases: ["gallon", "gallons"] },
+
+  // Area (base: square meter)
+  cm2: { category: "area", factor: 1e-4, aliases: ["cm^2", "square centimeter", "square centimeters"] },
+  m2: { category: "area", factor: 1, aliases: ["m^2", "square meter", "square meters", "sq m"] },
+  km2: { category: "area", factor: 1e6, aliases: ["km^2", "square kilometer", "square kilometers"] },
+  ha: { category: "area", factor: 1e4, aliases: ["hectare", "hectares"] },
+  acre: { category: "area", factor: 4046.8564224, aliases: ["acres"] },
+  ft2: { category: "area", factor: 0.09290304, aliases: ["ft^2", "sq ft", "square foot", "square feet"] },
+  in2: { category: "area", factor: 0.00064516, aliases: ["in^2", "sq in", "square inch", "square inches"] },
+  mi2: { category: "area", factor: 2589988.110336, aliases: ["mi^2", "sq mi", "square mile", "square miles"] },
+
+  // Speed (base: meters per second)
+  "m/s": { category: "speed", factor: 1, aliases: ["mps", "meters per second"] },
+  "km/h": { category: "speed", factor: 1 / 3.6, aliases: ["kph", "kmh", "kilometers per hour"] },
+  mph: { category: "speed", factor: 0.44704, aliases: ["mi/h", "miles per hour"] },
+  knot: { category: "speed", factor: 1852 / 3600, aliases: ["knots", "kn", "kt"] },
+  "ft/s": { category: "speed", factor: 0.3048, aliases: ["fps", "feet per second"] },
+
+  // Data (base: byte)
+  bit: { category: "data", factor: 0.125, aliases: ["bits"] },
+  byte: { category: "data", factor: 1, aliases: ["bytes", "b"] },
+  kb: { category: "data", factor: 1e3, aliases: ["kilobyte", "kilobytes"] },
+  mb: { category: "data", factor: 1e6, aliases: ["megabyte", "megabytes"] },
+  gb: { category: "data", factor: 1e9, aliases: ["gigabyte", "gigabytes"] },
+  tb: { category: "data", factor: 1e12, aliases: ["terabyte", "terabytes"] },
+  kib: { category: "data", factor: 1024, aliases: ["kibibyte", "kibibytes"] },
+  mib: { category: "data", factor: 1024 ** 2, aliases: ["mebibyte", "mebibytes"] },
+  gib: { category: "data", factor: 1024 ** 3, aliases: ["gibibyte", "gibibytes"] },
+
+  // Energy (base: joule)
+  j: { category: "energy", factor: 1, aliases: ["joule", "joules"] },
+  kj: { category: "energy", factor: 1000, aliases: ["kilojoule", "kilojoules"] },
+  cal: { category: "energy", factor: 4.184, aliases: ["calorie", "calories"] },
+  kcal: { category: "energy", factor: 4184, aliases: ["kilocalorie", "kilocalories", "food calorie", "food calories"] },
+  wh: { category: "energy", factor: 3600, aliases: ["watt hour", "watt hours"] },
+  kwh: { category: "energy", factor: 3.6e6, aliases: ["kilowatt hour", "kilowatt hours"] },
+  ev: { category: "energy", factor: 1.602176634e-19, aliases: ["electronvolt", "electronvolts"] },
+
+  // Temperature (offset scales, see convertTemperature)
+  c: { category: "temperature", factor: 1, aliases: ["°c", "celsius", "degc", "degrees celsius"] },
+  f: { category: "temperature", factor: 1, aliases: ["°f", "fahrenheit", "degf", "degrees fahrenheit"] },
+  k: { category: "temperature", factor: 1, aliases: ["kelvin", "kelvins"] },
+};
+
+const UNIT_LOOKUP: Map<string, string> = (() => {
+  const lookup = new Map<string, string>();
+  for (const [unit, definition] of Object.entries(UNITS)) {
+    lookup.set(unit, unit);
+    for (const alias of definition.aliases) {
+      lookup.set(alias, unit);
+    }
+  }
+  return lookup;
+})();
+
+/**
+ * Resolve a unit name or alias ("Miles", "km/h", "°F") to its canonical symbol
+ */
+export function resolveUnit(name: string): string | null {
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, " ");
+  return UNIT_LOOKUP.get(normalized) ?? UNIT_LOOKUP.get(normalized.replace(/\.$/, "")) ?? null;
+}
+
+function toKelvin(value: number, unit: string): number {
+  if (unit === "c") return value + 273.15;
+  if (unit === "f") return (value - 32) * 5 / 9 + 273.15;
+  return value;
+}
+
+function fromKelvin(value: number, unit: string): number {
+  if (unit === "c") return value - 273.15;
+  if (unit === "f") return (value - 273.15) * 9 / 5 + 32;
+  return value;
+}
+
+/**
+ * Convert a value between two units of the same category
+ *
+ * @param value - Number, or a numeric string in any format parseNumeric accepts ("3/4", "1 1/2")
+ * @param from - Source unit name or alias
+ * @param to - Target unit name or alias
+ */
+export function convertUnits(value: number | string, from: string, to: string): UnitConversionResult {
+  const amount = typeof value === "number" ? value : parseNumeric(value);
+  if (amount === null || !Number.isFinite(amount)) {
+    return { error: `Invalid value "${value}"` };
+  }
+
+  const fromUnit = resolveUnit(from);
+  if (!fromUnit) {
+    return { error: `Unknown unit "${from}"` };
+  }
+  const toUnit = resolveUnit(to);
+  if (!toUnit) {
+    return { error: `Unknown unit "${to}"` };
+  }
+
+  const category = UNITS[fromUnit].category;
+  if (UNITS[toUnit].category !== category) {
+    return { error: `Cannot convert ${category} (${fromUnit}) to ${UNITS[toUnit].category} (${toUnit})` };
+  }
+
+  const converted = category === "temperature"
+    ? fromKelvin(toKelvin(amount, fromUnit), toUnit)
+    : amount * UNITS[fromUnit].factor / UNITS[toUnit].factor;
+
+  return {
+    value: Number(converted.toPrecision(12)),
+    from: fromUnit,
+    to: toUnit,
+    category,
+  };
+}
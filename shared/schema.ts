@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, bigint, boolean, timestamp, jsonb, numeric, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, boolean, timestamp, jsonb, numeric, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -22,10 +22,20 @@ export type User = typeof users.$inferSelect;
 
 // HiveMind Tables
 
+// How corpus text is split into chunks before embedding (see server/services/chunking.ts)
+export type ChunkingStrategy = "fixed" | "markdown" | "sentence" | "code" | "token";
+
+export interface ChunkingConfig {
+  strategy: ChunkingStrategy;
+  chunkSize: number; // Characters, or estimated tokens for the "token" strategy
+  overlap: number; // Same unit as chunkSize
+}
+
 export const tracks = pgTable("tracks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   description: text("description"),
+  chunkingConfig: jsonb("chunking_config").$type<ChunkingConfig>(), // Default for the track's corpus items (null = server default)
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -47,7 +57,7 @@ export const questions = pgTable("questions", {
 export const phrases = pgTable("phrases", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   normalized: text("normalized").notNull().unique(),
-  redacted: text("redacted").notNull(),
+  redacted: text("redacted").notNull(), // Normalized phrase with PII placeholders (see server/services/piiScanner.ts)
   globalMentions: integer("global_mentions").notNull().default(0),
   trackMentions: jsonb("track_mentions").notNull().$type<Record<string, number>>().default({}),
   lastCycleCounted: integer("last_cycle_counted"),
@@ -151,6 +161,17 @@ export const trainingPool = pgTable("training_pool", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Structured description of a corpus item's source; all fields optional
+// Values are stored normalized (see services/corpusMetadata.ts) so they can be faceted and filtered exactly
+export interface CorpusItemMetadata {
+  sourceUrl?: string;
+  license?: string; // SPDX-style identifier, upper case (e.g. "CC-BY-4.0")
+  language?: string; // BCP 47 tag, lower case (e.g. "en", "pt-br")
+  tags?: string[]; // Lower case, unique
+  difficulty?: number; // 1 (introductory) to 5 (expert)
+  author?: string;
+}
+
 // Training Corpus Items - the canonical dataset the official HiveMind AI learns from
 export const trainingCorpusItems = pgTable("training_corpus_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -163,41 +184,185 @@ export const trainingCorpusItems = pgTable("training_corpus_items", {
   submitterWalletPubkey: varchar("submitter_wallet_pubkey"), // Wallet address of submitter (for self-review protection) - preferred field name
   sourceAttemptId: varchar("source_attempt_id").references(() => trainAttempts.id),
   approvedAt: timestamp("approved_at"),
+  approvedText: text("approved_text"), // Text at the last approval; edits are measured against it (null = approved before this was recorded)
   embedStatus: text("embed_status").notNull().default("not_embedded"), // not_embedded | queued | embedding | embedded | failed
   embedError: text("embed_error"),
   embedAttempts: integer("embed_attempts").notNull().default(0),
   embedNextRetryAt: timestamp("embed_next_retry_at"),
   contentHash: text("content_hash"),
   lastEmbeddedHash: text("last_embedded_hash"),
+  chunkingConfig: jsonb("chunking_config").$type<ChunkingConfig>(), // Overrides the track's chunking (null = inherit)
+  sourceUploadId: varchar("source_upload_id").references(() => corpusUploads.id), // Set for items extracted from an uploaded document
+  sourceFilename: text("source_filename"),
+  metadata: jsonb("metadata").$type<CorpusItemMetadata>().notNull().default({}),
+  injectionScore: numeric("injection_score", { precision: 4, scale: 3 }), // Prompt-injection risk of the full text at submission (null = not scanned)
   embedUpdatedAt: timestamp("embed_updated_at"),
   usageCountCycle: numeric("usage_count_cycle", { precision: 18, scale: 8 }).notNull().default("0"),
   lastUsedAt: timestamp("last_used_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  // Metadata filters in retrieval (tags ?| ..., metadata->>'license' = ...)
+  metadataIdx: index("training_corpus_items_metadata_idx").using("gin", table.metadata),
+}));
+
+// Embedding Spaces - one per embedding provider/model the corpus has been embedded with
+// Exactly one space is active for retrieval; a "building" space is filled in the background and then cut over
+export type EmbeddingSpaceStatus = "building" | "active" | "retired";
+
+export const embeddingSpaces = pgTable("embedding_spaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(), // LLMProviderName
+  model: text("model").notNull(),
+  dimension: integer("dimension").notNull(),
+  status: varchar("status").$type<EmbeddingSpaceStatus>().notNull().default("building"),
+  itemsTotal: integer("items_total").notNull().default(0), // Approved items queued when the migration started
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  activatedAt: timestamp("activated_at"),
+  retiredAt: timestamp("retired_at"),
+}, (table) => ({
+  oneActive: uniqueIndex("embedding_spaces_active_idx").on(table.status).where(sql`status = 'active'`),
+  oneBuilding: uniqueIndex("embedding_spaces_building_idx").on(table.status).where(sql`status = 'building'`),
+}));
+
+export type EmbeddingSpace = typeof embeddingSpaces.$inferSelect;
+
+// Prompt-injection heuristics that fired on a text (see services/ragGuard.ts)
+export type InjectionHeuristic = "imperative" | "role_marker" | "encoded_payload" | "obfuscation";
+
+export interface InjectionSignal {
+  heuristic: InjectionHeuristic;
+  pattern: string; // Name of the rule that matched
+  excerpt: string; // Text around the match
+  weight: number; // 0-1 contribution to the risk score
+}
+
+// none = below the quarantine threshold; quarantined chunks are left out of retrieval until a creator clears them
+export type ChunkQuarantineStatus = "none" | "quarantined" | "cleared";
 
 // Corpus Chunks - chunked text with vector embeddings for RAG
 // Note: embedding column uses pgvector(1024) - managed via raw SQL
+// An item has one set of chunks per embedding space it has been embedded into
 export const corpusChunks = pgTable("corpus_chunks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   corpusItemId: varchar("corpus_item_id").notNull().references(() => trainingCorpusItems.id),
   chunkIndex: integer("chunk_index").notNull(),
   chunkText: text("chunk_text").notNull(),
   embeddingModel: text("embedding_model"),
+  embeddingSpaceId: varchar("embedding_space_id").references(() => embeddingSpaces.id), // null = written before embedding spaces (adopted on first use)
+  chunkingConfig: jsonb("chunking_config").$type<ChunkingConfig>(), // Chunker that produced the row (null = legacy fixed 1000/200)
+  injectionScore: numeric("injection_score", { precision: 4, scale: 3 }).notNull().default("0"), // Prompt-injection risk, 0-1
+  injectionSignals: jsonb("injection_signals").$type<InjectionSignal[]>().notNull().default([]),
+  quarantineStatus: varchar("quarantine_status").$type<ChunkQuarantineStatus>().notNull().default("none"),
+  quarantineReviewedBy: varchar("quarantine_reviewed_by"),
+  quarantineReviewedAt: timestamp("quarantine_reviewed_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  quarantineIdx: index("corpus_chunks_quarantine_idx").on(table.quarantineStatus),
+  // Lexical half of hybrid retrieval (must match the expression in services/rag.ts)
+  textSearchIdx: index("corpus_chunks_text_search_idx").using("gin", sql`to_tsvector('english', ${table.chunkText})`),
+  spaceItemIdx: index("corpus_chunks_space_item_idx").on(table.embeddingSpaceId, table.corpusItemId),
+}));
+
+// Corpus Item Revisions - the item's text after every edit, so edits can be diffed and reverted
+// Revision 1 is the text the item had before its first recorded edit
+export const corpusItemRevisions = pgTable("corpus_item_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  corpusItemId: varchar("corpus_item_id").notNull().references(() => trainingCorpusItems.id, { onDelete: "cascade" }),
+  revisionNumber: integer("revision_number").notNull(),
+  normalizedText: text("normalized_text").notNull(),
+  trackId: varchar("track_id"),
+  contentHash: text("content_hash").notNull(),
+  authorWallet: varchar("author_wallet"),
+  reason: text("reason"),
+  changeRatio: numeric("change_ratio", { precision: 5, scale: 4 }).notNull().default("0"), // Share of words changed vs the previous revision
+  returnedToReview: boolean("returned_to_review").notNull().default(false), // Edit moved an approved item back to draft
+  revertedFromRevisionId: varchar("reverted_from_revision_id"), // Set when the edit restored an earlier revision
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  itemRevisionUnique: uniqueIndex("corpus_item_revisions_item_number_idx").on(table.corpusItemId, table.revisionNumber),
+}));
+
+// Corpus Uploads - documents split into corpus items by the ingest_corpus_upload job
+export type CorpusUploadStatus = "queued" | "processing" | "completed" | "failed";
+export type CorpusUploadFormat = "markdown" | "html" | "text" | "pdf";
+
+export interface CorpusUploadSectionResult {
+  index: number;
+  title: string;
+  outcome: "created" | "duplicate" | "empty" | "injection" | "pii"; // empty = no text left after normalization; injection = blocked by the prompt-injection scan; pii = rejected under PII_POLICY=reject
+  corpusItemId: string | null;
+  duplicateOf?: string; // Closest approved item (or earlier section of the same upload) when the section was skipped
+  similarity?: number;
+  injectionScore?: number; // Set when the section was blocked as a prompt injection
+  piiFound?: number; // PII matches redacted from (or rejecting) the section
+  approved?: boolean; // autoApprove uploads: whether the created item was approved (retried when the job resumes)
+}
+
+export const corpusUploads = pgTable("corpus_uploads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  filename: text("filename").notNull(),
+  format: text("format").notNull().$type<CorpusUploadFormat>(),
+  sizeBytes: integer("size_bytes").notNull(),
+  trackId: varchar("track_id").references(() => tracks.id),
+  cycleId: varchar("cycle_id").references(() => cycles.id),
+  autoApprove: boolean("auto_approve").notNull().default(false),
+  status: text("status").notNull().default("queued").$type<CorpusUploadStatus>(),
+  sourceData: text("source_data"), // Base64 file contents, cleared once processed
+  sectionsTotal: integer("sections_total").notNull().default(0),
+  sectionsProcessed: integer("sections_processed").notNull().default(0),
+  itemsCreated: integer("items_created").notNull().default(0),
+  duplicatesSkipped: integer("duplicates_skipped").notNull().default(0),
+  results: jsonb("results").$type<CorpusUploadSectionResult[]>().notNull().default([]),
+  error: text("error"),
+  jobId: varchar("job_id"),
+  uploadedByWallet: varchar("uploaded_by_wallet"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Conversations - multi-turn chat threads owned by a wallet
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletAddress: varchar("wallet_address").notNull(),
+  title: text("title").notNull(),
+  summary: text("summary"), // Rolling summary of turns that no longer fit the history budget
+  summarizedMessageCount: integer("summarized_message_count").notNull().default(0), // Oldest N messages covered by summary
+  attemptId: varchar("attempt_id").references(() => trainAttempts.id), // Set for "explain my mistakes" reviews of a training attempt
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 // Chat messages for the official HiveMind AI
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletAddress: varchar("wallet_address").notNull(),
+  conversationId: varchar("conversation_id").references(() => conversations.id), // Null for messages sent before threads existed
   trackId: varchar("track_id").references(() => tracks.id),
   aiLevel: integer("ai_level").notNull(),
   userMessage: text("user_message").notNull(),
   aiResponse: text("ai_response").notNull(),
   corpusItemsUsed: jsonb("corpus_items_used").$type<string[]>().default([]),
+  toolInvocations: jsonb("tool_invocations").$type<Array<{
+    name: string; // "calculator" | "convert_units"
+    arguments: Record<string, unknown>;
+    result: string | null;
+    error: string | null;
+  }>>(), // Tool calls executed while generating the answer (null = none)
+  sources: jsonb("sources").$type<Array<{ chunkText: string; score: number; title: string | null; rerankScore?: number }>>(), // Sanitized citations shown with the answer (null = saved before sources were stored)
+  policySnapshot: jsonb("policy_snapshot").$type<Record<string, unknown>>(), // Level policy the answer was generated under
+  feedbackRating: integer("feedback_rating"), // 1 = thumbs up, -1 = thumbs down, null = not rated
+  feedbackReason: text("feedback_reason"),
+  feedbackAt: timestamp("feedback_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  // Full-text search over a wallet's history (must match the expression in services/chatHistory.ts)
+  searchIdx: index("chat_messages_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', ${table.userMessage} || ' ' || ${table.aiResponse})`
+  ),
+}));
 
 // Auth Nonces - for secure wallet authentication
 // nonceHash stores sha256(nonce + IP_HASH_SALT) for security
@@ -413,6 +578,7 @@ export type QuestionAggregate = typeof questionAggregates.$inferSelect;
 export type TrackAggregate = typeof trackAggregates.$inferSelect;
 export type CycleAggregate = typeof cycleAggregates.$inferSelect;
 export type ChatMessage = typeof chatMessages.$inferSelect;
+export type Conversation = typeof conversations.$inferSelect;
 export type Track = typeof tracks.$inferSelect;
 export type Question = typeof questions.$inferSelect;
 export type Phrase = typeof phrases.$inferSelect;
@@ -427,6 +593,8 @@ export type HubSubmission = typeof hubSubmissions.$inferSelect;
 export type TrainingPool = typeof trainingPool.$inferSelect;
 export type TrainingCorpusItem = typeof trainingCorpusItems.$inferSelect;
 export type CorpusChunk = typeof corpusChunks.$inferSelect;
+export type CorpusItemRevision = typeof corpusItemRevisions.$inferSelect;
+export type CorpusUpload = typeof corpusUploads.$inferSelect;
 
 // Job Queue - lightweight background job processing
 export const jobs = pgTable("jobs", {
@@ -478,8 +646,10 @@ export const modelVersionsV2 = pgTable("model_versions_v2", {
     hallucinationRate?: number;
     latencyMs?: number;
     evalCount?: number;
+    retrieval?: Record<string, RetrievalBenchmark>; // Latest retrieval eval run per golden set name
   }>(),
   notes: text("notes"),
+  promptRevision: integer("prompt_revision"), // Prompt template revision pinned at creation (null = predates prompt templates)
 });
 
 // Model State - single-row table tracking active model version
@@ -494,6 +664,169 @@ export type ModelVersionV2 = typeof modelVersionsV2.$inferSelect;
 export type InsertModelVersionV2 = typeof modelVersionsV2.$inferInsert;
 export type ModelState = typeof modelState.$inferSelect;
 
+// Chat Answer Cache - semantic cache of generated answers
+// Entries only match within the same level band, track, corpus hash and model; stale entries are purged
+export const chatAnswerCache = pgTable("chat_answer_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  queryText: text("query_text").notNull(), // Normalized question
+  embedding: jsonb("embedding").$type<number[]>().notNull(),
+  levelBand: varchar("level_band").notNull(), // e.g. "40-70" (see getLevelPolicyBand in levelPolicy.ts)
+  trackId: varchar("track_id").references(() => tracks.id),
+  corpusHash: varchar("corpus_hash").notNull(),
+  modelVersionId: varchar("model_version_id"), // Active model version when cached (null = none active)
+  llmModel: varchar("llm_model").notNull(), // "<provider>:<chat model>" that generated the answer
+  result: jsonb("result").$type<Record<string, unknown>>().notNull(),
+  hitCount: integer("hit_count").notNull().default(0),
+  lastHitAt: timestamp("last_hit_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type ChatAnswerCacheEntry = typeof chatAnswerCache.$inferSelect;
+
+// Prompt Templates - creator-edited prompt text, append-only
+// Every edit inserts a row with the next global revision; model versions pin the revision they were created with
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: varchar("key").notNull(), // Template slot, e.g. "system_expert" (see promptTemplates.ts)
+  trackId: varchar("track_id").references(() => tracks.id), // null = global template, set = per-track override
+  revision: integer("revision").notNull(),
+  content: text("content"), // null = reset to the built-in default / remove the override
+  createdByWallet: varchar("created_by_wallet"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  revisionUnique: uniqueIndex("prompt_templates_revision_idx").on(table.revision),
+}));
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+
+// Chat Token Usage - per-wallet LLM token accounting, one row per wallet per cycle
+// Counts come from the provider's usage report when available, otherwise an estimate (~4 chars per token)
+export const chatTokenUsage = pgTable("chat_token_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletAddress: varchar("wallet_address").notNull(),
+  cycleNumber: integer("cycle_number").notNull(), // 0 when no cycle was active
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  requestCount: integer("request_count").notNull().default(0),
+  estimatedRequests: integer("estimated_requests").notNull().default(0), // Requests counted (partly) from estimates
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  walletCycleUnique: uniqueIndex("chat_token_usage_wallet_cycle_idx").on(table.walletAddress, table.cycleNumber),
+}));
+
+export type ChatTokenUsageRecord = typeof chatTokenUsage.$inferSelect;
+
+// Chat Output Flags - AI responses the output guard redacted, blocked or flagged, for admin review
+// Excerpts are stored with secrets already redacted
+export const chatOutputFlags = pgTable("chat_output_flags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatMessageId: varchar("chat_message_id").references(() => chatMessages.id, { onDelete: "cascade" }),
+  walletAddress: varchar("wallet_address").notNull(),
+  mode: varchar("mode").notNull(), // "redact" | "block" | "flag"
+  action: varchar("action").notNull(), // "redacted" | "blocked" | "flagged"
+  findingTypes: jsonb("finding_types").$type<string[]>().notNull(), // "secret" | "prompt_echo" | "policy"
+  findings: jsonb("findings").$type<Array<{ type: string; rule: string; excerpt: string }>>().notNull(),
+  responseExcerpt: text("response_excerpt").notNull(), // Start of the model's answer before guarding (secrets redacted)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type ChatOutputFlag = typeof chatOutputFlags.$inferSelect;
+
+// Retrieval Evaluation - golden question sets scored against searchCorpus
+export interface RetrievalScoreDistribution {
+  count: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  mean: number;
+}
+
+export interface RetrievalEvalMetrics {
+  questionCount: number;
+  recallAtK: number; // Mean share of expected items found in the top k
+  mrr: number; // Mean reciprocal rank of the first expected item
+  ndcg: number; // Mean nDCG@k with binary relevance
+  answerRecall: number | null; // Mean share of expected-answer terms present in retrieved text (null when no question has one)
+  scores: RetrievalScoreDistribution | null; // Retrieval scores of returned chunks
+}
+
+export interface RetrievalEvalSummary {
+  overall: RetrievalEvalMetrics;
+  byTrack: Record<string, RetrievalEvalMetrics>; // Keyed by track ID ("none" for questions without a track)
+}
+
+export interface RetrievalEvalSettings {
+  k: number;
+  minScore: number;
+  mode: string; // RetrievalMode used for every question
+  embeddingSpaceId: string | null;
+  embeddingModel: string | null;
+}
+
+export interface RetrievalBenchmark {
+  runId: string;
+  k: number;
+  recallAtK: number;
+  mrr: number;
+  ndcg: number;
+  evalCount: number;
+  ranAt: string;
+}
+
+export const retrievalEvalSets = pgTable("retrieval_eval_sets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  createdByWallet: varchar("created_by_wallet"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  nameUnique: uniqueIndex("retrieval_eval_sets_name_idx").on(table.name),
+}));
+
+export const retrievalEvalQuestions = pgTable("retrieval_eval_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  setId: varchar("set_id").notNull().references(() => retrievalEvalSets.id, { onDelete: "cascade" }),
+  query: text("query").notNull(),
+  expectedCorpusItemIds: jsonb("expected_corpus_item_ids").$type<string[]>().notNull(),
+  expectedAnswer: text("expected_answer"),
+  trackId: varchar("track_id").references(() => tracks.id), // Scopes retrieval like a track chat (null = whole corpus)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type RetrievalEvalRunStatus = "queued" | "running" | "completed" | "failed";
+
+// One row per evaluation run, so settings and model versions can be compared over time
+export const retrievalEvalRuns = pgTable("retrieval_eval_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  setId: varchar("set_id").notNull().references(() => retrievalEvalSets.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("completed").$type<RetrievalEvalRunStatus>(), // Runs before queuing were always completed
+  modelVersionId: varchar("model_version_id").references(() => modelVersionsV2.id), // Active model version when run
+  // settings, summary, results and durationMs are null until the run completes
+  settings: jsonb("settings").$type<RetrievalEvalSettings>(),
+  summary: jsonb("summary").$type<RetrievalEvalSummary>(),
+  results: jsonb("results").$type<Array<{
+    questionId: string;
+    retrievedCorpusItemIds: string[];
+    firstRelevantRank: number | null;
+    recallAtK: number;
+  }>>(),
+  durationMs: integer("duration_ms"),
+  error: text("error"),
+  jobId: varchar("job_id"),
+  createdByWallet: varchar("created_by_wallet"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type RetrievalEvalSet = typeof retrievalEvalSets.$inferSelect;
+export type RetrievalEvalQuestion = typeof retrievalEvalQuestions.$inferSelect;
+export type RetrievalEvalRun = typeof retrievalEvalRuns.$inferSelect;
+
 // Insert schemas
 export const insertTrackSchema = createInsertSchema(tracks).omit({ id: true, createdAt: true });
 export type InsertTrack = z.infer<typeof insertTrackSchema>;